@@ -0,0 +1,264 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { generateKeyBetween } from 'fractional-indexing'
+import { generateFeatureFilename, getTitleFromContent } from '../shared/types'
+import type { Feature, FeatureStatus, Priority } from '../shared/types'
+import { parseFeatureFile, serializeFeature } from '../shared/featureFrontmatter'
+import { getFeatureFilePath, moveFeatureFile, type FeatureFileSystem } from '../shared/featureFiles'
+import { getCompletedAtAfterMove, getStatusHistoryAfterMove, isDoneStatus } from '../shared/statuses'
+import { parseChecklist, toggleChecklistItem } from '../shared/checklist'
+import { appendComment } from '../shared/comments'
+import { allocateCardKeys, nodeKeyCounterFs } from '../shared/cardKeys'
+import { CliError, type CliBoard } from './config'
+
+export const PRIORITIES: Priority[] = ['critical', 'high', 'medium', 'low']
+
+/** Fields `add` and `edit` can set; `null` clears an optional field. */
+export interface FeatureChanges {
+  status?: FeatureStatus
+  priority?: Priority
+  assignee?: string | null
+  epic?: string | null
+  dueDate?: string | null
+  addLabels?: string[]
+  removeLabels?: string[]
+  /** Replaces the markdown body, title heading included */
+  content?: string
+  /** Checklist items to tick, by position in the body's task list */
+  checkItems?: number[]
+}
+
+const nodeFs: FeatureFileSystem = {
+  exists: async filePath => {
+    try {
+      await fs.stat(filePath)
+      return true
+    } catch {
+      return false
+    }
+  },
+  createDirectory: async dirPath => { await fs.mkdir(dirPath, { recursive: true }) },
+  rename: (source, target) => fs.rename(source, target)
+}
+
+const byOrder = (a: Feature, b: Feature) => (a.order < b.order ? -1 : a.order > b.order ? 1 : 0)
+
+/** Cards in the features directory and its done/ folder, in board order. */
+export async function loadFeatures(board: CliBoard): Promise<Feature[]> {
+  const features: Feature[] = []
+  for (const dir of [board.featuresDir, path.join(board.featuresDir, 'done')]) {
+    let names: string[]
+    try {
+      names = await fs.readdir(dir)
+    } catch {
+      continue
+    }
+    for (const name of names.filter(n => n.endsWith('.md'))) {
+      const filePath = path.join(dir, name)
+      try {
+        const feature = parseFeatureFile(await fs.readFile(filePath, 'utf-8'), filePath)
+        if (feature) features.push(feature)
+      } catch {
+        // Skip unreadable files and subfolders named like cards
+      }
+    }
+  }
+
+  const columnIndex = (status: string) => {
+    const index = board.columns.findIndex(c => c.id === status)
+    return index === -1 ? board.columns.length : index
+  }
+  return features.sort((a, b) => columnIndex(a.status) - columnIndex(b.status) || byOrder(a, b))
+}
+
+/** Finds a card by id or key, or by an id prefix that matches a single card. */
+export function findFeature(features: Feature[], id: string): Feature {
+  const exact = features.find(f => f.id === id) ?? features.find(f => f.key?.toUpperCase() === id.toUpperCase())
+  if (exact) return exact
+  const matches = features.filter(f => f.id.startsWith(id))
+  if (matches.length === 1) return matches[0]
+  if (matches.length > 1) {
+    throw new CliError(`"${id}" matches several cards: ${matches.map(f => f.id).join(', ')}`)
+  }
+  throw new CliError(`no card with id "${id}"`)
+}
+
+function assertStatus(board: CliBoard, status: string): void {
+  if (!board.columns.some(c => c.id === status)) {
+    throw new CliError(`unknown status "${status}"; columns are ${board.columns.map(c => c.id).join(', ')}`)
+  }
+}
+
+function assertPriority(priority: string): void {
+  if (!PRIORITIES.includes(priority as Priority)) {
+    throw new CliError(`unknown priority "${priority}"; use ${PRIORITIES.join(', ')}`)
+  }
+}
+
+function assertDueDate(dueDate: string | null | undefined): void {
+  if (dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
+    throw new CliError(`due date "${dueDate}" is not in YYYY-MM-DD form`)
+  }
+}
+
+// Order key for a card added to either end of a column
+function getEdgeOrder(features: Feature[], status: FeatureStatus, top: boolean, excludeId?: string): string {
+  const inColumn = features.filter(f => f.status === status && f.id !== excludeId).sort(byOrder)
+  if (inColumn.length === 0) return generateKeyBetween(null, null)
+  return top
+    ? generateKeyBetween(null, inColumn[0].order)
+    : generateKeyBetween(inColumn[inColumn.length - 1].order, null)
+}
+
+async function writeFeature(feature: Feature): Promise<void> {
+  await fs.mkdir(path.dirname(feature.filePath), { recursive: true })
+  await fs.writeFile(feature.filePath, serializeFeature(feature), 'utf-8')
+}
+
+/** Creates a card titled `title`, placed like the board places new cards. */
+export async function addFeature(
+  board: CliBoard,
+  title: string,
+  changes: FeatureChanges,
+  body = '',
+  now = new Date()
+): Promise<Feature> {
+  if (!title.trim()) throw new CliError('a title is required')
+  const status = changes.status ?? board.defaultStatus
+  const priority = changes.priority ?? board.defaultPriority
+  assertStatus(board, status)
+  assertPriority(priority)
+  assertDueDate(changes.dueDate)
+
+  const features = await loadFeatures(board)
+  const filename = generateFeatureFilename(title, board.filenamePattern, now)
+  let id = filename
+  let filePath = getFeatureFilePath(board.featuresDir, status, id, board.columns)
+  for (let counter = 1; await nodeFs.exists(filePath); counter++) {
+    id = `${filename}-${counter}`
+    filePath = getFeatureFilePath(board.featuresDir, status, id, board.columns)
+  }
+
+  const timestamp = now.toISOString()
+  const feature: Feature = {
+    id,
+    status,
+    priority,
+    assignee: changes.assignee ?? null,
+    epic: changes.epic ?? null,
+    dueDate: changes.dueDate ?? null,
+    created: timestamp,
+    modified: timestamp,
+    completedAt: isDoneStatus(status, board.columns) ? timestamp : null,
+    labels: [...new Set(changes.addLabels ?? [])],
+    order: getEdgeOrder(features, status, board.addNewCardsToTop),
+    statusHistory: [{ status, at: timestamp }],
+    content: `# ${title.trim()}${body.trim() ? '\n\n' + body.trim() : ''}`,
+    filePath
+  }
+  await fs.mkdir(board.featuresDir, { recursive: true })
+  feature.key = (await allocateCardKeys(nodeKeyCounterFs, board.featuresDir, board.keyPrefix, [...features, feature])).get(filePath)
+  await writeFeature(feature)
+  return feature
+}
+
+/**
+ * Applies field changes to a card. A status change puts the card at the end of
+ * its new column and moves the file across the done/ boundary when needed.
+ */
+export async function updateFeature(
+  board: CliBoard,
+  id: string,
+  changes: FeatureChanges,
+  now = new Date()
+): Promise<Feature> {
+  if (changes.status !== undefined) assertStatus(board, changes.status)
+  if (changes.priority !== undefined) assertPriority(changes.priority)
+  assertDueDate(changes.dueDate)
+
+  const features = await loadFeatures(board)
+  const feature = findFeature(features, id)
+  const timestamp = now.toISOString()
+  const oldStatus = feature.status
+
+  if (changes.status !== undefined && changes.status !== oldStatus) {
+    feature.status = changes.status
+    feature.order = getEdgeOrder(features, changes.status, false, feature.id)
+    feature.completedAt = getCompletedAtAfterMove(feature.completedAt, oldStatus, changes.status, board.columns, timestamp)
+    feature.statusHistory = getStatusHistoryAfterMove(feature, oldStatus, changes.status, timestamp)
+  }
+  if (changes.priority !== undefined) feature.priority = changes.priority
+  if (changes.assignee !== undefined) feature.assignee = changes.assignee
+  if (changes.epic !== undefined) feature.epic = changes.epic
+  if (changes.dueDate !== undefined) feature.dueDate = changes.dueDate
+  if (changes.addLabels || changes.removeLabels) {
+    const removed = new Set(changes.removeLabels ?? [])
+    feature.labels = [...new Set([...feature.labels, ...(changes.addLabels ?? [])])].filter(l => !removed.has(l))
+  }
+  if (changes.content !== undefined) feature.content = changes.content.trim()
+  for (const index of changes.checkItems ?? []) {
+    const item = parseChecklist(feature.content)[index]
+    if (!item) throw new CliError(`card "${feature.id}" has no checklist item ${index}`)
+    if (!item.checked) feature.content = toggleChecklistItem(feature.content, index)
+  }
+  feature.modified = timestamp
+
+  await writeFeature(feature)
+  if (isDoneStatus(oldStatus, board.columns) !== isDoneStatus(feature.status, board.columns)) {
+    feature.filePath = await moveFeatureFile(feature.filePath, board.featuresDir, feature.status, nodeFs, board.columns)
+  }
+  return feature
+}
+
+/** Adds a comment to the card's `## Comments` section. */
+export async function addComment(
+  board: CliBoard,
+  id: string,
+  text: string,
+  author: string,
+  now = new Date()
+): Promise<Feature> {
+  if (!text.trim()) throw new CliError('a comment needs text')
+  const feature = findFeature(await loadFeatures(board), id)
+  feature.content = appendComment(feature.content, { author, text, at: now.toISOString() })
+  feature.modified = now.toISOString()
+  await writeFeature(feature)
+  return feature
+}
+
+/** One line per card: id, status, priority and title. */
+export function formatFeatureList(features: Feature[]): string {
+  if (features.length === 0) return 'No cards.'
+  const idWidth = Math.max(...features.map(f => f.id.length))
+  const statusWidth = Math.max(...features.map(f => f.status.length))
+  return features.map(f => [
+    f.id.padEnd(idWidth),
+    f.status.padEnd(statusWidth),
+    f.priority.padEnd(8),
+    getTitleFromContent(f.content)
+  ].join('  ')).join('\n')
+}
+
+/** The card's fields followed by its markdown body. */
+export function formatFeature(feature: Feature): string {
+  const fields: [string, string | null][] = [
+    ['id', feature.id],
+    ['key', feature.key ?? null],
+    ['status', feature.status],
+    ['priority', feature.priority],
+    ['assignee', feature.assignee],
+    ['epic', feature.epic],
+    ['due', feature.dueDate],
+    ['labels', feature.labels.join(', ') || null],
+    ['created', feature.created],
+    ['modified', feature.modified],
+    ['file', feature.filePath]
+  ]
+  const lines = fields.filter(([, value]) => value).map(([key, value]) => `${`${key}:`.padEnd(10)}${value}`)
+  return `${lines.join('\n')}\n\n${feature.content}`
+}
+
+/** JSON for `--json` output, leaving out the parser's copy of the raw frontmatter. */
+export function toJson(value: Feature | Feature[]): string {
+  return JSON.stringify(value, (key, field) => key === 'frontmatterSource' ? undefined : field, 2)
+}
@@ -0,0 +1,159 @@
+import { parseArgs } from 'util'
+import { version } from '../../package.json'
+import type { Feature, FeatureStatus, Priority } from '../shared/types'
+import { addFeature, findFeature, formatFeature, formatFeatureList, loadFeatures, toJson, updateFeature, type FeatureChanges } from './board'
+import { CliError, loadBoard } from './config'
+import { serveMcp } from './mcp'
+
+export interface CliIo {
+  cwd: string
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+  /** Read by `mcp`, which serves requests until it closes */
+  stdin?: NodeJS.ReadableStream
+}
+
+export const USAGE = `Usage: kanban-md <command> [options]
+
+Commands:
+  list                    List cards (filter with --status, --label, --assignee, --priority)
+  add <title>             Create a card
+  move <id> <status>      Move a card to the end of another column
+  show <id>               Print a card
+  edit <id>               Change a card's fields
+  mcp                     Serve the board to AI agents as an MCP server over stdio
+
+  <id> is a card's id, a unique prefix of it, or its key (e.g. KM-42).
+
+Card options (add, edit):
+  --status <id>           Column id
+  --priority <level>      critical, high, medium or low
+  --assignee <name>       Assignee; "" clears it
+  --epic <name>           Epic; "" clears it
+  --due <YYYY-MM-DD>      Due date; "" clears it
+  --label <name>          Add a label (repeatable)
+  --unlabel <name>        Remove a label (edit, repeatable)
+  --body <text>           Description below the title (add)
+
+Global options:
+  --dir <path>            Features directory (default: from .vscode/settings.json)
+  --board <name>          Board from the kanban-markdown.boards setting
+  --json                  Print JSON instead of text
+  -h, --help              Show this help
+
+Ids may be shortened to any prefix that matches a single card.`
+
+const OPTIONS = {
+  status: { type: 'string' },
+  priority: { type: 'string' },
+  assignee: { type: 'string' },
+  epic: { type: 'string' },
+  due: { type: 'string' },
+  label: { type: 'string', multiple: true },
+  unlabel: { type: 'string', multiple: true },
+  body: { type: 'string' },
+  dir: { type: 'string' },
+  board: { type: 'string' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' }
+} as const
+
+type Values = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values']
+
+// An empty option value clears the field
+const optional = (value: string | undefined): string | null | undefined =>
+  value === undefined ? undefined : value.trim() || null
+
+function getChanges(values: Values): FeatureChanges {
+  return {
+    status: values.status as FeatureStatus | undefined,
+    priority: values.priority as Priority | undefined,
+    assignee: optional(values.assignee),
+    epic: optional(values.epic),
+    dueDate: optional(values.due),
+    addLabels: values.label,
+    removeLabels: values.unlabel
+  }
+}
+
+function requireArgs(args: string[], count: number, usage: string): void {
+  if (args.length < count) throw new CliError(`usage: kanban-md ${usage}`)
+}
+
+/** Runs one command line and returns the exit code. */
+export async function run(argv: string[], io: CliIo): Promise<number> {
+  let parsed: ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true })
+  } catch (err) {
+    io.stderr(`kanban-md: ${(err as Error).message}\n\n${USAGE}`)
+    return 2
+  }
+
+  const { values, positionals } = parsed
+  const [command, ...args] = positionals
+  if (values.help || !command) {
+    io.stdout(USAGE)
+    return values.help ? 0 : 2
+  }
+
+  if (command === 'mcp') {
+    if (!io.stdin) throw new Error('mcp needs standard input')
+    // Each tool call reloads the settings, so edits made while serving apply
+    await serveMcp(io.stdin, io.stdout, { cwd: io.cwd, dir: values.dir, board: values.board }, version)
+    return 0
+  }
+
+  try {
+    const board = await loadBoard({ cwd: io.cwd, dir: values.dir, board: values.board })
+    const print = (json: Feature | Feature[], text: string) => io.stdout(values.json ? toJson(json) : text)
+
+    switch (command) {
+      case 'list': {
+        const features = (await loadFeatures(board)).filter(f =>
+          (!values.status || f.status === values.status) &&
+          (!values.priority || f.priority === values.priority) &&
+          (!values.assignee || f.assignee === values.assignee) &&
+          (values.label ?? []).every(label => f.labels.includes(label))
+        )
+        print(features, formatFeatureList(features))
+        return 0
+      }
+      case 'add': {
+        requireArgs(args, 1, 'add <title>')
+        const feature = await addFeature(board, args.join(' '), getChanges(values), values.body)
+        print(feature, `Created ${feature.id}`)
+        return 0
+      }
+      case 'move': {
+        requireArgs(args, 2, 'move <id> <status>')
+        const feature = await updateFeature(board, args[0], { status: args[1] })
+        print(feature, `Moved ${feature.id} to ${feature.status}`)
+        return 0
+      }
+      case 'show': {
+        requireArgs(args, 1, 'show <id>')
+        const feature = findFeature(await loadFeatures(board), args[0])
+        print(feature, formatFeature(feature))
+        return 0
+      }
+      case 'edit': {
+        requireArgs(args, 1, 'edit <id>')
+        const changes = getChanges(values)
+        if (Object.values(changes).every(value => value === undefined)) {
+          throw new CliError('nothing to change; pass options like --assignee or --priority')
+        }
+        const feature = await updateFeature(board, args[0], changes)
+        print(feature, `Updated ${feature.id}`)
+        return 0
+      }
+      default:
+        io.stderr(`kanban-md: unknown command "${command}"\n\n${USAGE}`)
+        return 2
+    }
+  } catch (err) {
+    if (!(err instanceof CliError)) throw err
+    io.stderr(`kanban-md: ${err.message}`)
+    return 1
+  }
+}
@@ -0,0 +1,78 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import type { FeatureStatus, FilenamePattern, KanbanColumn, Priority } from '../shared/types'
+import { sanitizeBoards } from '../shared/boards'
+import { sanitizeColumns } from '../shared/statuses'
+import { stripJsonComments } from '../shared/jsonc'
+import { DEFAULT_KEY_PREFIX, sanitizeKeyPrefix } from '../shared/cardKeys'
+
+/** The board settings the CLI works with, read from the workspace's `.vscode/settings.json`. */
+export interface CliBoard {
+  featuresDir: string
+  columns: KanbanColumn[]
+  filenamePattern: FilenamePattern
+  keyPrefix: string
+  defaultStatus: FeatureStatus
+  defaultPriority: Priority
+  addNewCardsToTop: boolean
+}
+
+export interface BoardOptions {
+  /** Workspace root; settings and relative directories resolve against it */
+  cwd: string
+  /** Features directory overriding the settings */
+  dir?: string
+  /** Name of a board from the `boards` setting */
+  board?: string
+}
+
+export class CliError extends Error {}
+
+async function readSettings(cwd: string): Promise<Record<string, unknown>> {
+  const settingsPath = path.join(cwd, '.vscode', 'settings.json')
+  let text: string
+  try {
+    text = await fs.readFile(settingsPath, 'utf-8')
+  } catch {
+    return {}
+  }
+  try {
+    const settings: unknown = JSON.parse(stripJsonComments(text))
+    return settings && typeof settings === 'object' ? settings as Record<string, unknown> : {}
+  } catch {
+    throw new CliError(`could not parse ${settingsPath}`)
+  }
+}
+
+/** Resolves the features directory, columns and defaults the same way the extension does. */
+export async function loadBoard(options: BoardOptions): Promise<CliBoard> {
+  const settings = await readSettings(options.cwd)
+  const get = (key: string): unknown => settings[`kanban-markdown.${key}`]
+
+  let featuresDirectory = typeof get('featuresDirectory') === 'string' && get('featuresDirectory')
+    ? get('featuresDirectory') as string
+    : '.devtool/features'
+  let columns = sanitizeColumns(get('columns'))
+  let filenamePattern = (get('filenamePattern') as FilenamePattern | undefined) ?? 'name-date'
+  let keyPrefix = sanitizeKeyPrefix(get('keyPrefix')) ?? DEFAULT_KEY_PREFIX
+
+  if (options.board !== undefined) {
+    const board = sanitizeBoards(get('boards')).find(b => b.name === options.board)
+    if (!board) throw new CliError(`no board named "${options.board}" in the boards setting`)
+    featuresDirectory = board.featuresDirectory
+    columns = board.columns ?? columns
+    filenamePattern = board.filenamePattern ?? filenamePattern
+    keyPrefix = board.keyPrefix ?? keyPrefix
+  }
+
+  const defaultStatus = get('defaultStatus') ?? 'backlog'
+  return {
+    featuresDir: path.resolve(options.cwd, options.dir ?? featuresDirectory),
+    columns,
+    filenamePattern,
+    keyPrefix,
+    defaultStatus: columns.some(c => c.id === defaultStatus) ? defaultStatus as FeatureStatus : columns[0].id,
+    defaultPriority: (get('defaultPriority') as Priority | undefined) ?? 'medium',
+    addNewCardsToTop: get('addNewCardsToTop') === true
+  }
+}
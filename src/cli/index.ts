@@ -0,0 +1,15 @@
+import { run } from './commands'
+
+// Entry point of the kanban-md command-line tool (dist/cli.js)
+run(process.argv.slice(2), {
+  cwd: process.cwd(),
+  stdout: text => process.stdout.write(text + '\n'),
+  stderr: text => process.stderr.write(text + '\n'),
+  stdin: process.stdin
+}).then(
+  code => { process.exitCode = code },
+  err => {
+    process.stderr.write(`kanban-md: ${err instanceof Error ? err.message : String(err)}\n`)
+    process.exitCode = 1
+  }
+)
@@ -0,0 +1,252 @@
+import * as readline from 'readline'
+import { getTitleFromContent } from '../shared/types'
+import type { Feature, FeatureStatus, Priority } from '../shared/types'
+import { getChecklistProgress, parseChecklist } from '../shared/checklist'
+import { addComment, addFeature, findFeature, loadFeatures, PRIORITIES, toJson, updateFeature } from './board'
+import { CliError, loadBoard, type BoardOptions } from './config'
+
+// Model Context Protocol over stdio: one JSON-RPC 2.0 message per line
+
+const MCP_SERVER_NAME = 'kanban-markdown'
+const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05']
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0'
+  id?: string | number | null
+  method?: string
+  params?: Record<string, unknown>
+}
+
+type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: string | number | null; result: unknown }
+  | { jsonrpc: '2.0'; id: string | number | null; error: { code: number; message: string } }
+
+interface McpTool {
+  name: string
+  description: string
+  inputSchema: Record<string, unknown>
+  call(args: Record<string, unknown>, options: BoardOptions): Promise<unknown>
+}
+
+const str = { type: 'string' }
+const strList = { type: 'array', items: str }
+const idParam = { id: { type: 'string', description: 'Card id (the filename without .md) or key (e.g. KM-42); a unique id prefix also works' } }
+const fieldParams = {
+  priority: { type: 'string', enum: PRIORITIES },
+  assignee: { type: 'string', description: 'Empty string clears it' },
+  epic: { type: 'string', description: 'Empty string clears it' },
+  dueDate: { type: 'string', description: 'YYYY-MM-DD; empty string clears it' }
+}
+
+const optional = (value: unknown): string | null | undefined =>
+  typeof value === 'string' ? value.trim() || null : undefined
+
+const stringList = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : undefined
+
+function requireString(args: Record<string, unknown>, key: string): string {
+  const value = args[key]
+  if (typeof value !== 'string' || !value.trim()) throw new CliError(`"${key}" is required`)
+  return value
+}
+
+// Lists stay small; get_feature returns the full card
+function summarize(feature: Feature) {
+  return {
+    id: feature.id,
+    key: feature.key,
+    title: getTitleFromContent(feature.content),
+    status: feature.status,
+    priority: feature.priority,
+    assignee: feature.assignee,
+    epic: feature.epic,
+    dueDate: feature.dueDate,
+    labels: feature.labels,
+    checklist: getChecklistProgress(feature.content)
+  }
+}
+
+const TOOLS: McpTool[] = [
+  {
+    name: 'list_features',
+    description: 'List cards on the kanban board, optionally filtered. Returns ids, titles, fields and checklist progress.',
+    inputSchema: {
+      type: 'object',
+      properties: { status: str, label: str, assignee: str, priority: fieldParams.priority }
+    },
+    async call(args, options) {
+      const board = await loadBoard(options)
+      const features = (await loadFeatures(board)).filter(f =>
+        (!args.status || f.status === args.status) &&
+        (!args.label || f.labels.includes(args.label as string)) &&
+        (!args.assignee || f.assignee === args.assignee) &&
+        (!args.priority || f.priority === args.priority)
+      )
+      return { columns: board.columns.map(c => ({ id: c.id, name: c.name })), features: features.map(summarize) }
+    }
+  },
+  {
+    name: 'get_feature',
+    description: 'Get a card with its full markdown spec and its checklist items, numbered for update_feature.',
+    inputSchema: { type: 'object', properties: idParam, required: ['id'] },
+    async call(args, options) {
+      const feature = findFeature(await loadFeatures(await loadBoard(options)), requireString(args, 'id'))
+      return {
+        ...JSON.parse(toJson(feature)),
+        checklist: parseChecklist(feature.content).map((item, index) => ({ index, text: item.text, checked: item.checked }))
+      }
+    }
+  },
+  {
+    name: 'create_feature',
+    description: 'Create a card. Status defaults to the board\'s default column.',
+    inputSchema: {
+      type: 'object',
+      properties: { title: str, body: { type: 'string', description: 'Markdown below the title' }, status: str, ...fieldParams, labels: strList },
+      required: ['title']
+    },
+    async call(args, options) {
+      const feature = await addFeature(await loadBoard(options), requireString(args, 'title'), {
+        status: args.status as FeatureStatus | undefined,
+        priority: args.priority as Priority | undefined,
+        assignee: optional(args.assignee),
+        epic: optional(args.epic),
+        dueDate: optional(args.dueDate),
+        addLabels: stringList(args.labels)
+      }, typeof args.body === 'string' ? args.body : '')
+      return summarize(feature)
+    }
+  },
+  {
+    name: 'update_feature',
+    description: 'Change a card\'s fields, replace its markdown body, or tick checklist items by their get_feature index.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...idParam,
+        ...fieldParams,
+        addLabels: strList,
+        removeLabels: strList,
+        content: { type: 'string', description: 'New markdown body, including the # title heading' },
+        checkItems: { type: 'array', items: { type: 'integer' }, description: 'Checklist item indexes to mark done' }
+      },
+      required: ['id']
+    },
+    async call(args, options) {
+      const feature = await updateFeature(await loadBoard(options), requireString(args, 'id'), {
+        priority: args.priority as Priority | undefined,
+        assignee: optional(args.assignee),
+        epic: optional(args.epic),
+        dueDate: optional(args.dueDate),
+        addLabels: stringList(args.addLabels),
+        removeLabels: stringList(args.removeLabels),
+        content: typeof args.content === 'string' ? args.content : undefined,
+        checkItems: Array.isArray(args.checkItems) ? args.checkItems.filter(Number.isInteger) as number[] : undefined
+      })
+      return summarize(feature)
+    }
+  },
+  {
+    name: 'move_feature',
+    description: 'Move a card to the end of another column, e.g. to review when the work is finished.',
+    inputSchema: { type: 'object', properties: { ...idParam, status: { type: 'string', description: 'Column id' } }, required: ['id', 'status'] },
+    async call(args, options) {
+      const feature = await updateFeature(await loadBoard(options), requireString(args, 'id'), {
+        status: requireString(args, 'status')
+      })
+      return summarize(feature)
+    }
+  },
+  {
+    name: 'add_comment',
+    description: 'Add a comment to the card\'s Comments section, e.g. a progress note or a question for the team.',
+    inputSchema: {
+      type: 'object',
+      properties: { ...idParam, text: str, author: { type: 'string', description: 'Defaults to "agent"' } },
+      required: ['id', 'text']
+    },
+    async call(args, options) {
+      const author = typeof args.author === 'string' && args.author.trim() ? args.author.trim() : 'agent'
+      const feature = await addComment(await loadBoard(options), requireString(args, 'id'), requireString(args, 'text'), author)
+      return summarize(feature)
+    }
+  }
+]
+
+/**
+ * Answers one JSON-RPC message. Returns null for notifications. Tool failures
+ * caused by bad input come back as tool results flagged `isError`, so the agent
+ * can read the message and retry.
+ */
+export async function handleMcpMessage(
+  message: JsonRpcMessage,
+  options: BoardOptions,
+  version: string
+): Promise<JsonRpcResponse | null> {
+  if (message.id === undefined) return null
+  const id = message.id
+  const params = message.params ?? {}
+
+  switch (message.method) {
+    case 'initialize': {
+      const requested = params.protocolVersion as string | undefined
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          protocolVersion: requested && PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {} },
+          serverInfo: { name: MCP_SERVER_NAME, version }
+        }
+      }
+    }
+    case 'ping':
+      return { jsonrpc: '2.0', id, result: {} }
+    case 'tools/list':
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: { tools: TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })) }
+      }
+    case 'tools/call': {
+      const tool = TOOLS.find(t => t.name === params.name)
+      if (!tool) return { jsonrpc: '2.0', id, error: { code: -32602, message: `Unknown tool: ${String(params.name)}` } }
+      try {
+        const result = await tool.call((params.arguments ?? {}) as Record<string, unknown>, options)
+        return { jsonrpc: '2.0', id, result: { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] } }
+      } catch (err) {
+        if (!(err instanceof CliError)) throw err
+        return { jsonrpc: '2.0', id, result: { content: [{ type: 'text', text: err.message }], isError: true } }
+      }
+    }
+    default:
+      return { jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${String(message.method)}` } }
+  }
+}
+
+/** Serves MCP requests from `input` until it closes, writing one response line per request. */
+export async function serveMcp(
+  input: NodeJS.ReadableStream,
+  write: (line: string) => void,
+  options: BoardOptions,
+  version: string
+): Promise<void> {
+  const lines = readline.createInterface({ input, crlfDelay: Infinity })
+  for await (const line of lines) {
+    if (!line.trim()) continue
+    let message: JsonRpcMessage
+    try {
+      message = JSON.parse(line)
+    } catch {
+      write(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }))
+      continue
+    }
+    let response: JsonRpcResponse | null
+    try {
+      response = await handleMcpMessage(message, options, version)
+    } catch (err) {
+      response = { jsonrpc: '2.0', id: message.id ?? null, error: { code: -32603, message: err instanceof Error ? err.message : String(err) } }
+    }
+    if (response) write(JSON.stringify(response))
+  }
+}
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode'
+import { getTitleFromContent } from '../shared/types'
+import { DEFAULT_REFERENCE_TRIGGER, findCardReferences, getCardReferenceAt, getCommentStart, getCompletionStart } from '../shared/cardReferences'
+import { getFeatureIndex, type FeatureIndex, type IndexedFeature } from './featureIndex'
+import { t } from './l10n'
+
+// Source files, unsaved editors and the source control commit message box
+const SELECTOR: vscode.DocumentSelector = [{ scheme: 'file' }, { scheme: 'untitled' }, { scheme: 'vscode-scm' }]
+
+function getTrigger(): string {
+  return vscode.workspace.getConfiguration('kanban-markdown').get<string>('referenceTrigger', DEFAULT_REFERENCE_TRIGGER).trim()
+}
+
+/**
+ * Language features for cards mentioned in markdown and code comments, by key
+ * (`KM-42`) or by id (`feature:add-login-2025-01-02`): a hover with the card's
+ * fields, go to definition and links to its file, and key completion after
+ * the `referenceTrigger`.
+ */
+export class CardReferenceProvider implements
+  vscode.HoverProvider,
+  vscode.DefinitionProvider,
+  vscode.DocumentLinkProvider,
+  vscode.CompletionItemProvider {
+  constructor(private readonly _index: FeatureIndex) {}
+
+  public static register(): vscode.Disposable {
+    const provider = new CardReferenceProvider(getFeatureIndex())
+    // Trigger characters are fixed at registration, so a new trigger re-registers completion
+    const registerCompletion = () => {
+      const trigger = getTrigger()
+      return vscode.languages.registerCompletionItemProvider(SELECTOR, provider, ...(trigger ? [trigger.slice(-1)] : []))
+    }
+    let completion = registerCompletion()
+
+    return vscode.Disposable.from(
+      vscode.languages.registerHoverProvider(SELECTOR, provider),
+      vscode.languages.registerDefinitionProvider(SELECTOR, provider),
+      vscode.languages.registerDocumentLinkProvider(SELECTOR, provider),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (!e.affectsConfiguration('kanban-markdown.referenceTrigger')) return
+        completion.dispose()
+        completion = registerCompletion()
+      }),
+      { dispose: () => completion.dispose() }
+    )
+  }
+
+  public async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+    const found = await this._resolve(document, position)
+    return found && new vscode.Hover(this._describe(found.card), found.range)
+  }
+
+  public async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.LocationLink[] | undefined> {
+    const found = await this._resolve(document, position)
+    if (!found) return undefined
+    return [{
+      originSelectionRange: found.range,
+      targetUri: vscode.Uri.file(found.card.feature.filePath),
+      targetRange: new vscode.Range(0, 0, 0, 0)
+    }]
+  }
+
+  public async provideDocumentLinks(document: vscode.TextDocument): Promise<vscode.DocumentLink[]> {
+    const links: vscode.DocumentLink[] = []
+    for (let line = 0; line < document.lineCount; line++) {
+      for (const ref of findCardReferences(document.lineAt(line).text, document.languageId)) {
+        const card = await this._index.find(ref.reference, document.uri)
+        if (!card) continue
+        const link = new vscode.DocumentLink(new vscode.Range(line, ref.start, line, ref.end), vscode.Uri.file(card.feature.filePath))
+        link.tooltip = getTitleFromContent(card.feature.content)
+        links.push(link)
+      }
+    }
+    return links
+  }
+
+  public async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionItem[] | undefined> {
+    const trigger = getTrigger()
+    const line = document.lineAt(position.line).text
+    const start = getCompletionStart(line.slice(0, position.character), trigger)
+    const commentStart = getCommentStart(line, document.languageId)
+    // A trigger that is itself the comment token, like `#` in Python, does not count
+    if (start === undefined || commentStart === undefined || start <= commentStart) return undefined
+
+    const range = new vscode.Range(position.line, start, position.line, position.character)
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri)
+    return (await this._index.getFeatures())
+      .filter(card => card.feature.key && (!folder || card.folder.uri.toString() === folder.uri.toString()))
+      .map(card => {
+        const key = card.feature.key!
+        const title = getTitleFromContent(card.feature.content)
+        const item = new vscode.CompletionItem({ label: key, description: title }, vscode.CompletionItemKind.Reference)
+        item.range = range
+        item.insertText = key
+        // Typing after the trigger filters by key or title
+        item.filterText = `${trigger}${key} ${title}`
+        item.sortText = key.replace(/\d+$/, number => number.padStart(8, '0'))
+        item.documentation = this._describe(card)
+        return item
+      })
+  }
+
+  private async _resolve(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<{ card: IndexedFeature; range: vscode.Range } | undefined> {
+    const ref = getCardReferenceAt(document.lineAt(position.line).text, document.languageId, position.character)
+    const card = ref && await this._index.find(ref.reference, document.uri)
+    return card ? { card, range: new vscode.Range(position.line, ref.start, position.line, ref.end) } : undefined
+  }
+
+  private _describe({ feature, board }: IndexedFeature): vscode.MarkdownString {
+    const status = board.columns.find(c => c.id === feature.status)?.name ?? feature.status
+    const fields = [
+      `${t('property.status')}: ${status}`,
+      `${t('property.priority')}: ${t(`priority.${feature.priority}`)}`,
+      `${t('property.assignee')}: ${feature.assignee ?? t('editor.noAssignee')}`
+    ]
+    const markdown = new vscode.MarkdownString()
+    markdown.appendMarkdown(`**${feature.key ?? feature.id}** · `)
+    markdown.appendText(getTitleFromContent(feature.content))
+    markdown.appendMarkdown('\n\n')
+    markdown.appendText(fields.join(' · '))
+    return markdown
+  }
+}
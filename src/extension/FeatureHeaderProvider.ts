@@ -1,8 +1,14 @@
 import * as vscode from 'vscode'
 import * as crypto from 'crypto'
-import * as path from 'path'
 import type { FeatureFrontmatter, EditorExtensionMessage, EditorWebviewMessage } from '../shared/editorTypes'
-import type { FeatureStatus, Priority, AIAgent } from '../shared/types'
+import type { Feature, KanbanColumn } from '../shared/types'
+import { parseFeatureFile, serializeFeature } from '../shared/featureFrontmatter'
+import { buildAgentPrompt } from '../shared/prompts'
+import { getCompletedAtAfterMove, getStatusHistoryAfterMove } from '../shared/statuses'
+import { getAgentExitColumn, getAgentStartColumn } from '../shared/agents'
+import { getBoardForFeatureFile } from './boards'
+import { getAgentSessions, getConfiguredAgents, getPromptTemplate, offerCardMove, type AgentSessionEnd } from './agentSessions'
+import { getMcpInstructions, prepareMcpServer } from './mcpRegistration'
 
 /**
  * Provides a webview panel that shows feature metadata (frontmatter) as a header.
@@ -14,11 +20,16 @@ export class FeatureHeaderProvider implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView
   private _currentDocument?: vscode.TextDocument
   private _disposables: vscode.Disposable[] = []
+  /** Files of the cards this header started an agent on, awaiting the agent's exit */
+  private readonly _launchedAgents = new Map<string, vscode.Uri>()
 
-  constructor(private readonly _extensionUri: vscode.Uri) {}
+  constructor(
+    private readonly _extensionUri: vscode.Uri,
+    private readonly _workspaceState: vscode.Memento
+  ) {}
 
   public static register(context: vscode.ExtensionContext): vscode.Disposable {
-    const provider = new FeatureHeaderProvider(context.extensionUri)
+    const provider = new FeatureHeaderProvider(context.extensionUri, context.workspaceState)
 
     const disposables: vscode.Disposable[] = []
 
@@ -60,6 +71,8 @@ export class FeatureHeaderProvider implements vscode.WebviewViewProvider {
       })
     )
 
+    disposables.push(getAgentSessions().onDidEnd(end => provider._onAgentSessionEnded(end)))
+
     return vscode.Disposable.from(...disposables)
   }
 
@@ -101,68 +114,37 @@ export class FeatureHeaderProvider implements vscode.WebviewViewProvider {
           if (!this._currentDocument) return
           await this._currentDocument.save()
 
-          const fullText = this._currentDocument.getText()
-          const { frontmatter: fm, content: docContent } = this._parseDocument(fullText)
-
-          // Parse title from the first # heading in content
-          const titleMatch = docContent.match(/^#\s+(.+)$/m)
-          const title = titleMatch ? titleMatch[1].trim() : 'Untitled'
-
-          const labels = fm.labels.length > 0 ? ` [${fm.labels.join(', ')}]` : ''
-          const description = docContent.replace(/\n/g, ' ').replace(/\s+/g, ' ').trim()
-          const shortDesc = description.length > 200 ? description.substring(0, 200) + '...' : description
-
-          const prompt = `Implement this feature: "${title}" (${fm.priority} priority)${labels}. ${shortDesc} See full details in: ${this._currentDocument.uri.fsPath}`
-
-          const agent: AIAgent = message.agent || 'claude'
+          const uri = this._currentDocument.uri
+          const feature = parseFeatureFile(this._currentDocument.getText(), uri.fsPath)
+          if (!feature) return
+          const agents = getConfiguredAgents()
+          const agent = agents.find(a => a.id === message.agent) ?? agents[0]
           const permissionMode = message.permissionMode || 'default'
 
-          let args: string[]
-
-          switch (agent) {
-            case 'claude': {
-              args = []
-              if (permissionMode !== 'default') {
-                args.push('--permission-mode', permissionMode)
-              }
-              args.push(prompt)
-              break
-            }
-            case 'codex': {
-              const approvalMap: Record<string, string> = {
-                'default': 'ask',
-                'plan': 'ask',
-                'acceptEdits': 'auto',
-                'bypassPermissions': 'full-auto'
-              }
-              const approvalMode = approvalMap[permissionMode] || 'suggest'
-              args = ['--ask-for-approval', approvalMode, prompt]
-              break
-            }
-            case 'opencode': {
-              args = [prompt]
-              break
-            }
-            case 'copilot': {
-              args = [prompt]
-              break
-            }
-            default:
-              args = [prompt]
-          }
-
-          const agentNames: Record<string, string> = {
-            'claude': 'Claude Code',
-            'copilot': 'GitHub Copilot',
-            'codex': 'Codex',
-            'opencode': 'OpenCode'
-          }
-          const terminal = vscode.window.createTerminal({
-            name: agentNames[agent] || 'AI Agent',
-            cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+          const found = getBoardForFeatureFile(uri)
+          const mcp = found
+            ? await prepareMcpServer(this._workspaceState, this._extensionUri.fsPath, found.folder.uri.fsPath, found.board.featuresDir, agent)
+            : { enabled: false }
+          const prompt = buildAgentPrompt(
+            feature,
+            uri.fsPath,
+            await getPromptTemplate(found?.board.featuresDir),
+            mcp.enabled && found ? getMcpInstructions(feature.id, found.board.columns) : ''
+          )
+
+          await this._editFeatureFile(uri, f => {
+            f.aiSession = { agent: agent.id, permissionMode, startedAt: new Date().toISOString() }
+          })
+          await getAgentSessions().launch({
+            featureId: feature.id,
+            agent,
+            permissionMode,
+            prompt,
+            cwd: vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+            setup: mcp.setup && [mcp.setup]
           })
-          terminal.show()
-          terminal.sendText([this._shellQuote(agent), ...args.map(a => this._shellQuote(a))].join(' '))
+          this._launchedAgents.set(feature.id, uri)
+          await this._offerStartMove(uri)
           break
         }
       }
@@ -179,19 +161,73 @@ export class FeatureHeaderProvider implements vscode.WebviewViewProvider {
     this._updateViewForCurrentEditor()
   }
 
+  /** Offers to move a card an agent just started on from a to-do column to the first in-progress column. */
+  private async _offerStartMove(uri: vscode.Uri): Promise<void> {
+    const columns = getBoardForFeatureFile(uri)?.board.columns
+    const feature = await this._readFeatureFile(uri)
+    const start = feature && columns && getAgentStartColumn(feature, columns)
+    if (start) await this._offerMove(uri, feature, start, 'ai.moveOnStart')
+  }
+
+  /** When an agent started from the header exits successfully, offers to move its card on for review. */
+  private async _onAgentSessionEnded(end: AgentSessionEnd): Promise<void> {
+    const uri = this._launchedAgents.get(end.featureId)
+    this._launchedAgents.delete(end.featureId)
+    if (!uri) return
+    const columns = getBoardForFeatureFile(uri)?.board.columns
+    const feature = await this._readFeatureFile(uri)
+    const handoff = feature && columns && getAgentExitColumn(feature, columns, end.exitCode)
+    if (handoff) await this._offerMove(uri, feature, handoff, 'ai.moveOnExit', { agent: end.agentName })
+  }
+
+  private _offerMove(uri: vscode.Uri, feature: Feature, column: KanbanColumn, messageKey: string, params: Record<string, string> = {}): Promise<void> {
+    return offerCardMove(feature, column, messageKey, params, () => this._editFeatureFile(uri, f => {
+      const columns = getBoardForFeatureFile(uri)?.board.columns
+      const now = new Date().toISOString()
+      f.completedAt = getCompletedAtAfterMove(f.completedAt, f.status, column.id, columns, now)
+      f.statusHistory = getStatusHistoryAfterMove(f, f.status, column.id, now)
+      f.status = column.id
+      f.modified = now
+    }))
+  }
+
+  private async _readFeatureFile(uri: vscode.Uri): Promise<Feature | null> {
+    try {
+      const document = await vscode.workspace.openTextDocument(uri)
+      return parseFeatureFile(document.getText(), uri.fsPath)
+    } catch {
+      // Moved or deleted since the agent started
+      return null
+    }
+  }
+
+  /** Applies a change to a card through its text document, so an open editor stays in sync, and saves it. */
+  private async _editFeatureFile(uri: vscode.Uri, update: (feature: Feature) => void): Promise<void> {
+    let document: vscode.TextDocument
+    try {
+      document = await vscode.workspace.openTextDocument(uri)
+    } catch {
+      return
+    }
+    const feature = parseFeatureFile(document.getText(), uri.fsPath)
+    if (!feature) return
+    update(feature)
+
+    const edit = new vscode.WorkspaceEdit()
+    edit.replace(uri, new vscode.Range(0, 0, document.lineCount, 0), serializeFeature(feature))
+    await vscode.workspace.applyEdit(edit)
+    await document.save()
+  }
+
   private _onActiveEditorChanged(editor: vscode.TextEditor | undefined): void {
     if (!editor) {
       this._currentDocument = undefined
       return
     }
 
-    // Only track .md files in the features directory (including status subfolders)
+    // Only track .md files in a board's features directory (including status subfolders)
     const uri = editor.document.uri
-    const config = vscode.workspace.getConfiguration('kanban-markdown')
-    const featuresDirectory = config.get<string>('featuresDirectory') || '.devtool/features'
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
-    const fullFeaturesDir = workspaceRoot ? path.join(workspaceRoot, featuresDirectory) : featuresDirectory
-    if (uri.fsPath.endsWith('.md') && uri.fsPath.startsWith(fullFeaturesDir + path.sep)) {
+    if (uri.fsPath.endsWith('.md') && getBoardForFeatureFile(uri)) {
       this._currentDocument = editor.document
       this._updateViewForCurrentEditor()
     } else {
@@ -236,8 +272,8 @@ export class FeatureHeaderProvider implements vscode.WebviewViewProvider {
   private async _updateFrontmatter(frontmatter: FeatureFrontmatter): Promise<void> {
     if (!this._currentDocument) return
 
-    const { content } = this._parseDocument(this._currentDocument.getText())
-    const newText = this._serializeDocument(frontmatter, content)
+    const { content, frontmatterSource } = this._parseDocument(this._currentDocument.getText())
+    const newText = this._serializeDocument(frontmatter, content, frontmatterSource)
 
     const edit = new vscode.WorkspaceEdit()
     edit.replace(
@@ -248,48 +284,35 @@ export class FeatureHeaderProvider implements vscode.WebviewViewProvider {
     await vscode.workspace.applyEdit(edit)
   }
 
-  private _parseDocument(text: string): { frontmatter: FeatureFrontmatter; content: string } {
-    text = text.replace(/\r\n/g, '\n')
-    const frontmatterMatch = text.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/)
+  private _parseDocument(text: string): { frontmatter: FeatureFrontmatter; content: string; frontmatterSource?: string } {
+    const feature = this._currentDocument
+      ? parseFeatureFile(text, this._currentDocument.uri.fsPath)
+      : null
 
-    if (!frontmatterMatch) {
+    if (!feature) {
       return {
         frontmatter: this._getDefaultFrontmatter(),
-        content: text
+        content: text.replace(/\r\n/g, '\n')
       }
     }
 
-    const frontmatterText = frontmatterMatch[1]
-    const content = frontmatterMatch[2] || ''
-
-    const getValue = (key: string): string => {
-      const match = frontmatterText.match(new RegExp(`^${key}:\\s*(.*)$`, 'm'))
-      if (!match) return ''
-      const value = match[1].trim().replace(/^["']|["']$/g, '')
-      return value === 'null' ? '' : value
-    }
-
-    const getArrayValue = (key: string): string[] => {
-      const match = frontmatterText.match(new RegExp(`^${key}:\\s*\\[([^\\]]*)\\]`, 'm'))
-      if (!match) return []
-      return match[1].split(',').map(s => s.trim().replace(/^["']|["']$/g, '')).filter(Boolean)
-    }
-
     const frontmatter: FeatureFrontmatter = {
-      id: getValue('id') || 'unknown',
-      status: (getValue('status') as FeatureStatus) || 'backlog',
-      priority: (getValue('priority') as Priority) || 'medium',
-      assignee: getValue('assignee') || null,
-      epic: getValue('epic') || null,
-      dueDate: getValue('dueDate') || null,
-      created: getValue('created') || new Date().toISOString(),
-      modified: getValue('modified') || new Date().toISOString(),
-      completedAt: getValue('completedAt') || null,
-      labels: getArrayValue('labels'),
-      order: getValue('order') || 'a0'
+      id: feature.id,
+      status: feature.status,
+      priority: feature.priority,
+      assignee: feature.assignee,
+      epic: feature.epic,
+      dueDate: feature.dueDate,
+      created: feature.created,
+      modified: feature.modified,
+      completedAt: feature.completedAt,
+      labels: feature.labels,
+      order: feature.order,
+      blockedBy: feature.blockedBy,
+      customFields: feature.customFields
     }
 
-    return { frontmatter, content: content.trim() }
+    return { frontmatter, content: feature.content, frontmatterSource: feature.frontmatterSource }
   }
 
   private _getDefaultFrontmatter(): FeatureFrontmatter {
@@ -309,40 +332,20 @@ export class FeatureHeaderProvider implements vscode.WebviewViewProvider {
     }
   }
 
-  private _serializeDocument(frontmatter: FeatureFrontmatter, content: string): string {
-    const updatedFrontmatter = {
+  private _serializeDocument(frontmatter: FeatureFrontmatter, content: string, frontmatterSource?: string): string {
+    return serializeFeature({
       ...frontmatter,
-      modified: new Date().toISOString()
-    }
-
-    const frontmatterLines = [
-      '---',
-      `id: "${updatedFrontmatter.id}"`,
-      `status: "${updatedFrontmatter.status}"`,
-      `priority: "${updatedFrontmatter.priority}"`,
-      `assignee: ${updatedFrontmatter.assignee ? `"${updatedFrontmatter.assignee}"` : 'null'}`,
-      `epic: ${updatedFrontmatter.epic ? `"${updatedFrontmatter.epic}"` : 'null'}`,
-      `dueDate: ${updatedFrontmatter.dueDate ? `"${updatedFrontmatter.dueDate}"` : 'null'}`,
-      `created: "${updatedFrontmatter.created}"`,
-      `modified: "${updatedFrontmatter.modified}"`,
-      `completedAt: ${updatedFrontmatter.completedAt ? `"${updatedFrontmatter.completedAt}"` : 'null'}`,
-      `labels: [${frontmatter.labels.map((l: string) => `"${l}"`).join(', ')}]`,
-      `order: "${frontmatter.order}"`,
-      '---',
-      ''
-    ].join('\n')
-
-    return frontmatterLines + content
+      modified: new Date().toISOString(),
+      content,
+      filePath: this._currentDocument?.uri.fsPath ?? '',
+      frontmatterSource
+    })
   }
 
   private _getNonce(): string {
     return crypto.randomBytes(24).toString('base64url')
   }
 
-  private _shellQuote(arg: string): string {
-    return "'" + arg.replace(/'/g, "'\\''") + "'"
-  }
-
   private _getHtmlForWebview(webview: vscode.Webview): string {
     const scriptUri = webview.asWebviewUri(
       vscode.Uri.joinPath(this._extensionUri, 'dist', 'webview', 'editor.js')
@@ -3,10 +3,31 @@ import * as crypto from 'crypto'
 import * as path from 'path'
 import { generateKeyBetween, generateNKeysBetween } from 'fractional-indexing'
 import { getTitleFromContent, generateFeatureFilename } from '../shared/types'
-import type { Feature, FeatureStatus, Priority, KanbanColumn, FeatureFrontmatter, CardDisplaySettings, FilenamePattern, AIAgent, AIPermissionMode, BoardViewMode } from '../shared/types'
-import { ensureStatusSubfolders, moveFeatureFile, getFeatureFilePath, getStatusFromPath, fileExists } from './featureFileUtils'
+import type { AISession, BulkFeatureUpdate, Feature, FeatureStatus, Priority, KanbanColumn, FeatureFrontmatter, CardDisplaySettings, FilenamePattern, AIAgent, AIPermissionMode, BoardViewMode, CustomFieldDefinition, CustomFieldValue, SwimlaneGroupBy, SwimlaneLane, TableColumnKey } from '../shared/types'
+import { allocateCardKeys, ensureStatusSubfolders, moveFeatureFile, getFeatureFilePath, getStatusFromPath, fileExists } from './featureFileUtils'
 import { parseFeatureFile, serializeFeature } from '../shared/featureFrontmatter'
-import { featureMatchesEpicLane } from '../shared/epicLane'
+import { featureMatchesLane, getLaneUpdates } from '../shared/swimlanes'
+import { mergeCustomFieldEdits, normalizeCustomFields, sanitizeCustomFieldDefinitions } from '../shared/customFields'
+import { exceedsWipLimit, getColumnCategory, getCompletedAtAfterMove, getDoneColumn, getStartColumn, getStatusCategory, getStatusHistoryAfterMove, isDoneStatus, sanitizeColumns } from '../shared/statuses'
+import { getOpenBlockers, normalizeBlockedBy, renameDependencyReferences, validateDependencies } from '../shared/dependencies'
+import { isChecklistComplete } from '../shared/checklist'
+import { buildAgentPrompt } from '../shared/prompts'
+import { getAgentExitColumn, getAgentStartColumn } from '../shared/agents'
+import { getBranchMoveTarget, getFeatureBranchName } from '../shared/branches'
+import { closesFeature, getFeatureReferences, mentionsFeature, sanitizeCloseKeywords } from '../shared/commits'
+import { DEFAULT_KEY_PREFIX, sanitizeKeyPrefix } from '../shared/cardKeys'
+import { getBulkFieldUpdates } from '../shared/bulkEdit'
+import { diffFeatureActivity, snapshotActivity, type ActivitySnapshot } from '../shared/activity'
+import { planRestore } from '../shared/archive'
+import { UndoJournal, type JournalFs, type JournalResult } from './undoJournal'
+import { appendActivityLog, deleteActivityLog, getActivityUser, readActivityLog, renameActivityLog } from './activityLog'
+import { listLiveFeatureIds, moveToTrash } from './trash'
+import { getAgentSessions, getConfiguredAgents, getPromptTemplate, offerCardMove, type AgentSessionEnd } from './agentSessions'
+import { checkoutBranch, findCommits, getBaseBranch, getBranchState, getCommitsBetween, getGitDir, getHeadCommit, isAncestor } from './git'
+import { openCommitDiff } from './commitDiff'
+import { getMcpInstructions, prepareMcpServer } from './mcpRegistration'
+import { getBoardFolder } from './workspaceFolders'
+import { getActiveBoard, getBoardStateKey, listBoards, resolveBoard, setActiveBoard, type BoardSettings } from './boards'
 import { t, getBundle, getEffectiveLocale, reloadBundle, getAllDefaultColumnNames, getDefaultColumnNamesForLocale } from './l10n'
 
 function normalizeEpic(value: string | null | undefined): string | null {
@@ -14,6 +35,10 @@ function normalizeEpic(value: string | null | undefined): string | null {
   return t ? t : null
 }
 
+// git's grep also matches ids inside longer ids, so more commits are read than shown
+const COMMIT_SEARCH_LIMIT = 200
+const MAX_FEATURE_COMMITS = 50
+
 interface CreateFeatureData {
   status: FeatureStatus
   priority: Priority
@@ -22,38 +47,64 @@ interface CreateFeatureData {
   epic: string | null
   dueDate: string | null
   labels: string[]
+  customFields?: Record<string, CustomFieldValue>
 }
 
 export class KanbanPanel {
   public static readonly viewType = 'kanban-markdown.panel'
+  /** The panel focused last; commands like undo act on it */
   public static currentPanel: KanbanPanel | undefined
+  // Open panels by board name, '' for the board of the top-level settings
+  private static readonly _panels = new Map<string, KanbanPanel>()
+  private static readonly _onDidChangeBoards = new vscode.EventEmitter<void>()
+  /** Fires when a panel opens, closes, switches board or gets focus */
+  public static readonly onDidChangeBoards = KanbanPanel._onDidChangeBoards.event
 
   private readonly _panel: vscode.WebviewPanel
   private readonly _extensionUri: vscode.Uri
   private readonly _context: vscode.ExtensionContext
+  /** Name of the configured board shown, or null for the board of the top-level settings */
+  private _board: string | null
   private _features: Feature[] = []
+  /** Cards in the archived/ folder, loaded when the archive view asks for them */
+  private _archivedFeatures: Feature[] = []
   private _disposables: vscode.Disposable[] = []
   private _fileWatcher: vscode.FileSystemWatcher | undefined
+  private _gitWatcher: vscode.FileSystemWatcher | undefined
+  private readonly _dependencyDiagnostics: vscode.DiagnosticCollection
   private _currentEditingFeatureId: string | null = null
   private _lastWrittenContent: string = ''
   private _migrating = false
-  private _onDisposeCallbacks: (() => void)[] = []
-
-  public static createOrShow(extensionUri: vscode.Uri, context: vscode.ExtensionContext) {
+  private readonly _journal = new UndoJournal()
+  /** Where board operations write; the active undo transaction while one is recorded */
+  private _fs: JournalFs = vscode.workspace.fs
+  private _journalQueue: Promise<void> = Promise.resolve()
+  /** Cards this panel started an agent on, awaiting the agent's exit */
+  private readonly _launchedAgents = new Set<string>()
+  /** The column last offered for each card as its branch progressed, so each offer is made once */
+  private readonly _branchOffers = new Map<string, string>()
+  private _disposed = false
+
+  /** Shows the panel of a board, opening a new one if the board has none. Defaults to the active board. */
+  public static createOrShow(extensionUri: vscode.Uri, context: vscode.ExtensionContext, board?: string | null) {
     const column = vscode.window.activeTextEditor
       ? vscode.window.activeTextEditor.viewColumn
       : undefined
 
-    // If we already have a panel, show it
-    if (KanbanPanel.currentPanel) {
-      KanbanPanel.currentPanel._panel.reveal(column)
+    const name = KanbanPanel._resolveBoardName(context, board === undefined ? getActiveBoard(context.workspaceState) : board)
+
+    // If the board already has a panel, show it
+    const existing = KanbanPanel._panels.get(name ?? '')
+    if (existing) {
+      existing._panel.reveal(column)
+      existing._activate()
       return
     }
 
     // Otherwise, create a new panel
     const panel = vscode.window.createWebviewPanel(
       KanbanPanel.viewType,
-      t('panel.title'),
+      KanbanPanel._getTitle(name),
       column || vscode.ViewColumn.One,
       {
         enableScripts: true,
@@ -71,17 +122,45 @@ export class KanbanPanel {
       dark: vscode.Uri.joinPath(extensionUri, 'resources', 'kanban-dark.svg')
     }
 
-    KanbanPanel.currentPanel = new KanbanPanel(panel, extensionUri, context)
+    new KanbanPanel(panel, extensionUri, context, name)
+  }
+
+  public static revive(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, context: vscode.ExtensionContext, board: string | null) {
+    const name = KanbanPanel._resolveBoardName(context, board)
+    panel.title = KanbanPanel._getTitle(name)
+    new KanbanPanel(panel, extensionUri, context, name)
+  }
+
+  public static isOpen(board: string | null): boolean {
+    return KanbanPanel._panels.has(board ?? '')
+  }
+
+  /** Points every open panel at the current board folder. */
+  public static async reloadAll(): Promise<void> {
+    for (const panel of KanbanPanel._panels.values()) {
+      await panel.reloadBoard()
+    }
+  }
+
+  // Names that are no longer configured resolve to the folder's first board
+  private static _resolveBoardName(context: vscode.ExtensionContext, board: string | null): string | null {
+    const folder = getBoardFolder(context.workspaceState)
+    return folder ? resolveBoard(folder, board).name : board
   }
 
-  public static revive(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, context: vscode.ExtensionContext) {
-    KanbanPanel.currentPanel = new KanbanPanel(panel, extensionUri, context)
+  private static _getTitle(board: string | null): string {
+    return board === null ? t('panel.title') : t('panel.boardTitle', { board })
   }
 
-  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, context: vscode.ExtensionContext) {
+  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, context: vscode.ExtensionContext, board: string | null) {
     this._panel = panel
     this._extensionUri = extensionUri
     this._context = context
+    this._board = board
+    KanbanPanel._panels.set(board ?? '', this)
+    this._activate()
+    this._dependencyDiagnostics = vscode.languages.createDiagnosticCollection('kanban-markdown.dependencies')
+    this._disposables.push(this._dependencyDiagnostics)
 
     // Ensure webview options are set (critical for deserialization after reload)
     this._panel.webview.options = {
@@ -98,6 +177,11 @@ export class KanbanPanel {
     // Listen for when the panel is disposed
     this._panel.onDidDispose(() => this.dispose(), null, this._disposables)
 
+    // The focused panel's board becomes the active one, which the sidebar shows
+    this._panel.onDidChangeViewState(e => {
+      if (e.webviewPanel.active) this._activate()
+    }, null, this._disposables)
+
     // Handle messages from the webview
     this._panel.webview.onDidReceiveMessage(
       async (message) => {
@@ -107,7 +191,7 @@ export class KanbanPanel {
             this._sendFeaturesToWebview()
             break
           case 'createFeature': {
-            await this._createFeature(message.data)
+            await this._journaled(t('undo.createCard'), () => this._createFeature(message.data))
             const createConfig = vscode.workspace.getConfiguration('kanban-markdown')
             if (createConfig.get<boolean>('markdownEditorMode', false)) {
               // Open the newly created feature in native editor
@@ -119,13 +203,13 @@ export class KanbanPanel {
             break
           }
           case 'moveFeature':
-            await this._moveFeature(message.featureId, message.newStatus, message.newOrder)
+            await this._journaled(t('undo.moveCard'), () => this._moveFeature(message.featureId, message.newStatus, message.newOrder, message.lane))
             break
           case 'deleteFeature':
-            await this._deleteFeature(message.featureId)
+            await this._journaled(t('undo.deleteCard'), () => this._deleteFeature(message.featureId))
             break
           case 'updateFeature':
-            await this._updateFeature(message.featureId, message.updates)
+            await this._journaled(t('undo.editCard'), () => this._updateFeature(message.featureId, message.updates))
             break
           case 'openFeature': {
             const openConfig = vscode.workspace.getConfiguration('kanban-markdown')
@@ -137,13 +221,19 @@ export class KanbanPanel {
             break
           }
           case 'saveFeatureContent':
-            await this._saveFeatureContent(message.featureId, message.content, message.frontmatter)
+            // Autosaves while typing in the editor collapse into one undo step
+            await this._journaled(
+              t('undo.editCard'),
+              () => this._saveFeatureContent(message.featureId, message.content, message.frontmatter),
+              `save:${message.featureId}`
+            )
             break
           case 'closeFeature':
             this._currentEditingFeatureId = null
             break
           case 'openFile': {
-            const feat = this._features.find(f => f.id === message.featureId)
+            const feat = this._features.find(f => f.id === message.featureId) ??
+              this._archivedFeatures.find(f => f.id === message.featureId)
             if (feat) {
               const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(feat.filePath))
               await vscode.window.showTextDocument(doc, { viewColumn: vscode.ViewColumn.Beside })
@@ -160,46 +250,95 @@ export class KanbanPanel {
             await vscode.commands.executeCommand('workbench.action.focusMenuBar')
             break
           case 'toggleColumnCollapsed': {
-            const collapsed: string[] = this._context.workspaceState.get('kanban-markdown.collapsedColumns', [])
+            const collapsed: string[] = this._context.workspaceState.get(this._stateKey('collapsedColumns'), [])
             const idx = collapsed.indexOf(message.columnId)
             if (idx >= 0) {
               collapsed.splice(idx, 1)
             } else {
               collapsed.push(message.columnId)
             }
-            await this._context.workspaceState.update('kanban-markdown.collapsedColumns', collapsed)
+            await this._context.workspaceState.update(this._stateKey('collapsedColumns'), collapsed)
             break
           }
           case 'setBoardViewMode': {
-            await this._context.workspaceState.update('kanban-markdown.boardViewMode', message.mode)
+            await this._context.workspaceState.update(this._stateKey('boardViewMode'), message.mode)
             break
           }
-          case 'toggleEpicCollapsed': {
-            const collapsedEpics: string[] = this._context.workspaceState.get('kanban-markdown.collapsedEpics', [])
-            const idx = collapsedEpics.indexOf(message.epicKey)
+          case 'setHiddenTableColumns':
+            await this._context.workspaceState.update(this._stateKey('hiddenTableColumns'), message.columns)
+            break
+          case 'setSwimlaneGroupBy':
+            await this._context.workspaceState.update(this._stateKey('swimlaneGroupBy'), message.groupBy)
+            break
+          case 'toggleLaneCollapsed': {
+            const collapsedLanes: string[] = this._context.workspaceState.get(this._stateKey('collapsedLanes'), [])
+            const idx = collapsedLanes.indexOf(message.laneKey)
             if (idx >= 0) {
-              collapsedEpics.splice(idx, 1)
+              collapsedLanes.splice(idx, 1)
             } else {
-              collapsedEpics.push(message.epicKey)
+              collapsedLanes.push(message.laneKey)
             }
-            await this._context.workspaceState.update('kanban-markdown.collapsedEpics', collapsedEpics)
+            await this._context.workspaceState.update(this._stateKey('collapsedLanes'), collapsedLanes)
             break
           }
           case 'moveAllCards':
-            await this._moveAllCards(message.sourceColumnId, message.targetColumnId, message.epicLane)
+            await this._journaled(t('undo.moveAllCards'), () => this._moveAllCards(message.sourceColumnId, message.targetColumnId, message.lane))
             break
           case 'archiveAllCards':
-            await this._archiveAllCards(message.sourceColumnId)
+            await this._journaled(t('undo.archiveCards'), () => this._archiveAllCards(message.sourceColumnId))
+            break
+          case 'bulkUpdateFeatures':
+            await this._journaled(t('undo.bulkEdit'), () => this._bulkUpdateFeatures(message.featureIds, message.updates))
+            break
+          case 'bulkArchiveFeatures':
+            await this._journaled(t('undo.archiveCards'), () => this._bulkArchiveFeatures(message.featureIds))
+            break
+          case 'bulkDeleteFeatures':
+            await this._journaled(t('undo.deleteCards'), () => this._bulkDeleteFeatures(message.featureIds))
+            break
+          case 'archiveFeature':
+            await this._journaled(t('undo.archiveCards'), () => this._archiveFeature(message.featureId))
+            break
+          case 'requestArchivedFeatures':
+            await this._sendArchivedFeatures()
+            break
+          case 'restoreArchivedFeatures':
+            await this._journaled(t('undo.restoreCards'), () => this._restoreArchivedFeatures(message.featureIds))
+            break
+          case 'purgeArchivedFeatures':
+            await this._journaled(t('undo.purgeCards'), () => this._purgeArchivedFeatures(message.featureIds))
             break
           case 'renameLabel':
-            await this._renameLabel(message.oldName, message.newName)
+            await this._journaled(t('undo.renameLabel'), () => this._renameLabel(message.oldName, message.newName))
             break
           case 'deleteLabel':
-            await this._deleteLabel(message.labelName)
+            await this._journaled(t('undo.removeLabel'), () => this._deleteLabel(message.labelName))
+            break
+          case 'undo':
+            await this.undo()
+            break
+          case 'redo':
+            await this.redo()
             break
           case 'startWithAI':
             await this._startWithAI(message.agent, message.permissionMode)
             break
+          case 'switchBoard':
+            await this.switchBoard(message.board)
+            break
+          case 'focusAgentTerminal':
+            getAgentSessions().focus(message.featureId)
+            break
+          case 'startWork':
+            await this._startWork(message.featureId)
+            break
+          case 'openCommit':
+            await this._openCommit(message.hash)
+            break
+          case 'setBoardFolder':
+            // Through the command so the sidebar follows the switch too
+            await vscode.commands.executeCommand('kanban-markdown.switchBoardFolder', message.folder)
+            break
         }
       },
       null,
@@ -208,6 +347,7 @@ export class KanbanPanel {
 
     // Set up file watcher for feature files
     this._setupFileWatcher()
+    this._setupGitWatcher()
 
     // Listen for settings changes and push updates to webview
     vscode.workspace.onDidChangeConfiguration(e => {
@@ -215,7 +355,7 @@ export class KanbanPanel {
         if (e.affectsConfiguration('kanban-markdown.language')) {
           reloadBundle()
         }
-        if (e.affectsConfiguration('kanban-markdown.featuresDirectory')) {
+        if (e.affectsConfiguration('kanban-markdown.featuresDirectory') || e.affectsConfiguration('kanban-markdown.boards')) {
           // Features directory changed - need to reload everything
           this._setupFileWatcher()
           this._loadFeatures().then(() => this._sendFeaturesToWebview())
@@ -232,6 +372,55 @@ export class KanbanPanel {
         this._sendFeaturesToWebview()
       }
     }, null, this._disposables)
+
+    // The board folder falls back to the first folder when it is removed
+    vscode.workspace.onDidChangeWorkspaceFolders(() => this.reloadBoard(), null, this._disposables)
+
+    // Agent badges on cards follow the terminals started with "Build with AI"
+    getAgentSessions().onDidChange(() => {
+      this._panel.webview.postMessage({ type: 'agentSessions', sessions: getAgentSessions().getRunning() })
+    }, null, this._disposables)
+    getAgentSessions().onDidEnd(end => this._onAgentSessionEnded(end), null, this._disposables)
+  }
+
+  /**
+   * Shows another board in this panel. When the board already has a panel,
+   * that panel is brought to the front instead.
+   */
+  public async switchBoard(board: string): Promise<void> {
+    const other = KanbanPanel._panels.get(board)
+    if (other && other !== this) {
+      // Puts this panel's board switcher back
+      this._sendFeaturesToWebview()
+      other._panel.reveal()
+      return
+    }
+
+    KanbanPanel._panels.delete(this._board ?? '')
+    this._board = board
+    KanbanPanel._panels.set(board, this)
+    this._panel.title = KanbanPanel._getTitle(board)
+    await this._activate()
+    await this.reloadBoard()
+  }
+
+  private async _activate(): Promise<void> {
+    KanbanPanel.currentPanel = this
+    await setActiveBoard(this._context.workspaceState, this._board)
+    KanbanPanel._onDidChangeBoards.fire()
+  }
+
+  private _stateKey(key: string): string {
+    return getBoardStateKey(key, this._board)
+  }
+
+  /** Points the board, its file watcher and the open editor at the current board folder. */
+  public async reloadBoard(): Promise<void> {
+    this._currentEditingFeatureId = null
+    this._setupFileWatcher()
+    await this._loadFeatures()
+    this._sendFeaturesToWebview()
+    await this._setupGitWatcher()
   }
 
   private _setupFileWatcher(): void {
@@ -278,17 +467,118 @@ export class KanbanPanel {
     this._disposables.push(this._fileWatcher)
   }
 
-  public onDispose(callback: () => void): void {
-    this._onDisposeCallbacks.push(callback)
+  /** Watches the board folder's repository for commits, checkouts and merges on card branches. */
+  private async _setupGitWatcher(): Promise<void> {
+    const folder = getBoardFolder(this._context.workspaceState)
+    const gitDir = folder && await getGitDir(folder.uri.fsPath)
+    // Disposed after the lookup, in case another setup finished while git was running
+    this._gitWatcher?.dispose()
+    this._gitWatcher = undefined
+    if (!gitDir || this._disposed) return
+
+    this._gitWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(gitDir, '{HEAD,packed-refs,refs/heads/**}'))
+
+    // A commit or merge touches several refs in a row
+    let debounceTimer: NodeJS.Timeout | undefined
+    const handleRefChange = () => {
+      if (debounceTimer) clearTimeout(debounceTimer)
+      debounceTimer = setTimeout(() => this._onRefsChanged(), 500)
+    }
+    this._gitWatcher.onDidChange(handleRefChange, null, this._disposables)
+    this._gitWatcher.onDidCreate(handleRefChange, null, this._disposables)
+    this._gitWatcher.onDidDelete(handleRefChange, null, this._disposables)
+    this._disposables.push(this._gitWatcher)
+
+    // Branches may have been merged while the board was closed
+    await this._onRefsChanged()
   }
 
-  public dispose() {
-    KanbanPanel.currentPanel = undefined
+  private async _onRefsChanged(): Promise<void> {
+    await this._checkClosingCommits()
+    await this._checkBranches()
+    if (this._currentEditingFeatureId) {
+      await this._sendFeatureCommits(this._currentEditingFeatureId)
+    }
+  }
+
+  public undo(): Promise<void> {
+    return this._runJournalStep(() => this._journal.undo(), 'undo.undone', 'undo.nothingToUndo')
+  }
+
+  public redo(): Promise<void> {
+    return this._runJournalStep(() => this._journal.redo(), 'undo.redone', 'undo.nothingToRedo')
+  }
 
-    for (const cb of this._onDisposeCallbacks) {
-      cb()
+  /**
+   * Runs a board operation with its file writes recorded as one undo step.
+   * Operations are queued so their recordings never interleave.
+   */
+  private _journaled(label: string, operation: () => Promise<void>, mergeKey?: string): Promise<void> {
+    return this._enqueue(async () => {
+      const transaction = this._journal.begin()
+      this._fs = transaction
+      try {
+        await operation()
+      } finally {
+        this._fs = vscode.workspace.fs
+        await this._journal.commit(label, transaction, mergeKey)
+      }
+    })
+  }
+
+  private _enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this._journalQueue.then(task)
+    this._journalQueue = result.catch(() => undefined)
+    return result
+  }
+
+  private _runJournalStep(step: () => Promise<JournalResult>, doneKey: string, emptyKey: string): Promise<void> {
+    return this._enqueue(async () => {
+      const previous = new Map(this._features.map(f => [f.id, snapshotActivity(f)]))
+      let result: JournalResult
+      this._migrating = true
+      try {
+        result = await step()
+      } catch (err) {
+        vscode.window.showErrorMessage(t('undo.failed', { error: String(err) }))
+        return
+      } finally {
+        this._migrating = false
+      }
+
+      if (result.status === 'empty') {
+        vscode.window.showInformationMessage(t(emptyKey))
+        return
+      }
+      if (result.status === 'conflict') {
+        vscode.window.showWarningMessage(t('undo.conflict', { action: result.label }))
+        return
+      }
+
+      await this._loadFeatures()
+      this._sendFeaturesToWebview()
+      vscode.window.setStatusBarMessage(t(doneKey, { action: result.label }), 3000)
+
+      if (this._currentEditingFeatureId && this._features.some(f => f.id === this._currentEditingFeatureId)) {
+        await this._sendFeatureContent(this._currentEditingFeatureId)
+      }
+      for (const feature of this._features) {
+        const before = previous.get(feature.id)
+        if (before) await this._recordActivity(feature, before)
+      }
+      await this._sendArchivedFeatures()
+    })
+  }
+
+  public dispose() {
+    this._disposed = true
+    if (KanbanPanel._panels.get(this._board ?? '') === this) {
+      KanbanPanel._panels.delete(this._board ?? '')
     }
-    this._onDisposeCallbacks = []
+    if (KanbanPanel.currentPanel === this) {
+      KanbanPanel.currentPanel = Array.from(KanbanPanel._panels.values()).pop()
+    }
+    KanbanPanel._onDidChangeBoards.fire()
 
     this._panel.dispose()
 
@@ -334,18 +624,13 @@ export class KanbanPanel {
     return crypto.randomBytes(24).toString('base64url')
   }
 
-  private _shellQuote(arg: string): string {
-    return "'" + arg.replace(/'/g, "'\\''") + "'"
+  private _getBoard(): BoardSettings | null {
+    const folder = getBoardFolder(this._context.workspaceState)
+    return folder ? resolveBoard(folder, this._board) : null
   }
 
   private _getWorkspaceFeaturesDir(): string | null {
-    const workspaceFolders = vscode.workspace.workspaceFolders
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      return null
-    }
-    const config = vscode.workspace.getConfiguration('kanban-markdown')
-    const featuresDirectory = config.get<string>('featuresDirectory') || '.devtool/features'
-    return path.join(workspaceFolders[0].uri.fsPath, featuresDirectory)
+    return this._getBoard()?.featuresDir ?? null
   }
 
   private async _ensureFeaturesDir(): Promise<string | null> {
@@ -371,11 +656,12 @@ export class KanbanPanel {
     try {
       await vscode.workspace.fs.createDirectory(vscode.Uri.file(featuresDir))
       await ensureStatusSubfolders(featuresDir)
+      const columns = this._getColumns()
 
       // Phase 1: Migrate files from old per-status subfolders into new layout
       // Non-done subfolders (backlog/, todo/, in-progress/, review/) → move files to root
       // done/ files stay in done/
-      // Root files with status: done → move to done/
+      // Root files in a done-category column → move to done/
       this._migrating = true
       try {
         const oldStatusFolders = ['backlog', 'todo', 'in-progress', 'review']
@@ -391,7 +677,7 @@ export class KanbanPanel {
                 const feature = this._parseFeatureFile(content, filePath)
                 const status = feature?.status || 'backlog'
                 // Move to done/ if status is done, otherwise move to root
-                await moveFeatureFile(filePath, featuresDir, status)
+                await moveFeatureFile(filePath, featuresDir, status, vscode.workspace.fs, columns)
               } catch {
                 // Skip files that fail to migrate
               }
@@ -414,7 +700,7 @@ export class KanbanPanel {
           }
         }
 
-        // Also check root files that have status: done → move to done/
+        // Also check root files in a done-category column → move to done/
         const rootEntries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(featuresDir))
         for (const [name, type] of rootEntries) {
           if (type !== vscode.FileType.File || !name.endsWith('.md')) continue
@@ -422,8 +708,8 @@ export class KanbanPanel {
           try {
             const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath)))
             const feature = this._parseFeatureFile(content, filePath)
-            if (feature?.status === 'done') {
-              await moveFeatureFile(filePath, featuresDir, 'done')
+            if (feature && isDoneStatus(feature.status, columns)) {
+              await moveFeatureFile(filePath, featuresDir, feature.status, vscode.workspace.fs, columns)
             }
           } catch {
             // Skip files that fail to migrate
@@ -462,25 +748,18 @@ export class KanbanPanel {
       }
 
       // Phase 3: Reconcile done ↔ non-done mismatches
-      // Root file with status: done → move to done/
-      // done/ file with non-done status → move to root
+      // Root file in a done-category column → move to done/
+      // done/ file in any other column → move to root
       this._migrating = true
       try {
         for (const feature of features) {
           const pathStatus = getStatusFromPath(feature.filePath, featuresDir)
           const inDoneFolder = pathStatus === 'done'
-          const isDoneStatus = feature.status === 'done'
+          const isDone = isDoneStatus(feature.status, columns)
 
-          if (isDoneStatus && !inDoneFolder) {
+          if (isDone !== inDoneFolder) {
             try {
-              const newPath = await moveFeatureFile(feature.filePath, featuresDir, 'done')
-              feature.filePath = newPath
-            } catch {
-              // Will retry on next load
-            }
-          } else if (!isDoneStatus && inDoneFolder) {
-            try {
-              const newPath = await moveFeatureFile(feature.filePath, featuresDir, feature.status)
+              const newPath = await moveFeatureFile(feature.filePath, featuresDir, feature.status, vscode.workspace.fs, columns)
               feature.filePath = newPath
             } catch {
               // Will retry on next load
@@ -517,10 +796,61 @@ export class KanbanPanel {
         }
       }
 
+      // Key cards created before keys existed, and the newer of two cards merged in under one key
+      const keys = await this._allocateKeys(featuresDir, features)
+      if (keys.size > 0) {
+        this._migrating = true
+        try {
+          for (const f of features) {
+            const key = keys.get(f.filePath)
+            if (!key) continue
+            f.key = key
+            await vscode.workspace.fs.writeFile(vscode.Uri.file(f.filePath), new TextEncoder().encode(this._serializeFeature(f)))
+          }
+        } finally {
+          this._migrating = false
+        }
+      }
+
       this._features = features.sort((a, b) => (a.order < b.order ? -1 : a.order > b.order ? 1 : 0))
     } catch {
       this._features = []
     }
+    this._reportDependencyIssues()
+  }
+
+  /**
+   * Flags `blockedBy` entries that name unknown features or form a cycle as
+   * problems on the `blockedBy` line of the affected files.
+   */
+  private _reportDependencyIssues(): void {
+    this._dependencyDiagnostics.clear()
+    const byFile = new Map<string, vscode.Diagnostic[]>()
+    const add = (featureId: string, message: string) => {
+      const feature = this._features.find(f => f.id === featureId)
+      if (!feature) return
+      // Line 0 is the opening `---`, so frontmatter line n is document line n + 1
+      const lineIndex = (feature.frontmatterSource ?? '').split('\n').findIndex(l => /^blockedBy\s*:/.test(l))
+      const line = lineIndex >= 0 ? lineIndex + 1 : 0
+      const diagnostic = new vscode.Diagnostic(new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER), message, vscode.DiagnosticSeverity.Warning)
+      diagnostic.source = 'Kanban Markdown'
+      const list = byFile.get(feature.filePath) ?? []
+      list.push(diagnostic)
+      byFile.set(feature.filePath, list)
+    }
+
+    for (const issue of validateDependencies(this._features)) {
+      if (issue.kind === 'unknown') {
+        add(issue.featureId, t('panel.dependencyUnknown', { ids: issue.ids.join(', ') }))
+      } else {
+        const message = t('panel.dependencyCycle', { cycle: [...issue.cycle, issue.cycle[0]].join(' → ') })
+        for (const id of issue.cycle) add(id, message)
+      }
+    }
+
+    for (const [filePath, diagnostics] of byFile) {
+      this._dependencyDiagnostics.set(vscode.Uri.file(filePath), diagnostics)
+    }
   }
 
   private _parseFeatureFile(content: string, filePath: string): Feature | null {
@@ -551,10 +881,12 @@ export class KanbanPanel {
       return
     }
 
+    const columns = this._getColumns()
+    if (this._rejectOverWipLimit(data.status, 1, columns)) return
+
     const title = getTitleFromContent(data.content)
     const config = vscode.workspace.getConfiguration('kanban-markdown')
-    const pattern = config.get<FilenamePattern>('filenamePattern', 'name-date')
-    const filename = generateFeatureFilename(title, pattern)
+    const filename = generateFeatureFilename(title, this._getFilenamePattern())
     const now = new Date().toISOString()
     const addNewCardsToTop = config.get<boolean>('addNewCardsToTop', false)
     const featuresInStatus = this._features
@@ -564,12 +896,12 @@ export class KanbanPanel {
       ? generateKeyBetween(null, featuresInStatus.length > 0 ? featuresInStatus[0].order : null)
       : generateKeyBetween(featuresInStatus.length > 0 ? featuresInStatus[featuresInStatus.length - 1].order : null, null)
 
-    let filePath = getFeatureFilePath(featuresDir, data.status, filename)
+    let filePath = getFeatureFilePath(featuresDir, data.status, filename, columns)
     let uniqueFilename = filename
     let counter = 1
     while (await fileExists(filePath)) {
       uniqueFilename = `${filename}-${counter}`
-      filePath = getFeatureFilePath(featuresDir, data.status, uniqueFilename)
+      filePath = getFeatureFilePath(featuresDir, data.status, uniqueFilename, columns)
       counter++
     }
 
@@ -582,41 +914,55 @@ export class KanbanPanel {
       dueDate: data.dueDate,
       created: now,
       modified: now,
-      completedAt: data.status === 'done' ? now : null,
+      completedAt: isDoneStatus(data.status, columns) ? now : null,
       labels: data.labels,
       order: newOrder,
+      statusHistory: [{ status: data.status, at: now }],
       content: data.content,
-      filePath
+      filePath,
+      customFields: normalizeCustomFields(this._getCustomFieldDefinitions(), data.customFields)
     }
+    feature.key = (await this._allocateKeys(featuresDir, [...this._features, feature])).get(filePath)
 
-    await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(feature.filePath)))
+    await this._fs.createDirectory(vscode.Uri.file(path.dirname(feature.filePath)))
     const content = this._serializeFeature(feature)
-    await vscode.workspace.fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(content))
+    await this._fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(content))
 
     this._features.push(feature)
     this._sendFeaturesToWebview()
+    await this._recordActivity(feature)
   }
 
-  private async _moveFeature(featureId: string, newStatus: string, newOrder: number): Promise<void> {
+  private async _moveFeature(featureId: string, newStatus: string, newOrder: number, lane?: SwimlaneLane): Promise<void> {
     const feature = this._features.find(f => f.id === featureId)
     if (!feature) return
 
     const featuresDir = this._getWorkspaceFeaturesDir()
     if (!featuresDir) return
 
+    const columns = this._getColumns()
     const oldStatus = feature.status
     const statusChanged = oldStatus !== newStatus
 
-    // Update feature status
-    feature.status = newStatus as FeatureStatus
+    if (statusChanged && this._rejectOverWipLimit(newStatus, 1, columns)) return
+    if (statusChanged) this._warnIfStartingBlocked(feature, newStatus, columns)
+
+    const previous = snapshotActivity(feature)
+    // Update feature status, and the grouped field when dropped into another swim lane
+    feature.status = newStatus
     feature.modified = new Date().toISOString()
     if (statusChanged) {
-      feature.completedAt = newStatus === 'done' ? new Date().toISOString() : null
+      feature.completedAt = getCompletedAtAfterMove(feature.completedAt, oldStatus, newStatus, columns)
+      feature.statusHistory = getStatusHistoryAfterMove(feature, oldStatus, newStatus)
+    }
+    if (lane) {
+      Object.assign(feature, getLaneUpdates(feature, lane, this._getCustomFieldDefinitions()))
     }
 
-    // Get sorted features in the target column (excluding the moved feature)
+    // Get sorted features in the target column (excluding the moved feature);
+    // within a swim lane, newOrder is relative to that lane's cards
     const targetColumnFeatures = this._features
-      .filter(f => f.status === newStatus && f.id !== featureId)
+      .filter(f => f.status === newStatus && f.id !== featureId && featureMatchesLane(f, lane))
       .sort((a, b) => (a.order < b.order ? -1 : a.order > b.order ? 1 : 0))
 
     // Compute fractional index between neighbors at the target position
@@ -627,14 +973,14 @@ export class KanbanPanel {
 
     // Only the moved feature needs to be written
     const content = this._serializeFeature(feature)
-    await vscode.workspace.fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(content))
+    await this._fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(content))
 
     // Only move file when crossing the done boundary
-    const crossingDoneBoundary = statusChanged && (oldStatus === 'done' || newStatus === 'done')
+    const crossingDoneBoundary = isDoneStatus(oldStatus, columns) !== isDoneStatus(newStatus, columns)
     if (crossingDoneBoundary) {
       this._migrating = true
       try {
-        const newPath = await moveFeatureFile(feature.filePath, featuresDir, newStatus)
+        const newPath = await moveFeatureFile(feature.filePath, featuresDir, newStatus, this._fs, columns)
         feature.filePath = newPath
       } catch {
         // Move failed; file stays in old folder, will reconcile on next load
@@ -644,18 +990,19 @@ export class KanbanPanel {
     }
 
     this._sendFeaturesToWebview()
+    await this._recordActivity(feature, previous)
   }
 
   private async _moveAllCards(
     sourceColumnId: string,
     targetColumnId: string,
-    epicLane?: string | null
+    lane?: SwimlaneLane
   ): Promise<void> {
     const featuresDir = this._getWorkspaceFeaturesDir()
     if (!featuresDir) return
 
     const sourceFeatures = this._features
-      .filter(f => f.status === sourceColumnId && featureMatchesEpicLane(f, epicLane))
+      .filter(f => f.status === sourceColumnId && featureMatchesLane(f, lane))
       .sort((a, b) => (a.order < b.order ? -1 : a.order > b.order ? 1 : 0))
     if (sourceFeatures.length === 0) return
 
@@ -666,30 +1013,36 @@ export class KanbanPanel {
     const lastTargetOrder = targetFeatures.length > 0 ? targetFeatures[targetFeatures.length - 1].order : null
     const newKeys = generateNKeysBetween(lastTargetOrder, null, sourceFeatures.length)
 
+    const columns = this._getColumns()
     const oldStatus = sourceColumnId
-    const newStatus = targetColumnId as FeatureStatus
-    const crossingDoneBoundary = oldStatus === 'done' || newStatus === 'done' as string
+    const newStatus = targetColumnId
+    if (this._rejectOverWipLimit(newStatus, sourceFeatures.length, columns)) return
+
+    const crossingDoneBoundary = isDoneStatus(oldStatus, columns) !== isDoneStatus(newStatus, columns)
 
     this._migrating = crossingDoneBoundary
     try {
       for (let i = 0; i < sourceFeatures.length; i++) {
         const feature = sourceFeatures[i]
+        const previous = snapshotActivity(feature)
         feature.status = newStatus
         feature.modified = new Date().toISOString()
-        feature.completedAt = newStatus === 'done' ? new Date().toISOString() : null
+        feature.completedAt = getCompletedAtAfterMove(feature.completedAt, oldStatus, newStatus, columns)
+        feature.statusHistory = getStatusHistoryAfterMove(feature, oldStatus, newStatus)
         feature.order = newKeys[i]
 
         const content = this._serializeFeature(feature)
-        await vscode.workspace.fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(content))
+        await this._fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(content))
 
         if (crossingDoneBoundary) {
           try {
-            const newPath = await moveFeatureFile(feature.filePath, featuresDir, targetColumnId)
+            const newPath = await moveFeatureFile(feature.filePath, featuresDir, targetColumnId, this._fs, columns)
             feature.filePath = newPath
           } catch {
             // Will reconcile on next load
           }
         }
+        await this._recordActivity(feature, previous)
       }
     } finally {
       this._migrating = false
@@ -718,14 +1071,18 @@ export class KanbanPanel {
     )
     if (confirm !== archiveButton) return
 
+    await this._archiveFeatures(featuresDir, sourceFeatures)
+  }
+
+  private async _archiveFeatures(featuresDir: string, features: Feature[]): Promise<void> {
     const archivedDir = path.join(featuresDir, 'archived')
-    await vscode.workspace.fs.createDirectory(vscode.Uri.file(archivedDir))
+    await this._fs.createDirectory(vscode.Uri.file(archivedDir))
 
     this._migrating = true
     const archivedIds = new Set<string>()
     let failedCount = 0
     try {
-      for (const feature of sourceFeatures) {
+      for (const feature of features) {
         const filename = path.basename(feature.filePath)
         let targetPath = path.join(archivedDir, filename)
 
@@ -739,7 +1096,7 @@ export class KanbanPanel {
         }
 
         try {
-          await vscode.workspace.fs.rename(
+          await this._fs.rename(
             vscode.Uri.file(feature.filePath),
             vscode.Uri.file(targetPath)
           )
@@ -762,14 +1119,252 @@ export class KanbanPanel {
     }
 
     this._sendFeaturesToWebview()
+    await this._sendArchivedFeatures()
+  }
+
+  private async _archiveFeature(featureId: string): Promise<void> {
+    const featuresDir = this._getWorkspaceFeaturesDir()
+    const feature = this._features.find(f => f.id === featureId)
+    if (!featuresDir || !feature) return
+
+    // A single card is easy to get back from the archive view, so no confirmation
+    await this._archiveFeatures(featuresDir, [feature])
+  }
+
+  private async _loadArchivedFeatures(): Promise<void> {
+    const featuresDir = this._getWorkspaceFeaturesDir()
+    const features: Feature[] = []
+    if (featuresDir) {
+      const archivedDir = path.join(featuresDir, 'archived')
+      try {
+        const entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(archivedDir))
+        for (const [file, fileType] of entries) {
+          if (fileType !== vscode.FileType.File || !file.endsWith('.md')) continue
+          const filePath = path.join(archivedDir, file)
+          const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath)))
+          const feature = this._parseFeatureFile(content, filePath)
+          if (feature) features.push(feature)
+        }
+      } catch {
+        // Nothing archived yet
+      }
+    }
+    this._archivedFeatures = features
+  }
+
+  private async _sendArchivedFeatures(): Promise<void> {
+    await this._loadArchivedFeatures()
+    this._panel.webview.postMessage({ type: 'archivedFeatures', features: this._archivedFeatures })
+  }
+
+  /**
+   * Moves archived cards back onto the board at the end of the column they
+   * were archived from; cards whose column is gone go to the default column.
+   */
+  private async _restoreArchivedFeatures(featureIds: string[]): Promise<void> {
+    const featuresDir = await this._ensureFeaturesDir()
+    if (!featuresDir) return
+
+    await this._loadArchivedFeatures()
+    const ids = new Set(featureIds)
+    const archived = this._archivedFeatures.filter(f => ids.has(f.id))
+    if (archived.length === 0) return
+
+    const columns = this._getColumns()
+    const plans = planRestore(archived, this._features, columns, this._getDefaultStatus(columns))
+    let failedCount = 0
+    this._migrating = true
+    try {
+      for (const { feature, status, order } of plans) {
+        const oldStatus = feature.status
+        if (status !== oldStatus) {
+          feature.completedAt = getCompletedAtAfterMove(feature.completedAt, oldStatus, status, columns)
+          feature.statusHistory = getStatusHistoryAfterMove(feature, oldStatus, status)
+          feature.status = status
+        }
+        feature.order = order
+        feature.modified = new Date().toISOString()
+        try {
+          const content = this._serializeFeature(feature)
+          await this._fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(content))
+          feature.filePath = await moveFeatureFile(feature.filePath, featuresDir, status, this._fs, columns)
+          this._features.push(feature)
+        } catch {
+          failedCount++
+        }
+      }
+    } finally {
+      this._migrating = false
+    }
+
+    if (failedCount > 0) {
+      vscode.window.showWarningMessage(failedCount === 1
+        ? t('panel.restoreFailedOne')
+        : t('panel.restoreFailedOther', { count: failedCount }))
+    }
+
+    this._features.sort((a, b) => (a.order < b.order ? -1 : a.order > b.order ? 1 : 0))
+    this._sendFeaturesToWebview()
+    await this._sendArchivedFeatures()
+  }
+
+  /** Permanently deletes archived cards and their activity logs after a modal confirmation. */
+  private async _purgeArchivedFeatures(featureIds: string[]): Promise<void> {
+    await this._loadArchivedFeatures()
+    const ids = new Set(featureIds)
+    const features = this._archivedFeatures.filter(f => ids.has(f.id))
+    if (features.length === 0) return
+
+    const count = features.length
+    const purgeButton = t('panel.purgeButton')
+    const confirm = await vscode.window.showWarningMessage(
+      count === 1 ? t('panel.purgeConfirmOne') : t('panel.purgeConfirmOther', { count }),
+      { modal: true },
+      purgeButton
+    )
+    if (confirm !== purgeButton) return
+
+    const featuresDir = this._getWorkspaceFeaturesDir()
+    this._migrating = true
+    try {
+      const liveIds = featuresDir ? await listLiveFeatureIds(featuresDir) : new Set<string>()
+      for (const feature of features) {
+        await this._fs.delete(vscode.Uri.file(feature.filePath))
+        if (featuresDir && !liveIds.has(feature.id)) await deleteActivityLog(featuresDir, feature.id, this._fs)
+      }
+    } catch (err) {
+      vscode.window.showErrorMessage(t('panel.deleteFailed', { error: String(err) }))
+    } finally {
+      this._migrating = false
+      await this._sendArchivedFeatures()
+    }
+  }
+
+  /**
+   * Applies one set of changes to several cards, writing each file once and
+   * posting a single board update. Moving cards appends them to the end of the
+   * target column and is refused as a whole if it would break a WIP limit.
+   */
+  private async _bulkUpdateFeatures(featureIds: string[], updates: BulkFeatureUpdate): Promise<void> {
+    const featuresDir = this._getWorkspaceFeaturesDir()
+    if (!featuresDir) return
+
+    const ids = new Set(featureIds)
+    const features = this._features
+      .filter(f => ids.has(f.id))
+      .sort((a, b) => (a.order < b.order ? -1 : a.order > b.order ? 1 : 0))
+    if (features.length === 0) return
+
+    const columns = this._getColumns()
+    const newStatus = updates.status
+    const movers = newStatus === undefined ? [] : features.filter(f => f.status !== newStatus)
+    if (newStatus !== undefined && movers.length > 0 && this._rejectOverWipLimit(newStatus, movers.length, columns)) return
+
+    const targetFeatures = this._features
+      .filter(f => f.status === newStatus && !ids.has(f.id))
+      .sort((a, b) => (a.order < b.order ? -1 : a.order > b.order ? 1 : 0))
+    const lastTargetOrder = targetFeatures.length > 0 ? targetFeatures[targetFeatures.length - 1].order : null
+    const newKeys = generateNKeysBetween(lastTargetOrder, null, movers.length)
+
+    const written: { feature: Feature; previous: ActivitySnapshot }[] = []
+    this._migrating = true
+    try {
+      for (const feature of features) {
+        const previous = snapshotActivity(feature)
+        const oldStatus = feature.status
+        const changes = getBulkFieldUpdates(feature, updates)
+        const moving = newStatus !== undefined && oldStatus !== newStatus
+        if (!moving && Object.keys(changes).length === 0) continue
+
+        Object.assign(feature, changes)
+        feature.modified = new Date().toISOString()
+        if (moving) {
+          feature.status = newStatus
+          feature.order = newKeys[movers.indexOf(feature)]
+          feature.completedAt = getCompletedAtAfterMove(feature.completedAt, oldStatus, newStatus, columns)
+          feature.statusHistory = getStatusHistoryAfterMove(feature, oldStatus, newStatus)
+        }
+
+        const content = this._serializeFeature(feature)
+        await this._fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(content))
+
+        if (moving && isDoneStatus(oldStatus, columns) !== isDoneStatus(newStatus, columns)) {
+          try {
+            feature.filePath = await moveFeatureFile(feature.filePath, featuresDir, newStatus, this._fs, columns)
+          } catch {
+            // Will reconcile on next load
+          }
+        }
+        written.push({ feature, previous })
+      }
+    } finally {
+      this._migrating = false
+    }
+
+    this._sendFeaturesToWebview()
+    for (const { feature, previous } of written) {
+      await this._recordActivity(feature, previous)
+    }
+  }
+
+  private async _bulkArchiveFeatures(featureIds: string[]): Promise<void> {
+    const featuresDir = this._getWorkspaceFeaturesDir()
+    if (!featuresDir) return
+
+    const ids = new Set(featureIds)
+    const features = this._features.filter(f => ids.has(f.id))
+    if (features.length === 0) return
+
+    const count = features.length
+    const archiveButton = t('panel.archiveButton')
+    const confirm = await vscode.window.showWarningMessage(
+      count === 1 ? t('panel.bulkArchiveConfirmOne') : t('panel.bulkArchiveConfirmOther', { count }),
+      { modal: true },
+      archiveButton
+    )
+    if (confirm !== archiveButton) return
+
+    await this._archiveFeatures(featuresDir, features)
+  }
+
+  private async _bulkDeleteFeatures(featureIds: string[]): Promise<void> {
+    const ids = new Set(featureIds)
+    const features = this._features.filter(f => ids.has(f.id))
+    if (features.length === 0) return
+
+    const count = features.length
+    const deleteButton = t('panel.deleteButton')
+    const confirm = await vscode.window.showWarningMessage(
+      count === 1 ? t('panel.bulkDeleteConfirmOne') : t('panel.bulkDeleteConfirmOther', { count }),
+      { modal: true },
+      deleteButton
+    )
+    if (confirm !== deleteButton) return
+
+    const featuresDir = this._getWorkspaceFeaturesDir()
+    if (!featuresDir) return
+    const deletedIds = new Set<string>()
+    try {
+      // The activity logs stay so cards restored from the trash keep their history
+      for (const feature of features) {
+        await moveToTrash(featuresDir, feature.filePath, Date.now(), this._fs)
+        deletedIds.add(feature.id)
+      }
+    } catch (err) {
+      vscode.window.showErrorMessage(t('panel.deleteFailed', { error: String(err) }))
+    } finally {
+      this._features = this._features.filter(f => !deletedIds.has(f.id))
+      this._sendFeaturesToWebview()
+    }
   }
 
   private async _deleteFeature(featureId: string): Promise<void> {
+    const featuresDir = this._getWorkspaceFeaturesDir()
     const feature = this._features.find(f => f.id === featureId)
-    if (!feature) return
+    if (!featuresDir || !feature) return
 
     try {
-      await vscode.workspace.fs.delete(vscode.Uri.file(feature.filePath))
+      await moveToTrash(featuresDir, feature.filePath, Date.now(), this._fs)
       this._features = this._features.filter(f => f.id !== featureId)
       this._sendFeaturesToWebview()
     } catch (err) {
@@ -785,24 +1380,33 @@ export class KanbanPanel {
     if (!featuresDir) return
 
     const oldStatus = feature.status
+    const columns = this._getColumns()
+    if (updates.status !== undefined && updates.status !== oldStatus && this._rejectOverWipLimit(updates.status, 1, columns)) {
+      return
+    }
 
     // Merge updates
+    const previous = snapshotActivity(feature)
     Object.assign(feature, updates)
+    if (updates.blockedBy) {
+      feature.blockedBy = normalizeBlockedBy(updates.blockedBy, feature.id)
+    }
     feature.modified = new Date().toISOString()
     if (oldStatus !== feature.status) {
-      feature.completedAt = feature.status === 'done' ? new Date().toISOString() : null
+      feature.completedAt = getCompletedAtAfterMove(feature.completedAt, oldStatus, feature.status, columns)
+      feature.statusHistory = getStatusHistoryAfterMove(feature, oldStatus, feature.status)
     }
 
     // Persist to file
     const content = this._serializeFeature(feature)
-    await vscode.workspace.fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(content))
+    await this._fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(content))
 
     // Only move file when crossing the done boundary
-    const crossingDoneBoundary = oldStatus !== feature.status && (oldStatus === 'done' || feature.status === 'done')
+    const crossingDoneBoundary = isDoneStatus(oldStatus, columns) !== isDoneStatus(feature.status, columns)
     if (crossingDoneBoundary) {
       this._migrating = true
       try {
-        const newPath = await moveFeatureFile(feature.filePath, featuresDir, feature.status)
+        const newPath = await moveFeatureFile(feature.filePath, featuresDir, feature.status, this._fs, columns)
         feature.filePath = newPath
       } catch {
         // Move failed; file stays in old folder, will reconcile on next load
@@ -812,6 +1416,7 @@ export class KanbanPanel {
     }
 
     this._sendFeaturesToWebview()
+    await this._recordActivity(feature, previous)
   }
 
   private async _openFeatureInNativeEditor(featureId: string): Promise<void> {
@@ -843,7 +1448,11 @@ export class KanbanPanel {
       modified: feature.modified,
       completedAt: feature.completedAt,
       labels: feature.labels,
-      order: feature.order
+      order: feature.order,
+      blockedBy: feature.blockedBy ?? [],
+      branch: feature.branch,
+      key: feature.key,
+      customFields: feature.customFields ?? {}
     }
 
     this._panel.webview.postMessage({
@@ -852,6 +1461,64 @@ export class KanbanPanel {
       content: feature.content,
       frontmatter
     })
+    await this._sendFeatureActivity(feature.id)
+    await this._sendFeatureCommits(feature.id)
+  }
+
+  private async _sendFeatureActivity(featureId: string): Promise<void> {
+    const featuresDir = this._getWorkspaceFeaturesDir()
+    if (!featuresDir) return
+    const activity = await readActivityLog(featuresDir, featureId)
+    this._panel.webview.postMessage({ type: 'featureActivity', featureId, activity })
+  }
+
+  /** Sends the editor the commits on local branches whose messages mention the card. */
+  private async _sendFeatureCommits(featureId: string): Promise<void> {
+    const feature = this._features.find(f => f.id === featureId)
+    const folder = getBoardFolder(this._context.workspaceState)
+    if (!feature || !folder) return
+    const references = getFeatureReferences(feature)
+    const commits = (await findCommits(folder.uri.fsPath, references, COMMIT_SEARCH_LIMIT))
+      .filter(commit => mentionsFeature(commit.message, references))
+      .slice(0, MAX_FEATURE_COMMITS)
+      .map(({ hash, author, date, subject }) => ({ hash, author, date, subject }))
+    this._panel.webview.postMessage({ type: 'featureCommits', featureId, commits })
+  }
+
+  private async _openCommit(hash: string): Promise<void> {
+    const folder = getBoardFolder(this._context.workspaceState)
+    if (!folder) return
+    try {
+      await openCommitDiff(folder.uri.fsPath, hash, t('git.commitTitle', { hash: hash.slice(0, 7) }))
+    } catch (err) {
+      vscode.window.showErrorMessage(t('git.openCommitFailed', { error: err instanceof Error ? err.message : String(err) }))
+    }
+  }
+
+  /**
+   * Appends what changed since `previous` to the feature's activity log, or a
+   * "created" entry when there is no previous state. Refreshes the editor's
+   * timeline when that feature is open.
+   */
+  private async _recordActivity(feature: Feature, previous?: ActivitySnapshot): Promise<void> {
+    const featuresDir = this._getWorkspaceFeaturesDir()
+    if (!featuresDir) return
+
+    const by = await getActivityUser(featuresDir)
+    const entries = previous
+      ? diffFeatureActivity(previous, feature, new Date().toISOString(), by)
+      : [{ at: feature.created, by, field: 'created' as const, from: null, to: feature.status }]
+    if (entries.length === 0) return
+
+    try {
+      await appendActivityLog(featuresDir, feature.id, entries)
+    } catch {
+      // The card itself is saved; a missing log entry is not worth interrupting the user
+      return
+    }
+    if (this._currentEditingFeatureId === feature.id) {
+      await this._sendFeatureActivity(feature.id)
+    }
   }
 
   private async _saveFeatureContent(
@@ -866,31 +1533,46 @@ export class KanbanPanel {
     if (!featuresDir) return
 
     const oldStatus = feature.status
+    const columns = this._getColumns()
+    // Checking off the last checklist item can move the card on, unless this edit already changes the status
+    const newStatus = frontmatter.status === oldStatus
+      ? this._getChecklistAutoMoveStatus(feature.content, content, oldStatus, columns) ?? oldStatus
+      : frontmatter.status
+    // Over the WIP limit: keep the old status but still save the other edits
+    const statusAllowed = newStatus === oldStatus || !this._rejectOverWipLimit(newStatus, 1, columns)
 
     // Update feature in memory
+    const previous = snapshotActivity(feature)
     feature.content = content
-    feature.status = frontmatter.status
+    feature.status = statusAllowed ? newStatus : oldStatus
     feature.priority = frontmatter.priority
     feature.assignee = frontmatter.assignee
     feature.epic = normalizeEpic(frontmatter.epic)
     feature.dueDate = frontmatter.dueDate
     feature.labels = frontmatter.labels
+    if (frontmatter.blockedBy) {
+      feature.blockedBy = normalizeBlockedBy(frontmatter.blockedBy, feature.id)
+    }
+    if (frontmatter.customFields) {
+      feature.customFields = mergeCustomFieldEdits(this._getCustomFieldDefinitions(), feature.customFields, frontmatter.customFields)
+    }
     feature.modified = new Date().toISOString()
     if (oldStatus !== feature.status) {
-      feature.completedAt = feature.status === 'done' ? new Date().toISOString() : null
+      feature.completedAt = getCompletedAtAfterMove(feature.completedAt, oldStatus, feature.status, columns)
+      feature.statusHistory = getStatusHistoryAfterMove(feature, oldStatus, feature.status)
     }
 
     // Save to file
     const fileContent = this._serializeFeature(feature)
     this._lastWrittenContent = fileContent
-    await vscode.workspace.fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(fileContent))
+    await this._fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(fileContent))
 
     // Only move file when crossing the done boundary
-    const crossingDoneBoundary = oldStatus !== feature.status && (oldStatus === 'done' || feature.status === 'done')
+    const crossingDoneBoundary = isDoneStatus(oldStatus, columns) !== isDoneStatus(feature.status, columns)
     if (crossingDoneBoundary) {
       this._migrating = true
       try {
-        const newPath = await moveFeatureFile(feature.filePath, featuresDir, feature.status)
+        const newPath = await moveFeatureFile(feature.filePath, featuresDir, feature.status, this._fs, columns)
         feature.filePath = newPath
       } catch {
         // Move failed; file stays in old folder, will reconcile on next load
@@ -901,6 +1583,29 @@ export class KanbanPanel {
 
     // Update all features in webview
     this._sendFeaturesToWebview()
+    if (feature.status !== frontmatter.status && this._currentEditingFeatureId === featureId) {
+      // Sync the editor's status dropdown with the status that was kept or auto-applied
+      this._sendFeatureContent(featureId)
+    }
+    await this._recordActivity(feature, previous)
+  }
+
+  /**
+   * The column a card moves to when an edit checks off its last checklist item,
+   * per the board's `checklistCompleteStatus`. Undefined when the card should
+   * stay put.
+   */
+  private _getChecklistAutoMoveStatus(
+    oldContent: string,
+    newContent: string,
+    status: FeatureStatus,
+    columns: KanbanColumn[]
+  ): FeatureStatus | undefined {
+    const target = this._getBoard()?.checklistCompleteStatus
+    if (!target || target === status || !columns.some(c => c.id === target)) return undefined
+    if (isDoneStatus(status, columns)) return undefined
+    if (isChecklistComplete(oldContent) || !isChecklistComplete(newContent)) return undefined
+    return target
   }
 
   private async _startWithAI(
@@ -914,67 +1619,173 @@ export class KanbanPanel {
       return
     }
 
-    // Parse title from the first # heading in content
-    const titleMatch = feature.content.match(/^#\s+(.+)$/m)
-    const title = titleMatch ? titleMatch[1].trim() : getTitleFromContent(feature.content)
-
-    const labels = feature.labels.length > 0 ? ` [${feature.labels.join(', ')}]` : ''
-    const description = feature.content.replace(/\n/g, ' ').replace(/\s+/g, ' ').trim()
-    const shortDesc = description.length > 200 ? description.substring(0, 200) + '...' : description
-
-    const prompt = `Implement this feature: "${title}" (${feature.priority} priority)${labels}. ${shortDesc} See full details in: ${feature.filePath}`
+    const board = this._getBoard()
+    const folder = getBoardFolder(this._context.workspaceState)
 
     // Use provided agent or fall back to config
     const config = vscode.workspace.getConfiguration('kanban-markdown')
-    const selectedAgent = agent || config.get<string>('aiAgent') || 'claude'
+    const agents = getConfiguredAgents()
+    const selectedAgent = agents.find(a => a.id === (agent || config.get<AIAgent>('aiAgent'))) ?? agents[0]
     const selectedPermissionMode = permissionMode || 'default'
 
-    let args: string[]
+    const mcp = folder && board
+      ? await prepareMcpServer(this._context.workspaceState, this._extensionUri.fsPath, folder.uri.fsPath, board.featuresDir, selectedAgent)
+      : { enabled: false }
+    const prompt = buildAgentPrompt(
+      feature,
+      feature.filePath,
+      await getPromptTemplate(board?.featuresDir),
+      mcp.enabled ? getMcpInstructions(feature.id, this._getColumns()) : ''
+    )
 
-    switch (selectedAgent) {
-      case 'claude': {
-        args = []
-        if (selectedPermissionMode !== 'default') {
-          args.push('--permission-mode', selectedPermissionMode)
-        }
-        args.push(prompt)
-        break
-      }
-      case 'codex': {
-        const approvalMap: Record<string, string> = {
-          'default': 'ask',
-          'plan': 'ask',
-          'acceptEdits': 'auto',
-          'bypassPermissions': 'full-auto'
-        }
-        const approvalMode = approvalMap[selectedPermissionMode] || 'suggest'
-        args = ['--ask-for-approval', approvalMode, prompt]
-        break
-      }
-      case 'copilot': {
-        args = [prompt]
-        break
-      }
-      case 'opencode': {
-        args = [prompt]
-        break
+    await this._recordAISession(feature.id, { agent: selectedAgent.id, permissionMode: selectedPermissionMode, startedAt: new Date().toISOString() })
+    await getAgentSessions().launch({
+      featureId: feature.id,
+      agent: selectedAgent,
+      permissionMode: selectedPermissionMode,
+      prompt,
+      cwd: folder?.uri.fsPath,
+      setup: mcp.setup && [mcp.setup]
+    })
+    this._launchedAgents.add(feature.id)
+    await this._offerStartMove(feature.id)
+  }
+
+  /**
+   * Records the session on the card in the journal's queue, so it cannot
+   * interleave with a board operation. Launching an agent is not a change to
+   * undo, so instead of a step of its own the write is carried into the card's
+   * latest step.
+   */
+  private _recordAISession(featureId: string, session: AISession): Promise<void> {
+    return this._enqueue(async () => {
+      const feature = this._features.find(f => f.id === featureId)
+      if (!feature) return
+      const uri = vscode.Uri.file(feature.filePath)
+      let previous: string | null = null
+      try {
+        previous = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri))
+      } catch {
+        // Written fresh below
       }
-      default:
-        args = [prompt]
+      feature.aiSession = session
+      const content = this._serializeFeature(feature)
+      if (feature.id === this._currentEditingFeatureId) this._lastWrittenContent = content
+      await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(content))
+      this._journal.amend(feature.filePath, previous, content)
+    })
+  }
+
+  /** Offers to move a card an agent just started on from a to-do column to the first in-progress column. */
+  private async _offerStartMove(featureId: string): Promise<void> {
+    const feature = this._features.find(f => f.id === featureId)
+    const start = feature && getAgentStartColumn(feature, this._getColumns())
+    if (start) await this._offerMove(feature, start, 'ai.moveOnStart')
+  }
+
+  /** When an agent this panel launched exits successfully, offers to move its card on for review. */
+  private async _onAgentSessionEnded(end: AgentSessionEnd): Promise<void> {
+    if (!this._launchedAgents.delete(end.featureId)) return
+    const feature = this._features.find(f => f.id === end.featureId)
+    const handoff = feature && getAgentExitColumn(feature, this._getColumns(), end.exitCode)
+    if (handoff) await this._offerMove(feature, handoff, 'ai.moveOnExit', { agent: end.agentName })
+  }
+
+  private _offerMove(feature: Feature, column: KanbanColumn, messageKey: string, params: Record<string, string> = {}): Promise<void> {
+    return offerCardMove(feature, column, messageKey, params, async () => {
+      if (this._disposed) return
+      // Moved to the end of the column, like the card's own status dropdown
+      await this._journaled(t('undo.moveCard'), () => this._moveFeature(feature.id, column.id, Number.MAX_SAFE_INTEGER))
+    })
+  }
+
+  /**
+   * Checks out the card's branch in the board folder, creating it the first
+   * time, records it on the card and moves a card that has not started yet to
+   * the first in-progress column.
+   */
+  private async _startWork(featureId: string): Promise<void> {
+    const feature = this._features.find(f => f.id === featureId)
+    const folder = getBoardFolder(this._context.workspaceState)
+    if (!feature || !folder) return
+
+    const branch = getFeatureBranchName(feature)
+    try {
+      await checkoutBranch(folder.uri.fsPath, branch)
+    } catch (err) {
+      vscode.window.showErrorMessage(t('git.startWorkFailed', { branch, error: err instanceof Error ? err.message : String(err) }))
+      return
+    }
+
+    const columns = this._getColumns()
+    const start = getStartColumn(columns)
+    const status = start && getStatusCategory(feature.status, columns) === 'todo' ? start.id : undefined
+    this._branchOffers.delete(featureId)
+    if (feature.branch === branch && !status) return
+    await this._journaled(t('undo.startWork'), () => this._updateFeature(featureId, status ? { branch, status } : { branch }))
+  }
+
+  /**
+   * Moves cards to the done column when a commit that reached the current
+   * branch since the last check closes them with a configured keyword, e.g.
+   * `closes KM-42`. The first check only records where HEAD is,
+   * and checking out an unrelated branch brings no new commits.
+   */
+  private async _checkClosingCommits(): Promise<void> {
+    const folder = getBoardFolder(this._context.workspaceState)
+    if (!folder) return
+    const cwd = folder.uri.fsPath
+    const head = await getHeadCommit(cwd)
+    const stateKey = this._stateKey('lastSeenHead')
+    const previous = this._context.workspaceState.get<string>(stateKey)
+    if (!head || head === previous) return
+    await this._context.workspaceState.update(stateKey, head)
+    if (!previous || !await isAncestor(cwd, previous, head)) return
+
+    const config = vscode.workspace.getConfiguration('kanban-markdown')
+    const keywords = sanitizeCloseKeywords(config.get('commitCloseKeywords'))
+    const columns = this._getColumns()
+    const done = getDoneColumn(columns)
+    if (keywords.length === 0 || !done) return
+
+    const commits = await getCommitsBetween(cwd, previous, head)
+    // Moving a card reloads the list
+    for (const feature of [...this._features]) {
+      if (isDoneStatus(feature.status, columns) || this._disposed) continue
+      const references = getFeatureReferences(feature)
+      const commit = commits.find(c => closesFeature(c.message, references, keywords))
+      if (!commit) continue
+      await this._journaled(t('undo.moveCard'), () => this._moveFeature(feature.id, done.id, Number.MAX_SAFE_INTEGER))
+      // The move is refused when it would break the done column's WIP limit
+      if (this._features.find(f => f.id === feature.id)?.status !== done.id) continue
+      vscode.window.showInformationMessage(t('git.closedByCommit', {
+        title: getTitleFromContent(feature.content),
+        column: done.name,
+        hash: commit.hash.slice(0, 7)
+      }))
     }
+  }
 
-    const agentNames: Record<string, string> = {
-      'claude': 'Claude Code',
-      'codex': 'Codex',
-      'copilot': 'GitHub Copilot',
-      'opencode': 'OpenCode'
+  /** Offers to move cards on as their branches get commits and are merged, once per card and column. */
+  private async _checkBranches(): Promise<void> {
+    const folder = getBoardFolder(this._context.workspaceState)
+    const columns = this._getColumns()
+    const features = this._features.filter(f => f.branch && !isDoneStatus(f.status, columns))
+    if (!folder || features.length === 0) return
+
+    const cwd = folder.uri.fsPath
+    const base = await getBaseBranch(cwd)
+    if (!base) return
+    for (const feature of features) {
+      const branch = feature.branch!
+      if (branch === base) continue
+      const state = await getBranchState(cwd, branch, base)
+      const target = state && getBranchMoveTarget(feature.status, state, columns)
+      if (!target || this._branchOffers.get(feature.id) === target.id || this._disposed) continue
+      this._branchOffers.set(feature.id, target.id)
+      // Not awaited, so the offers for several cards show together; the offer reports a failed move itself
+      this._offerMove(feature, target, state.merged ? 'git.moveOnMerge' : 'git.moveOnCommits', { branch, base })
     }
-    const terminal = vscode.window.createTerminal({
-      name: agentNames[selectedAgent] || 'AI Agent',
-      cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
-    })
-    terminal.show()
-    terminal.sendText([this._shellQuote(selectedAgent), ...args.map(a => this._shellQuote(a))].join(' '))
   }
 
   private async _deleteLabel(labelName: string): Promise<void> {
@@ -999,11 +1810,13 @@ export class KanbanPanel {
     for (const feature of affectedFeatures) {
       const idx = feature.labels.indexOf(trimmed)
       if (idx !== -1) {
+        const previous = snapshotActivity(feature)
         feature.labels.splice(idx, 1)
         feature.modified = new Date().toISOString()
 
         const content = this._serializeFeature(feature)
-        await vscode.workspace.fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(content))
+        await this._fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(content))
+        await this._recordActivity(feature, previous)
       }
     }
 
@@ -1021,6 +1834,7 @@ export class KanbanPanel {
       if (idx === -1) continue
 
       // Replace old label with new, avoiding duplicates
+      const previous = snapshotActivity(feature)
       if (feature.labels.includes(trimmedNew)) {
         // New name already exists on this feature — just remove the old one
         feature.labels.splice(idx, 1)
@@ -1030,7 +1844,8 @@ export class KanbanPanel {
       feature.modified = new Date().toISOString()
 
       const content = this._serializeFeature(feature)
-      await vscode.workspace.fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(content))
+      await this._fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(content))
+      await this._recordActivity(feature, previous)
       updatedCount++
     }
 
@@ -1092,9 +1907,9 @@ export class KanbanPanel {
     const featuresDir = this._getWorkspaceFeaturesDir()
     if (!featuresDir) return
 
-    const config = vscode.workspace.getConfiguration('kanban-markdown')
-    const pattern = config.get<FilenamePattern>('filenamePattern', 'name-date')
-
+    const pattern = this._getFilenamePattern()
+    const columns = this._getColumns()
+    const renamedIds = new Map<string, string>()
     let renamed = 0
     let skipped = 0
 
@@ -1107,7 +1922,7 @@ export class KanbanPanel {
 
         if (newFilename === feature.id) continue // no change needed
 
-        const newFilePath = getFeatureFilePath(featuresDir, feature.status, newFilename)
+        const newFilePath = getFeatureFilePath(featuresDir, feature.status, newFilename, columns)
 
         // Skip if target file already exists (collision)
         try {
@@ -1119,6 +1934,8 @@ export class KanbanPanel {
         }
 
         const oldPath = feature.filePath
+        const oldId = feature.id
+        renamedIds.set(feature.id, newFilename)
         feature.id = newFilename
         feature.filePath = newFilePath
 
@@ -1126,8 +1943,15 @@ export class KanbanPanel {
         await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(newFilePath)))
         await vscode.workspace.fs.writeFile(vscode.Uri.file(newFilePath), new TextEncoder().encode(serialized))
         await vscode.workspace.fs.delete(vscode.Uri.file(oldPath))
+        await renameActivityLog(featuresDir, oldId, newFilename)
         renamed++
       }
+
+      // Point `blockedBy` entries at the new ids
+      for (const feature of renameDependencyReferences(this._features, renamedIds)) {
+        const serialized = this._serializeFeature(feature)
+        await vscode.workspace.fs.writeFile(vscode.Uri.file(feature.filePath), new TextEncoder().encode(serialized))
+      }
     } finally {
       this._migrating = false
     }
@@ -1141,17 +1965,87 @@ export class KanbanPanel {
     vscode.window.showInformationMessage(`Kanban Markdown: ${msg}`)
   }
 
+  /**
+   * With the board's `enforceWipLimits` on, refuses to add `incoming` cards to
+   * a column that would go over its WIP limit. Shows a warning and re-sends the
+   * board so the webview drops its optimistic update. Returns true when the move
+   * is rejected.
+   */
+  private _rejectOverWipLimit(status: string, incoming: number, columns: KanbanColumn[]): boolean {
+    if (!this._getBoard()?.enforceWipLimits) return false
+
+    const column = columns.find(c => c.id === status)
+    const currentCount = this._features.filter(f => f.status === status).length
+    if (!column || !exceedsWipLimit(column, currentCount, incoming)) return false
+
+    vscode.window.showWarningMessage(t('panel.wipLimitReached', { name: column.name, limit: column.wipLimit ?? 0 }))
+    this._sendFeaturesToWebview()
+    return true
+  }
+
+  /**
+   * With `warnOnBlockedMove` on, warns when a feature with open blockers is moved
+   * into an active column. The move itself still goes through.
+   */
+  private _warnIfStartingBlocked(feature: Feature, newStatus: string, columns: KanbanColumn[]): void {
+    const config = vscode.workspace.getConfiguration('kanban-markdown')
+    if (!config.get<boolean>('warnOnBlockedMove', true)) return
+
+    const column = columns.find(c => c.id === newStatus)
+    if (!column || getColumnCategory(column) !== 'active') return
+
+    const blockers = getOpenBlockers(feature, this._features, columns)
+    if (blockers.length === 0) return
+
+    vscode.window.showWarningMessage(t('panel.movedBlockedFeature', {
+      title: getTitleFromContent(feature.content),
+      blockers: blockers.map(b => getTitleFromContent(b.content)).join(', ')
+    }))
+  }
+
+  // Falls back to the first column when the configured default status is not a column id
+  private _getDefaultStatus(columns: KanbanColumn[]): FeatureStatus {
+    const config = vscode.workspace.getConfiguration('kanban-markdown')
+    const configured = config.get<string>('defaultStatus', 'backlog')
+    return columns.some(c => c.id === configured) ? configured : columns[0].id
+  }
+
+  private _getColumns(): KanbanColumn[] {
+    const board = this._getBoard()
+    if (board) return board.columns
+    const config = vscode.workspace.getConfiguration('kanban-markdown')
+    return sanitizeColumns(config.get('columns'))
+  }
+
+  private _getKeyPrefix(): string {
+    const config = vscode.workspace.getConfiguration('kanban-markdown')
+    return this._getBoard()?.keyPrefix ?? sanitizeKeyPrefix(config.get('keyPrefix')) ?? DEFAULT_KEY_PREFIX
+  }
+
+  /** Keys for the cards among `features` that need one, by file path. None when the counter file cannot be written. */
+  private async _allocateKeys(featuresDir: string, features: Feature[]): Promise<Map<string, string>> {
+    try {
+      return await allocateCardKeys(featuresDir, this._getKeyPrefix(), features)
+    } catch {
+      // The cards get keys on a later load
+      return new Map()
+    }
+  }
+
+  private _getFilenamePattern(): FilenamePattern {
+    const config = vscode.workspace.getConfiguration('kanban-markdown')
+    return this._getBoard()?.filenamePattern ?? config.get<FilenamePattern>('filenamePattern', 'name-date')
+  }
+
+  private _getCustomFieldDefinitions(): CustomFieldDefinition[] {
+    const config = vscode.workspace.getConfiguration('kanban-markdown')
+    return sanitizeCustomFieldDefinitions(config.get('customFields', []))
+  }
+
   private _sendFeaturesToWebview(): void {
     const config = vscode.workspace.getConfiguration('kanban-markdown')
 
-    const defaultColumns: KanbanColumn[] = [
-      { id: 'backlog', name: 'Backlog', color: '#6b7280' },
-      { id: 'todo', name: 'To Do', color: '#3b82f6' },
-      { id: 'in-progress', name: 'In Progress', color: '#f59e0b' },
-      { id: 'review', name: 'Review', color: '#8b5cf6' },
-      { id: 'done', name: 'Done', color: '#22c55e' }
-    ]
-    const columns = config.get<KanbanColumn[]>('columns', defaultColumns)
+    const columns = this._getColumns()
     const settings: CardDisplaySettings = {
       showPriorityBadges: config.get<boolean>('showPriorityBadges', true),
       showAssignee: config.get<boolean>('showAssignee', true),
@@ -1164,14 +2058,19 @@ export class KanbanPanel {
       markdownEditorMode: config.get<boolean>('markdownEditorMode', false),
       hideScrollbar: config.get<boolean>('hideScrollbar', false),
       defaultPriority: config.get<Priority>('defaultPriority', 'medium'),
-      defaultStatus: config.get<FeatureStatus>('defaultStatus', 'backlog')
+      defaultStatus: this._getDefaultStatus(columns)
     }
 
-    const collapsedColumns: string[] = this._context.workspaceState.get('kanban-markdown.collapsedColumns', [])
-    const boardViewMode: BoardViewMode = this._context.workspaceState.get('kanban-markdown.boardViewMode', 'standard')
-    const collapsedEpics: string[] = this._context.workspaceState.get('kanban-markdown.collapsedEpics', [])
+    const collapsedColumns: string[] = this._context.workspaceState.get(this._stateKey('collapsedColumns'), [])
+    // 'epic' is the pre-swimlane name of the swimlanes view
+    const storedViewMode = this._context.workspaceState.get<string>(this._stateKey('boardViewMode'), 'standard')
+    const boardViewMode = (storedViewMode === 'epic' ? 'swimlanes' : storedViewMode) as BoardViewMode
+    const swimlaneGroupBy: SwimlaneGroupBy = this._context.workspaceState.get(this._stateKey('swimlaneGroupBy'), 'epic')
+    const collapsedLanes: string[] = this._context.workspaceState.get(this._stateKey('collapsedLanes'), [])
+    const hiddenTableColumns: TableColumnKey[] = this._context.workspaceState.get(this._stateKey('hiddenTableColumns'), [])
 
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+    const boardFolder = getBoardFolder(this._context.workspaceState)
+    const workspaceRoot = boardFolder?.uri.fsPath
     const features = this._features.map(f => ({
       ...f,
       filePath: workspaceRoot ? path.relative(workspaceRoot, f.filePath) : f.filePath
@@ -1184,7 +2083,16 @@ export class KanbanPanel {
       settings,
       collapsedColumns,
       boardViewMode,
-      collapsedEpics,
+      swimlaneGroupBy,
+      collapsedLanes,
+      hiddenTableColumns,
+      customFields: this._getCustomFieldDefinitions(),
+      workspaceFolders: (vscode.workspace.workspaceFolders ?? []).map(f => ({ uri: f.uri.toString(), name: f.name })),
+      boardFolder: boardFolder?.uri.toString() ?? null,
+      boards: boardFolder ? listBoards(boardFolder).flatMap(b => b.name === null ? [] : [b.name]) : [],
+      board: this._board,
+      agents: getConfiguredAgents(),
+      agentSessions: getAgentSessions().getRunning(),
       locale: getEffectiveLocale(),
       translations: getBundle()
     })
@@ -2,8 +2,11 @@ import * as vscode from 'vscode'
 import * as crypto from 'crypto'
 import * as path from 'path'
 import { getTitleFromContent } from '../shared/types'
-import type { FeatureStatus, Priority, KanbanColumn } from '../shared/types'
+import type { FeatureStatus, Priority } from '../shared/types'
+import { parseFeatureFile } from '../shared/featureFrontmatter'
 import { KanbanPanel } from './KanbanPanel'
+import { getBoardFolder } from './workspaceFolders'
+import { getActiveBoardSettings, listBoards, type BoardSettings } from './boards'
 import { t } from './l10n'
 
 interface SidebarFeature {
@@ -19,6 +22,7 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView
   private _features: SidebarFeature[] = []
   private _fileWatcher?: vscode.FileSystemWatcher
+  private _watchedDir: string | null = null
   private _debounceTimer?: NodeJS.Timeout
   private _disposables: vscode.Disposable[] = []
 
@@ -27,12 +31,22 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
 
     vscode.workspace.onDidChangeConfiguration(e => {
       if (e.affectsConfiguration('kanban-markdown')) {
-        if (e.affectsConfiguration('kanban-markdown.featuresDirectory')) {
+        if (e.affectsConfiguration('kanban-markdown.featuresDirectory') || e.affectsConfiguration('kanban-markdown.boards')) {
           this._setupFileWatcher()
         }
         this._refresh()
       }
     }, null, this._disposables)
+
+    vscode.workspace.onDidChangeWorkspaceFolders(() => this.reloadBoard(), null, this._disposables)
+    // Follows the active board, and shows the open board button while it has no panel
+    KanbanPanel.onDidChangeBoards(() => this.reloadBoard(), null, this._disposables)
+  }
+
+  /** Follows a switch to another workspace folder or board. */
+  public reloadBoard(): void {
+    this._setupFileWatcher()
+    this._refresh()
   }
 
   public resolveWebviewView(
@@ -54,6 +68,9 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
         case 'openBoard':
           vscode.commands.executeCommand('kanban-markdown.open')
           break
+        case 'selectBoard':
+          vscode.commands.executeCommand('kanban-markdown.open', message.board)
+          break
         case 'newFeature':
           vscode.commands.executeCommand('kanban-markdown.open')
           // Wait for the panel to be ready, then trigger create dialog
@@ -86,12 +103,6 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
     webviewView.webview.html = this._getHtml()
   }
 
-  public setBoardOpen(open: boolean): void {
-    if (this._view) {
-      this._view.webview.postMessage({ type: 'boardOpenChanged', open })
-    }
-  }
-
   public dispose(): void {
     if (this._fileWatcher) {
       this._fileWatcher.dispose()
@@ -105,11 +116,15 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
   }
 
   private _setupFileWatcher(): void {
+    const featuresDir = this._getBoard()?.featuresDir ?? null
+    // Focusing another panel of the same board keeps the watcher
+    if (this._fileWatcher && featuresDir === this._watchedDir) return
+
     if (this._fileWatcher) {
       this._fileWatcher.dispose()
+      this._fileWatcher = undefined
     }
-
-    const featuresDir = this._getFeaturesDir()
+    this._watchedDir = featuresDir
     if (!featuresDir) return
 
     const pattern = new vscode.RelativePattern(featuresDir, '**/*.md')
@@ -128,40 +143,32 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
   private async _refresh(): Promise<void> {
     await this._loadFeatures()
     if (this._view) {
+      const board = this._getBoard()
+      const folder = getBoardFolder(this._context.workspaceState)
       this._view.webview.postMessage({
         type: 'update',
         features: this._features,
-        columns: this._getColumns()
+        columns: board?.columns ?? [],
+        boards: folder ? listBoards(folder).flatMap(b => b.name === null ? [] : [b.name]) : [],
+        board: board?.name ?? null,
+        // Only worth showing when there is more than one board to choose from
+        folder: (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+          ? getBoardFolder(this._context.workspaceState)?.name ?? null
+          : null
       })
       this._view.webview.postMessage({
         type: 'boardOpenChanged',
-        open: !!KanbanPanel.currentPanel
+        open: !!board && KanbanPanel.isOpen(board.name)
       })
     }
   }
 
-  private _getFeaturesDir(): string | null {
-    const workspaceFolders = vscode.workspace.workspaceFolders
-    if (!workspaceFolders || workspaceFolders.length === 0) return null
-    const config = vscode.workspace.getConfiguration('kanban-markdown')
-    const dir = config.get<string>('featuresDirectory') || '.devtool/features'
-    return path.join(workspaceFolders[0].uri.fsPath, dir)
-  }
-
-  private _getColumns(): KanbanColumn[] {
-    const config = vscode.workspace.getConfiguration('kanban-markdown')
-    const defaultColumns: KanbanColumn[] = [
-      { id: 'backlog', name: 'Backlog', color: '#6b7280' },
-      { id: 'todo', name: 'To Do', color: '#3b82f6' },
-      { id: 'in-progress', name: 'In Progress', color: '#f59e0b' },
-      { id: 'review', name: 'Review', color: '#8b5cf6' },
-      { id: 'done', name: 'Done', color: '#22c55e' }
-    ]
-    return config.get<KanbanColumn[]>('columns', defaultColumns)
+  private _getBoard(): BoardSettings | null {
+    return getActiveBoardSettings(this._context.workspaceState)
   }
 
   private async _loadFeatures(): Promise<void> {
-    const featuresDir = this._getFeaturesDir()
+    const featuresDir = this._getBoard()?.featuresDir
     if (!featuresDir) {
       this._features = []
       return
@@ -177,7 +184,7 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
         const filePath = path.join(featuresDir, file)
         try {
           const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath)))
-          const parsed = this._parseFrontmatter(content, file)
+          const parsed = this._parseFrontmatter(content, filePath)
           if (parsed) features.push(parsed)
         } catch {
           // Skip unreadable files
@@ -196,7 +203,7 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
         const filePath = path.join(doneDir, file)
         try {
           const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath)))
-          const parsed = this._parseFrontmatter(content, file)
+          const parsed = this._parseFrontmatter(content, filePath)
           if (parsed) features.push(parsed)
         } catch {
           // Skip unreadable files
@@ -209,25 +216,12 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
     this._features = features
   }
 
-  private _parseFrontmatter(content: string, filename: string): SidebarFeature | null {
-    content = content.replace(/\r\n/g, '\n')
-    const match = content.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/)
-    if (!match) return null
+  private _parseFrontmatter(content: string, filePath: string): SidebarFeature | null {
+    const feature = parseFeatureFile(content, filePath)
+    if (!feature) return null
 
-    const fm = match[1]
-    const body = match[2] || ''
-
-    const getValue = (key: string): string => {
-      const m = fm.match(new RegExp(`^${key}:\\s*(.*)$`, 'm'))
-      if (!m) return ''
-      const v = m[1].trim().replace(/^["']|["']$/g, '')
-      return v === 'null' ? '' : v
-    }
-
-    const id = getValue('id') || path.basename(filename, '.md')
-    const status = (getValue('status') as FeatureStatus) || 'backlog'
-    const priority = (getValue('priority') as Priority) || 'medium'
-    const title = getTitleFromContent(body)
+    const { id, status, priority } = feature
+    const title = getTitleFromContent(feature.content)
 
     return { id, title, status, priority }
   }
@@ -307,6 +301,26 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
       opacity: 0.8;
     }
 
+    .board-select {
+      width: 100%;
+      margin-bottom: 8px;
+      padding: 3px 4px;
+      color: var(--vscode-dropdown-foreground);
+      background: var(--vscode-dropdown-background);
+      border: 1px solid var(--vscode-dropdown-border, transparent);
+      border-radius: 2px;
+      font-family: var(--vscode-font-family);
+      font-size: var(--vscode-font-size);
+    }
+
+    .folder-name {
+      margin-bottom: 8px;
+      color: var(--vscode-descriptionForeground);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
     .section-header .total {
       font-weight: 400;
       opacity: 0.7;
@@ -400,6 +414,8 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
   <div class="separator"></div>
 
   <div class="section" id="overviewSection">
+    <div class="folder-name" id="folderName" style="display:none;"></div>
+    <select class="board-select" id="boardSelect" title="${t('sidebar.board')}" aria-label="${t('sidebar.board')}" style="display:none;"></select>
     <div class="section-header">
       <span>${t('sidebar.overview')}</span>
       <span class="total" id="totalCount">0 total</span>
@@ -428,12 +444,19 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
       document.getElementById('newFeature').addEventListener('click', () => {
         vscode.postMessage({ type: 'newFeature' });
       });
+      document.getElementById('boardSelect').addEventListener('change', e => {
+        vscode.postMessage({ type: 'selectBoard', board: e.target.value });
+      });
 
       window.addEventListener('message', e => {
         const msg = e.data;
         if (msg.type === 'update') {
           columns = msg.columns;
           features = msg.features;
+          const folderName = document.getElementById('folderName');
+          folderName.textContent = msg.folder || '';
+          folderName.style.display = msg.folder ? '' : 'none';
+          renderBoards(msg.boards, msg.board);
           render();
         } else if (msg.type === 'boardOpenChanged') {
           document.getElementById('openBoard').style.display = msg.open ? 'none' : '';
@@ -461,9 +484,9 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
         }
 
         // In-progress features
-        const inProgressCol = columns.find(c => c.id === 'in-progress');
-        const inProgressColor = inProgressCol ? inProgressCol.color : '#f59e0b';
-        const inProgress = features.filter(f => f.status === 'in-progress');
+        // Features in any column with the 'active' category
+        const activeColumns = columns.filter(c => c.category === 'active');
+        const inProgress = features.filter(f => activeColumns.some(c => c.id === f.status));
         const section = document.getElementById('inProgressSection');
         const list = document.getElementById('inProgressList');
 
@@ -475,7 +498,7 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
             li.className = 'feature-item';
             li.title = f.title;
             li.innerHTML =
-              '<span class="feature-dot" style="background:' + escapeHtml(inProgressColor) + '"></span>' +
+              '<span class="feature-dot" style="background:' + escapeHtml(activeColumns.find(c => c.id === f.status).color) + '"></span>' +
               '<span class="feature-title">' + escapeHtml(f.title) + '</span>';
             li.addEventListener('click', () => {
               vscode.postMessage({ type: 'openFeature', featureId: f.id });
@@ -487,6 +510,20 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider {
         }
       }
 
+      // Only shown when the boards setting lists more than one board
+      function renderBoards(boards, board) {
+        const select = document.getElementById('boardSelect');
+        select.innerHTML = '';
+        for (const name of boards) {
+          const option = document.createElement('option');
+          option.value = name;
+          option.textContent = name;
+          option.selected = name === board;
+          select.appendChild(option);
+        }
+        select.style.display = boards.length > 1 ? '' : 'none';
+      }
+
       function escapeHtml(str) {
         const div = document.createElement('div');
         div.textContent = str;
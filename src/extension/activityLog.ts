@@ -0,0 +1,109 @@
+import * as path from 'path'
+import * as os from 'os'
+import { execFile } from 'child_process'
+import * as vscode from 'vscode'
+import type { ActivityEntry } from '../shared/types'
+import { parseActivityLog, serializeActivityEntries } from '../shared/activity'
+
+export interface ActivityFs {
+  readFile(uri: vscode.Uri): Thenable<Uint8Array>
+  writeFile(uri: vscode.Uri, content: Uint8Array): Thenable<void>
+  createDirectory(uri: vscode.Uri): Thenable<void>
+  rename(source: vscode.Uri, target: vscode.Uri): Thenable<void>
+  delete(uri: vscode.Uri): Thenable<void>
+}
+
+// Sidecar directory next to the cards; board loading and the watcher only look at .md files
+export const ACTIVITY_DIR = '.activity'
+
+export function getActivityLogPath(featuresDir: string, featureId: string): string {
+  return path.join(featuresDir, ACTIVITY_DIR, `${featureId}.jsonl`)
+}
+
+export async function readActivityLog(
+  featuresDir: string,
+  featureId: string,
+  fs: ActivityFs = vscode.workspace.fs
+): Promise<ActivityEntry[]> {
+  try {
+    const raw = await fs.readFile(vscode.Uri.file(getActivityLogPath(featuresDir, featureId)))
+    return parseActivityLog(new TextDecoder().decode(raw))
+  } catch {
+    return []
+  }
+}
+
+export async function appendActivityLog(
+  featuresDir: string,
+  featureId: string,
+  entries: ActivityEntry[],
+  fs: ActivityFs = vscode.workspace.fs
+): Promise<void> {
+  if (entries.length === 0) return
+  const logPath = getActivityLogPath(featuresDir, featureId)
+  let existing = ''
+  try {
+    existing = new TextDecoder().decode(await fs.readFile(vscode.Uri.file(logPath)))
+  } catch {
+    // First entry for this card
+  }
+  if (existing && !existing.endsWith('\n')) existing += '\n'
+  await fs.createDirectory(vscode.Uri.file(path.dirname(logPath)))
+  await fs.writeFile(vscode.Uri.file(logPath), new TextEncoder().encode(existing + serializeActivityEntries(entries)))
+}
+
+/** Follows a card id change; a card without a log is left alone. */
+export async function renameActivityLog(
+  featuresDir: string,
+  oldId: string,
+  newId: string,
+  fs: ActivityFs = vscode.workspace.fs
+): Promise<void> {
+  try {
+    await fs.rename(
+      vscode.Uri.file(getActivityLogPath(featuresDir, oldId)),
+      vscode.Uri.file(getActivityLogPath(featuresDir, newId))
+    )
+  } catch {
+    // No log yet
+  }
+}
+
+export async function deleteActivityLog(
+  featuresDir: string,
+  featureId: string,
+  fs: ActivityFs = vscode.workspace.fs
+): Promise<void> {
+  try {
+    await fs.delete(vscode.Uri.file(getActivityLogPath(featuresDir, featureId)))
+  } catch {
+    // No log yet
+  }
+}
+
+const userNames = new Map<string, Promise<string>>()
+
+/**
+ * Name recorded on activity entries: `git config user.name` as seen from
+ * `cwd`, falling back to the OS user. Looked up once per directory.
+ */
+export function getActivityUser(cwd: string): Promise<string> {
+  let name = userNames.get(cwd)
+  if (!name) {
+    name = new Promise<string>(resolve => {
+      execFile('git', ['config', 'user.name'], { cwd, timeout: 5000 }, (err, stdout) => {
+        resolve((!err && stdout.trim()) || getOsUserName())
+      })
+    })
+    userNames.set(cwd, name)
+  }
+  return name
+}
+
+function getOsUserName(): string {
+  try {
+    return os.userInfo().username
+  } catch {
+    return 'unknown'
+  }
+}
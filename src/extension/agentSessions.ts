@@ -0,0 +1,190 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { getAgentCommandLine, getAgentDefinitions, sanitizeAgentDefinitions } from '../shared/agents'
+import { PROMPT_TEMPLATE_FILE } from '../shared/prompts'
+import { getTitleFromContent } from '../shared/types'
+import type { AgentDefinition, AIAgent, AIPermissionMode, Feature, KanbanColumn } from '../shared/types'
+import { t } from './l10n'
+
+// Shells report shell integration shortly after they start; without it we can only watch for the terminal closing
+const SHELL_INTEGRATION_TIMEOUT_MS = 3000
+
+/** The built-in agents and those from `kanban-markdown.customAgents`. */
+export function getConfiguredAgents(): AgentDefinition[] {
+  const config = vscode.workspace.getConfiguration('kanban-markdown')
+  return getAgentDefinitions(sanitizeAgentDefinitions(config.get('customAgents', [])))
+}
+
+/**
+ * The prompt template for a board: the features directory's template file,
+ * otherwise the `kanban-markdown.promptTemplate` setting. Undefined when
+ * neither is set.
+ */
+export async function getPromptTemplate(featuresDir: string | undefined): Promise<string | undefined> {
+  if (featuresDir) {
+    try {
+      const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.file(path.join(featuresDir, PROMPT_TEMPLATE_FILE))))
+      if (text.trim()) return text
+    } catch {
+      // No template file
+    }
+  }
+  const setting = vscode.workspace.getConfiguration('kanban-markdown').get<string>('promptTemplate', '')
+  return setting.trim() ? setting : undefined
+}
+
+/**
+ * Asks whether to move a card to `column`, and runs `move` when the user
+ * agrees. A failed move is reported here, so the offer can be left to run
+ * without awaiting it.
+ */
+export async function offerCardMove(
+  feature: Feature,
+  column: KanbanColumn,
+  messageKey: string,
+  params: Record<string, string>,
+  move: () => Promise<void>
+): Promise<void> {
+  const title = getTitleFromContent(feature.content)
+  const moveButton = t('ai.moveButton', { column: column.name })
+  const choice = await vscode.window.showInformationMessage(t(messageKey, { ...params, title, column: column.name }), moveButton)
+  if (choice !== moveButton) return
+  try {
+    await move()
+  } catch (err) {
+    vscode.window.showErrorMessage(t('ai.moveFailed', { title, error: err instanceof Error ? err.message : String(err) }))
+  }
+}
+
+export function shellQuote(arg: string): string {
+  return "'" + arg.replace(/'/g, "'\\''") + "'"
+}
+
+export interface AgentLaunch {
+  featureId: string
+  agent: AgentDefinition
+  permissionMode: AIPermissionMode
+  prompt: string
+  cwd?: string
+  /** Command lines to run before the agent, such as an MCP server registration */
+  setup?: string[][]
+}
+
+export interface AgentSessionEnd {
+  featureId: string
+  agent: AIAgent
+  agentName: string
+  /** Undefined when the terminal was closed before the shell reported how the agent exited */
+  exitCode: number | undefined
+}
+
+interface AgentSession {
+  agent: AgentDefinition
+  terminal: vscode.Terminal
+  execution?: vscode.TerminalShellExecution
+}
+
+function waitForShellIntegration(terminal: vscode.Terminal): Promise<vscode.TerminalShellIntegration | undefined> {
+  // Shell integration events arrived in VS Code 1.93
+  if (terminal.shellIntegration || !vscode.window.onDidChangeTerminalShellIntegration) {
+    return Promise.resolve(terminal.shellIntegration)
+  }
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      listener.dispose()
+      resolve(undefined)
+    }, SHELL_INTEGRATION_TIMEOUT_MS)
+    const listener = vscode.window.onDidChangeTerminalShellIntegration(e => {
+      if (e.terminal !== terminal) return
+      clearTimeout(timer)
+      listener.dispose()
+      resolve(e.shellIntegration)
+    })
+  })
+}
+
+/**
+ * Agent terminals started with "Build with AI", by feature id. A session ends
+ * when the shell reports that the agent command finished, or when its terminal
+ * is closed.
+ */
+export class AgentSessions implements vscode.Disposable {
+  private readonly _sessions = new Map<string, AgentSession>()
+  private readonly _onDidChange = new vscode.EventEmitter<void>()
+  private readonly _onDidEnd = new vscode.EventEmitter<AgentSessionEnd>()
+  private readonly _disposables: vscode.Disposable[] = [this._onDidChange, this._onDidEnd]
+
+  /** Fires when a session starts or ends */
+  public readonly onDidChange = this._onDidChange.event
+  public readonly onDidEnd = this._onDidEnd.event
+
+  constructor() {
+    this._disposables.push(vscode.window.onDidCloseTerminal(terminal => {
+      for (const [featureId, session] of this._sessions) {
+        if (session.terminal === terminal) this._end(featureId, terminal.exitStatus?.code)
+      }
+    }))
+    if (vscode.window.onDidEndTerminalShellExecution) {
+      this._disposables.push(vscode.window.onDidEndTerminalShellExecution(e => {
+        for (const [featureId, session] of this._sessions) {
+          if (session.execution === e.execution) this._end(featureId, e.exitCode)
+        }
+      }))
+    }
+  }
+
+  /** The agent running for each feature id. */
+  public getRunning(): Record<string, AIAgent> {
+    return Object.fromEntries([...this._sessions].map(([featureId, session]) => [featureId, session.agent.id]))
+  }
+
+  /** Brings the feature's agent terminal to the front. Returns false when no agent is running for it. */
+  public focus(featureId: string): boolean {
+    const session = this._sessions.get(featureId)
+    session?.terminal.show()
+    return !!session
+  }
+
+  /** Starts the agent in a new terminal. A session already running for the feature stops being tracked. */
+  public async launch(launch: AgentLaunch): Promise<void> {
+    const terminal = vscode.window.createTerminal({ name: launch.agent.name, cwd: launch.cwd })
+    terminal.show()
+    const session: AgentSession = { agent: launch.agent, terminal }
+    this._sessions.set(launch.featureId, session)
+    this._onDidChange.fire()
+
+    const toCommandLine = (argv: string[]) => argv.map(shellQuote).join(' ')
+    const agentCommand = toCommandLine(getAgentCommandLine(launch.agent, launch.permissionMode, launch.prompt))
+
+    const shellIntegration = await waitForShellIntegration(terminal)
+    // Closed or replaced while the shell was starting
+    if (this._sessions.get(launch.featureId) !== session) return
+    for (const argv of launch.setup ?? []) terminal.sendText(toCommandLine(argv))
+    if (shellIntegration) {
+      session.execution = shellIntegration.executeCommand(agentCommand)
+    } else {
+      terminal.sendText(agentCommand)
+    }
+  }
+
+  private _end(featureId: string, exitCode: number | undefined): void {
+    const session = this._sessions.get(featureId)
+    if (!session) return
+    this._sessions.delete(featureId)
+    this._onDidChange.fire()
+    this._onDidEnd.fire({ featureId, agent: session.agent.id, agentName: session.agent.name, exitCode })
+  }
+
+  public dispose(): void {
+    this._sessions.clear()
+    for (const disposable of this._disposables) disposable.dispose()
+  }
+}
+
+let agentSessions: AgentSessions | undefined
+
+/** The window's agent sessions, shared by the board and the feature header. */
+export function getAgentSessions(): AgentSessions {
+  agentSessions ??= new AgentSessions()
+  return agentSessions
+}
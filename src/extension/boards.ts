@@ -0,0 +1,106 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import type { FilenamePattern, KanbanColumn } from '../shared/types'
+import { sanitizeBoards } from '../shared/boards'
+import { sanitizeColumns } from '../shared/statuses'
+import { DEFAULT_KEY_PREFIX, sanitizeKeyPrefix } from '../shared/cardKeys'
+import { getBoardFolder, getFeaturesDir } from './workspaceFolders'
+
+// Workspace state key holding the name of the board last opened or switched to
+const ACTIVE_BOARD_KEY = 'kanban-markdown.activeBoard'
+
+/** A board of a workspace folder with its settings filled in from the top-level ones. */
+export interface BoardSettings {
+  /** Null for the board of the top-level settings, used when no `boards` are configured */
+  name: string | null
+  featuresDir: string
+  columns: KanbanColumn[]
+  filenamePattern: FilenamePattern
+  keyPrefix: string
+  enforceWipLimits: boolean
+  /** Empty when checking off a checklist leaves the card where it is */
+  checklistCompleteStatus: string
+}
+
+/** The folder's configured boards, or its single board from the top-level settings. */
+export function listBoards(folder: vscode.WorkspaceFolder): BoardSettings[] {
+  const config = vscode.workspace.getConfiguration('kanban-markdown', folder.uri)
+  const columns = sanitizeColumns(config.get('columns'))
+  const filenamePattern = config.get<FilenamePattern>('filenamePattern', 'name-date')
+  const keyPrefix = sanitizeKeyPrefix(config.get('keyPrefix')) ?? DEFAULT_KEY_PREFIX
+  const enforceWipLimits = config.get<boolean>('enforceWipLimits', false)
+  const checklistCompleteStatus = config.get<string>('checklistCompleteStatus', '').trim()
+  const boards = sanitizeBoards(config.get('boards'))
+  if (boards.length === 0) {
+    return [{ name: null, featuresDir: getFeaturesDir(folder), columns, filenamePattern, keyPrefix, enforceWipLimits, checklistCompleteStatus }]
+  }
+  return boards.map(board => ({
+    name: board.name,
+    featuresDir: path.join(folder.uri.fsPath, board.featuresDirectory),
+    columns: board.columns ?? columns,
+    filenamePattern: board.filenamePattern ?? filenamePattern,
+    keyPrefix: board.keyPrefix ?? keyPrefix,
+    enforceWipLimits: board.enforceWipLimits ?? enforceWipLimits,
+    checklistCompleteStatus: board.checklistCompleteStatus ?? checklistCompleteStatus
+  }))
+}
+
+/** The named board of a folder, or its first board when the name is not configured. */
+export function resolveBoard(folder: vscode.WorkspaceFolder, name: string | null): BoardSettings {
+  const boards = listBoards(folder)
+  return boards.find(b => b.name === name) ?? boards[0]
+}
+
+export function getActiveBoard(state: vscode.Memento): string | null {
+  return state.get<string | null>(ACTIVE_BOARD_KEY, null)
+}
+
+export function setActiveBoard(state: vscode.Memento, name: string | null): Thenable<void> {
+  return state.update(ACTIVE_BOARD_KEY, name)
+}
+
+/** Workspace state key of a per-board view setting; the top-level board keeps the plain key. */
+export function getBoardStateKey(key: string, board: string | null): string {
+  return board === null ? `kanban-markdown.${key}` : `kanban-markdown.${key}:${board}`
+}
+
+/** The folder and board whose features directory contains `uri`. */
+export function getBoardForFeatureFile(
+  uri: vscode.Uri
+): { folder: vscode.WorkspaceFolder; board: BoardSettings } | undefined {
+  const folder = vscode.workspace.getWorkspaceFolder(uri)
+  if (!folder) return undefined
+  const board = listBoards(folder).find(b => uri.fsPath.startsWith(b.featuresDir + path.sep))
+  return board ? { folder, board } : undefined
+}
+
+/**
+ * Asks which of the folder's boards to use, listing the active board first.
+ * Resolves to the only board without asking when there is just one.
+ */
+export async function pickBoard(
+  state: vscode.Memento,
+  folder: vscode.WorkspaceFolder,
+  placeHolder: string
+): Promise<BoardSettings | undefined> {
+  const boards = listBoards(folder)
+  if (boards.length === 1) return boards[0]
+
+  const active = getActiveBoard(state)
+  const ordered = [...boards].sort((a, b) => Number(b.name === active) - Number(a.name === active))
+  const pick = await vscode.window.showQuickPick(
+    ordered.map(board => ({
+      label: board.name ?? '',
+      description: path.relative(folder.uri.fsPath, board.featuresDir),
+      board
+    })),
+    { placeHolder }
+  )
+  return pick?.board
+}
+
+/** The board the sidebar shows: the active board of the board folder. */
+export function getActiveBoardSettings(state: vscode.Memento): BoardSettings | null {
+  const folder = getBoardFolder(state)
+  return folder ? resolveBoard(folder, getActiveBoard(state)) : null
+}
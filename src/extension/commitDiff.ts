@@ -0,0 +1,56 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { getCommitChanges, getRepositoryRoot, runGit } from './git'
+
+/** The part of the built-in Git extension's API used to address file versions. */
+interface GitApi {
+  toGitUri(uri: vscode.Uri, ref: string): vscode.Uri
+}
+
+interface GitExtension {
+  getAPI(version: 1): GitApi
+}
+
+async function getGitApi(): Promise<GitApi | undefined> {
+  const extension = vscode.extensions.getExtension<GitExtension>('vscode.git')
+  if (!extension) return undefined
+  try {
+    const exports = extension.isActive ? extension.exports : await extension.activate()
+    return exports.getAPI(1)
+  } catch {
+    // The Git extension is disabled
+    return undefined
+  }
+}
+
+async function showPatch(cwd: string, hash: string): Promise<void> {
+  const patch = await runGit(cwd, ['show', hash])
+  const document = await vscode.workspace.openTextDocument({ content: patch, language: 'diff' })
+  await vscode.window.showTextDocument(document, { preview: true })
+}
+
+/**
+ * Opens the files a commit changed in the multi-file diff editor, reading
+ * file versions through the built-in Git extension. Without it, or on VS Code
+ * versions without the `vscode.changes` command, shows the commit's patch as
+ * a diff document.
+ */
+export async function openCommitDiff(cwd: string, hash: string, title: string): Promise<void> {
+  const api = await getGitApi()
+  if (!api) return showPatch(cwd, hash)
+
+  const root = await getRepositoryRoot(cwd)
+  const changes = await getCommitChanges(cwd, hash)
+  const resources = changes.map(change => {
+    const uri = vscode.Uri.file(path.join(root, change.path))
+    // Added files, including everything in a root commit, have no parent version
+    const original = change.status === 'A' ? undefined : api.toGitUri(vscode.Uri.file(path.join(root, change.oldPath)), `${hash}~`)
+    const modified = change.status === 'D' ? undefined : api.toGitUri(uri, hash)
+    return [uri, original, modified]
+  })
+  try {
+    await vscode.commands.executeCommand('vscode.changes', title, resources)
+  } catch {
+    await showPatch(cwd, hash)
+  }
+}
@@ -1,5 +1,12 @@
 import * as path from 'path'
 import * as vscode from 'vscode'
+import { DEFAULT_COLUMNS } from '../shared/types'
+import type { Feature, KanbanColumn } from '../shared/types'
+import { moveFeatureFile as moveFile, type FeatureFileSystem } from '../shared/featureFiles'
+import { parseFeatureFile } from '../shared/featureFrontmatter'
+import { allocateCardKeys as allocateKeys, nodeKeyCounterFs } from '../shared/cardKeys'
+
+export { getFeatureFilePath, getStatusFromPath } from '../shared/featureFiles'
 
 export interface FsAdapter {
   stat(uri: vscode.Uri): Thenable<vscode.FileStat>
@@ -7,52 +14,26 @@ export interface FsAdapter {
   createDirectory(uri: vscode.Uri): Thenable<void>
 }
 
-export function getFeatureFilePath(featuresDir: string, status: string, filename: string): string {
-  if (status === 'done') {
-    return path.join(featuresDir, 'done', `${filename}.md`)
+function toFeatureFileSystem(fs: FsAdapter): FeatureFileSystem {
+  return {
+    exists: filePath => fileExists(filePath, fs),
+    createDirectory: async dirPath => { await fs.createDirectory(vscode.Uri.file(dirPath)) },
+    rename: async (source, target) => { await fs.rename(vscode.Uri.file(source), vscode.Uri.file(target)) }
   }
-  return path.join(featuresDir, `${filename}.md`)
 }
 
 export async function ensureStatusSubfolders(featuresDir: string, fs: FsAdapter = vscode.workspace.fs): Promise<void> {
   await fs.createDirectory(vscode.Uri.file(path.join(featuresDir, 'done')))
 }
 
-export async function moveFeatureFile(
+export function moveFeatureFile(
   currentPath: string,
   featuresDir: string,
   newStatus: string,
-  fs: FsAdapter = vscode.workspace.fs
+  fs: FsAdapter = vscode.workspace.fs,
+  columns: KanbanColumn[] = DEFAULT_COLUMNS
 ): Promise<string> {
-  const filename = path.basename(currentPath)
-  const targetDir = newStatus === 'done'
-    ? path.join(featuresDir, 'done')
-    : featuresDir
-  let targetPath = path.join(targetDir, filename)
-
-  if (currentPath === targetPath) return currentPath
-
-  const ext = path.extname(filename)
-  const base = path.basename(filename, ext)
-  let counter = 1
-  while (await fileExists(targetPath, fs)) {
-    targetPath = path.join(targetDir, `${base}-${counter}${ext}`)
-    counter++
-  }
-
-  await fs.createDirectory(vscode.Uri.file(targetDir))
-  await fs.rename(vscode.Uri.file(currentPath), vscode.Uri.file(targetPath))
-
-  return targetPath
-}
-
-export function getStatusFromPath(filePath: string, featuresDir: string): string | null {
-  const relative = path.relative(featuresDir, filePath)
-  const parts = relative.split(path.sep)
-  if (parts.length === 2 && parts[0] === 'done') {
-    return 'done'
-  }
-  return null
+  return moveFile(currentPath, featuresDir, newStatus, toFeatureFileSystem(fs), columns)
 }
 
 export async function fileExists(filePath: string, fs: FsAdapter = vscode.workspace.fs): Promise<boolean> {
@@ -63,3 +44,40 @@ export async function fileExists(filePath: string, fs: FsAdapter = vscode.worksp
     return false
   }
 }
+
+/**
+ * Hands out card keys from the board's counter file; see `allocateCardKeys` in
+ * the shared module. Goes through Node's fs because workspace.fs cannot create
+ * a file only when it is missing, which the counter's lock relies on.
+ */
+export function allocateCardKeys(
+  featuresDir: string,
+  prefix: string,
+  features: Pick<Feature, 'filePath' | 'key' | 'created'>[]
+): Promise<Map<string, string>> {
+  return allocateKeys(nodeKeyCounterFs, featuresDir, prefix, features)
+}
+
+/** The cards in a features directory and its done/ folder, read through `workspace.fs`. */
+export async function readFeatures(featuresDir: string): Promise<Feature[]> {
+  const features: Feature[] = []
+  for (const dir of [featuresDir, path.join(featuresDir, 'done')]) {
+    let entries: [string, vscode.FileType][]
+    try {
+      entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(dir))
+    } catch {
+      continue
+    }
+    for (const [name, type] of entries) {
+      if (type !== vscode.FileType.File || !name.endsWith('.md')) continue
+      const filePath = path.join(dir, name)
+      try {
+        const feature = parseFeatureFile(new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath))), filePath)
+        if (feature) features.push(feature)
+      } catch {
+        // Skip files that disappear or cannot be read
+      }
+    }
+  }
+  return features
+}
@@ -0,0 +1,93 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import type { Feature } from '../shared/types'
+import { listBoards, type BoardSettings } from './boards'
+import { readFeatures } from './featureFileUtils'
+
+/** A card with the board and workspace folder it belongs to. */
+export interface IndexedFeature {
+  feature: Feature
+  board: BoardSettings
+  folder: vscode.WorkspaceFolder
+}
+
+/**
+ * The cards of every board in the workspace, read from disk so that language
+ * features work while no board is open. Loaded on first use and again after
+ * card files or settings change.
+ */
+export class FeatureIndex implements vscode.Disposable {
+  private _features: Promise<IndexedFeature[]> | undefined
+  private _debounceTimer?: NodeJS.Timeout
+  private readonly _disposables: vscode.Disposable[] = []
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*.md')
+    const handleFileChange = (uri: vscode.Uri) => {
+      if (!this._features || !this._isFeatureFile(uri)) return
+      if (this._debounceTimer) clearTimeout(this._debounceTimer)
+      this._debounceTimer = setTimeout(() => { this._features = undefined }, 300)
+    }
+    watcher.onDidChange(handleFileChange, null, this._disposables)
+    watcher.onDidCreate(handleFileChange, null, this._disposables)
+    watcher.onDidDelete(handleFileChange, null, this._disposables)
+    this._disposables.push(watcher)
+
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('kanban-markdown')) this._features = undefined
+    }, null, this._disposables)
+    vscode.workspace.onDidChangeWorkspaceFolders(() => { this._features = undefined }, null, this._disposables)
+  }
+
+  public getFeatures(): Promise<IndexedFeature[]> {
+    this._features ??= this._load()
+    return this._features
+  }
+
+  /**
+   * The card a key (matched case-insensitively) or id refers to. A card on a
+   * board of the document's own workspace folder wins over same-named ones
+   * elsewhere.
+   */
+  public async find(reference: string, uri?: vscode.Uri): Promise<IndexedFeature | undefined> {
+    const key = reference.toUpperCase()
+    const matches = (await this.getFeatures()).filter(({ feature }) =>
+      feature.id === reference || feature.key?.toUpperCase() === key
+    )
+    const folder = uri && vscode.workspace.getWorkspaceFolder(uri)
+    return matches.find(match => match.folder.uri.toString() === folder?.uri.toString()) ?? matches[0]
+  }
+
+  public dispose(): void {
+    if (this._debounceTimer) clearTimeout(this._debounceTimer)
+    for (const d of this._disposables) d.dispose()
+    this._disposables.length = 0
+  }
+
+  private _isFeatureFile(uri: vscode.Uri): boolean {
+    return (vscode.workspace.workspaceFolders ?? []).some(folder => listBoards(folder).some(board => {
+      const relative = path.relative(board.featuresDir, uri.fsPath)
+      return !relative.startsWith('..') && !path.isAbsolute(relative)
+    }))
+  }
+
+  private async _load(): Promise<IndexedFeature[]> {
+    const indexed: IndexedFeature[] = []
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      for (const board of listBoards(folder)) {
+        for (const feature of await readFeatures(board.featuresDir)) {
+          indexed.push({ feature, board, folder })
+        }
+      }
+    }
+    return indexed
+  }
+}
+
+let featureIndex: FeatureIndex | undefined
+
+/** The window's card index, shared by the language features. */
+export function getFeatureIndex(): FeatureIndex {
+  featureIndex ??= new FeatureIndex()
+  return featureIndex
+}
@@ -0,0 +1,171 @@
+import { execFile } from 'child_process'
+import type { BranchState } from '../shared/branches'
+import type { CommitInfo } from '../shared/types'
+
+const GIT_TIMEOUT_MS = 10000
+
+/** Runs the local `git` in `cwd` and resolves to its trimmed output. Rejects with git's error output. */
+export function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, timeout: GIT_TIMEOUT_MS }, (err, stdout, stderr) => {
+      if (err) reject(new Error(stderr.trim() || err.message))
+      else resolve(stdout.trim())
+    })
+  })
+}
+
+async function tryGit(cwd: string, args: string[]): Promise<string | undefined> {
+  try {
+    return await runGit(cwd, args)
+  } catch {
+    return undefined
+  }
+}
+
+function branchExists(cwd: string, branch: string): Promise<boolean> {
+  return tryGit(cwd, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]).then(sha => !!sha)
+}
+
+/** The repository's git directory, or undefined when `cwd` is not in a repository. */
+export function getGitDir(cwd: string): Promise<string | undefined> {
+  return tryGit(cwd, ['rev-parse', '--absolute-git-dir'])
+}
+
+/** The checked-out branch; undefined on a detached HEAD. */
+export function getCurrentBranch(cwd: string): Promise<string | undefined> {
+  return tryGit(cwd, ['symbolic-ref', '--quiet', '--short', 'HEAD'])
+}
+
+/**
+ * The branch work gets merged into: the remote's default branch as last
+ * fetched (its local copy when there is one), otherwise a local `main` or
+ * `master`. Only local refs are read.
+ */
+export async function getBaseBranch(cwd: string): Promise<string | undefined> {
+  const remoteHead = await tryGit(cwd, ['symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD'])
+  if (remoteHead) {
+    const local = remoteHead.replace(/^origin\//, '')
+    return await branchExists(cwd, local) ? local : remoteHead
+  }
+  for (const candidate of ['main', 'master']) {
+    if (await branchExists(cwd, candidate)) return candidate
+  }
+  return undefined
+}
+
+/** Checks out the branch, creating it from HEAD when it does not exist. Resolves to whether it was created. */
+export async function checkoutBranch(cwd: string, branch: string): Promise<boolean> {
+  // Also keeps a name like `-f` from being read as an option
+  await runGit(cwd, ['check-ref-format', '--branch', branch])
+  if (await branchExists(cwd, branch)) {
+    await runGit(cwd, ['checkout', branch])
+    return false
+  }
+  await runGit(cwd, ['checkout', '-b', branch])
+  return true
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * A pattern for the subject git (`Merge branch 'x' into y`) or a pull request
+ * merge (`Merge pull request #1 from owner/x`) gives a merge of the branch,
+ * matching the whole line so that `login` does not match `login-page`.
+ */
+function getMergeSubjectPattern(branch: string): string {
+  const name = escapeRegExp(branch)
+  return `^Merge (branch '${name}'( into .+)?|pull request #[0-9]+ from [^ /]+/${name})$`
+}
+
+/**
+ * How far the branch has got relative to `base`. A branch counts as merged
+ * when it made commits since it was created (going by its reflog) and all of
+ * them are on `base`; a deleted branch counts as merged when `base` has a
+ * merge commit for exactly that branch.
+ */
+export async function getBranchState(cwd: string, branch: string, base: string): Promise<BranchState | undefined> {
+  if (!await branchExists(cwd, branch)) {
+    const merge = await tryGit(cwd, ['log', base, '--merges', '--extended-regexp', `--grep=${getMergeSubjectPattern(branch)}`, '-n', '1', '--format=%H'])
+    return merge ? { ahead: 0, merged: true } : undefined
+  }
+
+  const ahead = Number(await tryGit(cwd, ['rev-list', '--count', `${base}..refs/heads/${branch}`]) ?? 0)
+  if (ahead > 0) return { ahead, merged: false }
+
+  // The oldest reflog entry is where the branch was created
+  const reflog = await tryGit(cwd, ['reflog', 'show', '--format=%H', `refs/heads/${branch}`])
+  const created = reflog?.split('\n').pop()
+  const own = created ? Number(await tryGit(cwd, ['rev-list', '--count', `${created}..refs/heads/${branch}`]) ?? 0) : 0
+  return { ahead: 0, merged: own > 0 }
+}
+
+/** A commit with its full message. */
+export interface GitCommit extends CommitInfo {
+  message: string
+}
+
+// Unit and record separators keep subjects and messages intact
+const COMMIT_FORMAT = '--format=%H%x1f%an%x1f%aI%x1f%s%x1f%B%x1e'
+
+function parseCommits(output: string): GitCommit[] {
+  return output.split('\x1e').flatMap(record => {
+    const [hash, author, date, subject, message] = record.replace(/^\n/, '').split('\x1f')
+    return hash ? [{ hash, author, date, subject, message: message.trim() }] : []
+  })
+}
+
+/** Commits on local branches whose messages contain one of the texts (case-insensitively), newest first. */
+export async function findCommits(cwd: string, texts: string[], limit: number): Promise<GitCommit[]> {
+  if (texts.length === 0) return []
+  const greps = texts.map(text => `--grep=${text}`)
+  const output = await tryGit(cwd, ['log', '--branches', '--fixed-strings', '--regexp-ignore-case', ...greps, '-n', String(limit), COMMIT_FORMAT])
+  return output ? parseCommits(output) : []
+}
+
+/** Commits reachable from `to` but not from `from`, newest first. */
+export async function getCommitsBetween(cwd: string, from: string, to: string): Promise<GitCommit[]> {
+  const output = await tryGit(cwd, ['log', `${from}..${to}`, COMMIT_FORMAT])
+  return output ? parseCommits(output) : []
+}
+
+/** The commit HEAD points at; undefined in an empty repository. */
+export function getHeadCommit(cwd: string): Promise<string | undefined> {
+  return tryGit(cwd, ['rev-parse', '--verify', '--quiet', 'HEAD'])
+}
+
+export async function isAncestor(cwd: string, ancestor: string, descendant: string): Promise<boolean> {
+  return await tryGit(cwd, ['merge-base', '--is-ancestor', ancestor, descendant]) !== undefined
+}
+
+/** A file a commit changed: `A`dded, `M`odified, `D`eleted or `R`enamed from `oldPath`. */
+export interface CommitChange {
+  status: 'A' | 'M' | 'D' | 'R'
+  path: string
+  oldPath: string
+}
+
+/** The files the commit changed, relative to the repository root. */
+export async function getCommitChanges(cwd: string, hash: string): Promise<CommitChange[]> {
+  const output = await runGit(cwd, ['diff-tree', '--no-commit-id', '--root', '-r', '-M', '--name-status', '-z', hash])
+  const fields = output.split('\0').filter(Boolean)
+  const changes: CommitChange[] = []
+  for (let i = 0; i < fields.length;) {
+    const status = fields[i++][0]
+    if (status === 'R') {
+      const oldPath = fields[i++]
+      const path = fields[i++]
+      changes.push({ status, path, oldPath })
+    } else {
+      const path = fields[i++]
+      changes.push({ status: status === 'A' || status === 'D' ? status : 'M', path, oldPath: path })
+    }
+  }
+  return changes
+}
+
+/** The repository's top-level folder. */
+export function getRepositoryRoot(cwd: string): Promise<string> {
+  return runGit(cwd, ['rev-parse', '--show-toplevel'])
+}
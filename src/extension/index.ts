@@ -1,29 +1,54 @@
 import * as vscode from 'vscode'
-import * as path from 'path'
 import { generateKeyBetween } from 'fractional-indexing'
 import { KanbanPanel } from './KanbanPanel'
 import { SidebarViewProvider } from './SidebarViewProvider'
-import { generateFeatureFilename } from '../shared/types'
+import { CardReferenceProvider } from './CardReferenceProvider'
+import { generateFeatureFilename, getTitleFromContent } from '../shared/types'
 import { serializeFeature } from '../shared/featureFrontmatter'
+import { getColumnCategory, isDoneStatus } from '../shared/statuses'
 import type { Feature, FeatureStatus, Priority } from '../shared/types'
-import { ensureStatusSubfolders, getFeatureFilePath } from './featureFileUtils'
+import { allocateCardKeys, ensureStatusSubfolders, getFeatureFilePath, readFeatures } from './featureFileUtils'
+import { listTrash, purgeTrash, restoreFromTrash, type TrashEntry } from './trash'
+import { getBoardFolder, pickWorkspaceFolder, setBoardFolder } from './workspaceFolders'
+import { listBoards, pickBoard } from './boards'
+import { getAgentSessions } from './agentSessions'
+import { getFeatureIndex } from './featureIndex'
 import { t, loadBundle } from './l10n'
 
 interface StatusQuickPickItem extends vscode.QuickPickItem {
   statusValue: FeatureStatus
 }
 
+const BUILT_IN_STATUS_DESCRIPTIONS: Record<string, string> = {
+  'backlog': 'status.backlog.description',
+  'todo': 'status.todo.description',
+  'in-progress': 'status.inProgress.description',
+  'review': 'status.review.description',
+  'done': 'status.done.description'
+}
+
 interface PriorityQuickPickItem extends vscode.QuickPickItem {
   priorityValue: Priority
 }
 
-async function createFeatureFromPrompts(): Promise<void> {
+interface TrashQuickPickItem extends vscode.QuickPickItem {
+  entry: TrashEntry
+}
+
+async function createFeatureFromPrompts(state: vscode.Memento): Promise<void> {
   const workspaceFolders = vscode.workspace.workspaceFolders
   if (!workspaceFolders || workspaceFolders.length === 0) {
     vscode.window.showErrorMessage(t('ext.noWorkspace'))
     return
   }
 
+  // Ask which folder's board gets the card (multi-root workspaces only)
+  const folder = await pickWorkspaceFolder(state, t('ext.selectFolder'))
+  if (!folder) return
+  // ...and which board, when the folder has several
+  const board = await pickBoard(state, folder, t('ext.selectBoard'))
+  if (!board) return
+
   // Ask for title
   const title = await vscode.window.showInputBox({
     prompt: t('ext.featureTitle'),
@@ -31,14 +56,15 @@ async function createFeatureFromPrompts(): Promise<void> {
   })
   if (!title) return
 
-  // Ask for status
-  const statusItems: StatusQuickPickItem[] = [
-    { label: t('status.backlog'), description: t('status.backlog.description'), statusValue: 'backlog' },
-    { label: t('status.todo'), description: t('status.todo.description'), statusValue: 'todo' },
-    { label: t('status.inProgress'), description: t('status.inProgress.description'), statusValue: 'in-progress' },
-    { label: t('status.review'), description: t('status.review.description'), statusValue: 'review' },
-    { label: t('status.done'), description: t('status.done.description'), statusValue: 'done' }
-  ]
+  // Ask for status (one entry per configured column)
+  const columns = board.columns
+  const statusItems: StatusQuickPickItem[] = columns.map(column => ({
+    label: column.name,
+    description: BUILT_IN_STATUS_DESCRIPTIONS[column.id]
+      ? t(BUILT_IN_STATUS_DESCRIPTIONS[column.id])
+      : t(`statusCategory.${getColumnCategory(column)}`),
+    statusValue: column.id
+  }))
   const statusPick = await vscode.window.showQuickPick(statusItems, {
     placeHolder: t('ext.selectStatus')
   })
@@ -67,13 +93,11 @@ async function createFeatureFromPrompts(): Promise<void> {
   })
 
   // Create the feature file
-  const config = vscode.workspace.getConfiguration('kanban-markdown')
-  const featuresDirectory = config.get<string>('featuresDirectory') || '.devtool/features'
-  const featuresDir = path.join(workspaceFolders[0].uri.fsPath, featuresDirectory)
+  const featuresDir = board.featuresDir
   await vscode.workspace.fs.createDirectory(vscode.Uri.file(featuresDir))
   await ensureStatusSubfolders(featuresDir)
 
-  const filename = generateFeatureFilename(title)
+  const filename = generateFeatureFilename(title, board.filenamePattern)
   const now = new Date().toISOString()
 
   // Build content with title as first # heading
@@ -88,11 +112,18 @@ async function createFeatureFromPrompts(): Promise<void> {
     dueDate: null,
     created: now,
     modified: now,
-    completedAt: status === 'done' ? now : null,
+    completedAt: isDoneStatus(status, columns) ? now : null,
     labels: [],
     order: generateKeyBetween(null, null),
     content,
-    filePath: getFeatureFilePath(featuresDir, status, filename)
+    filePath: getFeatureFilePath(featuresDir, status, filename, columns)
+  }
+  try {
+    // With the board's cards, so a counter behind their keys (a fresh clone, a merge) is caught up
+    const features = [...await readFeatures(featuresDir), feature]
+    feature.key = (await allocateCardKeys(featuresDir, board.keyPrefix, features)).get(feature.filePath)
+  } catch {
+    // The board gives the card a key when it next loads
   }
 
   const fileContent = serializeFeature(feature)
@@ -105,42 +136,135 @@ async function createFeatureFromPrompts(): Promise<void> {
   vscode.window.showInformationMessage(t('ext.createdFeature', { title }))
 }
 
+async function restoreFeaturesFromTrash(state: vscode.Memento): Promise<void> {
+  if (!vscode.workspace.workspaceFolders?.length) {
+    vscode.window.showErrorMessage(t('ext.noWorkspace'))
+    return
+  }
+  const folder = await pickWorkspaceFolder(state, t('ext.selectFolder'))
+  if (!folder) return
+  const board = await pickBoard(state, folder, t('ext.selectBoard'))
+  if (!board) return
+  const featuresDir = board.featuresDir
+
+  const entries = await listTrash(featuresDir)
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage(t('trash.empty'))
+    return
+  }
+
+  const items: TrashQuickPickItem[] = entries.map(entry => ({
+    label: entry.feature ? getTitleFromContent(entry.feature.content) : entry.filename,
+    description: t('trash.deletedAt', { date: new Date(entry.deletedAt).toLocaleString() }),
+    detail: entry.filename,
+    entry
+  }))
+  const picks = await vscode.window.showQuickPick(items, {
+    placeHolder: t('trash.pickPlaceholder'),
+    canPickMany: true,
+    matchOnDetail: true
+  })
+  if (!picks || picks.length === 0) return
+
+  // The board's file watcher picks the restored files up
+  let restored = 0
+  for (const { entry } of picks) {
+    try {
+      await restoreFromTrash(entry, featuresDir, board.columns)
+      restored++
+    } catch (err) {
+      vscode.window.showErrorMessage(t('trash.restoreFailed', { name: entry.filename, error: String(err) }))
+    }
+  }
+  if (restored > 0) {
+    vscode.window.showInformationMessage(restored === 1
+      ? t('trash.restoredOne')
+      : t('trash.restoredOther', { count: restored }))
+  }
+}
+
 export function activate(context: vscode.ExtensionContext) {
   loadBundle(context.extensionPath)
+  // Agent terminals started from the board or the feature header
+  context.subscriptions.push(getAgentSessions())
   // Sidebar webview in the activity bar
   const sidebarProvider = new SidebarViewProvider(context.extensionUri, context)
   context.subscriptions.push(
     vscode.window.registerWebviewViewProvider(SidebarViewProvider.viewType, sidebarProvider)
   )
+  // Hover, go to definition, links and completion for cards mentioned in code and markdown
+  context.subscriptions.push(getFeatureIndex(), CardReferenceProvider.register())
 
   context.subscriptions.push(
-    vscode.commands.registerCommand('kanban-markdown.open', () => {
-      const wasOpen = !!KanbanPanel.currentPanel
-      KanbanPanel.createOrShow(context.extensionUri, context)
-      if (!wasOpen && KanbanPanel.currentPanel) {
-        sidebarProvider.setBoardOpen(true)
-        KanbanPanel.currentPanel.onDispose(() => {
-          sidebarProvider.setBoardOpen(false)
-        })
+    // The sidebar's board picker passes a board name; without one the active board opens
+    vscode.commands.registerCommand('kanban-markdown.open', (board?: unknown) => {
+      KanbanPanel.createOrShow(context.extensionUri, context, typeof board === 'string' ? board : undefined)
+    }),
+    vscode.commands.registerCommand('kanban-markdown.openBoard', async () => {
+      const folder = getBoardFolder(context.workspaceState)
+      if (!folder) {
+        vscode.window.showErrorMessage(t('ext.noWorkspace'))
+        return
       }
+      const board = await pickBoard(context.workspaceState, folder, t('ext.selectBoard'))
+      if (board) KanbanPanel.createOrShow(context.extensionUri, context, board.name)
     })
   )
 
   context.subscriptions.push(
     vscode.commands.registerCommand('kanban-markdown.addFeature', () => {
-      createFeatureFromPrompts()
+      createFeatureFromPrompts(context.workspaceState)
     })
   )
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanban-markdown.undo', () => {
+      if (!KanbanPanel.currentPanel) {
+        vscode.window.showInformationMessage(t('undo.noBoard'))
+        return
+      }
+      return KanbanPanel.currentPanel.undo()
+    }),
+    vscode.commands.registerCommand('kanban-markdown.redo', () => {
+      if (!KanbanPanel.currentPanel) {
+        vscode.window.showInformationMessage(t('undo.noBoard'))
+        return
+      }
+      return KanbanPanel.currentPanel.redo()
+    })
+  )
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanban-markdown.restoreFromTrash', () => restoreFeaturesFromTrash(context.workspaceState))
+  )
+
+  // The board shows one workspace folder at a time; the board's folder picker passes the folder URI
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanban-markdown.switchBoardFolder', async (folderUri?: string) => {
+      const folder = folderUri
+        ? vscode.workspace.workspaceFolders?.find(f => f.uri.toString() === folderUri)
+        : await pickWorkspaceFolder(context.workspaceState, t('ext.selectBoardFolder'))
+      if (!folder) return
+      await setBoardFolder(context.workspaceState, folder)
+      sidebarProvider.reloadBoard()
+      await KanbanPanel.reloadAll()
+    })
+  )
+
+  // Drop deleted cards that have been in the trash longer than the retention period
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const retentionDays = vscode.workspace.getConfiguration('kanban-markdown', folder.uri).get<number>('trashRetentionDays', 30)
+    for (const board of listBoards(folder)) {
+      purgeTrash(board.featuresDir, retentionDays).catch(() => undefined)
+    }
+  }
+
   // If a panel already exists, revive it
   if (vscode.window.registerWebviewPanelSerializer) {
     vscode.window.registerWebviewPanelSerializer(KanbanPanel.viewType, {
-      async deserializeWebviewPanel(webviewPanel: vscode.WebviewPanel) {
-        KanbanPanel.revive(webviewPanel, context.extensionUri, context)
-        sidebarProvider.setBoardOpen(true)
-        KanbanPanel.currentPanel?.onDispose(() => {
-          sidebarProvider.setBoardOpen(false)
-        })
+      // The webview keeps the name of its board in its state
+      async deserializeWebviewPanel(webviewPanel: vscode.WebviewPanel, state?: { board?: string | null }) {
+        KanbanPanel.revive(webviewPanel, context.extensionUri, context, state?.board ?? null)
       }
     })
   }
@@ -0,0 +1,143 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import type { AgentDefinition, AIAgent, KanbanColumn } from '../shared/types'
+import { stripJsonComments } from '../shared/jsonc'
+import { getHandoffColumn } from '../shared/statuses'
+import type { ActivityFs } from './activityLog'
+import { t } from './l10n'
+
+export const MCP_SERVER_NAME = 'kanban-markdown'
+
+/** How an agent starts the board's MCP server. */
+export interface McpServerCommand {
+  command: string
+  args: string[]
+}
+
+/**
+ * How the server gets registered with an agent: either a command line run in
+ * the agent's terminal, or an entry merged into a workspace config file.
+ */
+export type McpRegistration =
+  | { kind: 'command'; argv: string[] }
+  | { kind: 'config'; file: string; section: string; entry: Record<string, unknown> }
+
+/** Runs the bundled `kanban-md mcp` on the board's features directory. */
+export function getMcpServerCommand(extensionPath: string, featuresDir: string): McpServerCommand {
+  return { command: 'node', args: [path.join(extensionPath, 'dist', 'cli.js'), 'mcp', '--dir', featuresDir] }
+}
+
+/** How to register the server with a built-in agent; undefined for custom agents. */
+export function getMcpRegistration(agent: AIAgent, server: McpServerCommand): McpRegistration | undefined {
+  const serverArgv = [server.command, ...server.args]
+  switch (agent) {
+    case 'claude':
+      // Local scope keeps the registration to this project
+      return { kind: 'command', argv: ['claude', 'mcp', 'add', '--scope', 'local', MCP_SERVER_NAME, '--', ...serverArgv] }
+    case 'codex':
+      return { kind: 'command', argv: ['codex', 'mcp', 'add', MCP_SERVER_NAME, '--', ...serverArgv] }
+    case 'copilot':
+      return {
+        kind: 'config',
+        file: path.join('.vscode', 'mcp.json'),
+        section: 'servers',
+        entry: { type: 'stdio', command: server.command, args: server.args }
+      }
+    case 'opencode':
+      return {
+        kind: 'config',
+        file: 'opencode.json',
+        section: 'mcp',
+        entry: { type: 'local', command: serverArgv, enabled: true }
+      }
+    default:
+      return undefined
+  }
+}
+
+/** Adds the server entry to a config file's text, keeping its other settings. Comments are dropped. */
+export function mergeMcpConfig(text: string, registration: Extract<McpRegistration, { kind: 'config' }>): string {
+  const parsed: unknown = text.trim() ? JSON.parse(stripJsonComments(text)) : {}
+  const config = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {}
+  const section = config[registration.section]
+  config[registration.section] = {
+    ...(section && typeof section === 'object' ? section : {}),
+    [MCP_SERVER_NAME]: registration.entry
+  }
+  return JSON.stringify(config, null, 2) + '\n'
+}
+
+/** Writes a config registration into the folder, creating the file when missing. */
+export async function writeMcpConfig(
+  folderPath: string,
+  registration: Extract<McpRegistration, { kind: 'config' }>,
+  fs: ActivityFs = vscode.workspace.fs
+): Promise<void> {
+  const uri = vscode.Uri.file(path.join(folderPath, registration.file))
+  let text = ''
+  try {
+    text = new TextDecoder().decode(await fs.readFile(uri))
+  } catch {
+    // No config yet
+  }
+  await fs.createDirectory(vscode.Uri.file(path.dirname(uri.fsPath)))
+  await fs.writeFile(uri, new TextEncoder().encode(mergeMcpConfig(text, registration)))
+}
+
+/** Workspace state key remembering the registration made for an agent, or that the user declined it. */
+export function getMcpRegistrationStateKey(agent: AIAgent): string {
+  return `kanban-markdown.mcpRegistration:${agent}`
+}
+
+/**
+ * Offers to register the board's MCP server with the agent, once per agent
+ * and server command. Resolves to whether the agent can use the server, and
+ * to a registration command to run in its terminal first. Custom agents are
+ * left to register the server themselves.
+ */
+export async function prepareMcpServer(
+  state: vscode.Memento,
+  extensionPath: string,
+  folderPath: string,
+  featuresDir: string,
+  agent: AgentDefinition
+): Promise<{ enabled: boolean; setup?: string[] }> {
+  const registration = getMcpRegistration(agent.id, getMcpServerCommand(extensionPath, featuresDir))
+  if (!registration) return { enabled: false }
+  const signature = JSON.stringify(registration)
+  const stateKey = getMcpRegistrationStateKey(agent.id)
+  const stored = state.get<string>(stateKey)
+  if (stored === signature) return { enabled: true }
+  if (stored === 'never') return { enabled: false }
+
+  const registerButton = t('mcp.registerButton')
+  const neverButton = t('mcp.never')
+  const choice = await vscode.window.showInformationMessage(
+    t('mcp.registerPrompt', { agent: agent.name }),
+    { modal: true },
+    registerButton,
+    t('mcp.notNow'),
+    neverButton
+  )
+  if (choice === neverButton) {
+    await state.update(stateKey, 'never')
+    return { enabled: false }
+  }
+  if (choice !== registerButton) return { enabled: false }
+
+  if (registration.kind === 'config') {
+    try {
+      await writeMcpConfig(folderPath, registration)
+    } catch (err) {
+      vscode.window.showErrorMessage(t('mcp.registerFailed', { error: err instanceof Error ? err.message : String(err) }))
+      return { enabled: false }
+    }
+  }
+  await state.update(stateKey, signature)
+  return { enabled: true, setup: registration.kind === 'command' ? registration.argv : undefined }
+}
+
+/** What the prompt's `{{mcpInstructions}}` asks of an agent that can use the MCP server. */
+export function getMcpInstructions(featureId: string, columns: KanbanColumn[]): string {
+  return t('mcp.instructions', { id: featureId, column: getHandoffColumn(columns)?.id ?? 'review' })
+}
@@ -0,0 +1,168 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import type { Feature, KanbanColumn } from '../shared/types'
+import { parseFeatureFile } from '../shared/featureFrontmatter'
+import { isDoneStatus } from '../shared/statuses'
+import { deleteActivityLog, type ActivityFs } from './activityLog'
+import { fileExists, type FsAdapter } from './featureFileUtils'
+
+export interface TrashFs extends ActivityFs {
+  stat(uri: vscode.Uri): Thenable<vscode.FileStat>
+  readDirectory(uri: vscode.Uri): Thenable<[string, vscode.FileType][]>
+}
+
+/** A deleted card waiting in the trash. */
+export interface TrashEntry {
+  path: string
+  /** Name the file had before it was deleted */
+  filename: string
+  deletedAt: number
+  /** Parsed card, or null when the file is not a readable card */
+  feature: Feature | null
+}
+
+// Dot folder like .activity, so board loading skips it
+export const TRASH_DIR = '.trash'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function getTrashDir(featuresDir: string): string {
+  return path.join(featuresDir, TRASH_DIR)
+}
+
+// Trashed files are named `<deletedAt ms>-<original name>`
+function parseTrashName(name: string): { deletedAt: number; filename: string } | null {
+  const match = /^(\d+)-(.+\.md)$/.exec(name)
+  return match ? { deletedAt: Number(match[1]), filename: match[2] } : null
+}
+
+async function getFreePath(dir: string, filename: string, fs: FsAdapter): Promise<string> {
+  const ext = path.extname(filename)
+  const base = path.basename(filename, ext)
+  let targetPath = path.join(dir, filename)
+  let counter = 1
+  while (await fileExists(targetPath, fs)) {
+    targetPath = path.join(dir, `${base}-${counter}${ext}`)
+    counter++
+  }
+  return targetPath
+}
+
+/** Moves a card file into the trash, stamping the deletion time into its name. Returns the new path. */
+export async function moveToTrash(
+  featuresDir: string,
+  filePath: string,
+  now = Date.now(),
+  fs: FsAdapter = vscode.workspace.fs
+): Promise<string> {
+  const trashDir = getTrashDir(featuresDir)
+  await fs.createDirectory(vscode.Uri.file(trashDir))
+  const targetPath = await getFreePath(trashDir, `${now}-${path.basename(filePath)}`, fs)
+  await fs.rename(vscode.Uri.file(filePath), vscode.Uri.file(targetPath))
+  return targetPath
+}
+
+/** Cards in the trash, most recently deleted first. */
+export async function listTrash(featuresDir: string, fs: TrashFs = vscode.workspace.fs): Promise<TrashEntry[]> {
+  const trashDir = getTrashDir(featuresDir)
+  let names: [string, vscode.FileType][]
+  try {
+    names = await fs.readDirectory(vscode.Uri.file(trashDir))
+  } catch {
+    return []
+  }
+
+  const entries: TrashEntry[] = []
+  for (const [name, type] of names) {
+    const parsed = type === vscode.FileType.File ? parseTrashName(name) : null
+    if (!parsed) continue
+    const entryPath = path.join(trashDir, name)
+    let feature: Feature | null = null
+    try {
+      const content = new TextDecoder().decode(await fs.readFile(vscode.Uri.file(entryPath)))
+      feature = parseFeatureFile(content, path.join(featuresDir, parsed.filename))
+    } catch {
+      // Listed without a title; it can still be restored or purged
+    }
+    entries.push({ path: entryPath, ...parsed, feature })
+  }
+  return entries.sort((a, b) => b.deletedAt - a.deletedAt)
+}
+
+/**
+ * Moves a trashed card back under its original name, into done/ when its
+ * status is a done column. Returns the restored path.
+ */
+export async function restoreFromTrash(
+  entry: TrashEntry,
+  featuresDir: string,
+  columns: KanbanColumn[],
+  fs: FsAdapter = vscode.workspace.fs
+): Promise<string> {
+  const status = entry.feature?.status
+  const targetDir = status && isDoneStatus(status, columns) ? path.join(featuresDir, 'done') : featuresDir
+  await fs.createDirectory(vscode.Uri.file(targetDir))
+  const targetPath = await getFreePath(targetDir, entry.filename, fs)
+  await fs.rename(vscode.Uri.file(entry.path), vscode.Uri.file(targetPath))
+  return targetPath
+}
+
+/**
+ * Ids of the cards on the board, in the features directory and done/. A card
+ * purged from the trash or the archive keeps its activity log when one of
+ * these has since taken its id.
+ */
+export async function listLiveFeatureIds(featuresDir: string, fs: TrashFs = vscode.workspace.fs): Promise<Set<string>> {
+  const ids = new Set<string>()
+  for (const dir of [featuresDir, path.join(featuresDir, 'done')]) {
+    let names: [string, vscode.FileType][]
+    try {
+      names = await fs.readDirectory(vscode.Uri.file(dir))
+    } catch {
+      continue
+    }
+    for (const [name, type] of names) {
+      if (type !== vscode.FileType.File || !name.endsWith('.md')) continue
+      const filePath = path.join(dir, name)
+      try {
+        const feature = parseFeatureFile(new TextDecoder().decode(await fs.readFile(vscode.Uri.file(filePath))), filePath)
+        if (feature) ids.add(feature.id)
+      } catch {
+        // A card that cannot be read does not hold on to a log
+      }
+    }
+  }
+  return ids
+}
+
+/**
+ * Permanently deletes cards trashed more than `retentionDays` ago, along with
+ * their activity logs. A log is kept when a card on the board has since taken
+ * the same id, since it now holds that card's history. A retention of 0 keeps
+ * the trash forever. Returns the purged entries.
+ */
+export async function purgeTrash(
+  featuresDir: string,
+  retentionDays: number,
+  now = Date.now(),
+  fs: TrashFs = vscode.workspace.fs
+): Promise<TrashEntry[]> {
+  if (!(retentionDays > 0)) return []
+  const cutoff = now - retentionDays * DAY_MS
+  const purged: TrashEntry[] = []
+  let liveIds: Set<string> | undefined
+  for (const entry of await listTrash(featuresDir, fs)) {
+    if (entry.deletedAt > cutoff) continue
+    try {
+      await fs.delete(vscode.Uri.file(entry.path))
+    } catch {
+      continue
+    }
+    if (entry.feature) {
+      liveIds ??= await listLiveFeatureIds(featuresDir, fs)
+      if (!liveIds.has(entry.feature.id)) await deleteActivityLog(featuresDir, entry.feature.id, fs)
+    }
+    purged.push(entry)
+  }
+  return purged
+}
@@ -0,0 +1,213 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+export interface JournalFs {
+  readFile(uri: vscode.Uri): Thenable<Uint8Array>
+  writeFile(uri: vscode.Uri, content: Uint8Array): Thenable<void>
+  createDirectory(uri: vscode.Uri): Thenable<void>
+  rename(source: vscode.Uri, target: vscode.Uri, options?: { overwrite?: boolean }): Thenable<void>
+  delete(uri: vscode.Uri, options?: { recursive?: boolean; useTrash?: boolean }): Thenable<void>
+  stat(uri: vscode.Uri): Thenable<vscode.FileStat>
+}
+
+/** A file touched by an operation; `null` means the file did not exist. */
+export interface FileChange {
+  path: string
+  before: string | null
+  after: string | null
+}
+
+export interface JournalEntry {
+  label: string
+  changes: FileChange[]
+  /** Consecutive entries with the same key, committed close together, become one step */
+  mergeKey?: string
+  committedAt: number
+}
+
+export type JournalResult =
+  | { status: 'empty' }
+  | { status: 'conflict'; label: string }
+  | { status: 'applied'; label: string }
+
+const MERGE_WINDOW_MS = 5000
+
+async function readText(fs: JournalFs, filePath: string): Promise<string | null> {
+  try {
+    return new TextDecoder().decode(await fs.readFile(vscode.Uri.file(filePath)))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Filesystem wrapper that passes every call through and remembers what each
+ * written, renamed or deleted path held before the first change to it.
+ */
+export class FileTransaction implements JournalFs {
+  private readonly _before = new Map<string, string | null>()
+
+  constructor(private readonly _fs: JournalFs) {}
+
+  private async _remember(uri: vscode.Uri): Promise<void> {
+    if (!this._before.has(uri.fsPath)) {
+      this._before.set(uri.fsPath, await readText(this._fs, uri.fsPath))
+    }
+  }
+
+  readFile(uri: vscode.Uri): Thenable<Uint8Array> {
+    return this._fs.readFile(uri)
+  }
+
+  stat(uri: vscode.Uri): Thenable<vscode.FileStat> {
+    return this._fs.stat(uri)
+  }
+
+  createDirectory(uri: vscode.Uri): Thenable<void> {
+    return this._fs.createDirectory(uri)
+  }
+
+  async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+    await this._remember(uri)
+    await this._fs.writeFile(uri, content)
+  }
+
+  async rename(source: vscode.Uri, target: vscode.Uri, options?: { overwrite?: boolean }): Promise<void> {
+    await this._remember(source)
+    await this._remember(target)
+    await this._fs.rename(source, target, options)
+  }
+
+  async delete(uri: vscode.Uri, options?: { recursive?: boolean; useTrash?: boolean }): Promise<void> {
+    await this._remember(uri)
+    await this._fs.delete(uri, options)
+  }
+
+  /** Before and after contents of every path whose content actually changed. */
+  async getChanges(): Promise<FileChange[]> {
+    const changes: FileChange[] = []
+    for (const [filePath, before] of this._before) {
+      const after = await readText(this._fs, filePath)
+      if (after !== before) changes.push({ path: filePath, before, after })
+    }
+    return changes
+  }
+}
+
+/**
+ * Undo and redo stacks of board operations, each stored as the before and
+ * after contents of the files it touched. Undoing or redoing a step writes
+ * all of its files or, if any write fails, puts back the ones already written.
+ */
+export class UndoJournal {
+  private _undoStack: JournalEntry[] = []
+  private _redoStack: JournalEntry[] = []
+
+  constructor(
+    private readonly _fs: JournalFs = vscode.workspace.fs,
+    private readonly _limit = 100
+  ) {}
+
+  begin(): FileTransaction {
+    return new FileTransaction(this._fs)
+  }
+
+  /** Records a finished transaction as an undo step; operations that changed nothing are dropped. */
+  async commit(label: string, transaction: FileTransaction, mergeKey?: string, now = Date.now()): Promise<void> {
+    const changes = await transaction.getChanges()
+    if (changes.length === 0) return
+
+    this._redoStack = []
+    const top = this._undoStack[this._undoStack.length - 1]
+    if (mergeKey && top?.mergeKey === mergeKey && now - top.committedAt < MERGE_WINDOW_MS) {
+      top.changes = mergeChanges(top.changes, changes)
+      top.committedAt = now
+      return
+    }
+
+    this._undoStack.push({ label, changes, mergeKey, committedAt: now })
+    if (this._undoStack.length > this._limit) this._undoStack.shift()
+  }
+
+  /**
+   * Carries a write made on purpose outside any step into the steps next in
+   * line, so that they still apply instead of counting the file as edited
+   * elsewhere.
+   */
+  amend(filePath: string, previous: string | null, content: string | null): void {
+    const undoChange = this._undoStack[this._undoStack.length - 1]?.changes.find(c => c.path === filePath && c.after === previous)
+    if (undoChange) undoChange.after = content
+    const redoChange = this._redoStack[this._redoStack.length - 1]?.changes.find(c => c.path === filePath && c.before === previous)
+    if (redoChange) redoChange.before = content
+  }
+
+  get canUndo(): boolean {
+    return this._undoStack.length > 0
+  }
+
+  get canRedo(): boolean {
+    return this._redoStack.length > 0
+  }
+
+  async undo(): Promise<JournalResult> {
+    return this._step(this._undoStack, this._redoStack, 'before')
+  }
+
+  async redo(): Promise<JournalResult> {
+    return this._step(this._redoStack, this._undoStack, 'after')
+  }
+
+  private async _step(from: JournalEntry[], to: JournalEntry[], target: 'before' | 'after'): Promise<JournalResult> {
+    const entry = from.pop()
+    if (!entry) return { status: 'empty' }
+
+    const expected = target === 'before' ? 'after' : 'before'
+    // Files edited elsewhere since this step would be clobbered; give the step up instead
+    for (const change of entry.changes) {
+      if (await readText(this._fs, change.path) !== change[expected]) {
+        return { status: 'conflict', label: entry.label }
+      }
+    }
+
+    const written: FileChange[] = []
+    try {
+      for (const change of entry.changes) {
+        await this._write(change.path, change[target])
+        written.push(change)
+      }
+    } catch (err) {
+      for (const change of written.reverse()) {
+        await this._write(change.path, change[expected]).catch(() => undefined)
+      }
+      from.push(entry)
+      throw err
+    }
+
+    to.push(entry)
+    return { status: 'applied', label: entry.label }
+  }
+
+  private async _write(filePath: string, content: string | null): Promise<void> {
+    const uri = vscode.Uri.file(filePath)
+    if (content === null) {
+      if (await readText(this._fs, filePath) !== null) await this._fs.delete(uri)
+      return
+    }
+    await this._fs.createDirectory(vscode.Uri.file(path.dirname(filePath)))
+    await this._fs.writeFile(uri, new TextEncoder().encode(content))
+  }
+}
+
+// Keeps the oldest `before` and newest `after` of each path
+function mergeChanges(older: FileChange[], newer: FileChange[]): FileChange[] {
+  const merged = new Map(older.map(c => [c.path, { ...c }]))
+  for (const change of newer) {
+    const existing = merged.get(change.path)
+    if (existing) {
+      existing.after = change.after
+    } else {
+      merged.set(change.path, { ...change })
+    }
+  }
+  return Array.from(merged.values()).filter(c => c.before !== c.after)
+}
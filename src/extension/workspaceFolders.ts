@@ -0,0 +1,48 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+
+// Workspace state key holding the URI of the folder whose board is shown
+const BOARD_FOLDER_KEY = 'kanban-markdown.boardFolder'
+
+/** Features directory of a workspace folder; `featuresDirectory` can be set per folder. */
+export function getFeaturesDir(folder: vscode.WorkspaceFolder): string {
+  const config = vscode.workspace.getConfiguration('kanban-markdown', folder.uri)
+  const featuresDirectory = config.get<string>('featuresDirectory') || '.devtool/features'
+  return path.join(folder.uri.fsPath, featuresDirectory)
+}
+
+/**
+ * The workspace folder the board shows: the one last picked in this
+ * workspace, or the first folder when none was picked or it was removed.
+ */
+export function getBoardFolder(state: vscode.Memento): vscode.WorkspaceFolder | undefined {
+  const folders = vscode.workspace.workspaceFolders
+  if (!folders || folders.length === 0) return undefined
+  const stored = state.get<string>(BOARD_FOLDER_KEY)
+  return folders.find(f => f.uri.toString() === stored) ?? folders[0]
+}
+
+export function setBoardFolder(state: vscode.Memento, folder: vscode.WorkspaceFolder): Thenable<void> {
+  return state.update(BOARD_FOLDER_KEY, folder.uri.toString())
+}
+
+/**
+ * Asks which workspace folder to use, listing the board folder first. Resolves
+ * to the only folder without asking in single-folder workspaces.
+ */
+export async function pickWorkspaceFolder(
+  state: vscode.Memento,
+  placeHolder: string
+): Promise<vscode.WorkspaceFolder | undefined> {
+  const folders = vscode.workspace.workspaceFolders
+  if (!folders || folders.length === 0) return undefined
+  if (folders.length === 1) return folders[0]
+
+  const boardFolder = getBoardFolder(state)
+  const ordered = [...folders].sort((a, b) => Number(b === boardFolder) - Number(a === boardFolder))
+  const pick = await vscode.window.showQuickPick(
+    ordered.map(folder => ({ label: folder.name, description: folder.uri.fsPath, folder })),
+    { placeHolder }
+  )
+  return pick?.folder
+}
@@ -0,0 +1,75 @@
+import type { ActivityEntry, ActivityField, Feature } from './types'
+
+/** The card fields the activity log tracks. */
+export type ActivitySnapshot = Pick<Feature, 'status' | 'priority' | 'assignee' | 'epic' | 'labels' | 'dueDate'>
+
+const VALUE_FIELDS = ['status', 'priority', 'assignee', 'epic', 'dueDate'] as const
+
+export function snapshotActivity(feature: ActivitySnapshot): ActivitySnapshot {
+  return {
+    status: feature.status,
+    priority: feature.priority,
+    assignee: feature.assignee,
+    epic: feature.epic,
+    labels: [...feature.labels],
+    dueDate: feature.dueDate
+  }
+}
+
+/**
+ * Activity entries for the tracked fields that differ between two states of a
+ * card: one entry per changed field, then one per added and removed label.
+ */
+export function diffFeatureActivity(
+  before: ActivitySnapshot,
+  after: ActivitySnapshot,
+  at: string,
+  by: string
+): ActivityEntry[] {
+  const entries: ActivityEntry[] = []
+  const push = (field: ActivityField, from: string | null, to: string | null) =>
+    entries.push({ at, by, field, from, to })
+
+  for (const field of VALUE_FIELDS) {
+    const from = before[field] || null
+    const to = after[field] || null
+    if (from !== to) push(field, from, to)
+  }
+  for (const label of after.labels) {
+    if (!before.labels.includes(label)) push('label', null, label)
+  }
+  for (const label of before.labels) {
+    if (!after.labels.includes(label)) push('label', label, null)
+  }
+  return entries
+}
+
+function isActivityEntry(value: unknown): value is ActivityEntry {
+  if (!value || typeof value !== 'object') return false
+  const entry = value as Record<string, unknown>
+  const isValue = (v: unknown) => v === null || typeof v === 'string'
+  return typeof entry.at === 'string' &&
+    typeof entry.by === 'string' &&
+    typeof entry.field === 'string' &&
+    isValue(entry.from) &&
+    isValue(entry.to)
+}
+
+/** Parses a JSON Lines activity log, skipping blank and malformed lines. */
+export function parseActivityLog(text: string): ActivityEntry[] {
+  const entries: ActivityEntry[] = []
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      const value: unknown = JSON.parse(line)
+      if (isActivityEntry(value)) entries.push(value)
+    } catch {
+      // Hand-edited or truncated line; keep the rest of the log
+    }
+  }
+  return entries
+}
+
+export function serializeActivityEntries(entries: ActivityEntry[]): string {
+  return entries.map(entry => `${JSON.stringify(entry)}\n`).join('')
+}
@@ -0,0 +1,142 @@
+import type { AgentDefinition, AIAgent, AIPermissionMode, BuiltInAIAgent, Feature, KanbanColumn } from './types'
+import { getHandoffColumn, getStartColumn, getStatusCategory, isDoneStatus } from './statuses'
+
+export const AI_PERMISSION_MODES: readonly AIPermissionMode[] = ['default', 'plan', 'acceptEdits', 'bypassPermissions']
+
+/** Agent ids end up in frontmatter and workspace state keys */
+export const AGENT_ID_RE = /^[A-Za-z0-9_-]+$/
+
+const PROMPT_PLACEHOLDER = '{{prompt}}'
+
+export const BUILT_IN_AGENTS: Record<BuiltInAIAgent, AgentDefinition> = {
+  claude: {
+    id: 'claude',
+    name: 'Claude Code',
+    command: 'claude',
+    args: [PROMPT_PLACEHOLDER],
+    permissionModes: {
+      default: [],
+      plan: ['--permission-mode', 'plan'],
+      acceptEdits: ['--permission-mode', 'acceptEdits'],
+      bypassPermissions: ['--permission-mode', 'bypassPermissions']
+    }
+  },
+  codex: {
+    id: 'codex',
+    name: 'Codex',
+    command: 'codex',
+    args: [PROMPT_PLACEHOLDER],
+    permissionModes: {
+      default: ['--ask-for-approval', 'ask'],
+      acceptEdits: ['--ask-for-approval', 'auto'],
+      bypassPermissions: ['--ask-for-approval', 'full-auto']
+    }
+  },
+  copilot: {
+    id: 'copilot',
+    name: 'GitHub Copilot',
+    command: 'copilot',
+    args: [PROMPT_PLACEHOLDER],
+    permissionModes: { default: [] }
+  },
+  opencode: {
+    id: 'opencode',
+    name: 'OpenCode',
+    command: 'opencode',
+    args: [PROMPT_PLACEHOLDER],
+    permissionModes: { default: [] }
+  }
+}
+
+export function isBuiltInAgent(agent: AIAgent): agent is BuiltInAIAgent {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_AGENTS, agent)
+}
+
+function toStringList(value: unknown): string[] | undefined {
+  return Array.isArray(value) && value.every(v => typeof v === 'string') ? value : undefined
+}
+
+/**
+ * Validates the raw `kanban-markdown.customAgents` setting. Entries without a
+ * valid id or a command, and duplicate ids, are dropped. Args default to the
+ * prompt alone, and an agent without a permission mode mapping offers only the
+ * default mode.
+ */
+export function sanitizeAgentDefinitions(raw: unknown): AgentDefinition[] {
+  if (!Array.isArray(raw)) return []
+
+  const seen = new Set<string>()
+  const definitions: AgentDefinition[] = []
+
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue
+    const { id, name, command, args, permissionModes } = entry as Record<string, unknown>
+
+    if (typeof id !== 'string' || !AGENT_ID_RE.test(id) || seen.has(id)) continue
+    if (typeof command !== 'string' || !command.trim()) continue
+
+    const modes: Partial<Record<AIPermissionMode, string[]>> = {}
+    if (permissionModes && typeof permissionModes === 'object') {
+      for (const mode of AI_PERMISSION_MODES) {
+        const modeArgs = toStringList((permissionModes as Record<string, unknown>)[mode])
+        if (modeArgs) modes[mode] = modeArgs
+      }
+    }
+    if (Object.keys(modes).length === 0) modes.default = []
+
+    seen.add(id)
+    definitions.push({
+      id,
+      name: typeof name === 'string' && name.trim() ? name.trim() : id,
+      command: command.trim(),
+      args: toStringList(args) ?? [PROMPT_PLACEHOLDER],
+      permissionModes: modes
+    })
+  }
+
+  return definitions
+}
+
+/** The built-in agents followed by the custom ones. A custom agent with a built-in id replaces it. */
+export function getAgentDefinitions(customAgents: AgentDefinition[]): AgentDefinition[] {
+  const custom = new Map(customAgents.map(agent => [agent.id, agent]))
+  const builtIn = Object.values(BUILT_IN_AGENTS).map(agent => custom.get(agent.id) ?? agent)
+  return [...builtIn, ...customAgents.filter(agent => !isBuiltInAgent(agent.id))]
+}
+
+/** The permission modes an agent offers, in menu order. */
+export function getAgentPermissionModes(agent: AgentDefinition): AIPermissionMode[] {
+  return AI_PERMISSION_MODES.filter(mode => agent.permissionModes[mode] !== undefined)
+}
+
+/**
+ * The command line that starts the agent on `prompt`. A mode the agent does not
+ * offer runs with the default mode's arguments, and args without a `{{prompt}}`
+ * get the prompt appended.
+ */
+export function getAgentCommandLine(agent: AgentDefinition, permissionMode: AIPermissionMode, prompt: string): string[] {
+  const modeArgs = agent.permissionModes[permissionMode] ?? agent.permissionModes.default ?? []
+  const hasPrompt = agent.args.some(arg => arg.includes(PROMPT_PLACEHOLDER))
+  const args = agent.args.map(arg => arg.split(PROMPT_PLACEHOLDER).join(prompt))
+  return [agent.command, ...modeArgs, ...args, ...(hasPrompt ? [] : [prompt])]
+}
+
+/** The column to offer a card an agent just started on: the first in-progress column, while the card is still to do. */
+export function getAgentStartColumn(feature: Feature, columns: KanbanColumn[]): KanbanColumn | undefined {
+  const start = getStartColumn(columns)
+  return start && getStatusCategory(feature.status, columns) === 'todo' ? start : undefined
+}
+
+/**
+ * The column to offer a card once its agent exits: the last in-progress
+ * column, unless the agent failed or the card is already there or done.
+ */
+export function getAgentExitColumn(
+  feature: Feature,
+  columns: KanbanColumn[],
+  exitCode: number | undefined
+): KanbanColumn | undefined {
+  const handoff = getHandoffColumn(columns)
+  if (exitCode !== 0 || !handoff || feature.status === handoff.id || isDoneStatus(feature.status, columns)) return undefined
+  return handoff
+}
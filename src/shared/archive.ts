@@ -0,0 +1,43 @@
+import { generateNKeysBetween } from 'fractional-indexing'
+import type { Feature, FeatureStatus, KanbanColumn } from './types'
+
+/** Where a restored card goes back on the board. */
+export interface RestorePlan {
+  feature: Feature
+  status: FeatureStatus
+  order: string
+}
+
+const byOrder = (a: Feature, b: Feature) => (a.order < b.order ? -1 : a.order > b.order ? 1 : 0)
+
+/**
+ * Places archived cards back in the column they were archived from, or in
+ * `fallbackStatus` when that column no longer exists. Restored cards go to the
+ * end of their column, keeping their previous relative order.
+ */
+export function planRestore(
+  archived: Feature[],
+  active: Feature[],
+  columns: KanbanColumn[],
+  fallbackStatus: FeatureStatus
+): RestorePlan[] {
+  const byStatus = new Map<FeatureStatus, Feature[]>()
+  for (const feature of [...archived].sort(byOrder)) {
+    const status = columns.some(c => c.id === feature.status) ? feature.status : fallbackStatus
+    byStatus.set(status, [...(byStatus.get(status) ?? []), feature])
+  }
+
+  const plans: RestorePlan[] = []
+  for (const [status, features] of byStatus) {
+    const inColumn = active.filter(f => f.status === status).sort(byOrder)
+    const last = inColumn.length > 0 ? inColumn[inColumn.length - 1].order : null
+    const keys = generateNKeysBetween(last, null, features.length)
+    features.forEach((feature, i) => plans.push({ feature, status, order: keys[i] }))
+  }
+  return plans
+}
+
+/** Most recently changed first, which for archived cards is usually the last worked on. */
+export function sortArchivedFeatures(features: Feature[]): Feature[] {
+  return [...features].sort((a, b) => b.modified.localeCompare(a.modified))
+}
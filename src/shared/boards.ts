@@ -0,0 +1,55 @@
+import type { FilenamePattern, KanbanColumn } from './types'
+import { sanitizeColumns } from './statuses'
+import { sanitizeKeyPrefix } from './cardKeys'
+
+/** One entry of the `kanban-markdown.boards` setting. */
+export interface BoardDefinition {
+  name: string
+  /** Relative to the workspace folder */
+  featuresDirectory: string
+  /** Omitted to use the top-level `columns` setting */
+  columns?: KanbanColumn[]
+  /** Omitted to use the top-level `filenamePattern` setting */
+  filenamePattern?: FilenamePattern
+  /** Omitted to use the top-level `keyPrefix` setting */
+  keyPrefix?: string
+  /** Omitted to use the top-level `enforceWipLimits` setting */
+  enforceWipLimits?: boolean
+  /** Omitted to use the top-level `checklistCompleteStatus` setting */
+  checklistCompleteStatus?: string
+}
+
+const FILENAME_PATTERNS: FilenamePattern[] = ['name-date', 'date-name', 'name-datetime', 'datetime-name']
+
+/**
+ * Validates the raw `kanban-markdown.boards` setting. Entries without a name
+ * or features directory, and later entries reusing a name, are dropped.
+ */
+export function sanitizeBoards(raw: unknown): BoardDefinition[] {
+  if (!Array.isArray(raw)) return []
+
+  const seen = new Set<string>()
+  const boards: BoardDefinition[] = []
+
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue
+    const { name, featuresDirectory, columns, filenamePattern, keyPrefix, enforceWipLimits, checklistCompleteStatus } = entry as Record<string, unknown>
+    if (typeof name !== 'string' || !name.trim() || seen.has(name.trim())) continue
+    if (typeof featuresDirectory !== 'string' || !featuresDirectory.trim()) continue
+
+    seen.add(name.trim())
+    boards.push({
+      name: name.trim(),
+      featuresDirectory: featuresDirectory.trim(),
+      columns: Array.isArray(columns) && columns.length > 0 ? sanitizeColumns(columns) : undefined,
+      filenamePattern: FILENAME_PATTERNS.includes(filenamePattern as FilenamePattern)
+        ? filenamePattern as FilenamePattern
+        : undefined,
+      keyPrefix: sanitizeKeyPrefix(keyPrefix),
+      enforceWipLimits: typeof enforceWipLimits === 'boolean' ? enforceWipLimits : undefined,
+      checklistCompleteStatus: typeof checklistCompleteStatus === 'string' ? checklistCompleteStatus.trim() : undefined
+    })
+  }
+
+  return boards
+}
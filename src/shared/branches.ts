@@ -0,0 +1,34 @@
+import { getDoneColumn, getHandoffColumn, isDoneStatus } from './statuses'
+import { getTitleFromContent, slugifyTitle } from './types'
+import type { Feature, FeatureStatus, KanbanColumn } from './types'
+
+/** What the local repository says about a card's branch. */
+export interface BranchState {
+  /** Commits on the branch that the base branch does not have */
+  ahead: number
+  /** The branch's own commits have all reached the base branch */
+  merged: boolean
+}
+
+/** The branch "Start work" uses for a card: the one it records, or one named like its file. */
+export function getFeatureBranchName(feature: Pick<Feature, 'branch' | 'content'>): string {
+  return feature.branch || slugifyTitle(getTitleFromContent(feature.content))
+}
+
+/**
+ * The column to offer moving a card to as its branch progresses: the done
+ * column once the branch is merged, and the review column once it has commits
+ * ahead of the base, checked out or not. Undefined when the card is already
+ * there or done.
+ */
+export function getBranchMoveTarget(
+  status: FeatureStatus,
+  state: BranchState,
+  columns: KanbanColumn[]
+): KanbanColumn | undefined {
+  if (isDoneStatus(status, columns)) return undefined
+  const target = state.merged
+    ? getDoneColumn(columns)
+    : state.ahead > 0 ? getHandoffColumn(columns) : undefined
+  return target && target.id !== status ? target : undefined
+}
@@ -0,0 +1,33 @@
+import type { BulkFeatureUpdate, Feature } from './types'
+
+/**
+ * Field changes a bulk update makes to one card, leaving out status (moving
+ * cards also needs new orders). Returns only fields whose value changes.
+ */
+export function getBulkFieldUpdates(
+  feature: Pick<Feature, 'priority' | 'assignee' | 'epic' | 'dueDate' | 'labels'>,
+  update: BulkFeatureUpdate
+): Partial<Feature> {
+  const changes: Partial<Feature> = {}
+  if (update.priority !== undefined && update.priority !== feature.priority) changes.priority = update.priority
+  if (update.assignee !== undefined) {
+    const assignee = update.assignee?.trim() || null
+    if (assignee !== feature.assignee) changes.assignee = assignee
+  }
+  if (update.epic !== undefined) {
+    const epic = update.epic?.trim() || null
+    if (epic !== feature.epic) changes.epic = epic
+  }
+  if (update.dueDate !== undefined && update.dueDate !== feature.dueDate) changes.dueDate = update.dueDate
+
+  const removed = new Set(update.removeLabels ?? [])
+  const labels = feature.labels.filter(l => !removed.has(l))
+  for (const label of update.addLabels ?? []) {
+    const trimmed = label.trim()
+    if (trimmed && !labels.includes(trimmed)) labels.push(trimmed)
+  }
+  if (labels.length !== feature.labels.length || labels.some((l, i) => l !== feature.labels[i])) {
+    changes.labels = labels
+  }
+  return changes
+}
@@ -0,0 +1,139 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import type { Feature } from './types'
+
+/** File in the features directory holding the last key number handed out; commit it with the cards. */
+export const KEY_COUNTER_FILE = '.kanban-keys'
+
+export const DEFAULT_KEY_PREFIX = 'KM'
+
+const KEY_PREFIX_RE = /^[A-Za-z][A-Za-z0-9]*$/
+const LOCK_RETRY_MS = 25
+// A writer holds the lock for milliseconds; one this old was left behind by a writer that stopped
+const LOCK_STALE_MS = 10000
+// Gives up when other writers keep the lock taken for this long
+const LOCK_TIMEOUT_MS = 2 * LOCK_STALE_MS
+
+/** Validates a key prefix setting: letters and digits, starting with a letter. Upper-cased. */
+export function sanitizeKeyPrefix(raw: unknown): string | undefined {
+  return typeof raw === 'string' && KEY_PREFIX_RE.test(raw.trim()) ? raw.trim().toUpperCase() : undefined
+}
+
+export function formatCardKey(prefix: string, number: number): string {
+  return `${prefix}-${number}`
+}
+
+/** The number of a key with the given prefix, e.g. 42 for `KM-42`. */
+export function getKeyNumber(key: string, prefix: string): number | undefined {
+  const match = new RegExp(`^${prefix}-(\\d+)$`, 'i').exec(key)
+  return match ? Number(match[1]) : undefined
+}
+
+/**
+ * The last number handed out, from the counter file's text. A merge conflict
+ * leaves both sides' numbers in the file, so the largest wins.
+ */
+export function parseKeyCounter(text: string): number {
+  const numbers = text.split('\n').map(line => line.trim()).filter(line => /^\d+$/.test(line)).map(Number)
+  return Math.max(0, ...numbers)
+}
+
+/**
+ * Keys for the cards that need one, by file path: cards without a key and, when
+ * merged branches each added a card under the same key, all but the oldest of
+ * them. Cards get keys in created order, numbered after both the counter and
+ * the highest key in use. Returns the keys and the counter to store.
+ */
+export function planCardKeys(
+  features: Pick<Feature, 'filePath' | 'key' | 'created'>[],
+  prefix: string,
+  counter: number
+): { keys: Map<string, string>; counter: number } {
+  const byCreated = [...features].sort((a, b) => a.created.localeCompare(b.created))
+  const taken = new Set<string>()
+  const needKeys: string[] = []
+  let last = counter
+
+  for (const feature of byCreated) {
+    const key = feature.key?.toUpperCase()
+    if (!key || taken.has(key)) {
+      needKeys.push(feature.filePath)
+      continue
+    }
+    taken.add(key)
+    last = Math.max(last, getKeyNumber(key, prefix) ?? 0)
+  }
+
+  const keys = new Map<string, string>()
+  for (const filePath of needKeys) {
+    let key: string
+    do {
+      key = formatCardKey(prefix, ++last)
+    } while (taken.has(key))
+    taken.add(key)
+    keys.set(filePath, key)
+  }
+  return { keys, counter: last }
+}
+
+/** The file operations key allocation needs, over plain paths like `FeatureFileSystem`. */
+export interface KeyCounterFileSystem {
+  /** Resolves to undefined when the file does not exist */
+  readFile(filePath: string): Promise<string | undefined>
+  writeFile(filePath: string, content: string): Promise<void>
+  /** Creates an empty file, resolving to false when it already exists */
+  createExclusive(filePath: string): Promise<boolean>
+  /** Last modification time in milliseconds; undefined when the file does not exist */
+  getModifiedTime(filePath: string): Promise<number | undefined>
+  delete(filePath: string): Promise<void>
+}
+
+/** `KeyCounterFileSystem` over the local disk, shared by the extension and the CLI. */
+export const nodeKeyCounterFs: KeyCounterFileSystem = {
+  readFile: filePath => fs.readFile(filePath, 'utf-8').catch(() => undefined),
+  writeFile: (filePath, content) => fs.writeFile(filePath, content, 'utf-8'),
+  createExclusive: filePath => fs.writeFile(filePath, '', { flag: 'wx' }).then(() => true, () => false),
+  getModifiedTime: filePath => fs.stat(filePath).then(stat => stat.mtimeMs, () => undefined),
+  delete: filePath => fs.rm(filePath, { force: true })
+}
+
+/**
+ * Creates the lock file, waiting while another writer holds it. A lock older
+ * than `LOCK_STALE_MS` is removed first. Rejects when the lock stays taken.
+ */
+async function acquireLock(fs: KeyCounterFileSystem, lockPath: string): Promise<void> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS
+  while (!await fs.createExclusive(lockPath)) {
+    const modified = await fs.getModifiedTime(lockPath)
+    if (modified !== undefined && Date.now() - modified > LOCK_STALE_MS) {
+      await fs.delete(lockPath)
+      continue
+    }
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${lockPath}`)
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS))
+  }
+}
+
+/**
+ * Hands out keys to the cards that need one (see `planCardKeys`) and stores
+ * the counter. A lock file next to the counter keeps the board, the
+ * command-line tool and other windows from handing out the same number; it is
+ * only released by the call that created it.
+ */
+export async function allocateCardKeys(
+  fs: KeyCounterFileSystem,
+  featuresDir: string,
+  prefix: string,
+  features: Pick<Feature, 'filePath' | 'key' | 'created'>[]
+): Promise<Map<string, string>> {
+  const counterPath = path.join(featuresDir, KEY_COUNTER_FILE)
+  const lockPath = `${counterPath}.lock`
+  await acquireLock(fs, lockPath)
+  try {
+    const plan = planCardKeys(features, prefix, parseKeyCounter(await fs.readFile(counterPath) ?? ''))
+    if (plan.keys.size > 0) await fs.writeFile(counterPath, `${plan.counter}\n`)
+    return plan.keys
+  } finally {
+    await fs.delete(lockPath).catch(() => undefined)
+  }
+}
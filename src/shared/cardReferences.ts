@@ -0,0 +1,77 @@
+/** A card mentioned in text: a key like `KM-42`, or an id written as `feature:add-login-2025-01-02`. */
+export interface CardReference {
+  /** The key, or the id without its `feature:` prefix */
+  reference: string
+  /** Offsets of the whole mention in the line */
+  start: number
+  end: number
+}
+
+export const DEFAULT_REFERENCE_TRIGGER = '#'
+
+const REFERENCE_RE = /(?<![\w-])(?:([A-Z][A-Z0-9]*-\d+)|feature:([\w-]+))(?![\w-])/g
+
+// Languages searched in full rather than only in their comments
+const PROSE_LANGUAGES = new Set(['markdown', 'plaintext', 'git-commit', 'scminput'])
+
+const C_STYLE = ['//', '/*']
+const COMMENT_TOKENS: Record<string, string[]> = {
+  ...Object.fromEntries([
+    'c', 'cpp', 'csharp', 'dart', 'go', 'java', 'javascript', 'javascriptreact', 'jsonc',
+    'kotlin', 'less', 'php', 'rust', 'scala', 'scss', 'swift', 'typescript', 'typescriptreact'
+  ].map(id => [id, C_STYLE])),
+  ...Object.fromEntries([
+    'coffeescript', 'dockerfile', 'elixir', 'makefile', 'perl', 'powershell', 'python', 'r',
+    'ruby', 'shellscript', 'toml', 'yaml'
+  ].map(id => [id, ['#']])),
+  ...Object.fromEntries(['haskell', 'lua', 'sql'].map(id => [id, ['--']])),
+  css: ['/*'],
+  html: ['<!--'],
+  xml: ['<!--']
+}
+
+/**
+ * Where card mentions can start on a line: 0 in prose and in languages
+ * without known comment syntax, otherwise the offset of the line's first
+ * comment token, or undefined when it has none. Lines continuing a block
+ * comment (` * ...`) count from their start. Tokens inside strings are not
+ * told apart from real comments.
+ */
+export function getCommentStart(line: string, languageId: string): number | undefined {
+  const tokens = COMMENT_TOKENS[languageId]
+  if (PROSE_LANGUAGES.has(languageId) || !tokens) return 0
+  if (tokens.includes('/*') && /^\s*\*/.test(line)) return 0
+  const starts = tokens.map(token => line.indexOf(token)).filter(index => index !== -1)
+  return starts.length > 0 ? Math.min(...starts) : undefined
+}
+
+/** The card keys and `feature:` ids mentioned on a line of a document in `languageId`. */
+export function findCardReferences(line: string, languageId: string): CardReference[] {
+  const commentStart = getCommentStart(line, languageId)
+  if (commentStart === undefined) return []
+  const references: CardReference[] = []
+  for (const match of line.slice(commentStart).matchAll(REFERENCE_RE)) {
+    const start = commentStart + match.index
+    references.push({ reference: match[1] ?? match[2], start, end: start + match[0].length })
+  }
+  return references
+}
+
+/** The mention at `offset` on a line, if any. */
+export function getCardReferenceAt(line: string, languageId: string, offset: number): CardReference | undefined {
+  return findCardReferences(line, languageId).find(ref => offset >= ref.start && offset <= ref.end)
+}
+
+/**
+ * Where to insert a card key when the text before the cursor ends in the
+ * trigger followed by what has been typed of the key so far. The trigger must
+ * follow whitespace or an opening bracket, so a `#` starting a markdown
+ * heading or a comment does not count. Returns the trigger's offset.
+ */
+export function getCompletionStart(lineBeforeCursor: string, trigger: string): number | undefined {
+  if (!trigger) return undefined
+  const typed = /[\w-]*$/.exec(lineBeforeCursor)![0]
+  const start = lineBeforeCursor.length - typed.length - trigger.length
+  if (start <= 0 || !lineBeforeCursor.startsWith(trigger, start)) return undefined
+  return /[\s([{]/.test(lineBeforeCursor[start - 1]) ? start : undefined
+}
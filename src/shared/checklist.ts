@@ -0,0 +1,60 @@
+export interface ChecklistItem {
+  /** Zero-based line number of the item in the markdown body */
+  line: number
+  text: string
+  checked: boolean
+}
+
+export interface ChecklistProgress {
+  done: number
+  total: number
+}
+
+const TASK_RE = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\]\s?)(.*)$/
+const FENCE_RE = /^\s*(```|~~~)/
+
+/** Markdown task list items (`- [ ]` / `- [x]`) in the body, skipping fenced code blocks. */
+export function parseChecklist(content: string): ChecklistItem[] {
+  const items: ChecklistItem[] = []
+  let fence: string | null = null
+
+  content.split('\n').forEach((raw, line) => {
+    const fenceMatch = raw.match(FENCE_RE)
+    if (fenceMatch) {
+      if (fence === null) fence = fenceMatch[1]
+      else if (fenceMatch[1] === fence) fence = null
+      return
+    }
+    if (fence !== null) return
+
+    const match = raw.match(TASK_RE)
+    if (match) items.push({ line, text: match[4].trim(), checked: match[2] !== ' ' })
+  })
+
+  return items
+}
+
+export function getChecklistProgress(content: string): ChecklistProgress {
+  const items = parseChecklist(content)
+  return { done: items.filter(i => i.checked).length, total: items.length }
+}
+
+export function isChecklistComplete(content: string): boolean {
+  const { done, total } = getChecklistProgress(content)
+  return total > 0 && done === total
+}
+
+/**
+ * Flips the checkbox of the item at `index` (in `parseChecklist` order).
+ * Returns the content unchanged when there is no such item.
+ */
+export function toggleChecklistItem(content: string, index: number): string {
+  const item = parseChecklist(content)[index]
+  if (!item) return content
+
+  const lines = content.split('\n')
+  lines[item.line] = lines[item.line].replace(TASK_RE, (_, start: string, _mark: string, end: string, text: string) =>
+    `${start}${item.checked ? ' ' : 'x'}${end}${text}`
+  )
+  return lines.join('\n')
+}
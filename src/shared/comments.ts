@@ -0,0 +1,31 @@
+export interface CardComment {
+  author: string
+  text: string
+  at: string
+}
+
+const COMMENTS_HEADING = '## Comments'
+
+/**
+ * Adds a comment to the `## Comments` section of a card body, creating the
+ * section at the end of the body when it is missing. Comments are plain
+ * markdown list items so they read well in any editor.
+ */
+export function appendComment(content: string, comment: CardComment): string {
+  const text = comment.text.trim().replace(/\n+/g, ' ')
+  const entry = `- **${comment.author}** (${comment.at}): ${text}`
+  const lines = content.replace(/\s+$/, '').split('\n')
+
+  const heading = lines.findIndex(line => line.trim() === COMMENTS_HEADING)
+  if (heading === -1) {
+    const body = lines.join('\n')
+    return `${body}${body ? '\n\n' : ''}${COMMENTS_HEADING}\n\n${entry}`
+  }
+
+  // The section ends at the next heading of the same or a higher level
+  let end = lines.findIndex((line, i) => i > heading && /^#{1,2}\s/.test(line))
+  if (end === -1) end = lines.length
+  while (end > heading + 1 && !lines[end - 1].trim()) end--
+  lines.splice(end, 0, ...(end === heading + 1 ? ['', entry] : [entry]))
+  return lines.join('\n')
+}
@@ -0,0 +1,36 @@
+import type { Feature } from './types'
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Card ids and keys are made of word characters and hyphens, so a mention ends at anything else
+const reference = (ref: string) => `(?<![\\w-])${escapeRegExp(ref)}(?![\\w-])`
+
+/** The strings a commit message can use to refer to a card: its key and its id. */
+export function getFeatureReferences(feature: Pick<Feature, 'id' | 'key'>): string[] {
+  return feature.key ? [feature.key, feature.id] : [feature.id]
+}
+
+/** Whether the message mentions one of the references as a whole word, e.g. `[KM-42] Fix login`. */
+export function mentionsFeature(message: string, references: string[]): boolean {
+  return references.some(ref => new RegExp(reference(ref), 'i').test(message))
+}
+
+/**
+ * Whether the message closes one of the references with a keyword, e.g.
+ * `closes KM-42` or `Fixes: [KM-42]`. Keywords match case-insensitively.
+ */
+export function closesFeature(message: string, references: string[], keywords: string[]): boolean {
+  if (keywords.length === 0) return false
+  const keyword = `(?:${keywords.map(escapeRegExp).join('|')})`
+  return references.some(ref =>
+    new RegExp(`(?<![\\w-])${keyword}:?\\s+[[#]?${escapeRegExp(ref)}\\]?(?![\\w-])`, 'i').test(message)
+  )
+}
+
+/** Validates the raw `kanban-markdown.commitCloseKeywords` setting. */
+export function sanitizeCloseKeywords(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return []
+  return raw.filter((k): k is string => typeof k === 'string' && k.trim().length > 0).map(k => k.trim())
+}
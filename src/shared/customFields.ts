@@ -0,0 +1,116 @@
+import { FRONTMATTER_KEYS } from './types'
+import type { CustomFieldDefinition, CustomFieldType, CustomFieldValue, Feature } from './types'
+
+const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['string', 'number', 'enum', 'date']
+
+/** Frontmatter keys owned by the extension; custom fields may not shadow them. */
+export const RESERVED_FRONTMATTER_KEYS: ReadonlySet<string> = new Set(FRONTMATTER_KEYS)
+
+/**
+ * Validates the raw `kanban-markdown.customFields` setting. Entries with an
+ * invalid or reserved key, an unknown type, or a duplicate key are dropped.
+ */
+export function sanitizeCustomFieldDefinitions(raw: unknown): CustomFieldDefinition[] {
+  if (!Array.isArray(raw)) return []
+
+  const seen = new Set<string>()
+  const definitions: CustomFieldDefinition[] = []
+
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue
+    const { key, label, type, options, showOnCard } = entry as Record<string, unknown>
+
+    if (typeof key !== 'string' || !/^[A-Za-z_][\w-]*$/.test(key)) continue
+    if (RESERVED_FRONTMATTER_KEYS.has(key) || seen.has(key)) continue
+    if (!CUSTOM_FIELD_TYPES.includes(type as CustomFieldType)) continue
+
+    const enumOptions = Array.isArray(options)
+      ? options.filter((o): o is string => typeof o === 'string' && o.trim().length > 0).map(o => o.trim())
+      : []
+    if (type === 'enum' && enumOptions.length === 0) continue
+
+    seen.add(key)
+    definitions.push({
+      key,
+      label: typeof label === 'string' && label.trim() ? label.trim() : key,
+      type: type as CustomFieldType,
+      options: type === 'enum' ? enumOptions : undefined,
+      showOnCard: showOnCard === true
+    })
+  }
+
+  return definitions
+}
+
+/**
+ * Coerces a raw value to the field's type. Returns null for empty or invalid
+ * values (non-numeric numbers, enum values not in the option list, bad dates).
+ */
+export function normalizeCustomFieldValue(
+  definition: CustomFieldDefinition,
+  value: unknown
+): CustomFieldValue {
+  if (value === null || value === undefined) return null
+
+  switch (definition.type) {
+    case 'number': {
+      if (typeof value === 'string' && value.trim() === '') return null
+      const n = typeof value === 'number' ? value : Number(value)
+      return Number.isFinite(n) ? n : null
+    }
+    case 'enum': {
+      const str = String(value).trim()
+      return definition.options?.includes(str) ? str : null
+    }
+    case 'date': {
+      const str = String(value).trim()
+      return /^\d{4}-\d{2}-\d{2}$/.test(str) ? str : null
+    }
+    case 'string':
+    default: {
+      const str = String(value).trim()
+      return str ? str : null
+    }
+  }
+}
+
+/** Normalizes every defined field on a custom field map, keeping undefined keys as-is. */
+export function normalizeCustomFields(
+  definitions: CustomFieldDefinition[],
+  values: Record<string, CustomFieldValue> | undefined
+): Record<string, CustomFieldValue> {
+  const result: Record<string, CustomFieldValue> = { ...(values ?? {}) }
+  for (const def of definitions) {
+    if (def.key in result) {
+      result[def.key] = normalizeCustomFieldValue(def, result[def.key])
+    }
+  }
+  return result
+}
+
+/**
+ * Applies an edit to a card's custom fields, normalizing only the values the
+ * edit changed. A hand-written value its field type rejects is kept as long as
+ * the user leaves it alone, instead of being nulled (and so deleted) on save.
+ */
+export function mergeCustomFieldEdits(
+  definitions: CustomFieldDefinition[],
+  current: Record<string, CustomFieldValue> | undefined,
+  edited: Record<string, CustomFieldValue>
+): Record<string, CustomFieldValue> {
+  const result: Record<string, CustomFieldValue> = { ...(current ?? {}) }
+  const changed: Record<string, CustomFieldValue> = {}
+  for (const [key, value] of Object.entries(edited)) {
+    if (result[key] !== value) changed[key] = value
+  }
+  return { ...result, ...normalizeCustomFields(definitions, changed) }
+}
+
+export function getCustomFieldValue(feature: Feature, key: string): CustomFieldValue {
+  return feature.customFields?.[key] ?? null
+}
+
+/** Display text for a custom field value (numbers and dates as written). */
+export function formatCustomFieldValue(value: CustomFieldValue): string {
+  return value === null ? '' : String(value)
+}
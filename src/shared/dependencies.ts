@@ -0,0 +1,127 @@
+import { DEFAULT_COLUMNS } from './types'
+import type { Feature, KanbanColumn } from './types'
+import { isDoneStatus } from './statuses'
+
+export type DependencyIssue =
+  | { kind: 'unknown'; featureId: string; ids: string[] }
+  | { kind: 'cycle'; featureId: string; cycle: string[] }
+
+/** Trims and de-duplicates blocker ids, dropping empty entries and self-references. */
+export function normalizeBlockedBy(ids: readonly string[] | undefined, selfId?: string): string[] {
+  const result: string[] = []
+  for (const raw of ids ?? []) {
+    const id = raw.trim()
+    if (id && id !== selfId && !result.includes(id)) result.push(id)
+  }
+  return result
+}
+
+/** Blockers of the feature that exist on the board and are not in a done column. */
+export function getOpenBlockers(
+  feature: Pick<Feature, 'blockedBy'>,
+  features: Feature[],
+  columns: KanbanColumn[] = DEFAULT_COLUMNS
+): Feature[] {
+  const blockers: Feature[] = []
+  for (const id of feature.blockedBy ?? []) {
+    const blocker = features.find(f => f.id === id)
+    if (blocker && !isDoneStatus(blocker.status, columns)) blockers.push(blocker)
+  }
+  return blockers
+}
+
+export function isBlocked(
+  feature: Pick<Feature, 'blockedBy'>,
+  features: Feature[],
+  columns: KanbanColumn[] = DEFAULT_COLUMNS
+): boolean {
+  return getOpenBlockers(feature, features, columns).length > 0
+}
+
+/** Features that list `featureId` in their `blockedBy` (the "blocks" side of the relation). */
+export function getBlockedFeatures(featureId: string, features: Feature[]): Feature[] {
+  return features.filter(f => f.blockedBy?.includes(featureId))
+}
+
+/**
+ * Whether adding `blockerId` to the blockers of `featureId` would close a loop,
+ * i.e. `featureId` is already (transitively) a blocker of `blockerId`.
+ */
+export function wouldCreateCycle(features: Feature[], featureId: string, blockerId: string): boolean {
+  if (featureId === blockerId) return true
+  const byId = new Map(features.map(f => [f.id, f]))
+  const visited = new Set<string>()
+  const stack = [blockerId]
+  while (stack.length > 0) {
+    const id = stack.pop()!
+    if (id === featureId) return true
+    if (visited.has(id)) continue
+    visited.add(id)
+    stack.push(...(byId.get(id)?.blockedBy ?? []))
+  }
+  return false
+}
+
+/**
+ * Checks the dependency graph: every `blockedBy` id must name an existing feature
+ * and the graph must not contain cycles. Each cycle is reported once, attached to
+ * the feature with the smallest id in it.
+ */
+export function validateDependencies(features: Feature[]): DependencyIssue[] {
+  const issues: DependencyIssue[] = []
+  const byId = new Map(features.map(f => [f.id, f]))
+
+  for (const feature of features) {
+    const unknown = (feature.blockedBy ?? []).filter(id => !byId.has(id))
+    if (unknown.length > 0) issues.push({ kind: 'unknown', featureId: feature.id, ids: unknown })
+  }
+
+  const state = new Map<string, 'visiting' | 'done'>()
+  const path: string[] = []
+  const seenCycles = new Set<string>()
+
+  const visit = (id: string): void => {
+    state.set(id, 'visiting')
+    path.push(id)
+    for (const next of byId.get(id)?.blockedBy ?? []) {
+      if (!byId.has(next)) continue
+      if (state.get(next) === 'visiting') {
+        const cycle = path.slice(path.indexOf(next))
+        // Rotate so the smallest id comes first; identical cycles then share a key
+        const start = cycle.indexOf([...cycle].sort()[0])
+        const rotated = [...cycle.slice(start), ...cycle.slice(0, start)]
+        const key = rotated.join('\n')
+        if (!seenCycles.has(key)) {
+          seenCycles.add(key)
+          issues.push({ kind: 'cycle', featureId: rotated[0], cycle: rotated })
+        }
+      } else if (!state.has(next)) {
+        visit(next)
+      }
+    }
+    path.pop()
+    state.set(id, 'done')
+  }
+
+  for (const feature of features) {
+    if (!state.has(feature.id)) visit(feature.id)
+  }
+
+  return issues
+}
+
+/**
+ * Rewrites `blockedBy` references after features were renamed. Returns the
+ * features whose references changed so the caller can persist them.
+ */
+export function renameDependencyReferences(features: Feature[], renamedIds: ReadonlyMap<string, string>): Feature[] {
+  if (renamedIds.size === 0) return []
+  const changed: Feature[] = []
+  for (const feature of features) {
+    const blockedBy = feature.blockedBy ?? []
+    if (!blockedBy.some(id => renamedIds.has(id))) continue
+    feature.blockedBy = normalizeBlockedBy(blockedBy.map(id => renamedIds.get(id) ?? id), feature.id)
+    changed.push(feature)
+  }
+  return changed
+}
@@ -0,0 +1,69 @@
+import * as path from 'path'
+import { DEFAULT_COLUMNS } from './types'
+import type { KanbanColumn } from './types'
+import { isDoneStatus } from './statuses'
+
+/**
+ * The file operations needed to lay out feature files, over plain paths so the
+ * same rules serve the extension and the command-line tool.
+ */
+export interface FeatureFileSystem {
+  exists(filePath: string): Promise<boolean>
+  createDirectory(dirPath: string): Promise<void>
+  rename(source: string, target: string): Promise<void>
+}
+
+// Features in a column with the 'done' category live in the done/ subfolder
+export function getFeatureFilePath(
+  featuresDir: string,
+  status: string,
+  filename: string,
+  columns: KanbanColumn[] = DEFAULT_COLUMNS
+): string {
+  if (isDoneStatus(status, columns)) {
+    return path.join(featuresDir, 'done', `${filename}.md`)
+  }
+  return path.join(featuresDir, `${filename}.md`)
+}
+
+/**
+ * Moves a feature file into the folder its new status belongs in, adding a
+ * numeric suffix when the name is taken there. Returns the new path.
+ */
+export async function moveFeatureFile(
+  currentPath: string,
+  featuresDir: string,
+  newStatus: string,
+  fs: FeatureFileSystem,
+  columns: KanbanColumn[] = DEFAULT_COLUMNS
+): Promise<string> {
+  const filename = path.basename(currentPath)
+  const targetDir = isDoneStatus(newStatus, columns)
+    ? path.join(featuresDir, 'done')
+    : featuresDir
+  let targetPath = path.join(targetDir, filename)
+
+  if (currentPath === targetPath) return currentPath
+
+  const ext = path.extname(filename)
+  const base = path.basename(filename, ext)
+  let counter = 1
+  while (await fs.exists(targetPath)) {
+    targetPath = path.join(targetDir, `${base}-${counter}${ext}`)
+    counter++
+  }
+
+  await fs.createDirectory(targetDir)
+  await fs.rename(currentPath, targetPath)
+
+  return targetPath
+}
+
+export function getStatusFromPath(filePath: string, featuresDir: string): string | null {
+  const relative = path.relative(featuresDir, filePath)
+  const parts = relative.split(path.sep)
+  if (parts.length === 2 && parts[0] === 'done') {
+    return 'done'
+  }
+  return null
+}
@@ -1,26 +1,121 @@
 import * as path from 'path'
-import type { Feature, FeatureStatus, Priority } from './types'
+import { Document, isMap, isScalar, isSeq, parseDocument } from 'yaml'
+import type { Node } from 'yaml'
+import { AGENT_ID_RE, AI_PERMISSION_MODES } from './agents'
+import { FRONTMATTER_KEYS } from './types'
+import type { AIPermissionMode, AISession, CustomFieldValue, Feature, FeatureStatus, Priority, StatusTransition } from './types'
 
-export function parseFeatureFile(content: string, filePath: string): Feature | null {
+const FRONTMATTER_RE = /^---\n([\s\S]*?)\n---\n?([\s\S]*)$/
+
+const OPTIONAL_LIST_KEYS: ReadonlySet<string> = new Set(['blockedBy', 'statusHistory'])
+
+type FrontmatterValue = string | string[] | StatusTransition[] | AISession | null
+
+/**
+ * Splits a feature file into its raw YAML frontmatter and markdown body.
+ * Returns null when the file does not start with a `---` delimited block.
+ */
+export function splitFrontmatter(content: string): { frontmatter: string; body: string } | null {
   content = content.replace(/\r\n/g, '\n')
-  const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/)
-  if (!frontmatterMatch) return null
+  const match = content.match(FRONTMATTER_RE)
+  if (!match) return null
+  return { frontmatter: match[1], body: match[2] || '' }
+}
 
-  const frontmatter = frontmatterMatch[1]
-  const body = frontmatterMatch[2] || ''
+function toStringValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'object') return ''
+  const str = String(value).trim()
+  // Older files occasionally contain a quoted "null"
+  return str === 'null' ? '' : str
+}
 
-  const getValue = (key: string): string => {
-    const match = frontmatter.match(new RegExp(`^${key}:\\s*(.*)$`, 'm'))
-    if (!match) return ''
-    const value = match[1].trim().replace(/^["']|["']$/g, '')
-    return value === 'null' ? '' : value
+function toStringArray(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(v => toStringValue(v)).filter(Boolean)
   }
+  // Tolerate a single scalar (e.g. `labels: bug`)
+  const single = toStringValue(value)
+  return single ? [single] : []
+}
 
-  const getArrayValue = (key: string): string[] => {
-    const match = frontmatter.match(new RegExp(`^${key}:\\s*\\[([^\\]]*)\\]`, 'm'))
-    if (!match) return []
-    return match[1].split(',').map(s => s.trim().replace(/^["']|["']$/g, '')).filter(Boolean)
+/** Reads `statusHistory`, dropping entries without a status or a readable timestamp. */
+function toStatusHistory(value: unknown): StatusTransition[] {
+  if (!Array.isArray(value)) return []
+  const history: StatusTransition[] = []
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue
+    const status = toStringValue((entry as Record<string, unknown>).status)
+    const raw = (entry as Record<string, unknown>).at
+    // YAML may hand back unquoted timestamps as Date objects
+    const at = raw instanceof Date ? raw.toISOString() : toStringValue(raw)
+    if (status && at && !Number.isNaN(Date.parse(at))) history.push({ status, at })
   }
+  return history
+}
+
+/** Reads `aiSession`, ignoring it unless the agent id, mode and start time are all readable. */
+function toAISession(value: unknown): AISession | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined
+  const entry = value as Record<string, unknown>
+  const agent = toStringValue(entry.agent)
+  const permissionMode = toStringValue(entry.permissionMode) || 'default'
+  const startedAt = entry.startedAt instanceof Date ? entry.startedAt.toISOString() : toStringValue(entry.startedAt)
+  if (!AGENT_ID_RE.test(agent) || !AI_PERMISSION_MODES.includes(permissionMode as AIPermissionMode)) return undefined
+  if (Number.isNaN(Date.parse(startedAt))) return undefined
+  return { agent, permissionMode: permissionMode as AIPermissionMode, startedAt }
+}
+
+/**
+ * Line-by-line fallback for frontmatter that is not valid YAML, matching the
+ * leniency of the old regex parser so hand-edited files still load.
+ */
+function parseTopLevelLines(frontmatter: string): Record<string, unknown> {
+  const data: Record<string, unknown> = {}
+  for (const line of frontmatter.split('\n')) {
+    const match = line.match(/^([A-Za-z_][\w-]*):\s*(.*)$/)
+    if (!match) continue
+    const doc = parseDocument(match[2])
+    const value: unknown = doc.errors.length === 0 ? doc.toJS() : null
+    const isPlain = value === null || typeof value !== 'object' || Array.isArray(value)
+    data[match[1]] = doc.errors.length === 0 && isPlain ? value : match[2].trim()
+  }
+  return data
+}
+
+/**
+ * Parses the YAML frontmatter into a plain object. Malformed YAML falls back to
+ * reading top-level `key: value` lines, and a non-mapping document yields `{}`.
+ */
+export function parseFrontmatterData(frontmatter: string): Record<string, unknown> {
+  const doc = parseDocument(frontmatter)
+  if (doc.errors.length > 0) return parseTopLevelLines(frontmatter)
+  const data: unknown = doc.toJS()
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return {}
+  return data as Record<string, unknown>
+}
+
+/**
+ * Collects top-level string and number values outside the known keys. These are
+ * the candidates for user-defined custom fields.
+ */
+function collectCustomFields(data: Record<string, unknown>): Record<string, CustomFieldValue> {
+  const known: readonly string[] = FRONTMATTER_KEYS
+  const fields: Record<string, CustomFieldValue> = {}
+  for (const [key, value] of Object.entries(data)) {
+    if (known.includes(key)) continue
+    if (typeof value === 'number' && Number.isFinite(value)) fields[key] = value
+    else if (typeof value === 'string') fields[key] = value
+  }
+  return fields
+}
+
+export function parseFeatureFile(content: string, filePath: string): Feature | null {
+  const parts = splitFrontmatter(content)
+  if (!parts) return null
+
+  const data = parseFrontmatterData(parts.frontmatter)
+  const getValue = (key: string): string => toStringValue(data[key])
 
   return {
     id: getValue('id') || path.basename(filePath, '.md'),
@@ -32,30 +127,139 @@ export function parseFeatureFile(content: string, filePath: string): Feature | n
     created: getValue('created') || new Date().toISOString(),
     modified: getValue('modified') || new Date().toISOString(),
     completedAt: getValue('completedAt') || null,
-    labels: getArrayValue('labels'),
+    labels: toStringArray(data.labels),
     order: getValue('order') || 'a0',
-    content: body.trim(),
-    filePath
+    blockedBy: toStringArray(data.blockedBy),
+    statusHistory: toStatusHistory(data.statusHistory),
+    aiSession: toAISession(data.aiSession),
+    branch: getValue('branch') || undefined,
+    key: getValue('key') || undefined,
+    content: parts.body.trim(),
+    filePath,
+    customFields: collectCustomFields(data),
+    frontmatterSource: parts.frontmatter
+  }
+}
+
+/**
+ * Loads the document to write into. Starts from the original frontmatter when
+ * it is a valid mapping so unknown keys, comments and key order survive;
+ * malformed YAML is rebuilt from its readable top-level keys.
+ */
+function loadDocument(source: string | undefined): Document {
+  if (source !== undefined) {
+    const doc = parseDocument(source)
+    if (doc.errors.length > 0) return new Document(parseTopLevelLines(source))
+    if (isMap(doc.contents)) return doc
+  }
+  return new Document({})
+}
+
+/**
+ * Builds the YAML node for a known key. Strings are double-quoted as the
+ * extension has always written them; an existing list keeps its block/flow style
+ * and any comment attached to the previous value is carried over. The status
+ * history is always a block list of `status`/`at` mappings, and the AI session
+ * a block mapping.
+ */
+function createValueNode(doc: Document, key: string, value: FrontmatterValue): Node {
+  const previous = doc.get(key, true) as Node | undefined
+  let node: Node
+
+  if (key === 'statusHistory' && Array.isArray(value)) {
+    const seq = doc.createNode(value)
+    seq.flow = false
+    for (const item of seq.items) {
+      if (!isMap(item)) continue
+      for (const pair of item.items) {
+        if (isScalar(pair.value)) pair.value.type = 'QUOTE_DOUBLE'
+      }
+    }
+    node = seq
+  } else if (Array.isArray(value)) {
+    const seq = doc.createNode(value)
+    seq.flow = isSeq(previous) ? !!previous.flow : true
+    for (const item of seq.items) {
+      if (isScalar(item)) item.type = 'QUOTE_DOUBLE'
+    }
+    node = seq
+  } else if (value !== null && typeof value === 'object') {
+    const map = doc.createNode(value)
+    map.flow = false
+    for (const pair of map.items) {
+      if (isScalar(pair.value)) pair.value.type = 'QUOTE_DOUBLE'
+    }
+    node = map
+  } else {
+    const scalar = doc.createNode(value)
+    if (value !== null) scalar.type = 'QUOTE_DOUBLE'
+    node = scalar
   }
+
+  if (previous) {
+    node.comment = previous.comment
+    node.commentBefore = previous.commentBefore
+  }
+  return node
 }
 
 export function serializeFeature(feature: Feature): string {
-  const frontmatter = [
-    '---',
-    `id: "${feature.id}"`,
-    `status: "${feature.status}"`,
-    `priority: "${feature.priority}"`,
-    `assignee: ${feature.assignee ? `"${feature.assignee}"` : 'null'}`,
-    `epic: ${feature.epic ? `"${feature.epic}"` : 'null'}`,
-    `dueDate: ${feature.dueDate ? `"${feature.dueDate}"` : 'null'}`,
-    `created: "${feature.created}"`,
-    `modified: "${feature.modified}"`,
-    `completedAt: ${feature.completedAt ? `"${feature.completedAt}"` : 'null'}`,
-    `labels: [${feature.labels.map(l => `"${l}"`).join(', ')}]`,
-    `order: "${feature.order}"`,
-    '---',
-    ''
-  ].join('\n')
-
-  return frontmatter + feature.content
+  const doc = loadDocument(feature.frontmatterSource)
+
+  const values: Record<(typeof FRONTMATTER_KEYS)[number], FrontmatterValue> = {
+    id: feature.id,
+    status: feature.status,
+    priority: feature.priority,
+    assignee: feature.assignee || null,
+    epic: feature.epic || null,
+    dueDate: feature.dueDate || null,
+    created: feature.created,
+    modified: feature.modified,
+    completedAt: feature.completedAt || null,
+    labels: feature.labels,
+    order: feature.order,
+    blockedBy: feature.blockedBy ?? [],
+    statusHistory: feature.statusHistory ?? [],
+    aiSession: feature.aiSession ?? null,
+    branch: feature.branch || null,
+    key: feature.key || null
+  }
+
+  for (const key of FRONTMATTER_KEYS) {
+    // Writers that don't track history (the header editor) keep what is on disk
+    if (key === 'statusHistory' && feature.statusHistory === undefined) continue
+    if (key === 'aiSession' && feature.aiSession === undefined) continue
+    if (key === 'branch' && feature.branch === undefined) continue
+    if (key === 'key' && feature.key === undefined) continue
+    const value = values[key]
+    // Optional lists are only written when they have entries
+    if (OPTIONAL_LIST_KEYS.has(key) && Array.isArray(value) && value.length === 0) {
+      doc.delete(key)
+      continue
+    }
+    doc.set(key, createValueNode(doc, key, value))
+  }
+
+  // Custom fields: null (a declared field cleared in the editor) removes the key,
+  // an unchanged value, empty or not, keeps its original formatting
+  for (const [key, value] of Object.entries(feature.customFields ?? {})) {
+    if ((FRONTMATTER_KEYS as readonly string[]).includes(key)) continue
+    if (value === null) {
+      doc.delete(key)
+      continue
+    }
+    const previous = doc.get(key, true)
+    if (isScalar(previous) && previous.value === value) continue
+    if (!previous && value === '') continue
+    const node = doc.createNode(value)
+    if (typeof value === 'string') node.type = 'QUOTE_DOUBLE'
+    if (previous) {
+      node.comment = (previous as Node).comment
+      node.commentBefore = (previous as Node).commentBefore
+    }
+    doc.set(key, node)
+  }
+
+  const yaml = doc.toString({ flowCollectionPadding: false, lineWidth: 0 })
+  return `---\n${yaml}---\n${feature.content}`
 }
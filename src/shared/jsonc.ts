@@ -0,0 +1,27 @@
+/**
+ * Removes comments and trailing commas so VS Code's JSONC files (settings, mcp.json) can be
+ * read with JSON.parse. String contents are left untouched.
+ */
+export function stripJsonComments(text: string): string {
+  let out = ''
+  let i = 0
+  while (i < text.length) {
+    const ch = text[i]
+    if (ch === '"') {
+      const start = i
+      i++
+      while (i < text.length && text[i] !== '"') i += text[i] === '\\' ? 2 : 1
+      i++
+      out += text.slice(start, i)
+    } else if (ch === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++
+    } else if (ch === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2)
+      i = end === -1 ? text.length : end + 2
+    } else {
+      out += ch
+      i++
+    }
+  }
+  return out.replace(/,(\s*[}\]])/g, '$1')
+}
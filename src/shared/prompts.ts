@@ -0,0 +1,61 @@
+import { parseChecklist } from './checklist'
+import { getTitleFromContent } from './types'
+import type { Feature } from './types'
+
+/** Prompt template file a team can keep in the features directory; it wins over the setting. */
+export const PROMPT_TEMPLATE_FILE = '.ai-prompt.md'
+
+const PLACEHOLDER_RE = /\{\{\s*(\w+)\s*\}\}/g
+const DESCRIPTION_LENGTH = 200
+
+/** The body on one line, cut to a length that keeps the prompt readable in a terminal. */
+function getShortDescription(content: string): string {
+  const description = content.replace(/\n/g, ' ').replace(/\s+/g, ' ').trim()
+  return description.length > DESCRIPTION_LENGTH ? description.substring(0, DESCRIPTION_LENGTH) + '...' : description
+}
+
+/**
+ * The value of each template placeholder for a feature. `mcpInstructions` is
+ * what the agent is asked to do with the board's MCP tools, empty when it
+ * cannot use them.
+ */
+export function getPromptValues(feature: Feature, filePath: string, mcpInstructions = ''): Record<string, string> {
+  return {
+    id: feature.id,
+    title: getTitleFromContent(feature.content),
+    content: feature.content,
+    description: getShortDescription(feature.content),
+    filePath,
+    status: feature.status,
+    priority: feature.priority,
+    assignee: feature.assignee ?? '',
+    epic: feature.epic ?? '',
+    labels: feature.labels.join(', '),
+    dueDate: feature.dueDate ?? '',
+    checklist: parseChecklist(feature.content).map(item => `- [${item.checked ? 'x' : ' '}] ${item.text}`).join('\n'),
+    mcpInstructions
+  }
+}
+
+/** Fills `{{placeholder}}`s in a prompt template. Unknown placeholders are left as written. */
+export function renderPromptTemplate(template: string, feature: Feature, filePath: string, mcpInstructions = ''): string {
+  const values = getPromptValues(feature, filePath, mcpInstructions)
+  return template.replace(PLACEHOLDER_RE, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key) ? values[key] : match
+  ).trim()
+}
+
+/** The prompt used when no template is configured. */
+export function getDefaultPrompt(feature: Feature, filePath: string, mcpInstructions = ''): string {
+  const { title, description } = getPromptValues(feature, filePath)
+  const labels = feature.labels.length > 0 ? ` [${feature.labels.join(', ')}]` : ''
+  const prompt = `Implement this feature: "${title}" (${feature.priority} priority)${labels}. ${description} See full details in: ${filePath}`
+  return mcpInstructions ? `${prompt} ${mcpInstructions}` : prompt
+}
+
+/** The prompt handing a feature to an agent: the template when there is one, otherwise the default prompt. */
+export function buildAgentPrompt(feature: Feature, filePath: string, template?: string, mcpInstructions = ''): string {
+  return template?.trim()
+    ? renderPromptTemplate(template, feature, filePath, mcpInstructions)
+    : getDefaultPrompt(feature, filePath, mcpInstructions)
+}
@@ -0,0 +1,120 @@
+import { DEFAULT_COLUMNS } from './types'
+import type { Feature, FeatureStatus, KanbanColumn, StatusCategory, StatusTransition } from './types'
+
+const STATUS_CATEGORIES: StatusCategory[] = ['todo', 'active', 'done']
+
+// Category for columns configured before categories existed, keyed by the built-in ids
+const LEGACY_CATEGORIES: Record<string, StatusCategory> = {
+  'in-progress': 'active',
+  review: 'active',
+  done: 'done'
+}
+
+/** The column's category, inferred from the built-in ids when not set explicitly. */
+export function getColumnCategory(column: Pick<KanbanColumn, 'id' | 'category'>): StatusCategory {
+  if (column.category && STATUS_CATEGORIES.includes(column.category)) return column.category
+  return LEGACY_CATEGORIES[column.id] ?? 'todo'
+}
+
+/**
+ * Validates the raw `kanban-markdown.columns` setting. Entries without an id or
+ * with a duplicate id are dropped, every column gets an explicit category and
+ * a WIP limit is kept only when it is a positive integer.
+ * Falls back to the default columns when nothing usable is configured.
+ */
+export function sanitizeColumns(raw: unknown): KanbanColumn[] {
+  if (!Array.isArray(raw)) return DEFAULT_COLUMNS
+
+  const seen = new Set<string>()
+  const columns: KanbanColumn[] = []
+
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue
+    const { id, name, color, category, wipLimit } = entry as Record<string, unknown>
+    if (typeof id !== 'string' || !id.trim() || seen.has(id.trim())) continue
+
+    const columnId = id.trim()
+    seen.add(columnId)
+    columns.push({
+      id: columnId,
+      name: typeof name === 'string' && name.trim() ? name : columnId,
+      color: typeof color === 'string' && color.trim() ? color : '#6b7280',
+      category: getColumnCategory({ id: columnId, category: category as StatusCategory | undefined }),
+      wipLimit: typeof wipLimit === 'number' && Number.isInteger(wipLimit) && wipLimit > 0 ? wipLimit : undefined
+    })
+  }
+
+  return columns.length > 0 ? columns : DEFAULT_COLUMNS
+}
+
+/** Category of a status; statuses without a matching column fall back to the built-in mapping. */
+export function getStatusCategory(status: FeatureStatus, columns: KanbanColumn[] = DEFAULT_COLUMNS): StatusCategory {
+  const column = columns.find(c => c.id === status)
+  return getColumnCategory(column ?? { id: status })
+}
+
+export function isDoneStatus(status: FeatureStatus, columns: KanbanColumn[] = DEFAULT_COLUMNS): boolean {
+  return getStatusCategory(status, columns) === 'done'
+}
+
+/** The column work moves into when someone starts on it: the first in-progress column. */
+export function getStartColumn(columns: KanbanColumn[]): KanbanColumn | undefined {
+  return columns.find(c => getColumnCategory(c) === 'active')
+}
+
+/** The column finished work lands in: the first done column. */
+export function getDoneColumn(columns: KanbanColumn[]): KanbanColumn | undefined {
+  return columns.find(c => getColumnCategory(c) === 'done')
+}
+
+/**
+ * The column finished work waits in before it is done: the last in-progress
+ * column (Review on the default board), or the first done column without one.
+ */
+export function getHandoffColumn(columns: KanbanColumn[]): KanbanColumn | undefined {
+  const active = columns.filter(c => getColumnCategory(c) === 'active')
+  return active[active.length - 1] ?? getDoneColumn(columns)
+}
+
+/**
+ * The `completedAt` value after a feature moves between statuses: stamped when it
+ * enters a done column, kept when moving between done columns, cleared otherwise.
+ */
+export function getCompletedAtAfterMove(
+  completedAt: string | null,
+  oldStatus: FeatureStatus,
+  newStatus: FeatureStatus,
+  columns: KanbanColumn[] = DEFAULT_COLUMNS,
+  now: string = new Date().toISOString()
+): string | null {
+  if (!isDoneStatus(newStatus, columns)) return null
+  if (isDoneStatus(oldStatus, columns) && completedAt) return completedAt
+  return now
+}
+
+/**
+ * The status history after a feature moves between statuses: a move into a
+ * different status appends a transition, anything else leaves it unchanged.
+ * Features from before history was recorded are assumed to have been in their
+ * old status since they were created.
+ */
+export function getStatusHistoryAfterMove(
+  feature: Pick<Feature, 'statusHistory' | 'created'>,
+  oldStatus: FeatureStatus,
+  newStatus: FeatureStatus,
+  now: string = new Date().toISOString()
+): StatusTransition[] {
+  const history = feature.statusHistory ?? []
+  if (oldStatus === newStatus) return history
+  const seed = history.length === 0 ? [{ status: oldStatus, at: feature.created }] : history
+  return [...seed, { status: newStatus, at: now }]
+}
+
+/**
+ * Whether adding `incoming` cards to a column holding `currentCount` would go
+ * over its WIP limit. Columns without a limit never overflow.
+ */
+export function exceedsWipLimit(column: KanbanColumn | undefined, currentCount: number, incoming = 1): boolean {
+  if (!column?.wipLimit) return false
+  return currentCount + incoming > column.wipLimit
+}
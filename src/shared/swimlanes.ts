@@ -0,0 +1,111 @@
+import type { CustomFieldDefinition, Feature, Priority, SwimlaneGroupBy, SwimlaneLane } from './types'
+import { formatCustomFieldValue, getCustomFieldValue, normalizeCustomFieldValue } from './customFields'
+
+const PRIORITIES: Priority[] = ['critical', 'high', 'medium', 'low']
+
+/** Stable id segment for the "none" lane (persisted collapse state). */
+export const NO_LANE_ID = '__none__'
+
+/** Persisted collapse key for a lane, scoped to its grouping so lanes of different groupings never clash. */
+export function swimlaneKey(lane: SwimlaneLane): string {
+  return `${lane.groupBy}::${lane.value ?? NO_LANE_ID}`
+}
+
+/** The label of a `label:<name>` grouping, or null for other groupings. */
+export function getGroupByLabel(groupBy: SwimlaneGroupBy): string | null {
+  return groupBy.startsWith('label:') ? groupBy.slice(6) : null
+}
+
+/** The custom field key of a `field:<key>` grouping, or null for other groupings. */
+export function getGroupByFieldKey(groupBy: SwimlaneGroupBy): string | null {
+  return groupBy.startsWith('field:') ? groupBy.slice(6) : null
+}
+
+/** The lane value a feature falls into for a grouping; null means the "none" lane. */
+export function getLaneValue(feature: Feature, groupBy: SwimlaneGroupBy): string | null {
+  const label = getGroupByLabel(groupBy)
+  if (label !== null) return feature.labels.includes(label) ? label : null
+
+  const fieldKey = getGroupByFieldKey(groupBy)
+  if (fieldKey !== null) return formatCustomFieldValue(getCustomFieldValue(feature, fieldKey)) || null
+
+  switch (groupBy) {
+    case 'epic': return feature.epic?.trim() || null
+    case 'assignee': return feature.assignee?.trim() || null
+    case 'priority': return feature.priority
+    default: return null
+  }
+}
+
+/** When `lane` is undefined, do not filter by lane. */
+export function featureMatchesLane(feature: Feature, lane: SwimlaneLane | undefined): boolean {
+  if (lane === undefined) return true
+  return getLaneValue(feature, lane.groupBy) === lane.value
+}
+
+/**
+ * Lane values to show for a grouping, in display order. Priorities and the
+ * options of an enum field are always listed so cards can be dragged into an
+ * empty lane; a label grouping always has its "with" and "without" lanes.
+ * Otherwise lanes come from the values in use, with the "none" lane last when
+ * any feature has no value.
+ */
+export function getSwimlaneValues(
+  features: Feature[],
+  groupBy: SwimlaneGroupBy,
+  customFieldDefs: CustomFieldDefinition[] = []
+): (string | null)[] {
+  const label = getGroupByLabel(groupBy)
+  if (label !== null) return [label, null]
+  if (groupBy === 'priority') return [...PRIORITIES]
+
+  const values = new Set<string>()
+  let hasNone = false
+  for (const feature of features) {
+    const value = getLaneValue(feature, groupBy)
+    if (value === null) hasNone = true
+    else values.add(value)
+  }
+
+  const fieldKey = getGroupByFieldKey(groupBy)
+  const definition = fieldKey !== null ? customFieldDefs.find(d => d.key === fieldKey) : undefined
+  const lanes: (string | null)[] = definition?.type === 'enum'
+    ? [...(definition.options ?? []), ...Array.from(values).filter(v => !definition.options?.includes(v)).sort()]
+    : Array.from(values).sort()
+  if (hasNone) lanes.push(null)
+  return lanes
+}
+
+/**
+ * Field changes that move a feature into `lane`, the same rewrite for every
+ * grouping: dropping into a lane sets the grouped field to the lane's value,
+ * and dropping into the "none" lane clears it. Returns an empty object when
+ * the feature is already in the lane.
+ */
+export function getLaneUpdates(
+  feature: Feature,
+  lane: SwimlaneLane,
+  customFieldDefs: CustomFieldDefinition[] = []
+): Partial<Feature> {
+  if (featureMatchesLane(feature, lane)) return {}
+
+  const label = getGroupByLabel(lane.groupBy)
+  if (label !== null) {
+    return { labels: lane.value === null ? feature.labels.filter(l => l !== label) : [...feature.labels, label] }
+  }
+
+  const fieldKey = getGroupByFieldKey(lane.groupBy)
+  if (fieldKey !== null) {
+    const definition = customFieldDefs.find(d => d.key === fieldKey)
+    const value = definition ? normalizeCustomFieldValue(definition, lane.value) : lane.value
+    return { customFields: { ...feature.customFields, [fieldKey]: value } }
+  }
+
+  switch (lane.groupBy) {
+    case 'epic': return { epic: lane.value }
+    case 'assignee': return { assignee: lane.value }
+    // Every card has a priority, so there is no "none" lane to clear it into
+    case 'priority': return lane.value ? { priority: lane.value as Priority } : {}
+    default: return {}
+  }
+}
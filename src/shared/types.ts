@@ -1,10 +1,16 @@
 // Kanban types
 
 export type Priority = 'critical' | 'high' | 'medium' | 'low'
-export type FeatureStatus = 'backlog' | 'todo' | 'in-progress' | 'review' | 'done'
+/** A column id from `kanban-markdown.columns` (the built-in ids are backlog, todo, in-progress, review, done). */
+export type FeatureStatus = string
+
+/** Workflow stage of a column: drives completedAt stamping, the `done/` folder and overdue display. */
+export type StatusCategory = 'todo' | 'active' | 'done'
 
 // AI agent types
-export type AIAgent = 'claude' | 'codex' | 'opencode' | 'copilot'
+export type BuiltInAIAgent = 'claude' | 'codex' | 'opencode' | 'copilot'
+/** An agent id: a built-in agent or the id of one from `kanban-markdown.customAgents`. */
+export type AIAgent = string
 export type AIPermissionMode = 'default' | 'plan' | 'acceptEdits' | 'bypassPermissions'
 
 export interface Feature {
@@ -19,8 +25,105 @@ export interface Feature {
   completedAt: string | null
   labels: string[]
   order: string
+  /** Ids of features that must be done before this one can start */
+  blockedBy?: string[]
+  /** Every status the feature has entered, oldest first */
+  statusHistory?: StatusTransition[]
+  /** The agent last launched on the feature with "Build with AI" */
+  aiSession?: AISession
+  /** Git branch the work happens on, created by "Start work" */
+  branch?: string
+  /** Short sequential key, e.g. `KM-42`; unlike the id it survives file renames */
+  key?: string
   content: string
   filePath: string
+  /** Values for user-defined fields (`kanban-markdown.customFields`), keyed by field key. */
+  customFields?: Record<string, CustomFieldValue>
+  /** Raw YAML frontmatter as read from disk, so writes keep unknown keys and comments. */
+  frontmatterSource?: string
+}
+
+/** Frontmatter keys owned by the extension, in the order they are written for new files. */
+export const FRONTMATTER_KEYS = [
+  'id',
+  'key',
+  'status',
+  'priority',
+  'assignee',
+  'epic',
+  'dueDate',
+  'created',
+  'modified',
+  'completedAt',
+  'labels',
+  'order',
+  'blockedBy',
+  'statusHistory',
+  'aiSession',
+  'branch'
+] as const
+
+/** One entry of a feature's status history: the status it entered and when. */
+export interface StatusTransition {
+  status: FeatureStatus
+  at: string
+}
+
+/** An agent launch recorded on a feature: which agent, in which permission mode, and when. */
+export interface AISession {
+  agent: AIAgent
+  permissionMode: AIPermissionMode
+  startedAt: string
+}
+
+/** How to start an agent from "Build with AI", built in or from `kanban-markdown.customAgents`. */
+export interface AgentDefinition {
+  id: AIAgent
+  name: string
+  command: string
+  /** Arguments after the permission mode's; `{{prompt}}` is replaced with the prompt */
+  args: string[]
+  /** Arguments for each permission mode the agent offers */
+  permissionModes: Partial<Record<AIPermissionMode, string[]>>
+}
+
+/** A local commit whose message mentions a card. */
+export interface CommitInfo {
+  hash: string
+  author: string
+  /** Author date, ISO 8601 */
+  date: string
+  subject: string
+}
+
+/** Card fields tracked in the per-feature activity log. */
+export type ActivityField = 'created' | 'status' | 'priority' | 'assignee' | 'epic' | 'label' | 'dueDate'
+
+/**
+ * One change to a card. `from` and `to` hold the old and new value; a label
+ * entry with only `to` set is an added label, with only `from` a removed one.
+ */
+export interface ActivityEntry {
+  at: string
+  /** Git user name (or OS user) that made the change */
+  by: string
+  field: ActivityField
+  from: string | null
+  to: string | null
+}
+
+export type CustomFieldType = 'string' | 'number' | 'enum' | 'date'
+export type CustomFieldValue = string | number | null
+
+/** A user-defined frontmatter field declared in `kanban-markdown.customFields`. */
+export interface CustomFieldDefinition {
+  key: string
+  label: string
+  type: CustomFieldType
+  /** Allowed values for `enum` fields */
+  options?: string[]
+  /** Show the value as a chip on board cards */
+  showOnCard: boolean
 }
 
 // Parse title from the first # heading in markdown content, falling back to the first line
@@ -34,11 +137,7 @@ export function getTitleFromContent(content: string): string {
 export type FilenamePattern = 'name-date' | 'date-name' | 'name-datetime' | 'datetime-name'
 
 // Generate a filename-safe slug from a title
-export function generateFeatureFilename(
-  title: string,
-  pattern: FilenamePattern = 'name-date',
-  date: Date = new Date()
-): string {
+export function slugifyTitle(title: string): string {
   const slug = title
     .toLowerCase()
     .replace(/[^a-z0-9\s-]/g, '') // Remove special characters
@@ -47,7 +146,15 @@ export function generateFeatureFilename(
     .replace(/^-|-$/g, '') // Trim hyphens from start/end
     .slice(0, 50) // Limit length
 
-  const safeSlug = slug || 'feature'
+  return slug || 'feature'
+}
+
+export function generateFeatureFilename(
+  title: string,
+  pattern: FilenamePattern = 'name-date',
+  date: Date = new Date()
+): string {
+  const safeSlug = slugifyTitle(title)
   const dateStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
   const timeStr = `${String(date.getHours()).padStart(2, '0')}${String(date.getMinutes()).padStart(2, '0')}${String(date.getSeconds()).padStart(2, '0')}`
 
@@ -64,14 +171,17 @@ export interface KanbanColumn {
   id: string
   name: string
   color: string
+  category?: StatusCategory
+  /** Maximum number of cards the column should hold */
+  wipLimit?: number
 }
 
 export const DEFAULT_COLUMNS: KanbanColumn[] = [
-  { id: 'backlog', name: 'Backlog', color: '#6b7280' },
-  { id: 'todo', name: 'To Do', color: '#3b82f6' },
-  { id: 'in-progress', name: 'In Progress', color: '#f59e0b' },
-  { id: 'review', name: 'Review', color: '#8b5cf6' },
-  { id: 'done', name: 'Done', color: '#22c55e' }
+  { id: 'backlog', name: 'Backlog', color: '#6b7280', category: 'todo' },
+  { id: 'todo', name: 'To Do', color: '#3b82f6', category: 'todo' },
+  { id: 'in-progress', name: 'In Progress', color: '#f59e0b', category: 'active' },
+  { id: 'review', name: 'Review', color: '#8b5cf6', category: 'active' },
+  { id: 'done', name: 'Done', color: '#22c55e', category: 'done' }
 ]
 
 export interface CardDisplaySettings {
@@ -90,21 +200,65 @@ export interface CardDisplaySettings {
 }
 
 // Messages between extension and webview
-export type BoardViewMode = 'standard' | 'epic'
+export type BoardViewMode = 'standard' | 'swimlanes' | 'calendar' | 'table' | 'metrics' | 'archive'
+
+/**
+ * What swim lanes group cards by: a built-in field, `label:<name>` for cards
+ * with or without one label, or `field:<key>` for a custom field.
+ */
+export type SwimlaneGroupBy = 'epic' | 'assignee' | 'priority' | `label:${string}` | `field:${string}`
+
+/** A single swim lane: cards whose grouped value is `value`. `null` is the "none" lane. */
+export interface SwimlaneLane {
+  groupBy: SwimlaneGroupBy
+  value: string | null
+}
 
-/** Stable id for the "no epic" swim lane (persisted collapse state). */
-export const NO_EPIC_LANE_ID = '__no_epic__'
+/** Columns of the table view, in display order. */
+export const TABLE_COLUMNS = [
+  'title',
+  'status',
+  'priority',
+  'assignee',
+  'epic',
+  'labels',
+  'dueDate',
+  'created',
+  'modified',
+  'completedAt'
+] as const
 
-export function epicLaneId(epic: string | null | undefined): string {
-  const t = epic?.trim()
-  return t ? t : NO_EPIC_LANE_ID
+export type TableColumnKey = (typeof TABLE_COLUMNS)[number]
+
+/**
+ * Changes the bulk action bar applies to every selected card. Omitted fields
+ * are left alone; `null` clears a field.
+ */
+export interface BulkFeatureUpdate {
+  status?: FeatureStatus
+  priority?: Priority
+  assignee?: string | null
+  epic?: string | null
+  dueDate?: string | null
+  addLabels?: string[]
+  removeLabels?: string[]
+}
+
+/** A workspace folder the board can show, identified by its URI string. */
+export interface WorkspaceFolderInfo {
+  uri: string
+  name: string
 }
 
 export type ExtensionMessage =
-  | { type: 'init'; features: Feature[]; columns: KanbanColumn[]; settings: CardDisplaySettings; collapsedColumns: string[]; boardViewMode: BoardViewMode; collapsedEpics: string[]; locale: string; translations: Record<string, string> }
+  | { type: 'init'; features: Feature[]; columns: KanbanColumn[]; settings: CardDisplaySettings; collapsedColumns: string[]; boardViewMode: BoardViewMode; swimlaneGroupBy: SwimlaneGroupBy; collapsedLanes: string[]; hiddenTableColumns: TableColumnKey[]; customFields: CustomFieldDefinition[]; workspaceFolders: WorkspaceFolderInfo[]; boardFolder: string | null; boards: string[]; board: string | null; agents: AgentDefinition[]; agentSessions: Record<string, AIAgent>; locale: string; translations: Record<string, string> }
   | { type: 'featuresUpdated'; features: Feature[] }
   | { type: 'triggerCreateDialog' }
   | { type: 'featureContent'; featureId: string; content: string; frontmatter: FeatureFrontmatter }
+  | { type: 'featureActivity'; featureId: string; activity: ActivityEntry[] }
+  | { type: 'featureCommits'; featureId: string; commits: CommitInfo[] }
+  | { type: 'archivedFeatures'; features: Feature[] }
+  | { type: 'agentSessions'; sessions: Record<string, AIAgent> }
 
 // Frontmatter for editing
 export interface FeatureFrontmatter {
@@ -119,12 +273,16 @@ export interface FeatureFrontmatter {
   completedAt: string | null
   labels: string[]
   order: string
+  blockedBy?: string[]
+  branch?: string
+  key?: string
+  customFields?: Record<string, CustomFieldValue>
 }
 
 export type WebviewMessage =
   | { type: 'ready' }
-  | { type: 'createFeature'; data: { status: FeatureStatus; priority: Priority; content: string; assignee: string | null; epic: string | null; dueDate: string | null; labels: string[] } }
-  | { type: 'moveFeature'; featureId: string; newStatus: string; newOrder: number }
+  | { type: 'createFeature'; data: { status: FeatureStatus; priority: Priority; content: string; assignee: string | null; epic: string | null; dueDate: string | null; labels: string[]; customFields: Record<string, CustomFieldValue> } }
+  | { type: 'moveFeature'; featureId: string; newStatus: string; newOrder: number; lane?: SwimlaneLane }
   | { type: 'deleteFeature'; featureId: string }
   | { type: 'updateFeature'; featureId: string; updates: Partial<Feature> }
   | { type: 'openFeature'; featureId: string }
@@ -134,8 +292,24 @@ export type WebviewMessage =
   | { type: 'openSettings' }
   | { type: 'toggleColumnCollapsed'; columnId: string }
   | { type: 'setBoardViewMode'; mode: BoardViewMode }
-  | { type: 'toggleEpicCollapsed'; epicKey: string }
-  | { type: 'moveAllCards'; sourceColumnId: string; targetColumnId: string; epicLane?: string | null }
+  | { type: 'setSwimlaneGroupBy'; groupBy: SwimlaneGroupBy }
+  | { type: 'toggleLaneCollapsed'; laneKey: string }
+  | { type: 'setHiddenTableColumns'; columns: TableColumnKey[] }
+  | { type: 'moveAllCards'; sourceColumnId: string; targetColumnId: string; lane?: SwimlaneLane }
   | { type: 'archiveAllCards'; sourceColumnId: string }
+  | { type: 'bulkUpdateFeatures'; featureIds: string[]; updates: BulkFeatureUpdate }
+  | { type: 'bulkArchiveFeatures'; featureIds: string[] }
+  | { type: 'bulkDeleteFeatures'; featureIds: string[] }
+  | { type: 'archiveFeature'; featureId: string }
+  | { type: 'requestArchivedFeatures' }
+  | { type: 'restoreArchivedFeatures'; featureIds: string[] }
+  | { type: 'purgeArchivedFeatures'; featureIds: string[] }
   | { type: 'renameLabel'; oldName: string; newName: string }
   | { type: 'deleteLabel'; labelName: string }
+  | { type: 'setBoardFolder'; folder: string }
+  | { type: 'switchBoard'; board: string }
+  | { type: 'focusAgentTerminal'; featureId: string }
+  | { type: 'startWork'; featureId: string }
+  | { type: 'openCommit'; hash: string }
+  | { type: 'undo' }
+  | { type: 'redo' }
@@ -2,13 +2,19 @@ import { useEffect, useState, useRef, useCallback } from 'react'
 import { generateKeyBetween } from 'fractional-indexing'
 import { useStore } from './store'
 import { KanbanBoard } from './components/KanbanBoard'
-import { KanbanEpicBoard } from './components/KanbanEpicBoard'
+import { KanbanSwimlaneBoard } from './components/KanbanSwimlaneBoard'
+import { CalendarView } from './components/CalendarView'
+import { TableView } from './components/TableView'
+import { MetricsView } from './components/MetricsView'
+import { ArchiveView } from './components/ArchiveView'
 import { CreateFeatureDialog } from './components/CreateFeatureDialog'
 import { FeatureEditor } from './components/FeatureEditor'
 import { Toolbar } from './components/Toolbar'
 import { UndoToast } from './components/UndoToast'
-import type { Feature, FeatureStatus, Priority, ExtensionMessage, FeatureFrontmatter, AIAgent, AIPermissionMode, BoardViewMode } from '../shared/types'
+import { BulkActionBar } from './components/BulkActionBar'
+import type { ActivityEntry, CommitInfo, Feature, FeatureStatus, Priority, ExtensionMessage, FeatureFrontmatter, AIAgent, AIPermissionMode, BoardViewMode, CustomFieldValue, SwimlaneLane } from '../shared/types'
 import { getTitleFromContent } from '../shared/types'
+import { featureMatchesLane, getLaneUpdates } from '../shared/swimlanes'
 import { vscode } from './vscodeApi'
 import { initLocale, t } from './lib/i18n'
 
@@ -18,11 +24,20 @@ function App(): React.JSX.Element {
     columns,
     cardSettings,
     setFeatures,
+    setArchivedFeatures,
+    setWorkspaceFolders,
+    setBoards,
+    setAgents,
+    setAgentSessions,
+    updateFeature,
     setColumns,
     setIsDarkMode,
     setCardSettings,
     setCollapsedColumns,
-    setCollapsedEpics,
+    setSwimlaneGroupBy,
+    setCollapsedLanes,
+    setHiddenTableColumns,
+    setCustomFieldDefs,
     boardViewMode,
     setBoardViewMode,
     setLocale
@@ -39,6 +54,8 @@ function App(): React.JSX.Element {
     frontmatter: FeatureFrontmatter
     contentVersion: number
   } | null>(null)
+  const [editingActivity, setEditingActivity] = useState<{ featureId: string; activity: ActivityEntry[] } | null>(null)
+  const [editingCommits, setEditingCommits] = useState<{ featureId: string; commits: CommitInfo[] } | null>(null)
   const editingFeatureRef = useRef(editingFeature)
   useEffect(() => {
     editingFeatureRef.current = editingFeature
@@ -129,13 +146,23 @@ function App(): React.JSX.Element {
         return
       }
 
+      // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) undo and redo board changes in the extension
+      if ((e.ctrlKey || e.metaKey) && !e.altKey) {
+        const key = e.key.toLowerCase()
+        if (key === 'z' || key === 'y') {
+          e.preventDefault()
+          vscode.postMessage({ type: key === 'y' || e.shiftKey ? 'redo' : 'undo' })
+          return
+        }
+      }
+
       switch (e.key) {
         case 'n':
           if (e.ctrlKey || e.metaKey || e.altKey || e.shiftKey) {
             return
           }
           e.preventDefault()
-          setCreateFeatureStatus('backlog')
+          setCreateFeatureStatus(useStore.getState().cardSettings.defaultStatus)
           setCreateFeatureOpen(true)
           break
         case 'Escape':
@@ -211,8 +238,21 @@ function App(): React.JSX.Element {
           }
           setFeatures(message.features)
           setColumns(message.columns)
+          setWorkspaceFolders(message.workspaceFolders ?? [], message.boardFolder ?? null)
+          setBoards(message.boards ?? [], message.board ?? null)
+          if (message.agents) setAgents(message.agents)
+          setAgentSessions(message.agentSessions ?? {})
+          // Lets the panel reopen on the same board after a reload
+          vscode.setState({ board: message.board ?? null })
+          // The open card is gone after switching to another folder's board
+          if (editingFeatureRef.current && !message.features.some(f => f.id === editingFeatureRef.current?.id)) {
+            setEditingFeature(null)
+          }
           setCollapsedColumns(message.collapsedColumns ?? [])
-          setCollapsedEpics(message.collapsedEpics ?? [])
+          setSwimlaneGroupBy(message.swimlaneGroupBy ?? 'epic')
+          setCollapsedLanes(message.collapsedLanes ?? [])
+          setHiddenTableColumns(message.hiddenTableColumns ?? [])
+          setCustomFieldDefs(message.customFields ?? [])
           setBoardViewMode((message.boardViewMode ?? 'standard') as BoardViewMode)
           if (message.settings) {
             if (message.settings.markdownEditorMode && editingFeatureRef.current) {
@@ -225,7 +265,7 @@ function App(): React.JSX.Element {
           setFeatures(message.features)
           break
         case 'triggerCreateDialog':
-          setCreateFeatureStatus('backlog')
+          setCreateFeatureStatus(useStore.getState().cardSettings.defaultStatus)
           setCreateFeatureOpen(true)
           break
         case 'featureContent': {
@@ -240,6 +280,18 @@ function App(): React.JSX.Element {
           })
           break
         }
+        case 'featureActivity':
+          setEditingActivity({ featureId: message.featureId, activity: message.activity })
+          break
+        case 'featureCommits':
+          setEditingCommits({ featureId: message.featureId, commits: message.commits })
+          break
+        case 'archivedFeatures':
+          setArchivedFeatures(message.features)
+          break
+        case 'agentSessions':
+          setAgentSessions(message.sessions)
+          break
       }
     }
 
@@ -249,7 +301,7 @@ function App(): React.JSX.Element {
     vscode.postMessage({ type: 'ready' })
 
     return () => window.removeEventListener('message', handleMessage)
-  }, [setFeatures, setColumns, setCardSettings, setCollapsedColumns, setCollapsedEpics, setBoardViewMode, setLocale])
+  }, [setFeatures, setArchivedFeatures, setWorkspaceFolders, setBoards, setAgents, setAgentSessions, setColumns, setCardSettings, setCollapsedColumns, setSwimlaneGroupBy, setCollapsedLanes, setHiddenTableColumns, setCustomFieldDefs, setBoardViewMode, setLocale])
 
   const handleFeatureClick = (feature: Feature): void => {
     // Request feature content for inline editing
@@ -279,6 +331,15 @@ function App(): React.JSX.Element {
     handleDeleteFeatureFromCard(editingFeature.id)
   }
 
+  const handleArchiveFeature = (): void => {
+    if (!editingFeature) return
+    const featureId = editingFeature.id
+    // Optimistic; the extension answers with the board and archive after the move
+    setFeatures(useStore.getState().features.filter(f => f.id !== featureId))
+    handleCloseEditor()
+    vscode.postMessage({ type: 'archiveFeature', featureId })
+  }
+
   const handleOpenFile = (): void => {
     if (!editingFeature) return
     vscode.postMessage({ type: 'openFile', featureId: editingFeature.id })
@@ -288,6 +349,15 @@ function App(): React.JSX.Element {
     vscode.postMessage({ type: 'startWithAI', agent, permissionMode })
   }
 
+  const handleStartWork = (): void => {
+    if (!editingFeature) return
+    vscode.postMessage({ type: 'startWork', featureId: editingFeature.id })
+  }
+
+  const handleOpenCommit = (hash: string): void => {
+    vscode.postMessage({ type: 'openCommit', hash })
+  }
+
   const handleAddFeatureInColumn = (status: string): void => {
     setCreateFeatureStatus(status as FeatureStatus)
     setCreateFeatureOpen(true)
@@ -301,6 +371,7 @@ function App(): React.JSX.Element {
     epic: string | null
     dueDate: string | null
     labels: string[]
+    customFields: Record<string, CustomFieldValue>
   }): void => {
     vscode.postMessage({
       type: 'createFeature',
@@ -311,15 +382,16 @@ function App(): React.JSX.Element {
   const handleMoveFeature = (
     featureId: string,
     newStatus: string,
-    newOrder: number
+    newOrder: number,
+    lane?: SwimlaneLane
   ): void => {
     // Optimistic update: compute fractional index locally before server confirms
-    const { features } = useStore.getState()
+    const { features, customFieldDefs } = useStore.getState()
     const feature = features.find(f => f.id === featureId)
     if (feature) {
-      // Get sorted target column features (excluding the moved feature)
+      // Get sorted target column features (excluding the moved feature), within the lane if any
       const targetColumn = features
-        .filter(f => f.status === newStatus && f.id !== featureId)
+        .filter(f => f.status === newStatus && f.id !== featureId && featureMatchesLane(f, lane))
         .sort((a, b) => (a.order < b.order ? -1 : a.order > b.order ? 1 : 0))
 
       const clampedOrder = Math.max(0, Math.min(newOrder, targetColumn.length))
@@ -329,7 +401,7 @@ function App(): React.JSX.Element {
 
       const updated = features.map(f =>
         f.id === featureId
-          ? { ...f, status: newStatus as FeatureStatus, order: newOrderKey }
+          ? { ...f, ...(lane ? getLaneUpdates(f, lane, customFieldDefs) : {}), status: newStatus as FeatureStatus, order: newOrderKey }
           : f
       )
       setFeatures(updated)
@@ -340,7 +412,18 @@ function App(): React.JSX.Element {
       type: 'moveFeature',
       featureId,
       newStatus,
-      newOrder
+      newOrder,
+      lane
+    })
+  }
+
+  const handleUpdateFeature = (featureId: string, updates: Partial<Feature>): void => {
+    // Optimistic update so calendar and table edits show immediately
+    updateFeature(featureId, updates)
+    vscode.postMessage({
+      type: 'updateFeature',
+      featureId,
+      updates
     })
   }
 
@@ -365,8 +448,22 @@ function App(): React.JSX.Element {
       />
       <div className="flex-1 flex overflow-hidden">
         <div className={editingFeature ? 'w-1/2' : 'w-full'}>
-          {boardViewMode === 'epic' ? (
-            <KanbanEpicBoard
+          {boardViewMode === 'calendar' ? (
+            <CalendarView
+              onFeatureClick={handleFeatureClick}
+              onRescheduleFeature={(featureId, dueDate) => handleUpdateFeature(featureId, { dueDate })}
+            />
+          ) : boardViewMode === 'table' ? (
+            <TableView
+              onFeatureClick={handleFeatureClick}
+              onUpdateFeature={handleUpdateFeature}
+            />
+          ) : boardViewMode === 'metrics' ? (
+            <MetricsView onFeatureClick={handleFeatureClick} />
+          ) : boardViewMode === 'archive' ? (
+            <ArchiveView />
+          ) : boardViewMode === 'swimlanes' ? (
+            <KanbanSwimlaneBoard
               onFeatureClick={handleFeatureClick}
               onAddFeature={handleAddFeatureInColumn}
               onMoveFeature={handleMoveFeature}
@@ -386,11 +483,16 @@ function App(): React.JSX.Element {
               content={editingFeature.content}
               frontmatter={editingFeature.frontmatter}
               contentVersion={editingFeature.contentVersion}
+              activity={editingActivity?.featureId === editingFeature.id ? editingActivity.activity : []}
+              commits={editingCommits?.featureId === editingFeature.id ? editingCommits.commits : []}
               onSave={handleSaveFeature}
               onClose={handleCloseEditor}
               onDelete={handleDeleteFeature}
+              onArchive={handleArchiveFeature}
               onOpenFile={handleOpenFile}
               onStartWithAI={handleStartWithAI}
+              onStartWork={handleStartWork}
+              onOpenCommit={handleOpenCommit}
             />
           </div>
         )}
@@ -403,6 +505,8 @@ function App(): React.JSX.Element {
         initialStatus={createFeatureStatus}
       />
 
+      {(boardViewMode === 'standard' || boardViewMode === 'swimlanes') && <BulkActionBar />}
+
       {pendingDeletes.map((entry, i) => (
         <UndoToast
           key={entry.id}
@@ -0,0 +1,94 @@
+import { History } from 'lucide-react'
+import type { ActivityEntry, ActivityField } from '../../shared/types'
+import { useStore } from '../store'
+import { t } from '../lib/i18n'
+
+interface ActivityTimelineProps {
+  activity: ActivityEntry[]
+}
+
+function getFieldLabel(field: ActivityField): string {
+  switch (field) {
+    case 'status': return t('property.status')
+    case 'priority': return t('property.priority')
+    case 'assignee': return t('property.assignee')
+    case 'epic': return t('property.epic')
+    case 'dueDate': return t('property.dueDate')
+    default: return t('property.labels')
+  }
+}
+
+export function ActivityTimeline({ activity }: ActivityTimelineProps) {
+  const columns = useStore((s) => s.columns)
+  const locale = useStore((s) => s.locale)
+
+  const formatValue = (field: ActivityField, value: string): string => {
+    switch (field) {
+      case 'created':
+      case 'status':
+        return columns.find((c) => c.id === value)?.name ?? value
+      case 'priority':
+        return t(`priority.${value}`)
+      case 'dueDate':
+        return new Date(`${value.slice(0, 10)}T00:00:00`).toLocaleDateString(locale, { year: 'numeric', month: 'short', day: 'numeric' })
+      default:
+        return value
+    }
+  }
+
+  const describe = ({ by, field, from, to }: ActivityEntry): string => {
+    const args = {
+      by,
+      field: getFieldLabel(field),
+      from: from === null ? '' : formatValue(field, from),
+      to: to === null ? '' : formatValue(field, to)
+    }
+    if (field === 'created') return t('activity.created', args)
+    if (field === 'label') return t(to !== null ? 'activity.labelAdded' : 'activity.labelRemoved', args)
+    if (field === 'status') return t('activity.moved', args)
+    if (from === null) return t('activity.set', args)
+    if (to === null) return t('activity.cleared', args)
+    return t('activity.changed', args)
+  }
+
+  // Newest first
+  const entries = [...activity].reverse()
+
+  return (
+    <section className="px-4 py-3" style={{ borderTop: '1px solid var(--vscode-panel-border)' }}>
+      <h3
+        className="flex items-center gap-2 mb-2 text-[11px] font-medium"
+        style={{ color: 'var(--vscode-descriptionForeground)' }}
+      >
+        <History size={13} />
+        {t('activity.title')}
+      </h3>
+      {entries.length === 0 ? (
+        <p className="text-xs" style={{ color: 'var(--vscode-descriptionForeground)' }}>
+          {t('activity.empty')}
+        </p>
+      ) : (
+        <ol className="space-y-1.5">
+          {entries.map((entry, i) => (
+            <li key={i} className="flex gap-2 text-xs">
+              <span
+                className="mt-1.5 w-1.5 h-1.5 rounded-full shrink-0"
+                style={{ background: 'var(--vscode-descriptionForeground)' }}
+              />
+              <div className="min-w-0">
+                <div style={{ color: 'var(--vscode-foreground)' }}>{describe(entry)}</div>
+                <time
+                  dateTime={entry.at}
+                  className="text-[10px]"
+                  style={{ color: 'var(--vscode-descriptionForeground)' }}
+                >
+                  {new Date(entry.at).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' })}
+                </time>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  )
+}
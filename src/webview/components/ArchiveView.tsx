@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react'
+import { ArchiveRestore, Trash2 } from 'lucide-react'
+import type { Feature } from '../../shared/types'
+import { getTitleFromContent } from '../../shared/types'
+import { sortArchivedFeatures } from '../../shared/archive'
+import { useStore } from '../store'
+import { vscode } from '../vscodeApi'
+import { cn } from '../lib/utils'
+import { t } from '../lib/i18n'
+
+const actionClassName =
+  'flex items-center gap-1 px-2 py-1 rounded text-zinc-600 hover:bg-zinc-100 dark:text-zinc-300 dark:hover:bg-zinc-800'
+
+/**
+ * Cards in the archived/ folder, filtered by the toolbar search and filters.
+ * Cards can be restored to the board or permanently deleted; the extension
+ * confirms deletes and sends back the updated archive.
+ */
+export function ArchiveView() {
+  const archivedFeatures = useStore((s) => s.archivedFeatures)
+  const getFilteredFeatures = useStore((s) => s.getFilteredFeatures)
+  const columns = useStore((s) => s.columns)
+  const locale = useStore((s) => s.locale)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    vscode.postMessage({ type: 'requestArchivedFeatures' })
+  }, [])
+
+  const rows = sortArchivedFeatures(getFilteredFeatures(archivedFeatures))
+  const visibleIds = rows.map((f) => f.id)
+  const selectedVisible = visibleIds.filter((id) => selectedIds.has(id))
+  const allSelected = rows.length > 0 && selectedVisible.length === rows.length
+
+  const toggleSelected = (featureId: string) => {
+    const next = new Set(selectedIds)
+    if (next.has(featureId)) {
+      next.delete(featureId)
+    } else {
+      next.add(featureId)
+    }
+    setSelectedIds(next)
+  }
+
+  const restore = (featureIds: string[]) => {
+    vscode.postMessage({ type: 'restoreArchivedFeatures', featureIds })
+    setSelectedIds(new Set())
+  }
+
+  // The extension asks for confirmation, so keep the selection in case it is declined
+  const purge = (featureIds: string[]) => {
+    vscode.postMessage({ type: 'purgeArchivedFeatures', featureIds })
+  }
+
+  const getColumnName = (feature: Feature) =>
+    columns.find((c) => c.id === feature.status)?.name ?? feature.status
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString(locale, { year: 'numeric', month: 'short', day: 'numeric' })
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 text-xs border-b border-zinc-200 dark:border-zinc-700">
+        <span className="text-zinc-500 dark:text-zinc-400">
+          {selectedVisible.length > 0
+            ? t('table.selected', { count: selectedVisible.length })
+            : t('archive.count', { count: rows.length })}
+        </span>
+        {selectedVisible.length > 0 && (
+          <>
+            <button type="button" onClick={() => restore(selectedVisible)} className={actionClassName}>
+              <ArchiveRestore size={12} />
+              <span>{t('archive.restore')}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => purge(selectedVisible)}
+              className={cn(actionClassName, 'text-red-600 dark:text-red-400')}
+            >
+              <Trash2 size={12} />
+              <span>{t('archive.purge')}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setSelectedIds(new Set())}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {t('table.clearSelection')}
+            </button>
+          </>
+        )}
+        <span className="ml-auto text-zinc-400 dark:text-zinc-500">{t('archive.hint')}</span>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        <table className="w-full text-xs border-collapse">
+          <thead className="sticky top-0 z-[1] bg-zinc-50 dark:bg-zinc-900">
+            <tr className="text-left text-zinc-600 dark:text-zinc-300">
+              <th className="w-8 px-2 py-1.5 border-b border-zinc-200 dark:border-zinc-700">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelectedIds(allSelected ? new Set() : new Set(visibleIds))}
+                  aria-label={t('table.selectAll')}
+                />
+              </th>
+              <th className="px-2 py-1.5 font-medium border-b border-zinc-200 dark:border-zinc-700 min-w-[240px]">{t('table.title')}</th>
+              <th className="px-2 py-1.5 font-medium border-b border-zinc-200 dark:border-zinc-700">{t('property.status')}</th>
+              <th className="px-2 py-1.5 font-medium border-b border-zinc-200 dark:border-zinc-700">{t('property.priority')}</th>
+              <th className="px-2 py-1.5 font-medium border-b border-zinc-200 dark:border-zinc-700">{t('property.labels')}</th>
+              <th className="px-2 py-1.5 font-medium border-b border-zinc-200 dark:border-zinc-700">{t('table.modified')}</th>
+              <th className="px-2 py-1.5 border-b border-zinc-200 dark:border-zinc-700" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((feature) => {
+              const title = getTitleFromContent(feature.content)
+              return (
+                <tr
+                  key={feature.filePath}
+                  className={cn(
+                    'border-b border-zinc-100 dark:border-zinc-800',
+                    selectedIds.has(feature.id)
+                      ? 'bg-blue-50 dark:bg-blue-950/30'
+                      : 'hover:bg-zinc-50 dark:hover:bg-zinc-800/50'
+                  )}
+                >
+                  <td className="px-2 py-1">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(feature.id)}
+                      onChange={() => toggleSelected(feature.id)}
+                      aria-label={title}
+                    />
+                  </td>
+                  <td className="px-2 py-1 max-w-[320px]">
+                    <button
+                      type="button"
+                      onClick={() => vscode.postMessage({ type: 'openFile', featureId: feature.id })}
+                      title={t('editor.openMdFile')}
+                      className="w-full text-left truncate font-medium text-zinc-900 dark:text-zinc-100 hover:underline"
+                    >
+                      {title}
+                    </button>
+                  </td>
+                  <td className="px-2 py-1 whitespace-nowrap text-zinc-700 dark:text-zinc-300">{getColumnName(feature)}</td>
+                  <td className="px-2 py-1 whitespace-nowrap text-zinc-700 dark:text-zinc-300">{t(`priority.${feature.priority}`)}</td>
+                  <td className="px-2 py-1 max-w-[200px] truncate text-zinc-700 dark:text-zinc-300">{feature.labels.join(', ')}</td>
+                  <td className="px-2 py-1 whitespace-nowrap text-zinc-500 dark:text-zinc-400">{formatDate(feature.modified)}</td>
+                  <td className="px-2 py-1">
+                    <div className="flex items-center justify-end gap-1">
+                      <button
+                        type="button"
+                        onClick={() => restore([feature.id])}
+                        title={t('archive.restore')}
+                        aria-label={t('archive.restore')}
+                        className="p-1 rounded text-zinc-500 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-700"
+                      >
+                        <ArchiveRestore size={13} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => purge([feature.id])}
+                        title={t('archive.purge')}
+                        aria-label={t('archive.purge')}
+                        className="p-1 rounded text-zinc-500 hover:text-red-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-700"
+                      >
+                        <Trash2 size={13} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <div className="py-8 text-center text-sm text-zinc-400 dark:text-zinc-500">
+            {archivedFeatures.length === 0 ? t('archive.empty') : t('table.empty')}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react'
+import { Archive, Calendar, Layers, Tag, Trash2, User, X } from 'lucide-react'
+import type { BulkFeatureUpdate, Priority } from '../../shared/types'
+import { getBulkFieldUpdates } from '../../shared/bulkEdit'
+import { useStore } from '../store'
+import { vscode } from '../vscodeApi'
+import { t } from '../lib/i18n'
+
+const priorities: Priority[] = ['critical', 'high', 'medium', 'low']
+
+const selectClassName =
+  'text-xs bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500 text-zinc-900 dark:text-zinc-100'
+
+const buttonClassName =
+  'flex items-center gap-1 px-2 py-1 text-xs rounded-md text-zinc-700 dark:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-700'
+
+// Button that turns into a text input; Enter applies the value, Escape or blur cancels
+function BulkTextAction({
+  icon,
+  label,
+  suggestions,
+  onApply
+}: {
+  icon: React.ReactNode
+  label: string
+  suggestions: string[]
+  onApply: (value: string) => void
+}) {
+  const [editing, setEditing] = useState(false)
+  const [value, setValue] = useState('')
+  const listId = `bulk-${label}`
+
+  if (!editing) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setValue('')
+          setEditing(true)
+        }}
+        className={buttonClassName}
+      >
+        {icon}
+        <span>{label}</span>
+      </button>
+    )
+  }
+
+  return (
+    <>
+      <input
+        type="text"
+        autoFocus
+        list={listId}
+        value={value}
+        aria-label={label}
+        placeholder={label}
+        title={t('bulk.textHint')}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={() => setEditing(false)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            onApply(value.trim())
+            setEditing(false)
+          }
+          if (e.key === 'Escape') setEditing(false)
+        }}
+        className={`${selectClassName} w-32`}
+      />
+      <datalist id={listId}>
+        {suggestions.map((s) => <option key={s} value={s} />)}
+      </datalist>
+    </>
+  )
+}
+
+/**
+ * Floating bar shown while cards are selected on the board. Every action
+ * applies to all selected cards and is sent to the extension as one message.
+ */
+export function BulkActionBar() {
+  const features = useStore((s) => s.features)
+  const columns = useStore((s) => s.columns)
+  const selectedFeatureIds = useStore((s) => s.selectedFeatureIds)
+  const clearFeatureSelection = useStore((s) => s.clearFeatureSelection)
+  const updateFeature = useStore((s) => s.updateFeature)
+  const getUniqueAssignees = useStore((s) => s.getUniqueAssignees)
+  const getUniqueEpics = useStore((s) => s.getUniqueEpics)
+  const getUniqueLabels = useStore((s) => s.getUniqueLabels)
+
+  const selected = features.filter((f) => selectedFeatureIds.has(f.id))
+  const featureIds = selected.map((f) => f.id)
+  const selectedLabels = Array.from(new Set(selected.flatMap((f) => f.labels))).sort()
+
+  useEffect(() => {
+    if (featureIds.length === 0) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const inField = e.target instanceof Element && e.target.closest('input, select, textarea')
+      if (e.key === 'Escape' && !inField) clearFeatureSelection()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [featureIds.length, clearFeatureSelection])
+
+  if (featureIds.length === 0) return null
+
+  const applyUpdate = (updates: BulkFeatureUpdate) => {
+    // Optimistic; the extension answers with the saved board (new orders, or a refused move)
+    for (const feature of selected) {
+      const changes = getBulkFieldUpdates(feature, updates)
+      if (updates.status !== undefined) changes.status = updates.status
+      updateFeature(feature.id, changes)
+    }
+    vscode.postMessage({ type: 'bulkUpdateFeatures', featureIds, updates })
+  }
+
+  return (
+    <div
+      role="toolbar"
+      aria-label={t('table.selected', { count: featureIds.length })}
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-30 flex flex-wrap items-center gap-1.5 max-w-[95vw] px-3 py-2 rounded-lg shadow-xl bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700"
+    >
+      <span className="px-1 text-xs font-medium text-zinc-900 dark:text-zinc-100 whitespace-nowrap">
+        {t('table.selected', { count: featureIds.length })}
+      </span>
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && applyUpdate({ status: e.target.value })}
+        aria-label={t('bulk.moveTo')}
+        className={selectClassName}
+      >
+        <option value="">{t('bulk.moveTo')}</option>
+        {columns.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+      </select>
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && applyUpdate({ priority: e.target.value as Priority })}
+        aria-label={t('bulk.setPriority')}
+        className={selectClassName}
+      >
+        <option value="">{t('bulk.setPriority')}</option>
+        {priorities.map((p) => <option key={p} value={p}>{t(`priority.${p}`)}</option>)}
+      </select>
+
+      <BulkTextAction
+        icon={<User size={12} />}
+        label={t('property.assignee')}
+        suggestions={getUniqueAssignees()}
+        onApply={(value) => applyUpdate({ assignee: value || null })}
+      />
+      <BulkTextAction
+        icon={<Layers size={12} />}
+        label={t('property.epic')}
+        suggestions={getUniqueEpics()}
+        onApply={(value) => applyUpdate({ epic: value || null })}
+      />
+      <BulkTextAction
+        icon={<Tag size={12} />}
+        label={t('bulk.addLabel')}
+        suggestions={getUniqueLabels()}
+        onApply={(value) => value && applyUpdate({ addLabels: [value] })}
+      />
+
+      {selectedLabels.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && applyUpdate({ removeLabels: [e.target.value] })}
+          aria-label={t('bulk.removeLabel')}
+          className={selectClassName}
+        >
+          <option value="">{t('bulk.removeLabel')}</option>
+          {selectedLabels.map((l) => <option key={l} value={l}>{l}</option>)}
+        </select>
+      )}
+
+      <label className={buttonClassName}>
+        <Calendar size={12} />
+        <span className="sr-only">{t('property.dueDate')}</span>
+        <input
+          type="date"
+          value=""
+          onChange={(e) => e.target.value && applyUpdate({ dueDate: e.target.value })}
+          aria-label={t('property.dueDate')}
+          className="bg-transparent border-none outline-none text-xs"
+        />
+      </label>
+
+      <span className="w-px h-5 bg-zinc-200 dark:bg-zinc-700" />
+
+      <button
+        type="button"
+        onClick={() => vscode.postMessage({ type: 'bulkArchiveFeatures', featureIds })}
+        className={buttonClassName}
+      >
+        <Archive size={12} />
+        <span>{t('bulk.archive')}</span>
+      </button>
+      <button
+        type="button"
+        onClick={() => vscode.postMessage({ type: 'bulkDeleteFeatures', featureIds })}
+        className={`${buttonClassName} text-red-600 dark:text-red-400`}
+      >
+        <Trash2 size={12} />
+        <span>{t('bulk.delete')}</span>
+      </button>
+      <button
+        type="button"
+        onClick={clearFeatureSelection}
+        title={t('table.clearSelection')}
+        aria-label={t('table.clearSelection')}
+        className="p-1 rounded-md text-zinc-500 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-700"
+      >
+        <X size={14} />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,245 @@
+import { useState, useCallback } from 'react'
+import { ChevronLeft, ChevronRight, CalendarX } from 'lucide-react'
+import type { Feature, Priority } from '../../shared/types'
+import { getTitleFromContent } from '../../shared/types'
+import { isDoneStatus } from '../../shared/statuses'
+import { useStore } from '../store'
+import { cn } from '../lib/utils'
+import { t } from '../lib/i18n'
+import {
+  getCalendarDays,
+  getDueDateKey,
+  getMonthNames,
+  getWeekdayNames,
+  shiftAnchor,
+  toDateKey,
+  type CalendarMode
+} from '../lib/calendar'
+
+interface CalendarViewProps {
+  onFeatureClick: (feature: Feature) => void
+  /** Called with the new `YYYY-MM-DD` due date, or null when dropped on the undated tray */
+  onRescheduleFeature: (featureId: string, dueDate: string | null) => void
+}
+
+const priorityBorders: Record<Priority, string> = {
+  critical: 'border-l-red-500',
+  high: 'border-l-orange-500',
+  medium: 'border-l-yellow-500',
+  low: 'border-l-green-500'
+}
+
+// Drop target id for the undated tray
+const TRAY = 'tray'
+
+export function CalendarView({ onFeatureClick, onRescheduleFeature }: CalendarViewProps) {
+  const getFilteredFeatures = useStore((s) => s.getFilteredFeatures)
+  const columns = useStore((s) => s.columns)
+  const locale = useStore((s) => s.locale)
+  const [mode, setMode] = useState<CalendarMode>('month')
+  const [anchor, setAnchor] = useState(() => new Date())
+  const [draggedFeature, setDraggedFeature] = useState<Feature | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  const features = getFilteredFeatures()
+  const days = getCalendarDays(anchor, mode)
+  const todayKey = toDateKey(new Date())
+
+  const byDay = new Map<string, Feature[]>()
+  const undated: Feature[] = []
+  for (const feature of features) {
+    const key = getDueDateKey(feature.dueDate)
+    if (!key) {
+      undated.push(feature)
+      continue
+    }
+    const list = byDay.get(key) ?? []
+    list.push(feature)
+    byDay.set(key, list)
+  }
+
+  const formatDay = (d: Date) => d.toLocaleDateString(locale, { month: 'short', day: 'numeric' })
+  const title = mode === 'month'
+    ? `${getMonthNames()[anchor.getMonth()]} ${anchor.getFullYear()}`
+    : `${formatDay(days[0])} – ${formatDay(days[days.length - 1])}, ${days[days.length - 1].getFullYear()}`
+
+  const handleDragStart = useCallback((e: React.DragEvent, feature: Feature) => {
+    setDraggedFeature(feature)
+    e.dataTransfer.effectAllowed = 'move'
+    e.dataTransfer.setData('text/plain', feature.id)
+  }, [])
+
+  const handleDragOver = useCallback((e: React.DragEvent, target: string) => {
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'move'
+    setDropTarget(target)
+  }, [])
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent, target: string) => {
+      e.preventDefault()
+      if (draggedFeature) {
+        const dueDate = target === TRAY ? null : target
+        if (dueDate !== getDueDateKey(draggedFeature.dueDate)) {
+          onRescheduleFeature(draggedFeature.id, dueDate)
+        }
+      }
+      setDraggedFeature(null)
+      setDropTarget(null)
+    },
+    [draggedFeature, onRescheduleFeature]
+  )
+
+  const handleDragEnd = useCallback(() => {
+    setDraggedFeature(null)
+    setDropTarget(null)
+  }, [])
+
+  const renderChip = (feature: Feature) => {
+    const done = isDoneStatus(feature.status, columns)
+    const dueKey = getDueDateKey(feature.dueDate)
+    const overdue = !done && dueKey !== null && dueKey < todayKey
+    return (
+      <div
+        key={feature.id}
+        draggable
+        onDragStart={(e) => handleDragStart(e, feature)}
+        onDragEnd={handleDragEnd}
+        onClick={() => onFeatureClick(feature)}
+        title={getTitleFromContent(feature.content)}
+        className={cn(
+          'px-1.5 py-1 text-[11px] rounded border border-zinc-200 dark:border-zinc-700 border-l-2 bg-white dark:bg-zinc-800 cursor-pointer hover:shadow-sm truncate',
+          priorityBorders[feature.priority],
+          done && 'line-through opacity-60',
+          overdue && 'text-red-500',
+          !overdue && 'text-zinc-700 dark:text-zinc-200',
+          draggedFeature?.id === feature.id && 'opacity-40'
+        )}
+      >
+        {getTitleFromContent(feature.content)}
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full flex overflow-hidden">
+      <div className="flex-1 flex flex-col overflow-hidden p-3">
+        {/* Navigation */}
+        <div className="flex items-center gap-2 mb-3">
+          <button
+            type="button"
+            onClick={() => setAnchor(shiftAnchor(anchor, mode, -1))}
+            className="p-1 rounded text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+            title={t('calendar.previous')}
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <button
+            type="button"
+            onClick={() => setAnchor(new Date())}
+            className="px-2 py-1 text-xs rounded border border-zinc-200 dark:border-zinc-600 text-zinc-700 dark:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+          >
+            {t('calendar.today')}
+          </button>
+          <button
+            type="button"
+            onClick={() => setAnchor(shiftAnchor(anchor, mode, 1))}
+            className="p-1 rounded text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+            title={t('calendar.next')}
+          >
+            <ChevronRight size={16} />
+          </button>
+          <h2 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">{title}</h2>
+          <div className="ml-auto flex rounded-md border border-zinc-200 dark:border-zinc-600 overflow-hidden">
+            {(['month', 'week'] as const).map((m) => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => setMode(m)}
+                className={cn(
+                  'px-2 py-1 text-xs transition-colors',
+                  mode === m
+                    ? 'bg-blue-50 text-blue-600 dark:bg-blue-950/40 dark:text-blue-400'
+                    : 'text-zinc-500 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800'
+                )}
+              >
+                {m === 'month' ? t('calendar.month') : t('calendar.week')}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Weekday headers */}
+        <div className="grid grid-cols-7 gap-1 mb-1">
+          {getWeekdayNames().map((name) => (
+            <div key={name} className="text-[11px] font-medium text-center text-zinc-500 dark:text-zinc-400">
+              {name}
+            </div>
+          ))}
+        </div>
+
+        {/* Days */}
+        <div className={cn('flex-1 grid grid-cols-7 gap-1 overflow-y-auto', mode === 'month' ? 'auto-rows-fr' : 'grid-rows-1')}>
+          {days.map((day) => {
+            const key = toDateKey(day)
+            const outsideMonth = mode === 'month' && day.getMonth() !== anchor.getMonth()
+            return (
+              <div
+                key={key}
+                data-testid={`calendar-day-${key}`}
+                onDragOver={(e) => handleDragOver(e, key)}
+                onDragLeave={() => setDropTarget((prev) => (prev === key ? null : prev))}
+                onDrop={(e) => handleDrop(e, key)}
+                className={cn(
+                  'flex flex-col gap-1 p-1 rounded-md border min-h-[5rem] overflow-hidden',
+                  dropTarget === key
+                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/30'
+                    : 'border-zinc-200 dark:border-zinc-700',
+                  outsideMonth && 'opacity-50'
+                )}
+              >
+                <span
+                  className={cn(
+                    'self-end text-[11px] px-1 rounded',
+                    key === todayKey ? 'bg-blue-500 text-white' : 'text-zinc-500 dark:text-zinc-400'
+                  )}
+                >
+                  {day.getDate()}
+                </span>
+                <div className="flex flex-col gap-1 overflow-y-auto">
+                  {(byDay.get(key) ?? []).map(renderChip)}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      {/* Undated tray */}
+      <div
+        data-testid="calendar-undated"
+        onDragOver={(e) => handleDragOver(e, TRAY)}
+        onDragLeave={() => setDropTarget((prev) => (prev === TRAY ? null : prev))}
+        onDrop={(e) => handleDrop(e, TRAY)}
+        className={cn(
+          'w-56 shrink-0 flex flex-col border-l p-3 overflow-hidden',
+          dropTarget === TRAY
+            ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/30'
+            : 'border-zinc-200 dark:border-zinc-700'
+        )}
+      >
+        <div className="flex items-center gap-1.5 mb-2 text-xs font-medium text-zinc-700 dark:text-zinc-300">
+          <CalendarX size={14} />
+          <span>{t('calendar.noDueDate')}</span>
+          <span className="ml-auto text-zinc-400">{undated.length}</span>
+        </div>
+        <div className="flex-1 flex flex-col gap-1 overflow-y-auto">
+          {undated.map(renderChip)}
+          {undated.length === 0 && (
+            <div className="text-[11px] text-zinc-400 dark:text-zinc-500">{t('calendar.dropToClear')}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+import { GitCommit } from 'lucide-react'
+import type { CommitInfo } from '../../shared/types'
+import { useStore } from '../store'
+import { t } from '../lib/i18n'
+
+interface CommitListProps {
+  commits: CommitInfo[]
+  onOpenCommit: (hash: string) => void
+}
+
+export function CommitList({ commits, onOpenCommit }: CommitListProps) {
+  const locale = useStore((s) => s.locale)
+
+  if (commits.length === 0) return null
+
+  return (
+    <section className="px-4 py-3" style={{ borderTop: '1px solid var(--vscode-panel-border)' }}>
+      <h3
+        className="flex items-center gap-2 mb-2 text-[11px] font-medium"
+        style={{ color: 'var(--vscode-descriptionForeground)' }}
+      >
+        <GitCommit size={13} />
+        {t('commits.title')}
+      </h3>
+      <ol className="space-y-0.5">
+        {commits.map((commit) => (
+          <li key={commit.hash}>
+            <button
+              type="button"
+              onClick={() => onOpenCommit(commit.hash)}
+              title={t('commits.open')}
+              className="w-full flex gap-2 px-1 py-1 text-left text-xs rounded vscode-hover-bg"
+            >
+              <code
+                className="shrink-0 font-mono text-[11px]"
+                style={{ color: 'var(--vscode-textLink-foreground)' }}
+              >
+                {commit.hash.slice(0, 7)}
+              </code>
+              <div className="min-w-0">
+                <div className="truncate" style={{ color: 'var(--vscode-foreground)' }}>{commit.subject}</div>
+                <div className="text-[10px]" style={{ color: 'var(--vscode-descriptionForeground)' }}>
+                  {commit.author}
+                  {' · '}
+                  <time dateTime={commit.date}>
+                    {new Date(commit.date).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' })}
+                  </time>
+                </div>
+              </div>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </section>
+  )
+}
@@ -1,14 +1,15 @@
 import { useState, useEffect, useRef, useMemo } from 'react'
 import { AssigneeInput } from './AssigneeInput'
 import { EpicInput } from './EpicInput'
+import { CustomFieldInput } from './CustomFieldInput'
 import { useEditor, EditorContent } from '@tiptap/react'
 import StarterKit from '@tiptap/starter-kit'
 import Placeholder from '@tiptap/extension-placeholder'
 import { Markdown } from 'tiptap-markdown'
-import { X, ChevronDown, User, Tag, Check, CircleDot, Signal, Calendar, Layers } from 'lucide-react'
-import type { FeatureStatus, Priority } from '../../shared/types'
+import { X, ChevronDown, User, Tag, Check, CircleDot, Signal, Calendar, Layers, SlidersHorizontal } from 'lucide-react'
+import type { CustomFieldValue, FeatureStatus, Priority } from '../../shared/types'
 import { useStore } from '../store'
-import { cn } from '../lib/utils'
+import { cn, getStatusOptions } from '../lib/utils'
 import { DatePicker } from './DatePicker'
 import { t } from '../lib/i18n'
 
@@ -31,6 +32,7 @@ interface CreateFeatureDialogProps {
     epic: string | null
     dueDate: string | null
     labels: string[]
+    customFields: Record<string, CustomFieldValue>
   }) => void
   initialStatus?: FeatureStatus
 }
@@ -44,19 +46,9 @@ function getPriorityConfig(): { value: Priority; label: string; dot: string }[]
   ]
 }
 
-function getStatusConfig(): { value: FeatureStatus; label: string; dot: string }[] {
-  return [
-    { value: 'backlog', label: t('status.backlog'), dot: 'bg-zinc-400' },
-    { value: 'todo', label: t('status.todo'), dot: 'bg-blue-400' },
-    { value: 'in-progress', label: t('status.inProgress'), dot: 'bg-amber-400' },
-    { value: 'review', label: t('status.review'), dot: 'bg-purple-400' },
-    { value: 'done', label: t('status.done'), dot: 'bg-emerald-400' }
-  ]
-}
-
 interface DropdownProps {
   value: string
-  options: { value: string; label: string; dot?: string }[]
+  options: { value: string; label: string; dot?: string; dotColor?: string }[]
   onChange: (value: string) => void
   className?: string
 }
@@ -80,6 +72,7 @@ function Dropdown({ value, options, onChange, className }: DropdownProps) {
         onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
       >
         {current?.dot && <span className={cn('w-2 h-2 rounded-full shrink-0', current.dot)} />}
+        {current?.dotColor && <span className="w-2 h-2 rounded-full shrink-0" style={{ background: current.dotColor }} />}
         <span>{current?.label}</span>
         <ChevronDown
           size={12}
@@ -122,6 +115,7 @@ function Dropdown({ value, options, onChange, className }: DropdownProps) {
                 }}
               >
                 {option.dot && <span className={cn('w-2 h-2 rounded-full shrink-0', option.dot)} />}
+                {option.dotColor && <span className="w-2 h-2 rounded-full shrink-0" style={{ background: option.dotColor }} />}
                 <span className="flex-1 text-left">{option.label}</span>
                 {option.value === value && (
                   <Check
@@ -305,9 +299,9 @@ function CreateFeatureDialogContent({
   onCreate,
   initialStatus
 }: CreateFeatureDialogProps) {
-  const { cardSettings } = useStore()
+  const { cardSettings, customFieldDefs } = useStore()
   const priorityConfig = getPriorityConfig()
-  const statusConfig = getStatusConfig()
+  const columns = useStore((s) => s.columns)
   const [title, setTitle] = useState('')
   const [status, setStatus] = useState<FeatureStatus>(initialStatus ?? cardSettings.defaultStatus)
   const [priority, setPriority] = useState<Priority>(cardSettings.defaultPriority)
@@ -315,6 +309,7 @@ function CreateFeatureDialogContent({
   const [dueDate, setDueDate] = useState('')
   const [labels, setLabels] = useState<string[]>([])
   const [epic, setEpic] = useState('')
+  const [customFields, setCustomFields] = useState<Record<string, CustomFieldValue>>({})
   const inputRef = useRef<HTMLTextAreaElement>(null)
 
   const descriptionEditor = useEditor({
@@ -349,7 +344,8 @@ function CreateFeatureDialogContent({
       assignee: assignee.trim() || null,
       epic: epic.trim() || null,
       dueDate: dueDate || null,
-      labels
+      labels,
+      customFields
     })
   }
 
@@ -422,7 +418,7 @@ function CreateFeatureDialogContent({
           <PropertyRow label={t('property.status')} icon={<CircleDot size={13} />}>
             <Dropdown
               value={status}
-              options={statusConfig.map((s) => ({ value: s.value, label: s.label, dot: s.dot }))}
+              options={getStatusOptions(columns, status)}
               onChange={(v) => setStatus(v as FeatureStatus)}
             />
           </PropertyRow>
@@ -459,6 +455,15 @@ function CreateFeatureDialogContent({
               <LabelInput labels={labels} onChange={setLabels} />
             </PropertyRow>
           )}
+          {customFieldDefs.map((def) => (
+            <PropertyRow key={def.key} label={def.label} icon={<SlidersHorizontal size={13} />}>
+              <CustomFieldInput
+                definition={def}
+                value={customFields[def.key] ?? null}
+                onChange={(v) => setCustomFields((prev) => ({ ...prev, [def.key]: v }))}
+              />
+            </PropertyRow>
+          ))}
         </div>
 
         {/* Content */}
@@ -0,0 +1,52 @@
+import type { CustomFieldDefinition, CustomFieldValue } from '../../shared/types'
+import { normalizeCustomFieldValue } from '../../shared/customFields'
+import { t } from '../lib/i18n'
+
+interface CustomFieldInputProps {
+  definition: CustomFieldDefinition
+  value: CustomFieldValue
+  onChange: (value: CustomFieldValue) => void
+}
+
+// Typed editor for a user-defined field: select for enums, native number/date inputs otherwise
+export function CustomFieldInput({ definition, value, onChange }: CustomFieldInputProps) {
+  const text = value === null ? '' : String(value)
+  const style = {
+    color: text ? 'var(--vscode-foreground)' : 'var(--vscode-descriptionForeground)'
+  }
+
+  if (definition.type === 'enum') {
+    return (
+      <select
+        value={text}
+        onChange={e => onChange(e.target.value || null)}
+        className="bg-transparent border-none outline-none text-xs cursor-pointer"
+        style={style}
+      >
+        <option value="">{t('customField.none')}</option>
+        {(definition.options ?? []).map(option => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    )
+  }
+
+  const inputType = definition.type === 'number' ? 'number' : definition.type === 'date' ? 'date' : 'text'
+
+  return (
+    <input
+      type={inputType}
+      value={text}
+      onChange={e => {
+        // Keep plain text as typed; numbers and dates are coerced to their stored form
+        const raw = e.target.value
+        onChange(definition.type === 'string' ? (raw === '' ? null : raw) : normalizeCustomFieldValue(definition, raw))
+      }}
+      placeholder={t('customField.empty')}
+      className="w-full bg-transparent border-none outline-none text-xs"
+      style={style}
+    />
+  )
+}
@@ -3,13 +3,7 @@ import { X, ChevronLeft, ChevronRight } from 'lucide-react'
 import { cn } from '../lib/utils'
 import { t } from '../lib/i18n'
 import { useStore } from '../store'
-
-function getDAYS(): string[] {
-  return [t('date.day.mo'), t('date.day.tu'), t('date.day.we'), t('date.day.th'), t('date.day.fr'), t('date.day.sa'), t('date.day.su')]
-}
-function getMONTHS(): string[] {
-  return [t('date.month.january'), t('date.month.february'), t('date.month.march'), t('date.month.april'), t('date.month.may'), t('date.month.june'), t('date.month.july'), t('date.month.august'), t('date.month.september'), t('date.month.october'), t('date.month.november'), t('date.month.december')]
-}
+import { getMonthNames, getWeekdayNames } from '../lib/calendar'
 
 interface DatePickerProps {
   value: string
@@ -19,8 +13,8 @@ interface DatePickerProps {
 
 export function DatePicker({ value, onChange, placeholder }: DatePickerProps) {
   const { locale } = useStore()
-  const DAYS = getDAYS()
-  const MONTHS = getMONTHS()
+  const DAYS = getWeekdayNames()
+  const MONTHS = getMonthNames()
   const [isOpen, setIsOpen] = useState(false)
   const today = new Date()
   const selected = value ? new Date(value + 'T00:00:00') : null
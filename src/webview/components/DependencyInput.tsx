@@ -0,0 +1,143 @@
+import { useState, useRef, useMemo } from 'react'
+import { Plus, X } from 'lucide-react'
+import { getTitleFromContent } from '../../shared/types'
+import { wouldCreateCycle } from '../../shared/dependencies'
+import { isDoneStatus } from '../../shared/statuses'
+import { useStore } from '../store'
+import { t } from '../lib/i18n'
+
+interface DependencyInputProps {
+  featureId: string
+  value: string[]
+  onChange: (value: string[]) => void
+}
+
+// Picker for `blockedBy`: searches existing features by title or id and hides choices that would form a cycle
+export function DependencyInput({ featureId, value, onChange }: DependencyInputProps) {
+  const [query, setQuery] = useState('')
+  const [isFocused, setIsFocused] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const features = useStore(s => s.features)
+  const columns = useStore(s => s.columns)
+
+  const suggestions = useMemo(() => {
+    const q = query.trim().toLowerCase()
+    return features
+      .filter(f => f.id !== featureId && !value.includes(f.id))
+      .filter(f => !wouldCreateCycle(features, featureId, f.id))
+      .map(f => ({ id: f.id, title: getTitleFromContent(f.content) }))
+      .filter(f => !q || f.title.toLowerCase().includes(q) || f.id.toLowerCase().includes(q))
+      .slice(0, 20)
+  }, [query, features, featureId, value])
+
+  const addBlocker = (id: string) => {
+    onChange([...value, id])
+    setQuery('')
+  }
+
+  const removeBlocker = (id: string) => {
+    onChange(value.filter(v => v !== id))
+  }
+
+  return (
+    <div className="relative flex items-center gap-1.5 flex-wrap">
+      {value.map(id => {
+        const blocker = features.find(f => f.id === id)
+        const done = blocker ? isDoneStatus(blocker.status, columns) : false
+        return (
+          <span
+            key={id}
+            title={id}
+            className="inline-flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-medium rounded max-w-[200px]"
+            style={{
+              background: 'var(--vscode-badge-background)',
+              color: blocker ? 'var(--vscode-badge-foreground)' : 'var(--vscode-errorForeground)'
+            }}
+          >
+            <span className={done ? 'truncate line-through opacity-70' : 'truncate'}>
+              {blocker ? getTitleFromContent(blocker.content) : id}
+            </span>
+            <button
+              onClick={() => removeBlocker(id)}
+              className="hover:text-red-500 transition-colors"
+            >
+              <X size={9} />
+            </button>
+          </span>
+        )
+      })}
+      <button
+        onClick={() => {
+          setIsFocused(true)
+          setTimeout(() => inputRef.current?.focus(), 0)
+        }}
+        className="inline-flex items-center gap-0.5 px-1 py-0.5 text-[10px] rounded transition-colors vscode-hover-bg"
+        style={{ color: 'var(--vscode-descriptionForeground)' }}
+      >
+        <Plus size={10} />
+      </button>
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+        onKeyDown={e => {
+          if (e.key === 'Enter' && suggestions.length > 0) {
+            e.preventDefault()
+            addBlocker(suggestions[0].id)
+          }
+          if (e.key === 'Backspace' && !query && value.length > 0) {
+            onChange(value.slice(0, -1))
+          }
+          if (e.key === 'Escape') {
+            setQuery('')
+            inputRef.current?.blur()
+          }
+        }}
+        placeholder={value.length === 0 ? t('editor.addBlockers') : ''}
+        className="flex-1 min-w-[60px] bg-transparent border-none outline-none text-xs"
+        style={{
+          color: 'var(--vscode-foreground)',
+          display: isFocused || query ? 'block' : 'none'
+        }}
+      />
+      {isFocused && (
+        <div
+          className="absolute top-full left-0 mt-1 z-20 rounded-lg shadow-lg py-1 max-h-[160px] overflow-auto min-w-[220px]"
+          style={{
+            background: 'var(--vscode-dropdown-background)',
+            border: '1px solid var(--vscode-dropdown-border, var(--vscode-panel-border))'
+          }}
+        >
+          {suggestions.length === 0 ? (
+            <div className="px-3 py-1.5 text-xs" style={{ color: 'var(--vscode-descriptionForeground)' }}>
+              {t('editor.noFeaturesFound')}
+            </div>
+          ) : (
+            suggestions.map(s => (
+              <button
+                key={s.id}
+                type="button"
+                onMouseDown={e => {
+                  e.preventDefault()
+                  addBlocker(s.id)
+                }}
+                className="w-full flex flex-col items-start px-3 py-1.5 text-xs transition-colors text-left"
+                style={{ color: 'var(--vscode-dropdown-foreground)' }}
+                onMouseEnter={e => (e.currentTarget.style.background = 'var(--vscode-list-hoverBackground)')}
+                onMouseLeave={e => (e.currentTarget.style.background = 'transparent')}
+              >
+                <span className="truncate w-full">{s.title}</span>
+                <span className="text-[10px] font-mono truncate w-full" style={{ color: 'var(--vscode-descriptionForeground)' }}>
+                  {s.id}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
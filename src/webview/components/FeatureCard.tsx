@@ -1,13 +1,21 @@
-import { Calendar, Check, FileText, Layers } from 'lucide-react'
+import { useState } from 'react'
+import { Ban, Bot, Calendar, Check, CheckSquare, FileText, Layers, Square } from 'lucide-react'
 import { getTitleFromContent } from '../../shared/types'
 import type { Feature, Priority } from '../../shared/types'
 import { epicThemeFromName } from '../../shared/epicColor'
+import { formatCustomFieldValue, getCustomFieldValue } from '../../shared/customFields'
+import { isDoneStatus } from '../../shared/statuses'
+import { isBuiltInAgent } from '../../shared/agents'
+import { getOpenBlockers } from '../../shared/dependencies'
+import { parseChecklist, toggleChecklistItem } from '../../shared/checklist'
 import { useStore } from '../store'
+import { vscode } from '../vscodeApi'
+import { getFeatureFrontmatter } from '../lib/utils'
 import { t } from '../lib/i18n'
 
 interface FeatureCardProps {
   feature: Feature
-  onClick: () => void
+  onClick: (e: React.MouseEvent) => void
   isDragging?: boolean
 }
 
@@ -40,7 +48,15 @@ function getDescriptionFromContent(content: string): string {
 }
 
 export function FeatureCard({ feature, onClick, isDragging }: FeatureCardProps) {
-  const { cardSettings, locale, isDarkMode } = useStore()
+  const { cardSettings, locale, isDarkMode, customFieldDefs, columns, features, updateFeature, selectedFeatureIds, agents, agentSessions } = useStore()
+  const isSelected = selectedFeatureIds.has(feature.id)
+  const runningAgent = agentSessions[feature.id]
+  const runningAgentName = runningAgent && (isBuiltInAgent(runningAgent)
+    ? t(`ai.${runningAgent}`)
+    : agents.find(agent => agent.id === runningAgent)?.name ?? runningAgent)
+  const [checklistOpen, setChecklistOpen] = useState(false)
+  const isDone = isDoneStatus(feature.status, columns)
+  const openBlockers = isDone ? [] : getOpenBlockers(feature, features, columns)
   const priorityLabels = getPriorityLabels()
   const title = getTitleFromContent(feature.content)
   const description = getDescriptionFromContent(feature.content)
@@ -64,7 +80,7 @@ export function FeatureCard({ feature, onClick, isDragging }: FeatureCardProps)
     }
   }
 
-  const dueInfo = feature.status === 'done' ? null : formatDueDate(feature.dueDate)
+  const dueInfo = isDone ? null : formatDueDate(feature.dueDate)
 
   const formatCompletedAt = (dateStr: string | null) => {
     if (!dateStr) return null
@@ -84,7 +100,27 @@ export function FeatureCard({ feature, onClick, isDragging }: FeatureCardProps)
     return t('card.yearsAgo', { count: Math.floor(diffDays / 365) })
   }
 
-  const completedText = feature.status === 'done' ? formatCompletedAt(feature.completedAt) : null
+  const completedText = isDone ? formatCompletedAt(feature.completedAt) : null
+
+  const customFieldChips = customFieldDefs
+    .filter(def => def.showOnCard)
+    .map(def => ({ def, value: formatCustomFieldValue(getCustomFieldValue(feature, def.key)) }))
+    .filter(chip => chip.value !== '')
+
+  const checklist = parseChecklist(feature.content)
+  const checklistDone = checklist.filter(item => item.checked).length
+
+  // Toggle a task in place and persist the new body; the extension may auto-move the card
+  const handleToggleChecklistItem = (index: number) => {
+    const content = toggleChecklistItem(feature.content, index)
+    updateFeature(feature.id, { content })
+    vscode.postMessage({
+      type: 'saveFeatureContent',
+      featureId: feature.id,
+      content,
+      frontmatter: getFeatureFrontmatter(feature)
+    })
+  }
 
   const epicTrimmed = feature.epic?.trim()
   const epicTheme = epicTrimmed ? epicThemeFromName(epicTrimmed, isDarkMode) : null
@@ -94,7 +130,8 @@ export function FeatureCard({ feature, onClick, isDragging }: FeatureCardProps)
       onClick={onClick}
       className={`group relative flex flex-col bg-white dark:bg-zinc-800 rounded-lg border border-zinc-200 dark:border-zinc-700 ${cardSettings.compactMode ? 'p-2 min-h-[4.5rem]' : 'p-3 min-h-[7rem]'} cursor-pointer hover:shadow-md transition-shadow ${
         isDragging ? 'shadow-lg opacity-90' : ''
-      }`}
+      } ${isSelected ? 'ring-2 ring-blue-500' : ''}`}
+      aria-selected={isSelected || undefined}
     >
       {/* Title & Content */}
       <div className="flex-1">
@@ -116,6 +153,11 @@ export function FeatureCard({ feature, onClick, isDragging }: FeatureCardProps)
         )}
 
         <div className={`flex items-start gap-2 ${description ? 'mb-1' : cardSettings.compactMode ? 'mb-1' : 'mb-2'}`}>
+          {feature.key && (
+            <span className="text-[10px] font-mono leading-5 shrink-0 text-zinc-400 dark:text-zinc-500">
+              {feature.key}
+            </span>
+          )}
           <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-100 line-clamp-2 flex-1">
             {title}
           </h3>
@@ -161,11 +203,98 @@ export function FeatureCard({ feature, onClick, isDragging }: FeatureCardProps)
             )}
           </div>
         )}
+
+        {/* Checklist progress */}
+        {checklist.length > 0 && (
+          <div className="mb-2">
+            <button
+              type="button"
+              onClick={e => {
+                e.stopPropagation()
+                setChecklistOpen(!checklistOpen)
+              }}
+              title={checklistOpen ? t('card.hideChecklist') : t('card.showChecklist')}
+              aria-expanded={checklistOpen}
+              aria-label={t('card.checklist', { done: checklistDone, total: checklist.length })}
+              className="w-full flex items-center gap-2 text-[10px] text-zinc-500 dark:text-zinc-400"
+            >
+              <CheckSquare size={10} className="shrink-0" />
+              <span className="flex-1 h-1 rounded-full bg-zinc-200 dark:bg-zinc-700 overflow-hidden">
+                <span
+                  className={`block h-full rounded-full ${checklistDone === checklist.length ? 'bg-green-500' : 'bg-blue-500'}`}
+                  style={{ width: `${(checklistDone / checklist.length) * 100}%` }}
+                />
+              </span>
+              <span className="shrink-0 tabular-nums">{checklistDone}/{checklist.length}</span>
+            </button>
+            {checklistOpen && (
+              <ul className="mt-1.5 space-y-0.5">
+                {checklist.map((item, index) => (
+                  <li key={item.line}>
+                    <button
+                      type="button"
+                      role="checkbox"
+                      aria-checked={item.checked}
+                      onClick={e => {
+                        e.stopPropagation()
+                        handleToggleChecklistItem(index)
+                      }}
+                      className="w-full flex items-start gap-1.5 text-left text-xs text-zinc-600 dark:text-zinc-300 hover:text-zinc-900 dark:hover:text-zinc-100"
+                    >
+                      {item.checked
+                        ? <CheckSquare size={12} className="shrink-0 mt-px text-green-500" />
+                        : <Square size={12} className="shrink-0 mt-px" />}
+                      <span className={item.checked ? 'line-through opacity-60' : ''}>{item.text}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Custom fields */}
+        {customFieldChips.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {customFieldChips.map(({ def, value }) => (
+              <span
+                key={def.key}
+                title={def.label}
+                className="text-[10px] px-1.5 py-0.5 rounded border border-zinc-200 text-zinc-600 dark:border-zinc-600 dark:text-zinc-300"
+              >
+                <span className="text-zinc-400 dark:text-zinc-500">{def.label}:</span> {value}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Footer */}
       <div className="flex items-center justify-between text-xs mt-auto">
         <div className="flex items-center gap-1">
+          {openBlockers.length > 0 && (
+            <span
+              title={t('card.blockedBy', { titles: openBlockers.map(b => getTitleFromContent(b.content)).join(', ') })}
+              className="flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 rounded bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400"
+            >
+              <Ban size={10} />
+              {t('card.blocked')}
+            </span>
+          )}
+          {runningAgent && (
+            <button
+              type="button"
+              onClick={e => {
+                e.stopPropagation()
+                vscode.postMessage({ type: 'focusAgentTerminal', featureId: feature.id })
+              }}
+              title={t('card.focusAgent', { agent: runningAgentName })}
+              className="flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 rounded bg-violet-100 text-violet-700 dark:bg-violet-900/30 dark:text-violet-300 hover:bg-violet-200 dark:hover:bg-violet-900/50"
+            >
+              <Bot size={10} className="animate-pulse" />
+              {t('card.agentRunning')}
+            </button>
+          )}
           {cardSettings.showAssignee && feature.assignee && feature.assignee !== 'null' && (
             <div className="flex items-center gap-1.5 text-zinc-500 dark:text-zinc-400">
               <span className="shrink-0 w-4 h-4 rounded-full flex items-center justify-center text-[8px] font-bold bg-zinc-200 dark:bg-zinc-600 text-zinc-700 dark:text-zinc-300">
@@ -15,21 +15,37 @@ import {
   Signal,
   Calendar,
   Trash2,
+  Archive,
   FileText,
-  Layers
+  Layers,
+  SlidersHorizontal,
+  Ban,
+  ArrowRightToLine,
+  GitBranch
 } from 'lucide-react'
 import type {
+  ActivityEntry,
+  CommitInfo,
   FeatureFrontmatter,
   Priority,
   FeatureStatus,
+  AgentDefinition,
   AIAgent,
-  AIPermissionMode
+  AIPermissionMode,
+  BuiltInAIAgent
 } from '../../shared/types'
-import { cn } from '../lib/utils'
+import { getTitleFromContent } from '../../shared/types'
+import { getAgentPermissionModes, isBuiltInAgent } from '../../shared/agents'
+import { getBlockedFeatures } from '../../shared/dependencies'
+import { cn, getStatusOptions } from '../lib/utils'
 import { t } from '../lib/i18n'
 import { useStore } from '../store'
 import { AssigneeInput } from './AssigneeInput'
 import { EpicInput } from './EpicInput'
+import { CustomFieldInput } from './CustomFieldInput'
+import { DependencyInput } from './DependencyInput'
+import { ActivityTimeline } from './ActivityTimeline'
+import { CommitList } from './CommitList'
 
 interface MarkdownStorage {
   markdown: { getMarkdown: () => string }
@@ -44,11 +60,16 @@ interface FeatureEditorProps {
   content: string
   frontmatter: FeatureFrontmatter
   contentVersion?: number
+  activity?: ActivityEntry[]
+  commits?: CommitInfo[]
   onSave: (content: string, frontmatter: FeatureFrontmatter) => void
   onClose: () => void
   onDelete: () => void
+  onArchive: () => void
   onOpenFile: () => void
   onStartWithAI: (agent: AIAgent, permissionMode: AIPermissionMode) => void
+  onStartWork: () => void
+  onOpenCommit: (hash: string) => void
 }
 
 function getPriorityLabels(): Record<Priority, string> {
@@ -60,18 +81,7 @@ function getPriorityLabels(): Record<Priority, string> {
   }
 }
 
-function getStatusLabels(): Record<FeatureStatus, string> {
-  return {
-    backlog: t('status.backlog'),
-    todo: t('status.todo'),
-    'in-progress': t('status.inProgress'),
-    review: t('status.review'),
-    done: t('status.done')
-  }
-}
-
 const priorities: Priority[] = ['critical', 'high', 'medium', 'low']
-const statuses: FeatureStatus[] = ['backlog', 'todo', 'in-progress', 'review', 'done']
 
 const priorityDots: Record<Priority, string> = {
   critical: 'bg-red-500',
@@ -80,45 +90,47 @@ const priorityDots: Record<Priority, string> = {
   low: 'bg-green-500'
 }
 
-const statusDots: Record<FeatureStatus, string> = {
-  backlog: 'bg-zinc-400',
-  todo: 'bg-blue-400',
-  'in-progress': 'bg-amber-400',
-  review: 'bg-purple-400',
-  done: 'bg-emerald-400'
+const agentTabColors: Record<BuiltInAIAgent, { color: string; activeColor: string }> = {
+  claude: {
+    color: 'hover:bg-amber-100 dark:hover:bg-amber-900/30',
+    activeColor: 'bg-amber-700 text-white'
+  },
+  codex: {
+    color: 'hover:bg-emerald-100 dark:hover:bg-emerald-900/30',
+    activeColor: 'bg-emerald-500 text-white'
+  },
+  copilot: {
+    color: 'hover:bg-sky-100 dark:hover:bg-sky-900/30',
+    activeColor: 'bg-sky-600 text-white'
+  },
+  opencode: {
+    color: 'hover:bg-slate-100 dark:hover:bg-slate-700/30',
+    activeColor: 'bg-slate-500 text-white'
+  }
 }
 
-function getAiAgentTabs(): { agent: AIAgent; label: string; color: string; activeColor: string }[] {
-  return [
-    {
-      agent: 'claude',
-      label: t('ai.claude'),
-      color: 'hover:bg-amber-100 dark:hover:bg-amber-900/30',
-      activeColor: 'bg-amber-700 text-white'
-    },
-    {
-      agent: 'codex',
-      label: t('ai.codex'),
-      color: 'hover:bg-emerald-100 dark:hover:bg-emerald-900/30',
-      activeColor: 'bg-emerald-500 text-white'
-    },
-    {
-      agent: 'copilot',
-      label: t('ai.copilot'),
-      color: 'hover:bg-sky-100 dark:hover:bg-sky-900/30',
-      activeColor: 'bg-sky-600 text-white'
-    },
-    {
-      agent: 'opencode',
-      label: t('ai.opencode'),
-      color: 'hover:bg-slate-100 dark:hover:bg-slate-700/30',
-      activeColor: 'bg-slate-500 text-white'
-    }
-  ]
+const customAgentTabColors = {
+  color: 'hover:bg-violet-100 dark:hover:bg-violet-900/30',
+  activeColor: 'bg-violet-600 text-white'
+}
+
+function getAiAgentTabs(agents: AgentDefinition[]): { agent: AIAgent; label: string; color: string; activeColor: string }[] {
+  return agents.map((agent) => ({
+    agent: agent.id,
+    label: isBuiltInAgent(agent.id) ? t(`ai.${agent.id}`) : agent.name,
+    ...(isBuiltInAgent(agent.id) ? agentTabColors[agent.id] : customAgentTabColors)
+  }))
+}
+
+const customAgentButtonColors = {
+  bg: 'bg-violet-600',
+  hover: 'hover:bg-violet-700',
+  shadow: 'shadow-sm',
+  border: 'border border-violet-700/50'
 }
 
 const agentButtonColors: Record<
-  AIAgent,
+  BuiltInAIAgent,
   { bg: string; hover: string; shadow: string; border: string }
 > = {
   claude: {
@@ -148,7 +160,7 @@ const agentButtonColors: Record<
 }
 
 function getAiModesByAgent(): Record<
-  AIAgent,
+  BuiltInAIAgent,
   { permissionMode: AIPermissionMode; label: string; description: string }[]
 > {
   return {
@@ -208,9 +220,31 @@ function getAiModesByAgent(): Record<
   }
 }
 
+function getPermissionModeLabels(): Record<AIPermissionMode, string> {
+  return {
+    default: t('ai.mode.default'),
+    plan: t('ai.mode.plan'),
+    acceptEdits: t('ai.mode.autoEdit'),
+    bypassPermissions: t('ai.mode.fullAuto')
+  }
+}
+
+/** The modes an agent offers. Custom agents describe each mode by the command line it runs. */
+function getAiModes(agent: AgentDefinition): { permissionMode: AIPermissionMode; label: string; description: string }[] {
+  const builtInModes = isBuiltInAgent(agent.id) ? getAiModesByAgent()[agent.id] : []
+  const modeLabels = getPermissionModeLabels()
+  return getAgentPermissionModes(agent).map((permissionMode) =>
+    builtInModes.find((mode) => mode.permissionMode === permissionMode) ?? {
+      permissionMode,
+      label: modeLabels[permissionMode],
+      description: [agent.command, ...(agent.permissionModes[permissionMode] ?? [])].join(' ')
+    }
+  )
+}
+
 interface DropdownProps {
   value: string
-  options: { value: string; label: string; dot?: string }[]
+  options: { value: string; label: string; dot?: string; dotColor?: string }[]
   onChange: (value: string) => void
   className?: string
 }
@@ -227,6 +261,7 @@ function Dropdown({ value, options, onChange, className }: DropdownProps) {
         style={{ color: 'var(--vscode-foreground)' }}
       >
         {current?.dot && <span className={cn('w-2 h-2 rounded-full shrink-0', current.dot)} />}
+        {current?.dotColor && <span className="w-2 h-2 rounded-full shrink-0" style={{ background: current.dotColor }} />}
         <span>{current?.label}</span>
         <ChevronDown
           size={12}
@@ -268,6 +303,7 @@ function Dropdown({ value, options, onChange, className }: DropdownProps) {
                 }}
               >
                 {option.dot && <span className={cn('w-2 h-2 rounded-full shrink-0', option.dot)} />}
+                {option.dotColor && <span className="w-2 h-2 rounded-full shrink-0" style={{ background: option.dotColor }} />}
                 <span className="flex-1 text-left">{option.label}</span>
                 {option.value === value && (
                   <Check
@@ -314,11 +350,13 @@ interface AIDropdownProps {
 function AIDropdown({ onSelect }: AIDropdownProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [selectedTab, setSelectedTab] = useState<AIAgent>('claude')
+  const agents = useStore((s) => s.agents)
 
-  const aiAgentTabs = getAiAgentTabs()
-  const aiModesByAgent = getAiModesByAgent()
-  const modes = aiModesByAgent[selectedTab]
-  const buttonColors = agentButtonColors[selectedTab]
+  // The selected agent may have been removed from the settings
+  const selectedAgent = agents.find((agent) => agent.id === selectedTab) ?? agents[0]
+  const aiAgentTabs = getAiAgentTabs(agents)
+  const modes = getAiModes(selectedAgent)
+  const buttonColors = isBuiltInAgent(selectedAgent.id) ? agentButtonColors[selectedAgent.id] : customAgentButtonColors
 
   return (
     <div className="relative">
@@ -345,14 +383,14 @@ function AIDropdown({ onSelect }: AIDropdownProps) {
           <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
           <div className="absolute top-full right-0 mt-1 z-20 bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 rounded-lg shadow-xl min-w-[260px] overflow-hidden">
             {/* Tabs */}
-            <div className="flex">
+            <div className="flex flex-wrap">
               {aiAgentTabs.map((tab) => (
                 <button
                   key={tab.agent}
                   onClick={() => setSelectedTab(tab.agent)}
                   className={cn(
                     'flex-1 px-3 py-2.5 text-xs font-medium transition-all',
-                    selectedTab === tab.agent
+                    selectedAgent.id === tab.agent
                       ? tab.activeColor
                       : cn('text-zinc-600 dark:text-zinc-400', tab.color)
                   )}
@@ -367,7 +405,7 @@ function AIDropdown({ onSelect }: AIDropdownProps) {
                 <button
                   key={mode.permissionMode}
                   onClick={() => {
-                    onSelect(selectedTab, mode.permissionMode)
+                    onSelect(selectedAgent.id, mode.permissionMode)
                     setIsOpen(false)
                   }}
                   className="w-full text-left px-3 py-2.5 rounded-md hover:bg-zinc-100 dark:hover:bg-zinc-700/50 transition-colors"
@@ -528,17 +566,24 @@ export function FeatureEditor({
   content,
   frontmatter,
   contentVersion,
+  activity = [],
+  commits = [],
   onSave,
   onClose,
   onDelete,
+  onArchive,
   onOpenFile,
-  onStartWithAI
+  onStartWithAI,
+  onStartWork,
+  onOpenCommit
 }: FeatureEditorProps) {
-  const { cardSettings } = useStore()
+  const { cardSettings, customFieldDefs } = useStore()
   const [currentFrontmatter, setCurrentFrontmatter] = useState(frontmatter)
   const [confirmingDelete, setConfirmingDelete] = useState(false)
   const priorityLabels = getPriorityLabels()
-  const statusLabels = getStatusLabels()
+  const columns = useStore((s) => s.columns)
+  const features = useStore((s) => s.features)
+  const blocks = useMemo(() => getBlockedFeatures(featureId, features), [featureId, features])
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const isInitialLoad = useRef(true)
   const currentFrontmatterRef = useRef(currentFrontmatter)
@@ -694,6 +739,19 @@ export function FeatureEditor({
                 <FileText size={16} />
                 <span className="text-xs">{t('editor.open')}</span>
               </button>
+              <button
+                onClick={onArchive}
+                className="p-1.5 px-2 rounded border transition-colors vscode-hover-bg flex items-center gap-1"
+                style={{
+                  color: 'var(--vscode-descriptionForeground)',
+                  borderColor:
+                    'var(--vscode-widget-border, var(--vscode-contrastBorder, rgba(128,128,128,0.35)))'
+                }}
+                title={t('editor.archiveTicket')}
+              >
+                <Archive size={16} />
+                <span className="text-xs">{t('editor.archive')}</span>
+              </button>
               <button
                 onClick={() => setConfirmingDelete(true)}
                 className="p-1.5 px-2 rounded border transition-colors vscode-hover-bg flex items-center gap-1"
@@ -711,6 +769,19 @@ export function FeatureEditor({
           )}
         </div>
         <div className="flex items-center gap-2">
+          <button
+            onClick={onStartWork}
+            className="p-1.5 px-2 rounded border transition-colors vscode-hover-bg flex items-center gap-1 min-w-0"
+            style={{
+              color: 'var(--vscode-descriptionForeground)',
+              borderColor:
+                'var(--vscode-widget-border, var(--vscode-contrastBorder, rgba(128,128,128,0.35)))'
+            }}
+            title={frontmatter.branch ? t('editor.checkoutBranch', { branch: frontmatter.branch }) : t('editor.startWorkTitle')}
+          >
+            <GitBranch size={16} className="shrink-0" />
+            <span className="text-xs truncate max-w-[160px]">{frontmatter.branch || t('editor.startWork')}</span>
+          </button>
           {cardSettings.showBuildWithAI && <AIDropdown onSelect={onStartWithAI} />}
           <button
             onClick={onClose}
@@ -730,11 +801,7 @@ export function FeatureEditor({
         <PropertyRow label={t('property.status')} icon={<CircleDot size={13} />}>
           <Dropdown
             value={currentFrontmatter.status}
-            options={statuses.map((s) => ({
-              value: s,
-              label: statusLabels[s],
-              dot: statusDots[s]
-            }))}
+            options={getStatusOptions(columns, currentFrontmatter.status)}
             onChange={(v) => handleFrontmatterUpdate({ status: v as FeatureStatus })}
           />
         </PropertyRow>
@@ -790,11 +857,52 @@ export function FeatureEditor({
             />
           </PropertyRow>
         )}
+        <PropertyRow label={t('property.blockedBy')} icon={<Ban size={13} />}>
+          <DependencyInput
+            featureId={featureId}
+            value={currentFrontmatter.blockedBy ?? []}
+            onChange={(blockedBy) => handleFrontmatterUpdate({ blockedBy })}
+          />
+        </PropertyRow>
+        {blocks.length > 0 && (
+          <PropertyRow label={t('property.blocks')} icon={<ArrowRightToLine size={13} />}>
+            <div className="flex items-center gap-1.5 flex-wrap">
+              {blocks.map((f) => (
+                <span
+                  key={f.id}
+                  title={f.id}
+                  className="inline-block px-1.5 py-0.5 text-[10px] font-medium rounded truncate max-w-[200px]"
+                  style={{
+                    background: 'var(--vscode-badge-background)',
+                    color: 'var(--vscode-badge-foreground)'
+                  }}
+                >
+                  {getTitleFromContent(f.content)}
+                </span>
+              ))}
+            </div>
+          </PropertyRow>
+        )}
+        {customFieldDefs.map((def) => (
+          <PropertyRow key={def.key} label={def.label} icon={<SlidersHorizontal size={13} />}>
+            <CustomFieldInput
+              definition={def}
+              value={currentFrontmatter.customFields?.[def.key] ?? null}
+              onChange={(v) =>
+                handleFrontmatterUpdate({
+                  customFields: { ...currentFrontmatter.customFields, [def.key]: v }
+                })
+              }
+            />
+          </PropertyRow>
+        ))}
       </div>
 
       {/* Editor */}
       <div className="flex-1 overflow-auto">
-        <EditorContent editor={editor} className="h-full" />
+        <EditorContent editor={editor} />
+        <CommitList commits={commits} onOpenCommit={onOpenCommit} />
+        <ActivityTimeline activity={activity} />
       </div>
     </div>
   )
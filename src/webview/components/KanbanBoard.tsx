@@ -3,7 +3,8 @@ import { KanbanColumn } from './KanbanColumn'
 import { CollapsedColumn } from './CollapsedColumn'
 import { useStore } from '../store'
 import { vscode } from '../vscodeApi'
-import type { Feature, FeatureStatus } from '../../shared/types'
+import type { Feature, FeatureStatus, SwimlaneLane } from '../../shared/types'
+import { getColumnCategory } from '../../shared/statuses'
 
 export interface DropTarget {
   columnId: string
@@ -13,21 +14,43 @@ export interface DropTarget {
 interface KanbanBoardProps {
   onFeatureClick: (feature: Feature) => void
   onAddFeature: (status: string) => void
-  onMoveFeature: (featureId: string, newStatus: string, newOrder: number) => void
-  /** When set (including `null` for “no epic”), limits the board to that epic swim lane. */
-  epicFilter?: string | null
+  onMoveFeature: (featureId: string, newStatus: string, newOrder: number, lane?: SwimlaneLane) => void
+  /** When set, limits the board to that swim lane; cards dropped in from other lanes move into it. */
+  lane?: SwimlaneLane
 }
 
-export function KanbanBoard({ onFeatureClick, onAddFeature, onMoveFeature, epicFilter }: KanbanBoardProps) {
+export function KanbanBoard({ onFeatureClick, onAddFeature, onMoveFeature, lane }: KanbanBoardProps) {
   const columns = useStore((s) => s.columns)
   const getFilteredFeaturesByStatus = useStore((s) => s.getFilteredFeaturesByStatus)
   const getFeaturesByStatus = useStore((s) => s.getFeaturesByStatus)
   const layout = useStore((s) => s.layout)
   const collapsedColumns = useStore((s) => s.collapsedColumns)
   const toggleColumnCollapsed = useStore((s) => s.toggleColumnCollapsed)
+  const toggleFeatureSelected = useStore((s) => s.toggleFeatureSelected)
+  const selectFeatureRange = useStore((s) => s.selectFeatureRange)
+  const clearFeatureSelection = useStore((s) => s.clearFeatureSelection)
   const [draggedFeature, setDraggedFeature] = useState<Feature | null>(null)
   const [dropTarget, setDropTarget] = useState<DropTarget | null>(null)
 
+  // Ctrl/Cmd-click toggles a card in the bulk selection, shift-click extends it
+  // over the visible cards (left to right, top to bottom); a plain click opens the card
+  const handleFeatureClick = useCallback(
+    (feature: Feature, e: React.MouseEvent) => {
+      if (e.shiftKey) {
+        const orderedIds = columns
+          .filter((c) => !collapsedColumns.has(c.id))
+          .flatMap((c) => getFilteredFeaturesByStatus(c.id as FeatureStatus, lane).map((f) => f.id))
+        selectFeatureRange(orderedIds, feature.id)
+      } else if (e.ctrlKey || e.metaKey) {
+        toggleFeatureSelected(feature.id)
+      } else {
+        clearFeatureSelection()
+        onFeatureClick(feature)
+      }
+    },
+    [columns, collapsedColumns, getFilteredFeaturesByStatus, lane, selectFeatureRange, toggleFeatureSelected, clearFeatureSelection, onFeatureClick]
+  )
+
   const handleDragStart = useCallback((e: React.DragEvent, feature: Feature) => {
     setDraggedFeature(feature)
     e.dataTransfer.effectAllowed = 'move'
@@ -59,9 +82,12 @@ export function KanbanBoard({ onFeatureClick, onAddFeature, onMoveFeature, epicF
   const handleDrop = useCallback(
     (e: React.DragEvent, columnId: string) => {
       e.preventDefault()
-      if (!draggedFeature) return
+      // Cards dragged from another swim lane's board are only known by the id on the drag data
+      const draggedId = e.dataTransfer?.getData('text/plain')
+      const moved = draggedFeature ?? useStore.getState().features.find((f) => f.id === draggedId)
+      if (!moved) return
 
-      const filteredFeatures = getFilteredFeaturesByStatus(columnId as FeatureStatus, epicFilter)
+      const filteredFeatures = getFilteredFeaturesByStatus(columnId as FeatureStatus, lane)
       let filteredInsertIndex: number
 
       if (dropTarget && dropTarget.columnId === columnId) {
@@ -72,8 +98,8 @@ export function KanbanBoard({ onFeatureClick, onAddFeature, onMoveFeature, epicF
       }
 
       // Adjust index if dragging within the same column and moving downward
-      if (draggedFeature.status === columnId) {
-        const currentIndex = filteredFeatures.findIndex((f) => f.id === draggedFeature.id)
+      if (moved.status === columnId) {
+        const currentIndex = filteredFeatures.findIndex((f) => f.id === moved.id)
         if (currentIndex !== -1 && filteredInsertIndex > currentIndex) {
           filteredInsertIndex--
         }
@@ -86,9 +112,9 @@ export function KanbanBoard({ onFeatureClick, onAddFeature, onMoveFeature, epicF
       }
 
       // Translate filtered index to unfiltered index
-      const allFeatures = getFeaturesByStatus(columnId as FeatureStatus, epicFilter)
-        .filter((f) => f.id !== draggedFeature.id)
-      const filteredWithoutDragged = filteredFeatures.filter((f) => f.id !== draggedFeature.id)
+      const allFeatures = getFeaturesByStatus(columnId as FeatureStatus, lane)
+        .filter((f) => f.id !== moved.id)
+      const filteredWithoutDragged = filteredFeatures.filter((f) => f.id !== moved.id)
 
       let unfilteredInsertIndex: number
 
@@ -106,11 +132,11 @@ export function KanbanBoard({ onFeatureClick, onAddFeature, onMoveFeature, epicF
         unfilteredInsertIndex = allFeatures.findIndex((f) => f.id === anchorFeature.id)
       }
 
-      onMoveFeature(draggedFeature.id, columnId, unfilteredInsertIndex)
+      onMoveFeature(moved.id, columnId, unfilteredInsertIndex, lane)
       setDraggedFeature(null)
       setDropTarget(null)
     },
-    [draggedFeature, dropTarget, getFilteredFeaturesByStatus, getFeaturesByStatus, onMoveFeature, epicFilter]
+    [draggedFeature, dropTarget, getFilteredFeaturesByStatus, getFeaturesByStatus, onMoveFeature, lane]
   )
 
   const handleDragEnd = useCallback(() => {
@@ -125,18 +151,13 @@ export function KanbanBoard({ onFeatureClick, onAddFeature, onMoveFeature, epicF
 
   const handleMoveAllCards = useCallback(
     (sourceColumnId: string, targetColumnId: string) => {
-      if (epicFilter !== undefined) {
-        vscode.postMessage({
-          type: 'moveAllCards',
-          sourceColumnId,
-          targetColumnId,
-          epicLane: epicFilter
-        })
+      if (lane !== undefined) {
+        vscode.postMessage({ type: 'moveAllCards', sourceColumnId, targetColumnId, lane })
       } else {
         vscode.postMessage({ type: 'moveAllCards', sourceColumnId, targetColumnId })
       }
     },
-    [epicFilter]
+    [lane]
   )
 
   const handleArchiveAllCards = useCallback((sourceColumnId: string) => {
@@ -153,7 +174,7 @@ export function KanbanBoard({ onFeatureClick, onAddFeature, onMoveFeature, epicF
             <CollapsedColumn
               key={column.id}
               column={column}
-              featureCount={getFeaturesByStatus(column.id as FeatureStatus, epicFilter).length}
+              featureCount={getFeaturesByStatus(column.id as FeatureStatus, lane).length}
               onExpand={() => handleToggleCollapse(column.id)}
               onDragOver={handleDragOver}
               onDrop={handleDrop}
@@ -163,13 +184,13 @@ export function KanbanBoard({ onFeatureClick, onAddFeature, onMoveFeature, epicF
             <KanbanColumn
               key={column.id}
               column={column}
-              features={getFilteredFeaturesByStatus(column.id as FeatureStatus, epicFilter)}
+              features={getFilteredFeaturesByStatus(column.id as FeatureStatus, lane)}
               otherColumns={columns.filter((c) => c.id !== column.id)}
-              onFeatureClick={onFeatureClick}
+              onFeatureClick={handleFeatureClick}
               onAddFeature={onAddFeature}
               onCollapse={() => handleToggleCollapse(column.id)}
               onMoveAllCards={(targetColumnId) => handleMoveAllCards(column.id, targetColumnId)}
-              onArchiveAllCards={column.id === 'done' ? () => handleArchiveAllCards(column.id) : undefined}
+              onArchiveAllCards={getColumnCategory(column) === 'done' ? () => handleArchiveAllCards(column.id) : undefined}
               onDragStart={handleDragStart}
               onDragOver={handleDragOver}
               onDragOverCard={handleDragOverCard}
@@ -4,13 +4,14 @@ import { FeatureCard } from './FeatureCard'
 import type { Feature, KanbanColumn as KanbanColumnType } from '../../shared/types'
 import type { LayoutMode } from '../store'
 import type { DropTarget } from './KanbanBoard'
+import { useStore } from '../store'
 import { t } from '../lib/i18n'
 
 interface KanbanColumnProps {
   column: KanbanColumnType
   features: Feature[]
   otherColumns: KanbanColumnType[]
-  onFeatureClick: (feature: Feature) => void
+  onFeatureClick: (feature: Feature, e: React.MouseEvent) => void
   onAddFeature: (status: string) => void
   onCollapse: () => void
   onMoveAllCards: (targetColumnId: string) => void
@@ -47,6 +48,9 @@ export function KanbanColumn({
   const isDropTarget = dropTarget && dropTarget.columnId === column.id
   const [menuOpen, setMenuOpen] = useState(false)
   const [submenuOpen, setSubmenuOpen] = useState(false)
+  // WIP limits count every card in the column, regardless of filters or swim lanes
+  const columnTotal = useStore((s) => s.features.filter((f) => f.status === column.id).length)
+  const overWipLimit = column.wipLimit !== undefined && columnTotal > column.wipLimit
   const menuRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -71,13 +75,26 @@ export function KanbanColumn({
       onDrop={(e) => onDrop(e, column.id)}
     >
       {/* Column Header */}
-      <div className="flex items-center justify-between w-full px-3 py-2 border-b border-zinc-200 dark:border-zinc-700">
+      <div className={`flex items-center justify-between w-full px-3 py-2 border-b ${overWipLimit ? 'border-red-400 bg-red-50 dark:border-red-800 dark:bg-red-950/40 rounded-t-lg' : 'border-zinc-200 dark:border-zinc-700'}`}>
         <div className="flex items-center gap-2">
           <div className="w-2 h-2 rounded-full" style={{ backgroundColor: column.color }} />
-          <h3 className="text-sm font-medium text-zinc-900 dark:text-zinc-100">{column.name}</h3>
-          <span className="text-xs text-zinc-500 dark:text-zinc-400 bg-zinc-200 dark:bg-zinc-700 px-1.5 py-0.5 rounded-full">
-            {features.length}
-          </span>
+          <h3 className={`text-sm font-medium ${overWipLimit ? 'text-red-600 dark:text-red-400' : 'text-zinc-900 dark:text-zinc-100'}`}>{column.name}</h3>
+          {column.wipLimit !== undefined ? (
+            <span
+              className={`text-xs px-1.5 py-0.5 rounded-full ${
+                overWipLimit
+                  ? 'text-white bg-red-600'
+                  : 'text-zinc-500 dark:text-zinc-400 bg-zinc-200 dark:bg-zinc-700'
+              }`}
+              title={t(overWipLimit ? 'column.wipLimitExceeded' : 'column.wipLimit', { count: columnTotal, limit: column.wipLimit })}
+            >
+              {columnTotal}/{column.wipLimit}
+            </span>
+          ) : (
+            <span className="text-xs text-zinc-500 dark:text-zinc-400 bg-zinc-200 dark:bg-zinc-700 px-1.5 py-0.5 rounded-full">
+              {features.length}
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-0.5">
           <button
@@ -167,7 +184,7 @@ export function KanbanColumn({
                 draggedFeature?.id === feature.id ? "opacity-40" : ""
               }`}
             >
-              <FeatureCard feature={feature} onClick={() => onFeatureClick(feature)} />
+              <FeatureCard feature={feature} onClick={(e) => onFeatureClick(feature, e)} />
             </div>
           </div>
         ))}
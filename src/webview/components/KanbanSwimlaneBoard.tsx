@@ -0,0 +1,225 @@
+import { useCallback } from 'react'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+import { KanbanBoard } from './KanbanBoard'
+import { useStore } from '../store'
+import { vscode } from '../vscodeApi'
+import type { Feature, FeatureStatus, SwimlaneGroupBy, SwimlaneLane } from '../../shared/types'
+import { epicThemeFromName } from '../../shared/epicColor'
+import {
+  featureMatchesLane,
+  getGroupByFieldKey,
+  getGroupByLabel,
+  getSwimlaneValues,
+  swimlaneKey
+} from '../../shared/swimlanes'
+import { t } from '../lib/i18n'
+import { cn } from '../lib/utils'
+
+interface KanbanSwimlaneBoardProps {
+  onFeatureClick: (feature: Feature) => void
+  onAddFeature: (status: string) => void
+  onMoveFeature: (featureId: string, newStatus: string, newOrder: number, lane?: SwimlaneLane) => void
+}
+
+const selectClassName =
+  'text-xs bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500 text-zinc-900 dark:text-zinc-100'
+
+export function KanbanSwimlaneBoard({ onFeatureClick, onAddFeature, onMoveFeature }: KanbanSwimlaneBoardProps) {
+  const columns = useStore(s => s.columns)
+  const features = useStore(s => s.features)
+  const customFieldDefs = useStore(s => s.customFieldDefs)
+  const getUniqueLabels = useStore(s => s.getUniqueLabels)
+  const getFilteredFeaturesByStatus = useStore(s => s.getFilteredFeaturesByStatus)
+  const swimlaneGroupBy = useStore(s => s.swimlaneGroupBy)
+  const setSwimlaneGroupBy = useStore(s => s.setSwimlaneGroupBy)
+  const collapsedLanes = useStore(s => s.collapsedLanes)
+  const toggleLaneCollapsed = useStore(s => s.toggleLaneCollapsed)
+  const layout = useStore(s => s.layout)
+  const isDarkMode = useStore(s => s.isDarkMode)
+
+  // Fall back to epics when the grouped custom field has been removed from settings
+  const fieldKey = getGroupByFieldKey(swimlaneGroupBy)
+  const fieldDef = fieldKey !== null ? customFieldDefs.find(d => d.key === fieldKey) : undefined
+  const groupBy: SwimlaneGroupBy = fieldKey !== null && !fieldDef ? 'epic' : swimlaneGroupBy
+  const groupLabel = getGroupByLabel(groupBy)
+  const labels = getUniqueLabels()
+
+  const lanes = getSwimlaneValues(features, groupBy, customFieldDefs)
+
+  const handleGroupByChange = useCallback(
+    (value: SwimlaneGroupBy) => {
+      setSwimlaneGroupBy(value)
+      vscode.postMessage({ type: 'setSwimlaneGroupBy', groupBy: value })
+    },
+    [setSwimlaneGroupBy]
+  )
+
+  const handleToggleLane = useCallback(
+    (laneKey: string) => {
+      toggleLaneCollapsed(laneKey)
+      vscode.postMessage({ type: 'toggleLaneCollapsed', laneKey })
+    },
+    [toggleLaneCollapsed]
+  )
+
+  const getLaneTitle = (value: string | null): string => {
+    if (groupBy === 'priority' && value) return t(`priority.${value}`)
+    if (value !== null) return value
+    if (groupLabel !== null) return t('swimlane.withoutLabel', { label: groupLabel })
+    switch (groupBy) {
+      case 'epic': return t('epic.noEpic')
+      case 'assignee': return t('toolbar.unassigned')
+      default: return t('toolbar.noCustomField', { field: fieldDef?.label ?? '' })
+    }
+  }
+
+  const isVertical = layout === 'vertical'
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-6">
+      <label className="flex items-center gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+        <span>{t('swimlane.groupBy')}</span>
+        <select
+          value={groupBy}
+          onChange={(e) => handleGroupByChange(e.target.value as SwimlaneGroupBy)}
+          className={selectClassName}
+        >
+          <option value="epic">{t('property.epic')}</option>
+          <option value="assignee">{t('property.assignee')}</option>
+          <option value="priority">{t('property.priority')}</option>
+          {labels.length > 0 && (
+            <optgroup label={t('toolbar.labelsGroup')}>
+              {labels.map((l) => (
+                <option key={l} value={`label:${l}`}>{l}</option>
+              ))}
+            </optgroup>
+          )}
+          {customFieldDefs.length > 0 && (
+            <optgroup label={t('swimlane.customFields')}>
+              {customFieldDefs.map((def) => (
+                <option key={def.key} value={`field:${def.key}`}>{def.label}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </label>
+
+      {lanes.length === 0 && (
+        <p className="text-sm" style={{ color: 'var(--vscode-descriptionForeground)' }}>
+          {groupBy === 'epic' ? t('epic.emptyHint') : t('swimlane.emptyHint')}
+        </p>
+      )}
+
+      {lanes.map((value) => {
+        const lane: SwimlaneLane = { groupBy, value }
+        const laneKey = swimlaneKey(lane)
+        const collapsed = collapsedLanes.has(laneKey)
+        const total = features.filter((f) => featureMatchesLane(f, lane)).length
+
+        const laneTheme = value ? epicThemeFromName(value, isDarkMode) : null
+
+        return (
+          <section
+            key={laneKey}
+            className={cn(
+              'rounded-lg overflow-hidden bg-zinc-50/50 dark:bg-zinc-900/30',
+              !laneTheme && 'border border-zinc-200 dark:border-zinc-700'
+            )}
+            style={
+              laneTheme
+                ? {
+                    borderWidth: 2,
+                    borderStyle: 'solid',
+                    borderColor: laneTheme.border
+                  }
+                : undefined
+            }
+          >
+            <button
+              type="button"
+              onClick={() => handleToggleLane(laneKey)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-left transition-colors hover:bg-zinc-100/80 dark:hover:bg-zinc-800/60"
+            >
+              {collapsed ? (
+                <ChevronRight
+                  size={16}
+                  className={laneTheme ? undefined : 'text-zinc-500 dark:text-zinc-400'}
+                  style={laneTheme ? { color: laneTheme.foreground } : undefined}
+                />
+              ) : (
+                <ChevronDown
+                  size={16}
+                  className={laneTheme ? undefined : 'text-zinc-500 dark:text-zinc-400'}
+                  style={laneTheme ? { color: laneTheme.foreground } : undefined}
+                />
+              )}
+              <span
+                className={cn('text-sm font-semibold', !laneTheme && 'text-zinc-900 dark:text-zinc-100')}
+                style={laneTheme ? { color: laneTheme.foreground } : undefined}
+              >
+                {getLaneTitle(value)}
+              </span>
+              <span
+                className="text-xs px-1.5 py-0.5 rounded-full"
+                style={{
+                  background: 'var(--vscode-badge-background)',
+                  color: 'var(--vscode-badge-foreground)',
+                }}
+              >
+                {total}
+              </span>
+            </button>
+
+            {collapsed ? (
+              <CollapsedLaneSummary
+                columns={columns}
+                lane={lane}
+                getFilteredFeaturesByStatus={getFilteredFeaturesByStatus}
+                accentBorder={laneTheme?.border}
+              />
+            ) : (
+              <div className={isVertical ? 'min-h-[200px]' : 'min-h-[280px]'}>
+                <KanbanBoard
+                  lane={lane}
+                  onFeatureClick={onFeatureClick}
+                  onAddFeature={onAddFeature}
+                  onMoveFeature={onMoveFeature}
+                />
+              </div>
+            )}
+          </section>
+        )
+      })}
+    </div>
+  )
+}
+
+function CollapsedLaneSummary({
+  columns,
+  lane,
+  getFilteredFeaturesByStatus,
+  accentBorder
+}: {
+  columns: { id: string; name: string; color: string }[]
+  lane: SwimlaneLane
+  getFilteredFeaturesByStatus: (status: FeatureStatus, lane?: SwimlaneLane) => Feature[]
+  accentBorder?: string
+}) {
+  return (
+    <div
+      className={cn('px-3 py-2 flex flex-wrap gap-x-3 gap-y-1 border-t', !accentBorder && 'border-zinc-200 dark:border-zinc-700')}
+      style={accentBorder ? { borderTopColor: accentBorder } : undefined}
+    >
+      {columns.map((col) => {
+        const n = getFilteredFeaturesByStatus(col.id as FeatureStatus, lane).length
+        return (
+          <span key={col.id} className="inline-flex items-center gap-1 text-xs text-zinc-600 dark:text-zinc-400">
+            <span className="w-1.5 h-1.5 rounded-full shrink-0" style={{ backgroundColor: col.color }} />
+            <span className="font-medium text-zinc-700 dark:text-zinc-300">{col.name}</span>
+            <span className="tabular-nums">{n}</span>
+          </span>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,223 @@
+import { useState } from 'react'
+import type { Feature, KanbanColumn } from '../../shared/types'
+import { getTitleFromContent } from '../../shared/types'
+import { useStore } from '../store'
+import { t } from '../lib/i18n'
+import {
+  DURATION_BUCKETS,
+  filterMetricsFeatures,
+  getAgingWip,
+  getCumulativeFlow,
+  getCycleTimeDays,
+  getDurationHistogram,
+  getLeadTimeDays,
+  getWeeklyThroughput,
+  stackCumulativeFlow,
+  summarizeDurations,
+  type CumulativeFlowPoint,
+  type MetricsFilter
+} from '../lib/metrics'
+
+interface MetricsViewProps {
+  onFeatureClick: (feature: Feature) => void
+}
+
+const FLOW_DAYS = 30
+const THROUGHPUT_WEEKS = 12
+
+const selectClassName =
+  'text-xs bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500 text-zinc-900 dark:text-zinc-100'
+
+const BUCKET_LABELS = [
+  `<${DURATION_BUCKETS[0]}`,
+  ...DURATION_BUCKETS.slice(1).map((bound, i) => `${DURATION_BUCKETS[i]}–${bound}`),
+  `${DURATION_BUCKETS[DURATION_BUCKETS.length - 1]}+`
+]
+
+function formatDays(days: number | null): string {
+  return days === null ? '—' : t('metrics.days', { count: days < 10 ? days.toFixed(1) : Math.round(days) })
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="rounded-lg border border-zinc-200 dark:border-zinc-700 p-3">
+      <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">{title}</h3>
+      {children}
+    </section>
+  )
+}
+
+function EmptyState() {
+  return <p className="text-xs text-zinc-400 dark:text-zinc-500">{t('metrics.noData')}</p>
+}
+
+// Stacked areas with done columns at the bottom, as cumulative flow diagrams are usually drawn
+function CumulativeFlowChart({ points, columns }: { points: CumulativeFlowPoint[]; columns: KanbanColumn[] }) {
+  const width = 600
+  const height = 160
+  const max = Math.max(1, ...points.map((p) => Object.values(p.counts).reduce((a, b) => a + b, 0)))
+  const x = (i: number) => (points.length === 1 ? width : (i / (points.length - 1)) * width)
+  const y = (v: number) => height - (v / max) * height
+
+  const bands = stackCumulativeFlow(points, [...columns].reverse().map((c) => c.id))
+  const layers = bands.map(({ columnId, lower, upper }) => {
+    const top = upper.map((v, i) => `${x(i)},${y(v)}`)
+    const bottom = lower.map((v, i) => `${x(i)},${y(v)}`).reverse()
+    return { column: columns.find((c) => c.id === columnId)!, path: `M${top.join(' L')} L${bottom.join(' L')} Z` }
+  })
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-40" role="img" aria-label={t('metrics.cumulativeFlow')}>
+        {layers.map(({ column, path }) => (
+          <path key={column.id} d={path} fill={column.color} fillOpacity={0.75} stroke={column.color} strokeWidth={1} />
+        ))}
+      </svg>
+      <div className="flex justify-between text-[10px] text-zinc-400 dark:text-zinc-500">
+        <span>{points[0]?.date}</span>
+        <span>{points[points.length - 1]?.date}</span>
+      </div>
+      <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1">
+        {columns.map((column) => (
+          <span key={column.id} className="inline-flex items-center gap-1 text-xs text-zinc-600 dark:text-zinc-400">
+            <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: column.color }} />
+            {column.name}
+            <span className="tabular-nums text-zinc-400">{points[points.length - 1]?.counts[column.id] ?? 0}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function BarChart({ bars }: { bars: { label: string; value: number }[] }) {
+  const max = Math.max(1, ...bars.map((b) => b.value))
+  return (
+    <div className="flex items-end gap-1 h-28">
+      {bars.map((bar, i) => (
+        <div key={i} className="flex-1 h-full flex flex-col items-center justify-end gap-0.5 min-w-0" title={`${bar.label}: ${bar.value}`}>
+          <span className="text-[10px] tabular-nums text-zinc-500 dark:text-zinc-400">{bar.value || ''}</span>
+          <div className="w-full rounded-t bg-blue-500/70" style={{ height: `${(bar.value / max) * 100}%` }} />
+          <span className="text-[10px] text-zinc-400 dark:text-zinc-500 truncate max-w-full">{bar.label}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function DurationSection({ title, values }: { title: string; values: number[] }) {
+  const summary = summarizeDurations(values)
+  return (
+    <Section title={title}>
+      {summary.count === 0 ? (
+        <EmptyState />
+      ) : (
+        <>
+          <p className="mb-2 text-xs text-zinc-600 dark:text-zinc-300">
+            {t('metrics.durationSummary', {
+              median: formatDays(summary.median),
+              p85: formatDays(summary.p85),
+              count: summary.count
+            })}
+          </p>
+          <BarChart bars={getDurationHistogram(values).map((value, i) => ({ label: BUCKET_LABELS[i], value }))} />
+          <p className="mt-1 text-[10px] text-center text-zinc-400 dark:text-zinc-500">{t('metrics.daysAxis')}</p>
+        </>
+      )}
+    </Section>
+  )
+}
+
+export function MetricsView({ onFeatureClick }: MetricsViewProps) {
+  const allFeatures = useStore((s) => s.features)
+  const columns = useStore((s) => s.columns)
+  const locale = useStore((s) => s.locale)
+  const getUniqueEpics = useStore((s) => s.getUniqueEpics)
+  const getUniqueAssignees = useStore((s) => s.getUniqueAssignees)
+  const getUniqueLabels = useStore((s) => s.getUniqueLabels)
+  const [filter, setFilter] = useState<MetricsFilter>({ epic: 'all', assignee: 'all', label: 'all' })
+
+  const features = filterMetricsFeatures(allFeatures, filter)
+  const flow = getCumulativeFlow(features, columns, FLOW_DAYS)
+  const leadTimes = features.map((f) => getLeadTimeDays(f, columns)).filter((d): d is number => d !== null)
+  const cycleTimes = features.map((f) => getCycleTimeDays(f, columns)).filter((d): d is number => d !== null)
+  const throughput = getWeeklyThroughput(features, columns, THROUGHPUT_WEEKS)
+  const aging = getAgingWip(features, columns)
+
+  const formatWeek = (key: string) =>
+    new Date(`${key}T00:00:00`).toLocaleDateString(locale, { month: 'short', day: 'numeric' })
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filter.epic}
+          onChange={(e) => setFilter({ ...filter, epic: e.target.value })}
+          aria-label={t('property.epic')}
+          className={selectClassName}
+        >
+          <option value="all">{t('metrics.allEpics')}</option>
+          {getUniqueEpics().map((epic) => <option key={epic} value={epic}>{epic}</option>)}
+        </select>
+        <select
+          value={filter.assignee}
+          onChange={(e) => setFilter({ ...filter, assignee: e.target.value })}
+          aria-label={t('property.assignee')}
+          className={selectClassName}
+        >
+          <option value="all">{t('toolbar.allAssignees')}</option>
+          {getUniqueAssignees().map((a) => <option key={a} value={a}>{a}</option>)}
+        </select>
+        <select
+          value={filter.label}
+          onChange={(e) => setFilter({ ...filter, label: e.target.value })}
+          aria-label={t('property.labels')}
+          className={selectClassName}
+        >
+          <option value="all">{t('toolbar.allLabels')}</option>
+          {getUniqueLabels().map((l) => <option key={l} value={l}>{l}</option>)}
+        </select>
+        <span className="ml-auto text-xs text-zinc-500 dark:text-zinc-400">
+          {t('table.rowCount', { count: features.length })}
+        </span>
+      </div>
+
+      <Section title={t('metrics.cumulativeFlow')}>
+        {features.length === 0 ? <EmptyState /> : <CumulativeFlowChart points={flow} columns={columns} />}
+      </Section>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <DurationSection title={t('metrics.leadTime')} values={leadTimes} />
+        <DurationSection title={t('metrics.cycleTime')} values={cycleTimes} />
+      </div>
+
+      <Section title={t('metrics.throughput')}>
+        <BarChart bars={throughput.map((week) => ({ label: formatWeek(week.weekStart), value: week.count }))} />
+      </Section>
+
+      <Section title={t('metrics.agingWip')}>
+        {aging.length === 0 ? (
+          <EmptyState />
+        ) : (
+          <ul className="divide-y divide-zinc-100 dark:divide-zinc-800">
+            {aging.map(({ feature, days }) => (
+              <li key={feature.id} className="flex items-center gap-2 py-1 text-xs">
+                <button
+                  type="button"
+                  onClick={() => onFeatureClick(feature)}
+                  className="flex-1 min-w-0 truncate text-left text-zinc-800 dark:text-zinc-200 hover:underline"
+                >
+                  {getTitleFromContent(feature.content)}
+                </button>
+                <span className="text-zinc-500 dark:text-zinc-400">
+                  {columns.find((c) => c.id === feature.status)?.name ?? feature.status}
+                </span>
+                <span className="w-14 text-right tabular-nums text-zinc-700 dark:text-zinc-300">{formatDays(days)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+    </div>
+  )
+}
@@ -0,0 +1,317 @@
+import { useState, useRef, useEffect } from 'react'
+import { ArrowDown, ArrowUp, Columns3 } from 'lucide-react'
+import type { Feature, Priority, TableColumnKey } from '../../shared/types'
+import { TABLE_COLUMNS, getTitleFromContent } from '../../shared/types'
+import { useStore } from '../store'
+import { vscode } from '../vscodeApi'
+import { cn, getStatusOptions } from '../lib/utils'
+import { parseLabelsInput, sortFeatures, type TableSort } from '../lib/table'
+import { t } from '../lib/i18n'
+
+interface TableViewProps {
+  onFeatureClick: (feature: Feature) => void
+  onUpdateFeature: (featureId: string, updates: Partial<Feature>) => void
+}
+
+const priorities: Priority[] = ['critical', 'high', 'medium', 'low']
+
+function getColumnLabel(column: TableColumnKey): string {
+  switch (column) {
+    case 'title': return t('table.title')
+    case 'status': return t('property.status')
+    case 'priority': return t('property.priority')
+    case 'assignee': return t('property.assignee')
+    case 'epic': return t('property.epic')
+    case 'labels': return t('property.labels')
+    case 'dueDate': return t('property.dueDate')
+    case 'created': return t('table.created')
+    case 'modified': return t('table.modified')
+    case 'completedAt': return t('table.completedAt')
+  }
+}
+
+const inputClassName = 'w-full bg-transparent border-none outline-none text-xs text-zinc-800 dark:text-zinc-200'
+
+// Text cell that turns into an input on click; Enter or blur commits, Escape cancels
+function EditableTextCell({ value, onCommit }: { value: string; onCommit: (value: string) => void }) {
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState(value)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (editing) inputRef.current?.select()
+  }, [editing])
+
+  if (!editing) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setDraft(value)
+          setEditing(true)
+        }}
+        className="w-full min-h-[1.25rem] text-left truncate text-zinc-700 dark:text-zinc-300"
+      >
+        {value || <span className="text-zinc-400 dark:text-zinc-600">—</span>}
+      </button>
+    )
+  }
+
+  const commit = () => {
+    setEditing(false)
+    if (draft.trim() !== value) onCommit(draft.trim())
+  }
+
+  return (
+    <input
+      ref={inputRef}
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit()
+        if (e.key === 'Escape') setEditing(false)
+      }}
+      className={inputClassName}
+    />
+  )
+}
+
+export function TableView({ onFeatureClick, onUpdateFeature }: TableViewProps) {
+  const getFilteredFeatures = useStore((s) => s.getFilteredFeatures)
+  const columns = useStore((s) => s.columns)
+  const locale = useStore((s) => s.locale)
+  const hiddenTableColumns = useStore((s) => s.hiddenTableColumns)
+  const toggleTableColumn = useStore((s) => s.toggleTableColumn)
+  const [sort, setSort] = useState<TableSort | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [lastSelectedId, setLastSelectedId] = useState<string | null>(null)
+  const [columnMenuOpen, setColumnMenuOpen] = useState(false)
+
+  const filtered = getFilteredFeatures()
+  const rows = sort ? sortFeatures(filtered, sort, columns) : filtered
+  const visibleColumns = TABLE_COLUMNS.filter((c) => c === 'title' || !hiddenTableColumns.includes(c))
+  const visibleIds = rows.map((f) => f.id)
+  const selectedVisible = visibleIds.filter((id) => selectedIds.has(id))
+  const allSelected = rows.length > 0 && selectedVisible.length === rows.length
+
+  const handleSort = (column: TableColumnKey) => {
+    // asc → desc → board order
+    setSort((prev) => {
+      if (!prev || prev.column !== column) return { column, direction: 'asc' }
+      if (prev.direction === 'asc') return { column, direction: 'desc' }
+      return null
+    })
+  }
+
+  const handleToggleColumn = (column: TableColumnKey) => {
+    toggleTableColumn(column)
+    vscode.postMessage({ type: 'setHiddenTableColumns', columns: useStore.getState().hiddenTableColumns })
+  }
+
+  // Shift-click selects the range from the last toggled row
+  const handleSelectRow = (featureId: string, shiftKey: boolean) => {
+    const next = new Set(selectedIds)
+    const anchorIndex = lastSelectedId ? visibleIds.indexOf(lastSelectedId) : -1
+    if (shiftKey && anchorIndex >= 0) {
+      const index = visibleIds.indexOf(featureId)
+      const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex]
+      for (const id of visibleIds.slice(from, to + 1)) next.add(id)
+    } else if (next.has(featureId)) {
+      next.delete(featureId)
+    } else {
+      next.add(featureId)
+    }
+    setSelectedIds(next)
+    setLastSelectedId(featureId)
+  }
+
+  const handleSelectAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(visibleIds))
+  }
+
+  const formatDate = (value: string | null) =>
+    value ? new Date(value).toLocaleDateString(locale, { year: 'numeric', month: 'short', day: 'numeric' }) : ''
+
+  const renderCell = (feature: Feature, column: TableColumnKey) => {
+    switch (column) {
+      case 'title':
+        return (
+          <button
+            type="button"
+            onClick={() => onFeatureClick(feature)}
+            className="w-full text-left truncate font-medium text-zinc-900 dark:text-zinc-100 hover:underline"
+          >
+            {getTitleFromContent(feature.content)}
+          </button>
+        )
+      case 'status':
+        return (
+          <select
+            value={feature.status}
+            onChange={(e) => onUpdateFeature(feature.id, { status: e.target.value })}
+            aria-label={t('property.status')}
+            className={cn(inputClassName, 'cursor-pointer')}
+          >
+            {getStatusOptions(columns, feature.status).map((o) => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+        )
+      case 'priority':
+        return (
+          <select
+            value={feature.priority}
+            onChange={(e) => onUpdateFeature(feature.id, { priority: e.target.value as Priority })}
+            aria-label={t('property.priority')}
+            className={cn(inputClassName, 'cursor-pointer')}
+          >
+            {priorities.map((p) => (
+              <option key={p} value={p}>{t(`priority.${p}`)}</option>
+            ))}
+          </select>
+        )
+      case 'assignee':
+        return <EditableTextCell value={feature.assignee ?? ''} onCommit={(v) => onUpdateFeature(feature.id, { assignee: v || null })} />
+      case 'epic':
+        return <EditableTextCell value={feature.epic ?? ''} onCommit={(v) => onUpdateFeature(feature.id, { epic: v || null })} />
+      case 'labels':
+        return (
+          <EditableTextCell
+            value={feature.labels.join(', ')}
+            onCommit={(v) => onUpdateFeature(feature.id, { labels: parseLabelsInput(v) })}
+          />
+        )
+      case 'dueDate':
+        return (
+          <input
+            type="date"
+            value={feature.dueDate?.slice(0, 10) ?? ''}
+            onChange={(e) => onUpdateFeature(feature.id, { dueDate: e.target.value || null })}
+            aria-label={t('property.dueDate')}
+            className={inputClassName}
+          />
+        )
+      default:
+        return <span className="text-zinc-500 dark:text-zinc-400 whitespace-nowrap">{formatDate(feature[column])}</span>
+    }
+  }
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 text-xs border-b border-zinc-200 dark:border-zinc-700">
+        <span className="text-zinc-500 dark:text-zinc-400">
+          {selectedVisible.length > 0
+            ? t('table.selected', { count: selectedVisible.length })
+            : t('table.rowCount', { count: rows.length })}
+        </span>
+        {selectedVisible.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setSelectedIds(new Set())}
+            className="text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {t('table.clearSelection')}
+          </button>
+        )}
+        <div className="relative ml-auto">
+          <button
+            type="button"
+            onClick={() => setColumnMenuOpen(!columnMenuOpen)}
+            className="flex items-center gap-1 px-2 py-1 rounded text-zinc-500 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800"
+          >
+            <Columns3 size={14} />
+            <span>{t('table.columns')}</span>
+          </button>
+          {columnMenuOpen && (
+            <>
+              <div className="fixed inset-0 z-10" onClick={() => setColumnMenuOpen(false)} />
+              <div className="absolute right-0 top-full mt-1 z-20 min-w-[160px] py-1 rounded-lg shadow-lg bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700">
+                {TABLE_COLUMNS.filter((c) => c !== 'title').map((column) => (
+                  <label
+                    key={column}
+                    className="flex items-center gap-2 px-3 py-1 text-xs cursor-pointer text-zinc-700 dark:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={!hiddenTableColumns.includes(column)}
+                      onChange={() => handleToggleColumn(column)}
+                    />
+                    {getColumnLabel(column)}
+                  </label>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        <table className="w-full text-xs border-collapse">
+          <thead className="sticky top-0 z-[1] bg-zinc-50 dark:bg-zinc-900">
+            <tr>
+              <th className="w-8 px-2 py-1.5 border-b border-zinc-200 dark:border-zinc-700">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={handleSelectAll}
+                  aria-label={t('table.selectAll')}
+                />
+              </th>
+              {visibleColumns.map((column) => (
+                <th
+                  key={column}
+                  className={cn(
+                    'px-2 py-1.5 text-left font-medium border-b border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-300 whitespace-nowrap',
+                    column === 'title' && 'min-w-[240px]'
+                  )}
+                >
+                  <button
+                    type="button"
+                    onClick={() => handleSort(column)}
+                    className="inline-flex items-center gap-1 hover:text-zinc-900 dark:hover:text-zinc-100"
+                  >
+                    {getColumnLabel(column)}
+                    {sort?.column === column && (sort.direction === 'asc' ? <ArrowUp size={11} /> : <ArrowDown size={11} />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((feature) => (
+              <tr
+                key={feature.id}
+                className={cn(
+                  'border-b border-zinc-100 dark:border-zinc-800',
+                  selectedIds.has(feature.id)
+                    ? 'bg-blue-50 dark:bg-blue-950/30'
+                    : 'hover:bg-zinc-50 dark:hover:bg-zinc-800/50'
+                )}
+              >
+                <td className="px-2 py-1">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(feature.id)}
+                    onChange={() => {}}
+                    onClick={(e) => handleSelectRow(feature.id, e.shiftKey)}
+                    aria-label={getTitleFromContent(feature.content)}
+                  />
+                </td>
+                {visibleColumns.map((column) => (
+                  <td key={column} className="px-2 py-1 max-w-[240px]">
+                    {renderCell(feature, column)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <div className="py-8 text-center text-sm text-zinc-400 dark:text-zinc-500">{t('table.empty')}</div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,9 @@
-import { Search, X, Columns, Rows, Settings, Tags, Layers } from 'lucide-react'
+import { Search, X, Columns, Rows, Settings, Tags, Layers, CalendarDays, Table2, ChartArea, Archive } from 'lucide-react'
 import { useStore, type DueDateFilter } from '../store'
 import type { BoardViewMode, Priority } from '../../shared/types'
 import { useState } from 'react'
 import { LabelManager } from './LabelManager'
+import { vscode } from '../vscodeApi'
 import { t } from '../lib/i18n'
 
 function getPriorities(): { value: Priority | 'all'; label: string }[] {
@@ -48,13 +49,23 @@ export function Toolbar({
     setLabelFilter,
     dueDateFilter,
     setDueDateFilter,
+    customFieldDefs,
+    customFieldFilters,
+    setCustomFieldFilter,
+    getUniqueCustomFieldValues,
     clearAllFilters,
     getUniqueAssignees,
     getUniqueLabels,
     hasActiveFilters,
     layout,
     toggleLayout,
-    cardSettings
+    cardSettings,
+    workspaceFolders,
+    boardFolder,
+    setBoardFolder,
+    boards,
+    board,
+    setBoards
   } = useStore()
 
   const priorities = getPriorities()
@@ -150,6 +161,28 @@ export function Toolbar({
         </select>
       )}
 
+      {/* Custom Field Filters */}
+      {customFieldDefs.map((def) => {
+        const values = def.type === 'enum' ? def.options ?? [] : getUniqueCustomFieldValues(def.key)
+        return (
+          <select
+            key={def.key}
+            value={customFieldFilters[def.key] ?? 'all'}
+            onChange={(e) => setCustomFieldFilter(def.key, e.target.value)}
+            className={selectClassName}
+            title={def.label}
+          >
+            <option value="all">{t('toolbar.allCustomField', { field: def.label })}</option>
+            <option value="__none__">{t('toolbar.noCustomField', { field: def.label })}</option>
+            {values.map((v) => (
+              <option key={v} value={v}>
+                {v}
+              </option>
+            ))}
+          </select>
+        )
+      })}
+
       {/* Clear Filters Button */}
       {filtersActive && (
         <button
@@ -162,6 +195,42 @@ export function Toolbar({
         </button>
       )}
 
+      {/* Board switcher (boards setting) */}
+      {boards.length > 1 && (
+        <select
+          value={board ?? ''}
+          onChange={(e) => {
+            setBoards(boards, e.target.value)
+            vscode.postMessage({ type: 'switchBoard', board: e.target.value })
+          }}
+          aria-label={t('toolbar.board')}
+          title={t('toolbar.board')}
+          className={selectClassName}
+        >
+          {boards.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+      )}
+
+      {/* Board folder (multi-root workspaces) */}
+      {workspaceFolders.length > 1 && (
+        <select
+          value={boardFolder ?? ''}
+          onChange={(e) => {
+            setBoardFolder(e.target.value)
+            vscode.postMessage({ type: 'setBoardFolder', folder: e.target.value })
+          }}
+          aria-label={t('toolbar.boardFolder')}
+          title={t('toolbar.boardFolder')}
+          className={selectClassName}
+        >
+          {workspaceFolders.map((folder) => (
+            <option key={folder.uri} value={folder.uri}>{folder.name}</option>
+          ))}
+        </select>
+      )}
+
       {/* Layout Toggle */}
       <button
         onClick={toggleLayout}
@@ -171,20 +240,76 @@ export function Toolbar({
         {layout === 'horizontal' ? <Rows size={16} /> : <Columns size={16} />}
       </button>
 
-      {/* Board: standard columns vs epic swim lanes */}
+      {/* Board: standard columns vs swim lanes */}
       <button
         type="button"
-        onClick={() => onBoardViewModeChange(boardViewMode === 'standard' ? 'epic' : 'standard')}
+        onClick={() => onBoardViewModeChange(boardViewMode === 'swimlanes' ? 'standard' : 'swimlanes')}
         className={`flex items-center gap-1 px-2 py-1.5 text-sm rounded-md transition-colors ${
-          boardViewMode === 'epic'
+          boardViewMode === 'swimlanes'
             ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-950/40'
             : 'text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800'
         }`}
-        title={boardViewMode === 'standard' ? t('toolbar.epicBoardView') : t('toolbar.standardBoardView')}
+        title={boardViewMode === 'swimlanes' ? t('toolbar.standardBoardView') : t('toolbar.swimlaneView')}
       >
         <Layers size={16} />
       </button>
 
+      {/* Calendar: cards placed on their due dates */}
+      <button
+        type="button"
+        onClick={() => onBoardViewModeChange(boardViewMode === 'calendar' ? 'standard' : 'calendar')}
+        className={`flex items-center gap-1 px-2 py-1.5 text-sm rounded-md transition-colors ${
+          boardViewMode === 'calendar'
+            ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-950/40'
+            : 'text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800'
+        }`}
+        title={boardViewMode === 'calendar' ? t('toolbar.standardBoardView') : t('toolbar.calendarView')}
+      >
+        <CalendarDays size={16} />
+      </button>
+
+      {/* Table: one sortable row per card */}
+      <button
+        type="button"
+        onClick={() => onBoardViewModeChange(boardViewMode === 'table' ? 'standard' : 'table')}
+        className={`flex items-center gap-1 px-2 py-1.5 text-sm rounded-md transition-colors ${
+          boardViewMode === 'table'
+            ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-950/40'
+            : 'text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800'
+        }`}
+        title={boardViewMode === 'table' ? t('toolbar.standardBoardView') : t('toolbar.tableView')}
+      >
+        <Table2 size={16} />
+      </button>
+
+      {/* Metrics: flow, lead/cycle time, throughput and aging charts */}
+      <button
+        type="button"
+        onClick={() => onBoardViewModeChange(boardViewMode === 'metrics' ? 'standard' : 'metrics')}
+        className={`flex items-center gap-1 px-2 py-1.5 text-sm rounded-md transition-colors ${
+          boardViewMode === 'metrics'
+            ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-950/40'
+            : 'text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800'
+        }`}
+        title={boardViewMode === 'metrics' ? t('toolbar.standardBoardView') : t('toolbar.metricsView')}
+      >
+        <ChartArea size={16} />
+      </button>
+
+      {/* Archive: cards moved to the archived/ folder */}
+      <button
+        type="button"
+        onClick={() => onBoardViewModeChange(boardViewMode === 'archive' ? 'standard' : 'archive')}
+        className={`flex items-center gap-1 px-2 py-1.5 text-sm rounded-md transition-colors ${
+          boardViewMode === 'archive'
+            ? 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-950/40'
+            : 'text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800'
+        }`}
+        title={boardViewMode === 'archive' ? t('toolbar.standardBoardView') : t('toolbar.archiveView')}
+      >
+        <Archive size={16} />
+      </button>
+
       {/* Manage Labels */}
       {cardSettings.showLabels && labels.length > 0 && (
         <div className="relative">
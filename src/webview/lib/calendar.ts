@@ -0,0 +1,56 @@
+import { t } from './i18n'
+
+export type CalendarMode = 'month' | 'week'
+
+// Weeks start on Monday, matching the DatePicker
+export function getWeekdayNames(): string[] {
+  return [t('date.day.mo'), t('date.day.tu'), t('date.day.we'), t('date.day.th'), t('date.day.fr'), t('date.day.sa'), t('date.day.su')]
+}
+
+export function getMonthNames(): string[] {
+  return [t('date.month.january'), t('date.month.february'), t('date.month.march'), t('date.month.april'), t('date.month.may'), t('date.month.june'), t('date.month.july'), t('date.month.august'), t('date.month.september'), t('date.month.october'), t('date.month.november'), t('date.month.december')]
+}
+
+/** Local `YYYY-MM-DD` key for a date, the format `dueDate` is stored in. */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+/** The day a due date falls on, ignoring any time part; null when unset or unreadable. */
+export function getDueDateKey(dueDate: string | null): string | null {
+  const match = dueDate?.match(/^\d{4}-\d{2}-\d{2}/)
+  return match ? match[0] : null
+}
+
+export function startOfWeek(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+  return start
+}
+
+/**
+ * Days shown for the view around `anchor`: the Monday–Sunday week containing it,
+ * or every full week overlapping its month.
+ */
+export function getCalendarDays(anchor: Date, mode: CalendarMode): Date[] {
+  const first = mode === 'week' ? startOfWeek(anchor) : startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1))
+  const last = mode === 'week'
+    ? new Date(first.getFullYear(), first.getMonth(), first.getDate() + 6)
+    : new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0)
+
+  const days: Date[] = []
+  const day = new Date(first)
+  while (day <= last || days.length % 7 !== 0) {
+    days.push(new Date(day))
+    day.setDate(day.getDate() + 1)
+  }
+  return days
+}
+
+/** Moves the anchor by `delta` months or weeks. Month steps land on the 1st to avoid overflow. */
+export function shiftAnchor(anchor: Date, mode: CalendarMode, delta: number): Date {
+  if (mode === 'week') {
+    return new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + delta * 7)
+  }
+  return new Date(anchor.getFullYear(), anchor.getMonth() + delta, 1)
+}
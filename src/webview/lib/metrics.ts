@@ -0,0 +1,178 @@
+import type { Feature, KanbanColumn, StatusTransition } from '../../shared/types'
+import { getStatusCategory, isDoneStatus } from '../../shared/statuses'
+import { startOfWeek, toDateKey } from './calendar'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface MetricsFilter {
+  epic: string | 'all'
+  assignee: string | 'all'
+  label: string | 'all'
+}
+
+export interface CumulativeFlowPoint {
+  /** `YYYY-MM-DD` */
+  date: string
+  /** Cards in each column at the end of the day, keyed by column id */
+  counts: Record<string, number>
+}
+
+export interface ThroughputWeek {
+  /** `YYYY-MM-DD` of the Monday starting the week */
+  weekStart: string
+  count: number
+}
+
+export interface AgingItem {
+  feature: Feature
+  days: number
+}
+
+export interface DurationSummary {
+  count: number
+  median: number | null
+  p85: number | null
+}
+
+/** Upper bounds (in days) of the duration histogram buckets; the last bucket is open-ended. */
+export const DURATION_BUCKETS = [1, 3, 7, 14, 28] as const
+
+export function filterMetricsFeatures(features: Feature[], filter: MetricsFilter): Feature[] {
+  return features.filter((f) => {
+    if (filter.epic !== 'all' && (f.epic?.trim() || null) !== filter.epic) return false
+    if (filter.assignee !== 'all' && f.assignee !== filter.assignee) return false
+    if (filter.label !== 'all' && !f.labels.includes(filter.label)) return false
+    return true
+  })
+}
+
+/**
+ * Status transitions of a feature, oldest first. Features without a recorded
+ * history are treated as having been in their current status since creation.
+ */
+export function getStatusHistory(feature: Feature): StatusTransition[] {
+  if (feature.statusHistory && feature.statusHistory.length > 0) return feature.statusHistory
+  return [{ status: feature.status, at: feature.created }]
+}
+
+function daysBetween(from: string, to: string): number | null {
+  const start = Date.parse(from)
+  const end = Date.parse(to)
+  if (Number.isNaN(start) || Number.isNaN(end)) return null
+  return Math.max(0, (end - start) / DAY_MS)
+}
+
+/** Days from creation to completion, or null for unfinished features. */
+export function getLeadTimeDays(feature: Feature, columns: KanbanColumn[]): number | null {
+  if (!feature.completedAt || !isDoneStatus(feature.status, columns)) return null
+  return daysBetween(feature.created, feature.completedAt)
+}
+
+/** Days from first entering an active column to completion, or null when either is missing. */
+export function getCycleTimeDays(feature: Feature, columns: KanbanColumn[]): number | null {
+  if (!feature.completedAt || !isDoneStatus(feature.status, columns)) return null
+  const started = getStatusHistory(feature).find((t) => getStatusCategory(t.status, columns) === 'active')
+  return started ? daysBetween(started.at, feature.completedAt) : null
+}
+
+/** Median and 85th percentile (nearest rank) of a set of durations. */
+export function summarizeDurations(values: number[]): DurationSummary {
+  if (values.length === 0) return { count: 0, median: null, p85: null }
+  const sorted = [...values].sort((a, b) => a - b)
+  const percentile = (p: number) => sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)]
+  return { count: sorted.length, median: percentile(0.5), p85: percentile(0.85) }
+}
+
+/** Counts of durations per `DURATION_BUCKETS` bucket, plus one for anything longer. */
+export function getDurationHistogram(values: number[]): number[] {
+  const counts: number[] = new Array(DURATION_BUCKETS.length + 1).fill(0)
+  for (const value of values) {
+    const index = DURATION_BUCKETS.findIndex((bound) => value < bound)
+    counts[index === -1 ? DURATION_BUCKETS.length : index]++
+  }
+  return counts
+}
+
+/** Status of a feature at a point in time, or null if it did not exist yet. */
+export function getStatusAt(feature: Feature, time: number): string | null {
+  let status: string | null = null
+  for (const transition of getStatusHistory(feature)) {
+    if (Date.parse(transition.at) > time) break
+    status = transition.status
+  }
+  return status
+}
+
+/**
+ * Cards per column at the end of each of the last `days` days, ending today.
+ * Statuses without a matching column are left out.
+ */
+export function getCumulativeFlow(
+  features: Feature[],
+  columns: KanbanColumn[],
+  days: number,
+  now: Date = new Date()
+): CumulativeFlowPoint[] {
+  const points: CumulativeFlowPoint[] = []
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() - offset)
+    const endOfDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime() - 1
+    const counts: Record<string, number> = Object.fromEntries(columns.map((c) => [c.id, 0]))
+    for (const feature of features) {
+      const status = getStatusAt(feature, endOfDay)
+      if (status !== null && status in counts) counts[status]++
+    }
+    points.push({ date: toDateKey(day), counts })
+  }
+  return points
+}
+
+/**
+ * Stacks cumulative flow counts into bands, one per column id in the given
+ * order (first at the bottom). Each band holds its lower and upper edge per point.
+ */
+export function stackCumulativeFlow(
+  points: CumulativeFlowPoint[],
+  columnIds: string[]
+): { columnId: string; lower: number[]; upper: number[] }[] {
+  const bands: { columnId: string; lower: number[]; upper: number[] }[] = []
+  for (const columnId of columnIds) {
+    const lower = bands.length > 0 ? bands[bands.length - 1].upper : points.map(() => 0)
+    bands.push({ columnId, lower, upper: lower.map((base, i) => base + (points[i].counts[columnId] ?? 0)) })
+  }
+  return bands
+}
+
+/** Completed features per week for the last `weeks` weeks (Monday to Sunday), oldest first. */
+export function getWeeklyThroughput(
+  features: Feature[],
+  columns: KanbanColumn[],
+  weeks: number,
+  now: Date = new Date()
+): ThroughputWeek[] {
+  const currentWeek = startOfWeek(now)
+  const result: ThroughputWeek[] = []
+  for (let offset = weeks - 1; offset >= 0; offset--) {
+    const start = new Date(currentWeek.getFullYear(), currentWeek.getMonth(), currentWeek.getDate() - offset * 7)
+    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7)
+    const count = features.filter((f) => {
+      if (!f.completedAt || !isDoneStatus(f.status, columns)) return false
+      const completed = Date.parse(f.completedAt)
+      return completed >= start.getTime() && completed < end.getTime()
+    }).length
+    result.push({ weekStart: toDateKey(start), count })
+  }
+  return result
+}
+
+/** Work in progress (active columns) with the days spent in the current column, oldest first. */
+export function getAgingWip(features: Feature[], columns: KanbanColumn[], now: Date = new Date()): AgingItem[] {
+  return features
+    .filter((f) => getStatusCategory(f.status, columns) === 'active')
+    .map((feature) => {
+      const entered = [...getStatusHistory(feature)].reverse().find((t) => t.status === feature.status)
+      const days = daysBetween(entered?.at ?? feature.created, now.toISOString()) ?? 0
+      return { feature, days }
+    })
+    .sort((a, b) => b.days - a.days)
+}
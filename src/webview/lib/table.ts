@@ -0,0 +1,53 @@
+import type { Feature, KanbanColumn, Priority, TableColumnKey } from '../../shared/types'
+import { getTitleFromContent } from '../../shared/types'
+
+export type SortDirection = 'asc' | 'desc'
+
+export interface TableSort {
+  column: TableColumnKey
+  direction: SortDirection
+}
+
+const PRIORITY_RANK: Record<Priority, number> = { critical: 0, high: 1, medium: 2, low: 3 }
+
+// Comparable value for a cell: statuses sort in column order, priorities by severity
+function getSortValue(feature: Feature, column: TableColumnKey, columns: KanbanColumn[]): string | number | null {
+  switch (column) {
+    case 'title': return getTitleFromContent(feature.content).toLowerCase()
+    case 'status': {
+      const index = columns.findIndex(c => c.id === feature.status)
+      return index >= 0 ? index : columns.length
+    }
+    case 'priority': return PRIORITY_RANK[feature.priority] ?? 4
+    case 'assignee': return feature.assignee?.toLowerCase() || null
+    case 'epic': return feature.epic?.toLowerCase() || null
+    case 'labels': return feature.labels.length > 0 ? feature.labels.join(', ').toLowerCase() : null
+    default: return feature[column] || null
+  }
+}
+
+/**
+ * Sorts features by a table column. Empty values always go last, whatever the
+ * direction, and ties keep the board order.
+ */
+export function sortFeatures(features: Feature[], sort: TableSort, columns: KanbanColumn[]): Feature[] {
+  const factor = sort.direction === 'asc' ? 1 : -1
+  return [...features].sort((a, b) => {
+    const av = getSortValue(a, sort.column, columns)
+    const bv = getSortValue(b, sort.column, columns)
+    if (av === bv) return 0
+    if (av === null) return 1
+    if (bv === null) return -1
+    return (av < bv ? -1 : 1) * factor
+  })
+}
+
+/** Parses a comma-separated label cell into a clean label list. */
+export function parseLabelsInput(value: string): string[] {
+  const labels: string[] = []
+  for (const raw of value.split(',')) {
+    const label = raw.trim()
+    if (label && !labels.includes(label)) labels.push(label)
+  }
+  return labels
+}
@@ -1,6 +1,41 @@
 import { clsx, type ClassValue } from 'clsx'
 import { twMerge } from 'tailwind-merge'
+import type { Feature, FeatureFrontmatter, KanbanColumn } from '../../shared/types'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Status dropdown options built from the configured columns. A status with no
+ * matching column (e.g. a column removed from settings) is kept so it still shows.
+ */
+export function getStatusOptions(
+  columns: KanbanColumn[],
+  current?: string
+): { value: string; label: string; dotColor: string }[] {
+  const options = columns.map((c) => ({ value: c.id, label: c.name, dotColor: c.color }))
+  if (current && !columns.some((c) => c.id === current)) {
+    options.push({ value: current, label: current, dotColor: '#6b7280' })
+  }
+  return options
+}
+
+/** Frontmatter of a board feature, for saving it back through `saveFeatureContent`. */
+export function getFeatureFrontmatter(feature: Feature): FeatureFrontmatter {
+  return {
+    id: feature.id,
+    status: feature.status,
+    priority: feature.priority,
+    assignee: feature.assignee,
+    epic: feature.epic,
+    dueDate: feature.dueDate,
+    created: feature.created,
+    modified: feature.modified,
+    completedAt: feature.completedAt,
+    labels: feature.labels,
+    order: feature.order,
+    blockedBy: feature.blockedBy ?? [],
+    customFields: feature.customFields ?? {}
+  }
+}
@@ -1,12 +1,17 @@
 import { create } from 'zustand'
-import type { Feature, FeatureStatus, KanbanColumn, Priority, CardDisplaySettings, BoardViewMode } from '../../shared/types'
-import { featureMatchesEpicLane } from '../../shared/epicLane'
+import type { AgentDefinition, AIAgent, Feature, FeatureStatus, KanbanColumn, Priority, CardDisplaySettings, BoardViewMode, CustomFieldDefinition, SwimlaneGroupBy, SwimlaneLane, TableColumnKey, WorkspaceFolderInfo } from '../../shared/types'
+import { featureMatchesLane } from '../../shared/swimlanes'
+import { formatCustomFieldValue, getCustomFieldValue } from '../../shared/customFields'
+import { isDoneStatus } from '../../shared/statuses'
+import { BUILT_IN_AGENTS } from '../../shared/agents'
 
 export type DueDateFilter = 'all' | 'overdue' | 'today' | 'this-week' | 'no-date'
 export type LayoutMode = 'horizontal' | 'vertical'
 
 interface KanbanState {
   features: Feature[]
+  /** Cards in the archived/ folder; loaded when the archive view opens */
+  archivedFeatures: Feature[]
   columns: KanbanColumn[]
   isDarkMode: boolean
   locale: string
@@ -19,10 +24,30 @@ interface KanbanState {
   boardViewMode: BoardViewMode
   cardSettings: CardDisplaySettings
   collapsedColumns: Set<string>
-  collapsedEpics: Set<string>
+  swimlaneGroupBy: SwimlaneGroupBy
+  collapsedLanes: Set<string>
+  hiddenTableColumns: TableColumnKey[]
+  customFieldDefs: CustomFieldDefinition[]
+  /** Active custom field filters by field key; a missing key means "all" */
+  customFieldFilters: Record<string, string>
+  /** Cards picked with shift/ctrl-click for the bulk action bar */
+  selectedFeatureIds: Set<string>
+  /** Last card toggled; shift-click selects the range from here */
+  selectionAnchorId: string | null
+  workspaceFolders: WorkspaceFolderInfo[]
+  /** URI of the workspace folder whose cards are shown */
+  boardFolder: string | null
+  /** Names from the `boards` setting; empty when it is not used */
+  boards: string[]
+  board: string | null
+  /** Agents offered by "Build with AI": the built-in ones and those from `kanban-markdown.customAgents` */
+  agents: AgentDefinition[]
+  /** Agents started with "Build with AI" that are still running, by feature id */
+  agentSessions: Record<string, AIAgent>
 
   setLocale: (locale: string) => void
   setFeatures: (features: Feature[]) => void
+  setArchivedFeatures: (features: Feature[]) => void
   setColumns: (columns: KanbanColumn[]) => void
   setIsDarkMode: (dark: boolean) => void
   setCardSettings: (settings: CardDisplaySettings) => void
@@ -36,18 +61,35 @@ interface KanbanState {
   setBoardViewMode: (mode: BoardViewMode) => void
   setCollapsedColumns: (ids: string[]) => void
   toggleColumnCollapsed: (columnId: string) => void
-  setCollapsedEpics: (ids: string[]) => void
-  toggleEpicCollapsed: (epicKey: string) => void
+  setSwimlaneGroupBy: (groupBy: SwimlaneGroupBy) => void
+  setCollapsedLanes: (keys: string[]) => void
+  toggleLaneCollapsed: (laneKey: string) => void
+  setHiddenTableColumns: (columns: TableColumnKey[]) => void
+  toggleTableColumn: (column: TableColumnKey) => void
+  setCustomFieldDefs: (defs: CustomFieldDefinition[]) => void
+  setCustomFieldFilter: (key: string, value: string | 'all') => void
   clearAllFilters: () => void
+  toggleFeatureSelected: (id: string) => void
+  /** Adds the cards between the anchor and `id` in `orderedIds`; toggles `id` when the anchor is not in the list. */
+  selectFeatureRange: (orderedIds: string[], id: string) => void
+  clearFeatureSelection: () => void
+  setWorkspaceFolders: (folders: WorkspaceFolderInfo[], boardFolder: string | null) => void
+  setBoardFolder: (folder: string) => void
+  setBoards: (boards: string[], board: string | null) => void
+  setAgents: (agents: AgentDefinition[]) => void
+  setAgentSessions: (sessions: Record<string, AIAgent>) => void
 
   addFeature: (feature: Feature) => void
   updateFeature: (id: string, updates: Partial<Feature>) => void
   removeFeature: (id: string) => void
-  getFeaturesByStatus: (status: FeatureStatus, epicLane?: string | null) => Feature[]
-  getFilteredFeaturesByStatus: (status: FeatureStatus, epicLane?: string | null) => Feature[]
+  getFeaturesByStatus: (status: FeatureStatus, lane?: SwimlaneLane) => Feature[]
+  getFilteredFeaturesByStatus: (status: FeatureStatus, lane?: SwimlaneLane) => Feature[]
+  /** All features (or the cards in `source`) matching the toolbar filters, across every status. */
+  getFilteredFeatures: (source?: Feature[]) => Feature[]
   getUniqueAssignees: () => string[]
   getUniqueLabels: () => string[]
   getUniqueEpics: () => string[]
+  getUniqueCustomFieldValues: (key: string) => string[]
   hasActiveFilters: () => boolean
 }
 
@@ -89,6 +131,7 @@ const isOverdue = (date: Date): boolean => {
 
 export const useStore = create<KanbanState>((set, get) => ({
   features: [],
+  archivedFeatures: [],
   columns: [],
   isDarkMode: getInitialDarkMode(),
   locale: 'en',
@@ -100,7 +143,19 @@ export const useStore = create<KanbanState>((set, get) => ({
   layout: 'horizontal',
   boardViewMode: 'standard',
   collapsedColumns: new Set<string>(),
-  collapsedEpics: new Set<string>(),
+  swimlaneGroupBy: 'epic',
+  collapsedLanes: new Set<string>(),
+  hiddenTableColumns: [],
+  customFieldDefs: [],
+  customFieldFilters: {},
+  selectedFeatureIds: new Set<string>(),
+  selectionAnchorId: null,
+  workspaceFolders: [],
+  boardFolder: null,
+  boards: [],
+  board: null,
+  agents: Object.values(BUILT_IN_AGENTS),
+  agentSessions: {},
   cardSettings: {
     showPriorityBadges: true,
     showAssignee: true,
@@ -117,7 +172,14 @@ export const useStore = create<KanbanState>((set, get) => ({
   },
 
   setLocale: (locale) => set({ locale }),
-  setFeatures: (features) => set({ features }),
+  setFeatures: (features) => set((state) => {
+    // Forget selected cards that were deleted or archived
+    const ids = new Set(features.map((f) => f.id))
+    const selected = [...state.selectedFeatureIds].filter((id) => ids.has(id))
+    if (selected.length === state.selectedFeatureIds.size) return { features }
+    return { features, selectedFeatureIds: new Set(selected) }
+  }),
+  setArchivedFeatures: (features) => set({ archivedFeatures: features }),
   setColumns: (columns) => set({ columns }),
   setIsDarkMode: (dark) => set({ isDarkMode: dark }),
   setCardSettings: (settings) => set({ cardSettings: settings }),
@@ -139,15 +201,39 @@ export const useStore = create<KanbanState>((set, get) => ({
     }
     return { collapsedColumns: next }
   }),
-  setCollapsedEpics: (ids) => set({ collapsedEpics: new Set(ids) }),
-  toggleEpicCollapsed: (epicKey) => set((state) => {
-    const next = new Set(state.collapsedEpics)
-    if (next.has(epicKey)) {
-      next.delete(epicKey)
+  setSwimlaneGroupBy: (groupBy) => set({ swimlaneGroupBy: groupBy }),
+  setCollapsedLanes: (keys) => set({ collapsedLanes: new Set(keys) }),
+  toggleLaneCollapsed: (laneKey) => set((state) => {
+    const next = new Set(state.collapsedLanes)
+    if (next.has(laneKey)) {
+      next.delete(laneKey)
+    } else {
+      next.add(laneKey)
+    }
+    return { collapsedLanes: next }
+  }),
+  setHiddenTableColumns: (columns) => set({ hiddenTableColumns: columns }),
+  toggleTableColumn: (column) => set((state) => ({
+    hiddenTableColumns: state.hiddenTableColumns.includes(column)
+      ? state.hiddenTableColumns.filter((c) => c !== column)
+      : [...state.hiddenTableColumns, column]
+  })),
+  setCustomFieldDefs: (defs) => set((state) => {
+    // Drop filters for fields that are no longer defined
+    const keys = new Set(defs.map((d) => d.key))
+    const customFieldFilters = Object.fromEntries(
+      Object.entries(state.customFieldFilters).filter(([key]) => keys.has(key))
+    )
+    return { customFieldDefs: defs, customFieldFilters }
+  }),
+  setCustomFieldFilter: (key, value) => set((state) => {
+    const next = { ...state.customFieldFilters }
+    if (value === 'all') {
+      delete next[key]
     } else {
-      next.add(epicKey)
+      next[key] = value
     }
-    return { collapsedEpics: next }
+    return { customFieldFilters: next }
   }),
 
   clearAllFilters: () =>
@@ -156,9 +242,39 @@ export const useStore = create<KanbanState>((set, get) => ({
       priorityFilter: 'all',
       assigneeFilter: 'all',
       labelFilter: 'all',
-      dueDateFilter: 'all'
+      dueDateFilter: 'all',
+      customFieldFilters: {}
     }),
 
+  toggleFeatureSelected: (id) => set((state) => {
+    const next = new Set(state.selectedFeatureIds)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    return { selectedFeatureIds: next, selectionAnchorId: id }
+  }),
+  selectFeatureRange: (orderedIds, id) => {
+    const { selectionAnchorId, toggleFeatureSelected } = get()
+    const anchorIndex = selectionAnchorId ? orderedIds.indexOf(selectionAnchorId) : -1
+    const index = orderedIds.indexOf(id)
+    if (anchorIndex === -1 || index === -1) {
+      toggleFeatureSelected(id)
+      return
+    }
+    const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex]
+    set((state) => ({
+      selectedFeatureIds: new Set([...state.selectedFeatureIds, ...orderedIds.slice(from, to + 1)])
+    }))
+  },
+  clearFeatureSelection: () => set({ selectedFeatureIds: new Set<string>(), selectionAnchorId: null }),
+  setWorkspaceFolders: (folders, boardFolder) => set({ workspaceFolders: folders, boardFolder }),
+  setBoardFolder: (folder) => set({ boardFolder: folder }),
+  setBoards: (boards, board) => set({ boards, board }),
+  setAgents: (agents) => set({ agents }),
+  setAgentSessions: (sessions) => set({ agentSessions: sessions }),
+
   addFeature: (feature) =>
     set((state) => ({
       features: [...state.features, feature]
@@ -174,28 +290,30 @@ export const useStore = create<KanbanState>((set, get) => ({
       features: state.features.filter((f) => f.id !== id)
     })),
 
-  getFeaturesByStatus: (status, epicLane) => {
+  getFeaturesByStatus: (status, lane) => {
     const { features } = get()
     return features
-      .filter((f) => f.status === status && featureMatchesEpicLane(f, epicLane))
+      .filter((f) => f.status === status && featureMatchesLane(f, lane))
       .sort((a, b) => (a.order < b.order ? -1 : a.order > b.order ? 1 : 0))
   },
 
-  getFilteredFeaturesByStatus: (status, epicLane) => {
+  getFilteredFeaturesByStatus: (status, lane) =>
+    get().getFilteredFeatures().filter((f) => f.status === status && featureMatchesLane(f, lane)),
+
+  getFilteredFeatures: (source) => {
     const {
       features,
+      columns,
       searchQuery,
       priorityFilter,
       assigneeFilter,
       labelFilter,
-      dueDateFilter
+      dueDateFilter,
+      customFieldFilters
     } = get()
 
-    return features
+    return (source ?? features)
       .filter((f) => {
-        if (f.status !== status) return false
-        if (!featureMatchesEpicLane(f, epicLane)) return false
-
         // Priority filter
         if (priorityFilter !== 'all' && f.priority !== priorityFilter) return false
 
@@ -223,21 +341,30 @@ export const useStore = create<KanbanState>((set, get) => ({
             return false
           } else {
             const dueDate = new Date(f.dueDate)
-            if (dueDateFilter === 'overdue' && !isOverdue(dueDate)) return false
+            // Completed work is never overdue
+            if (dueDateFilter === 'overdue' && (!isOverdue(dueDate) || isDoneStatus(f.status, columns))) return false
             if (dueDateFilter === 'today' && !isToday(dueDate)) return false
             if (dueDateFilter === 'this-week' && !isThisWeek(dueDate)) return false
           }
         }
 
+        // Custom field filters ('__none__' matches cards without a value)
+        for (const [key, value] of Object.entries(customFieldFilters)) {
+          const fieldValue = formatCustomFieldValue(getCustomFieldValue(f, key))
+          if (value === '__none__' ? fieldValue !== '' : fieldValue !== value) return false
+        }
+
         // Search query
         if (searchQuery) {
           const query = searchQuery.toLowerCase()
           return (
             f.content.toLowerCase().includes(query) ||
             f.id.toLowerCase().includes(query) ||
+            (f.key && f.key.toLowerCase().includes(query)) ||
             (f.assignee && f.assignee.toLowerCase().includes(query)) ||
             (f.epic && f.epic.toLowerCase().includes(query)) ||
-            f.labels.some((l) => l.toLowerCase().includes(query))
+            f.labels.some((l) => l.toLowerCase().includes(query)) ||
+            Object.values(f.customFields ?? {}).some((v) => formatCustomFieldValue(v).toLowerCase().includes(query))
           )
         }
 
@@ -274,20 +401,32 @@ export const useStore = create<KanbanState>((set, get) => ({
     return Array.from(epics).sort()
   },
 
+  getUniqueCustomFieldValues: (key) => {
+    const { features } = get()
+    const values = new Set<string>()
+    features.forEach((f) => {
+      const v = formatCustomFieldValue(getCustomFieldValue(f, key))
+      if (v) values.add(v)
+    })
+    return Array.from(values).sort()
+  },
+
   hasActiveFilters: () => {
     const {
       searchQuery,
       priorityFilter,
       assigneeFilter,
       labelFilter,
-      dueDateFilter
+      dueDateFilter,
+      customFieldFilters
     } = get()
     return (
       searchQuery !== '' ||
       priorityFilter !== 'all' ||
       assigneeFilter !== 'all' ||
       labelFilter !== 'all' ||
-      dueDateFilter !== 'all'
+      dueDateFilter !== 'all' ||
+      Object.keys(customFieldFilters).length > 0
     )
   }
 }))
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import path from 'path'
+import { run } from '../../src/cli/commands'
+import { loadBoard } from '../../src/cli/config'
+import { stripJsonComments } from '../../src/shared/jsonc'
+import { parseFeatureFile } from '../../src/shared/featureFrontmatter'
+
+// ---------------------------------------------------------------------------
+// Temporary workspace
+// ---------------------------------------------------------------------------
+
+let cwd: string
+let stdout: string[]
+let stderr: string[]
+
+const FEATURES_DIR = () => path.join(cwd, '.devtool', 'features')
+
+const kanban = (...argv: string[]) => run(argv, {
+  cwd,
+  stdout: text => stdout.push(text),
+  stderr: text => stderr.push(text)
+})
+
+async function readCard(relativePath: string) {
+  const filePath = path.join(FEATURES_DIR(), relativePath)
+  return parseFeatureFile(await fs.readFile(filePath, 'utf-8'), filePath)
+}
+
+async function writeSettings(settings: string): Promise<void> {
+  await fs.mkdir(path.join(cwd, '.vscode'), { recursive: true })
+  await fs.writeFile(path.join(cwd, '.vscode', 'settings.json'), settings)
+}
+
+beforeEach(async () => {
+  cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'kanban-md-'))
+  stdout = []
+  stderr = []
+})
+
+afterEach(async () => {
+  await fs.rm(cwd, { recursive: true, force: true })
+})
+
+// ---------------------------------------------------------------------------
+// Settings
+// ---------------------------------------------------------------------------
+
+describe('stripJsonComments', () => {
+  it('drops comments and trailing commas but keeps strings intact', () => {
+    const text = '{\n  // board\n  "a": "http://x", /* note */\n  "b": ["c",],\n}'
+    expect(JSON.parse(stripJsonComments(text))).toEqual({ a: 'http://x', b: ['c'] })
+  })
+})
+
+describe('loadBoard', () => {
+  it('uses the extension defaults without a settings file', async () => {
+    const board = await loadBoard({ cwd })
+    expect(board.featuresDir).toBe(FEATURES_DIR())
+    expect(board.defaultStatus).toBe('backlog')
+    expect(board.filenamePattern).toBe('name-date')
+  })
+
+  it('reads a named board from the boards setting', async () => {
+    await writeSettings(JSON.stringify({
+      'kanban-markdown.boards': [{ name: 'Bugs', featuresDirectory: 'bugs', columns: [{ id: 'open' }, { id: 'fixed', category: 'done' }] }]
+    }))
+    const board = await loadBoard({ cwd, board: 'Bugs' })
+    expect(board.featuresDir).toBe(path.join(cwd, 'bugs'))
+    expect(board.defaultStatus).toBe('open')
+    await expect(loadBoard({ cwd, board: 'Roadmap' })).rejects.toThrow('no board named "Roadmap"')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+describe('kanban-md', () => {
+  it('adds a card with the given fields', async () => {
+    expect(await kanban('add', 'Fix login', '--priority', 'high', '--label', 'bug', '--status', 'todo', '--json')).toBe(0)
+    const created = JSON.parse(stdout[0])
+    expect(created).toMatchObject({ status: 'todo', priority: 'high', labels: ['bug'] })
+    expect(created.frontmatterSource).toBeUndefined()
+
+    const card = await readCard(`${created.id}.md`)
+    expect(card?.content).toBe('# Fix login')
+    expect(card?.statusHistory).toEqual([{ status: 'todo', at: created.created }])
+  })
+
+  it('lists cards filtered by status and label', async () => {
+    await kanban('add', 'One', '--label', 'bug')
+    await kanban('add', 'Two', '--status', 'todo', '--label', 'bug')
+    await kanban('add', 'Three', '--status', 'todo')
+    stdout = []
+
+    await kanban('list', '--status', 'todo', '--label', 'bug', '--json')
+    expect(JSON.parse(stdout[0]).map((f: { content: string }) => f.content)).toEqual(['# Two'])
+  })
+
+  it('moves a card into done/ and stamps its completion', async () => {
+    await kanban('add', 'Ship it', '--status', 'review')
+    const id = stdout[0].replace('Created ', '')
+
+    expect(await kanban('move', 'ship', 'done')).toBe(0)
+    const card = await readCard(path.join('done', `${id}.md`))
+    expect(card?.status).toBe('done')
+    expect(card?.completedAt).not.toBeNull()
+    expect(card?.statusHistory?.map(h => h.status)).toEqual(['review', 'done'])
+    await expect(fs.stat(path.join(FEATURES_DIR(), `${id}.md`))).rejects.toThrow()
+  })
+
+  it('places moved cards after the cards already in the column', async () => {
+    await kanban('add', 'First', '--status', 'todo')
+    await kanban('add', 'Second')
+    await kanban('move', 'second', 'todo')
+    stdout = []
+    await kanban('list', '--status', 'todo')
+    expect(stdout[0].split('\n').map(line => line.split(/\s{2,}/).pop())).toEqual(['First', 'Second'])
+  })
+
+  it('edits fields, clearing them with an empty value', async () => {
+    await kanban('add', 'Refactor', '--assignee', 'alice', '--label', 'a', '--label', 'b')
+    const id = stdout[0].replace('Created ', '')
+
+    expect(await kanban('edit', id, '--assignee', 'bob', '--epic', 'Auth', '--unlabel', 'a')).toBe(0)
+    let card = await readCard(`${id}.md`)
+    expect(card).toMatchObject({ assignee: 'bob', epic: 'Auth', labels: ['b'] })
+
+    await kanban('edit', id, '--assignee', '')
+    card = await readCard(`${id}.md`)
+    expect(card?.assignee).toBeNull()
+  })
+
+  it('numbers cards with keys and finds them by key', async () => {
+    await writeSettings(JSON.stringify({ 'kanban-markdown.keyPrefix': 'web' }))
+    await kanban('add', 'First', '--json')
+    await kanban('add', 'Second', '--json')
+    expect(stdout.map(out => JSON.parse(out).key)).toEqual(['WEB-1', 'WEB-2'])
+    expect(await fs.readFile(path.join(FEATURES_DIR(), '.kanban-keys'), 'utf-8')).toBe('2\n')
+
+    stdout = []
+    expect(await kanban('show', 'web-2')).toBe(0)
+    expect(stdout[0]).toContain('key:      WEB-2')
+    expect(stdout[0]).toContain('# Second')
+  })
+
+  it('shows a card', async () => {
+    await kanban('add', 'Write docs', '--body', 'All of them')
+    stdout = []
+    await kanban('show', 'write')
+    expect(stdout[0]).toContain('status:   backlog')
+    expect(stdout[0]).toContain('# Write docs\n\nAll of them')
+  })
+
+  it('reports unknown cards, statuses and ambiguous ids', async () => {
+    await kanban('add', 'Alpha one')
+    await kanban('add', 'Alpha two')
+
+    expect(await kanban('show', 'missing')).toBe(1)
+    expect(await kanban('move', 'alpha', 'done')).toBe(1)
+    expect(await kanban('move', 'alpha-one', 'shipped')).toBe(1)
+    expect(stderr).toEqual([
+      'kanban-md: no card with id "missing"',
+      expect.stringContaining('matches several cards'),
+      expect.stringContaining('unknown status "shipped"')
+    ])
+  })
+
+  it('prints usage for unknown commands and options', async () => {
+    expect(await kanban('frobnicate')).toBe(2)
+    expect(await kanban('list', '--colour', 'red')).toBe(2)
+    expect(await kanban('--help')).toBe(0)
+    expect(stdout[0]).toContain('Usage: kanban-md')
+  })
+})
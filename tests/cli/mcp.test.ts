@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import path from 'path'
+import { PassThrough } from 'stream'
+import { handleMcpMessage, serveMcp } from '../../src/cli/mcp'
+
+// ---------------------------------------------------------------------------
+// Temporary workspace
+// ---------------------------------------------------------------------------
+
+let cwd: string
+let nextId: number
+
+const FEATURES_DIR = () => path.join(cwd, '.devtool', 'features')
+
+const request = (method: string, params?: Record<string, unknown>) =>
+  handleMcpMessage({ jsonrpc: '2.0', id: nextId++, method, params }, { cwd }, '1.0.0')
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const response = await request('tools/call', { name, arguments: args })
+  const result = (response as { result: { content: { text: string }[]; isError?: boolean } }).result
+  return { isError: result.isError ?? false, text: result.content[0].text }
+}
+
+async function createCard(args: Record<string, unknown>): Promise<string> {
+  const { text } = await callTool('create_feature', args)
+  return JSON.parse(text).id
+}
+
+beforeEach(async () => {
+  cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'kanban-mcp-'))
+  nextId = 1
+})
+
+afterEach(async () => {
+  await fs.rm(cwd, { recursive: true, force: true })
+})
+
+// ---------------------------------------------------------------------------
+// Protocol
+// ---------------------------------------------------------------------------
+
+describe('handleMcpMessage', () => {
+  it('negotiates the protocol version and advertises tools', async () => {
+    const response = await request('initialize', { protocolVersion: '2024-11-05' })
+    expect(response).toEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      result: {
+        protocolVersion: '2024-11-05',
+        capabilities: { tools: {} },
+        serverInfo: { name: 'kanban-markdown', version: '1.0.0' }
+      }
+    })
+
+    const unknown = await request('initialize', { protocolVersion: '1999-01-01' })
+    expect((unknown as { result: { protocolVersion: string } }).result.protocolVersion).toBe('2025-06-18')
+  })
+
+  it('ignores notifications and rejects unknown methods', async () => {
+    expect(await handleMcpMessage({ jsonrpc: '2.0', method: 'notifications/initialized' }, { cwd }, '1.0.0')).toBeNull()
+    expect(await request('resources/list')).toMatchObject({ error: { code: -32601 } })
+  })
+
+  it('lists the board tools with their input schemas', async () => {
+    const response = await request('tools/list') as { result: { tools: { name: string; inputSchema: { type: string } }[] } }
+    expect(response.result.tools.map(t => t.name)).toEqual([
+      'list_features', 'get_feature', 'create_feature', 'update_feature', 'move_feature', 'add_comment'
+    ])
+    expect(response.result.tools.every(t => t.inputSchema.type === 'object')).toBe(true)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Tools
+// ---------------------------------------------------------------------------
+
+describe('tools', () => {
+  it('creates, lists and reads cards with numbered checklist items', async () => {
+    const id = await createCard({ title: 'Export CSV', body: '- [ ] Header row\n- [ ] Escape commas', labels: ['data'] })
+
+    const list = JSON.parse((await callTool('list_features', { label: 'data' })).text)
+    expect(list.features).toEqual([expect.objectContaining({ id, title: 'Export CSV', status: 'backlog', checklist: { done: 0, total: 2 } })])
+    expect(list.columns[0]).toEqual({ id: 'backlog', name: 'Backlog' })
+
+    const card = JSON.parse((await callTool('get_feature', { id })).text)
+    expect(card.content).toContain('- [ ] Escape commas')
+    expect(card.frontmatterSource).toBeUndefined()
+    expect(card.checklist).toEqual([
+      { index: 0, text: 'Header row', checked: false },
+      { index: 1, text: 'Escape commas', checked: false }
+    ])
+  })
+
+  it('ticks checklist items, comments and moves the card across the done/ boundary', async () => {
+    const id = await createCard({ title: 'Export CSV', body: '- [ ] Header row\n- [ ] Escape commas' })
+
+    expect((await callTool('update_feature', { id, checkItems: [1], assignee: 'sam' })).isError).toBe(false)
+    expect((await callTool('add_comment', { id, text: 'Escaping done' })).isError).toBe(false)
+    expect((await callTool('move_feature', { id, status: 'done' })).isError).toBe(false)
+
+    const content = await fs.readFile(path.join(FEATURES_DIR(), 'done', `${id}.md`), 'utf-8')
+    expect(content).toContain('assignee: "sam"')
+    expect(content).toContain('- [ ] Header row\n- [x] Escape commas')
+    expect(content).toMatch(/## Comments\n\n- \*\*agent\*\* \(.+\): Escaping done/)
+  })
+
+  it('reports bad input as a tool error the agent can read', async () => {
+    const id = await createCard({ title: 'Export CSV' })
+
+    expect(await callTool('move_feature', { id, status: 'shipped' })).toEqual({
+      isError: true,
+      text: 'unknown status "shipped"; columns are backlog, todo, in-progress, review, done'
+    })
+    expect(await callTool('update_feature', { id, checkItems: [0] })).toMatchObject({ isError: true })
+    expect(await callTool('get_feature', {})).toEqual({ isError: true, text: '"id" is required' })
+    expect(await request('tools/call', { name: 'delete_everything' })).toMatchObject({ error: { code: -32602 } })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// stdio
+// ---------------------------------------------------------------------------
+
+describe('serveMcp', () => {
+  it('answers one line per request and reports parse errors', async () => {
+    const input = new PassThrough()
+    const lines: string[] = []
+    const served = serveMcp(input, line => lines.push(line), { cwd }, '1.0.0')
+    input.end([
+      '{"jsonrpc":"2.0","id":1,"method":"ping"}',
+      '{"jsonrpc":"2.0","method":"notifications/initialized"}',
+      'not json',
+      ''
+    ].join('\n'))
+    await served
+
+    expect(lines.map(line => JSON.parse(line))).toEqual([
+      { jsonrpc: '2.0', id: 1, result: {} },
+      { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }
+    ])
+  })
+})
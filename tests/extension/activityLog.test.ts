@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import path from 'path'
+import type { ActivityFs } from '../../src/extension/activityLog'
+import type { ActivityEntry } from '../../src/shared/types'
+
+// ---------------------------------------------------------------------------
+// vscode and git stubs
+// ---------------------------------------------------------------------------
+
+vi.mock('vscode', () => ({
+  Uri: {
+    file: (p: string) => ({ fsPath: p, toString: () => `file://${p}` })
+  },
+  workspace: {}
+}))
+
+const { mockExecFile } = vi.hoisted(() => ({ mockExecFile: vi.fn() }))
+vi.mock('child_process', () => ({ execFile: mockExecFile }))
+
+import {
+  appendActivityLog,
+  deleteActivityLog,
+  getActivityLogPath,
+  getActivityUser,
+  readActivityLog,
+  renameActivityLog
+} from '../../src/extension/activityLog'
+
+// ---------------------------------------------------------------------------
+// In-memory ActivityFs
+// ---------------------------------------------------------------------------
+
+const FEATURES_DIR = '/workspace/.devtool/features'
+
+function makeFs(files: Map<string, string> = new Map()): ActivityFs & { files: Map<string, string> } {
+  const missing = () => Promise.reject(new Error('ENOENT'))
+  return {
+    files,
+    readFile: vi.fn((uri: { fsPath: string }) => {
+      const text = files.get(uri.fsPath)
+      return text === undefined ? missing() : Promise.resolve(new TextEncoder().encode(text))
+    }),
+    writeFile: vi.fn((uri: { fsPath: string }, content: Uint8Array) => {
+      files.set(uri.fsPath, new TextDecoder().decode(content))
+      return Promise.resolve()
+    }),
+    createDirectory: vi.fn(() => Promise.resolve()),
+    rename: vi.fn((source: { fsPath: string }, target: { fsPath: string }) => {
+      const text = files.get(source.fsPath)
+      if (text === undefined) return missing()
+      files.delete(source.fsPath)
+      files.set(target.fsPath, text)
+      return Promise.resolve()
+    }),
+    delete: vi.fn((uri: { fsPath: string }) => (files.delete(uri.fsPath) ? Promise.resolve() : missing()))
+  }
+}
+
+const entry = (to: string): ActivityEntry => ({
+  at: '2026-03-01T10:00:00.000Z',
+  by: 'Ada',
+  field: 'status',
+  from: 'backlog',
+  to
+})
+
+// ---------------------------------------------------------------------------
+// Log files
+// ---------------------------------------------------------------------------
+
+describe('getActivityLogPath', () => {
+  it('places logs in the .activity sidecar directory, keyed by feature id', () => {
+    expect(getActivityLogPath(FEATURES_DIR, 'my-feature')).toBe(
+      path.join(FEATURES_DIR, '.activity', 'my-feature.jsonl')
+    )
+  })
+})
+
+describe('appendActivityLog / readActivityLog', () => {
+  it('returns an empty list when the card has no log', async () => {
+    expect(await readActivityLog(FEATURES_DIR, 'missing', makeFs())).toEqual([])
+  })
+
+  it('creates the log and appends to it', async () => {
+    const fs = makeFs()
+    await appendActivityLog(FEATURES_DIR, 'feat', [entry('in-progress')], fs)
+    await appendActivityLog(FEATURES_DIR, 'feat', [entry('review'), entry('done')], fs)
+
+    expect(fs.createDirectory).toHaveBeenCalled()
+    const logged = await readActivityLog(FEATURES_DIR, 'feat', fs)
+    expect(logged.map(e => e.to)).toEqual(['in-progress', 'review', 'done'])
+  })
+
+  it('starts a new line after a log without a trailing newline', async () => {
+    const logPath = getActivityLogPath(FEATURES_DIR, 'feat')
+    const fs = makeFs(new Map([[logPath, JSON.stringify(entry('review'))]]))
+    await appendActivityLog(FEATURES_DIR, 'feat', [entry('done')], fs)
+    expect((await readActivityLog(FEATURES_DIR, 'feat', fs)).map(e => e.to)).toEqual(['review', 'done'])
+  })
+
+  it('does not touch the disk when there is nothing to append', async () => {
+    const fs = makeFs()
+    await appendActivityLog(FEATURES_DIR, 'feat', [], fs)
+    expect(fs.writeFile).not.toHaveBeenCalled()
+  })
+})
+
+describe('renameActivityLog / deleteActivityLog', () => {
+  it('moves the log to the new id', async () => {
+    const fs = makeFs()
+    await appendActivityLog(FEATURES_DIR, 'old-id', [entry('done')], fs)
+    await renameActivityLog(FEATURES_DIR, 'old-id', 'new-id', fs)
+
+    expect(await readActivityLog(FEATURES_DIR, 'old-id', fs)).toEqual([])
+    expect(await readActivityLog(FEATURES_DIR, 'new-id', fs)).toHaveLength(1)
+  })
+
+  it('ignores cards without a log', async () => {
+    const fs = makeFs()
+    await expect(renameActivityLog(FEATURES_DIR, 'a', 'b', fs)).resolves.toBeUndefined()
+    await expect(deleteActivityLog(FEATURES_DIR, 'a', fs)).resolves.toBeUndefined()
+  })
+
+  it('deletes the log', async () => {
+    const fs = makeFs()
+    await appendActivityLog(FEATURES_DIR, 'feat', [entry('done')], fs)
+    await deleteActivityLog(FEATURES_DIR, 'feat', fs)
+    expect(fs.files.size).toBe(0)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// getActivityUser
+// ---------------------------------------------------------------------------
+
+describe('getActivityUser', () => {
+  beforeEach(() => {
+    mockExecFile.mockReset()
+  })
+
+  it('uses the git user name and looks it up once per directory', async () => {
+    mockExecFile.mockImplementation((_cmd, _args, _opts, callback) => callback(null, 'Ada Lovelace\n'))
+    expect(await getActivityUser('/repo-a')).toBe('Ada Lovelace')
+    expect(await getActivityUser('/repo-a')).toBe('Ada Lovelace')
+    expect(mockExecFile).toHaveBeenCalledTimes(1)
+    expect(mockExecFile.mock.calls[0][1]).toEqual(['config', 'user.name'])
+  })
+
+  it('falls back to the OS user when git has no user name', async () => {
+    mockExecFile.mockImplementation((_cmd, _args, _opts, callback) => callback(new Error('exit 1'), ''))
+    const name = await getActivityUser('/repo-b')
+    expect(name).toBeTruthy()
+    expect(name).not.toBe('Ada Lovelace')
+  })
+})
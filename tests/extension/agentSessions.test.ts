@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// ---------------------------------------------------------------------------
+// vscode stub
+// ---------------------------------------------------------------------------
+
+const { window, Emitter } = vi.hoisted(() => {
+  class Emitter<T> {
+    private _listeners: ((value: T) => void)[] = []
+    event = (listener: (value: T) => void) => {
+      this._listeners.push(listener)
+      return { dispose: () => { this._listeners = this._listeners.filter(l => l !== listener) } }
+    }
+    fire(value: T) {
+      for (const listener of [...this._listeners]) listener(value)
+    }
+    dispose() {
+      this._listeners = []
+    }
+  }
+  const closeTerminal = new Emitter<unknown>()
+  const endExecution = new Emitter<unknown>()
+  const changeShellIntegration = new Emitter<unknown>()
+  return {
+    Emitter,
+    window: {
+      closeTerminal,
+      endExecution,
+      changeShellIntegration,
+      terminals: [] as FakeTerminal[],
+      createTerminal: vi.fn(),
+      onDidCloseTerminal: closeTerminal.event,
+      onDidEndTerminalShellExecution: endExecution.event as unknown,
+      onDidChangeTerminalShellIntegration: changeShellIntegration.event as unknown
+    }
+  }
+})
+
+interface FakeTerminal {
+  name: string
+  show: ReturnType<typeof vi.fn>
+  sendText: ReturnType<typeof vi.fn>
+  shellIntegration?: { executeCommand: ReturnType<typeof vi.fn> }
+  exitStatus?: { code: number | undefined }
+}
+
+vi.mock('vscode', () => ({ EventEmitter: Emitter, window }))
+
+import { AgentSessions, type AgentSessionEnd } from '../../src/extension/agentSessions'
+import { BUILT_IN_AGENTS } from '../../src/shared/agents'
+
+let sessions: AgentSessions
+let ended: AgentSessionEnd[]
+
+beforeEach(() => {
+  window.terminals = []
+  window.onDidEndTerminalShellExecution = window.endExecution.event
+  window.onDidChangeTerminalShellIntegration = window.changeShellIntegration.event
+  window.createTerminal.mockImplementation(({ name }: { name: string }) => {
+    const terminal: FakeTerminal = { name, show: vi.fn(), sendText: vi.fn() }
+    window.terminals.push(terminal)
+    return terminal
+  })
+  sessions = new AgentSessions()
+  ended = []
+  sessions.onDidEnd(end => ended.push(end))
+})
+
+afterEach(() => {
+  sessions.dispose()
+  vi.useRealTimers()
+})
+
+const launch = (featureId = 'card-1') =>
+  sessions.launch({ featureId, agent: BUILT_IN_AGENTS.claude, permissionMode: 'plan', prompt: "Fix the user's login" })
+
+// ---------------------------------------------------------------------------
+// AgentSessions
+// ---------------------------------------------------------------------------
+
+describe('AgentSessions', () => {
+  it('runs the agent through shell integration and ends the session with its exit code', async () => {
+    const execution = {}
+    const executeCommand = vi.fn(() => execution)
+    const started = launch()
+    expect(sessions.getRunning()).toEqual({ 'card-1': 'claude' })
+
+    const terminal = window.terminals[0]
+    window.changeShellIntegration.fire({ terminal, shellIntegration: { executeCommand } })
+    await started
+    expect(executeCommand).toHaveBeenCalledWith("'claude' '--permission-mode' 'plan' 'Fix the user'\\''s login'")
+
+    window.endExecution.fire({ execution: {}, exitCode: 1 })
+    expect(ended).toEqual([])
+    window.endExecution.fire({ execution, exitCode: 0 })
+    expect(ended).toEqual([{ featureId: 'card-1', agent: 'claude', agentName: 'Claude Code', exitCode: 0 }])
+    expect(sessions.getRunning()).toEqual({})
+  })
+
+  it('falls back to sending the command and ends when the terminal closes', async () => {
+    vi.useFakeTimers()
+    const started = launch()
+    await vi.runAllTimersAsync()
+    await started
+
+    const terminal = window.terminals[0]
+    expect(terminal.sendText).toHaveBeenCalledWith("'claude' '--permission-mode' 'plan' 'Fix the user'\\''s login'")
+    terminal.exitStatus = { code: undefined }
+    window.closeTerminal.fire(terminal)
+    expect(ended).toEqual([{ featureId: 'card-1', agent: 'claude', agentName: 'Claude Code', exitCode: undefined }])
+  })
+
+  it('sends the command right away on VS Code versions without shell integration events', async () => {
+    window.onDidEndTerminalShellExecution = undefined
+    window.onDidChangeTerminalShellIntegration = undefined
+    await launch()
+    expect(window.terminals[0].sendText).toHaveBeenCalledTimes(1)
+  })
+
+  it('focuses the terminal of a running session', async () => {
+    window.onDidChangeTerminalShellIntegration = undefined
+    await launch()
+    expect(sessions.focus('card-1')).toBe(true)
+    expect(window.terminals[0].show).toHaveBeenCalledTimes(2)
+    expect(sessions.focus('card-2')).toBe(false)
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type * as vscode from 'vscode'
+
+// ---------------------------------------------------------------------------
+// vscode stub
+// ---------------------------------------------------------------------------
+
+const { workspace, window } = vi.hoisted(() => ({
+  workspace: {
+    workspaceFolders: undefined as unknown[] | undefined,
+    settings: {} as Record<string, unknown>,
+    getConfiguration: () => ({
+      get: (key: string, fallback?: unknown) => workspace.settings[key] ?? fallback
+    }),
+    getWorkspaceFolder: (uri: { fsPath: string }) =>
+      (workspace.workspaceFolders as { uri: { fsPath: string } }[] | undefined)
+        ?.find(f => uri.fsPath.startsWith(f.uri.fsPath + '/'))
+  },
+  window: { showQuickPick: vi.fn() }
+}))
+
+vi.mock('vscode', () => ({
+  Uri: {
+    file: (p: string) => ({ fsPath: p, toString: () => `file://${p}` })
+  },
+  workspace,
+  window
+}))
+
+import {
+  getBoardForFeatureFile,
+  getBoardStateKey,
+  listBoards,
+  pickBoard,
+  resolveBoard,
+  setActiveBoard
+} from '../../src/extension/boards'
+
+const folder = {
+  uri: { fsPath: '/repo', toString: () => 'file:///repo' },
+  name: 'repo',
+  index: 0
+} as unknown as vscode.WorkspaceFolder
+
+const makeState = () => {
+  const values = new Map<string, unknown>()
+  return {
+    get: (key: string, fallback?: unknown) => values.has(key) ? values.get(key) : fallback,
+    update: async (key: string, value: unknown) => { values.set(key, value) }
+  } as unknown as vscode.Memento
+}
+
+const BOARDS = [
+  { name: 'Roadmap', featuresDirectory: '.devtool/roadmap' },
+  { name: 'Bugs', featuresDirectory: '.devtool/bugs', columns: [{ id: 'open' }, { id: 'fixed', category: 'done' }], filenamePattern: 'date-name', keyPrefix: 'bug', enforceWipLimits: false, checklistCompleteStatus: 'fixed' }
+]
+
+beforeEach(() => {
+  workspace.workspaceFolders = [folder]
+  workspace.settings = {}
+  window.showQuickPick.mockReset()
+})
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('listBoards', () => {
+  it('has a single unnamed board from the top-level settings when no boards are configured', () => {
+    expect(listBoards(folder)).toEqual([{
+      name: null,
+      featuresDir: '/repo/.devtool/features',
+      columns: expect.any(Array),
+      filenamePattern: 'name-date',
+      keyPrefix: 'KM',
+      enforceWipLimits: false,
+      checklistCompleteStatus: ''
+    }])
+  })
+
+  it('fills in columns, filename pattern, key prefix, WIP enforcement and checklist column from the top-level settings', () => {
+    workspace.settings = { boards: BOARDS, filenamePattern: 'name-datetime', keyPrefix: 'road', enforceWipLimits: true, checklistCompleteStatus: ' review ' }
+    const [roadmap, bugs] = listBoards(folder)
+    expect(roadmap.featuresDir).toBe('/repo/.devtool/roadmap')
+    expect(roadmap.filenamePattern).toBe('name-datetime')
+    expect(roadmap.columns.map(c => c.id)).toContain('backlog')
+    expect(bugs.filenamePattern).toBe('date-name')
+    expect(bugs.columns.map(c => c.id)).toEqual(['open', 'fixed'])
+    expect(roadmap.keyPrefix).toBe('ROAD')
+    expect(bugs.keyPrefix).toBe('BUG')
+    expect(roadmap.enforceWipLimits).toBe(true)
+    expect(bugs.enforceWipLimits).toBe(false)
+    expect(roadmap.checklistCompleteStatus).toBe('review')
+    expect(bugs.checklistCompleteStatus).toBe('fixed')
+  })
+})
+
+describe('resolveBoard', () => {
+  it('falls back to the first board when the name is not configured', () => {
+    workspace.settings = { boards: BOARDS }
+    expect(resolveBoard(folder, 'Bugs').name).toBe('Bugs')
+    expect(resolveBoard(folder, 'Removed').name).toBe('Roadmap')
+    expect(resolveBoard(folder, null).name).toBe('Roadmap')
+  })
+})
+
+describe('getBoardStateKey', () => {
+  it('keeps the plain key for the top-level board', () => {
+    expect(getBoardStateKey('collapsedColumns', null)).toBe('kanban-markdown.collapsedColumns')
+    expect(getBoardStateKey('collapsedColumns', 'Bugs')).toBe('kanban-markdown.collapsedColumns:Bugs')
+  })
+})
+
+describe('getBoardForFeatureFile', () => {
+  it('finds the board whose directory holds the file', () => {
+    workspace.settings = { boards: BOARDS }
+    const file = (p: string) => ({ fsPath: p }) as vscode.Uri
+    expect(getBoardForFeatureFile(file('/repo/.devtool/bugs/done/crash.md'))?.board.name).toBe('Bugs')
+    expect(getBoardForFeatureFile(file('/repo/.devtool/features/card.md'))).toBeUndefined()
+    expect(getBoardForFeatureFile(file('/elsewhere/.devtool/bugs/card.md'))).toBeUndefined()
+  })
+})
+
+describe('pickBoard', () => {
+  it('returns the only board without asking', async () => {
+    expect((await pickBoard(makeState(), folder, 'Pick'))?.name).toBeNull()
+    expect(window.showQuickPick).not.toHaveBeenCalled()
+  })
+
+  it('lists the active board first', async () => {
+    workspace.settings = { boards: BOARDS }
+    const state = makeState()
+    await setActiveBoard(state, 'Bugs')
+    window.showQuickPick.mockImplementation(async (items: unknown[]) => items[0])
+    expect((await pickBoard(state, folder, 'Pick'))?.name).toBe('Bugs')
+    const items = window.showQuickPick.mock.calls[0][0] as { label: string; description: string }[]
+    expect(items.map(i => i.label)).toEqual(['Bugs', 'Roadmap'])
+    expect(items[0].description).toBe('.devtool/bugs')
+  })
+})
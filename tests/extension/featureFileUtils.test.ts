@@ -67,6 +67,23 @@ describe('getFeatureFilePath', () => {
 // getStatusFromPath
 // ---------------------------------------------------------------------------
 
+describe('getFeatureFilePath with custom columns', () => {
+  const columns = [
+    { id: 'qa', name: 'QA', color: '#000', category: 'active' as const },
+    { id: 'shipped', name: 'Shipped', color: '#000', category: 'done' as const }
+  ]
+
+  it('routes any done-category column to done/', () => {
+    expect(getFeatureFilePath(FEATURES_DIR, 'shipped', 'my-feature', columns))
+      .toBe(path.join(FEATURES_DIR, 'done', 'my-feature.md'))
+  })
+
+  it('keeps other columns at root', () => {
+    expect(getFeatureFilePath(FEATURES_DIR, 'qa', 'my-feature', columns))
+      .toBe(path.join(FEATURES_DIR, 'my-feature.md'))
+  })
+})
+
 describe('getStatusFromPath', () => {
   it('returns "done" for a file inside the done/ subdirectory', () => {
     const filePath = path.join(FEATURES_DIR, 'done', 'my-feature.md')
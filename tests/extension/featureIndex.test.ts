@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import path from 'path'
+
+// ---------------------------------------------------------------------------
+// vscode stub — an in-memory workspace with one folder
+// ---------------------------------------------------------------------------
+
+const { files, folders, listeners } = vi.hoisted(() => ({
+  files: new Map<string, string>(),
+  folders: [] as { uri: { fsPath: string; toString: () => string }; name: string; index: number }[],
+  listeners: [] as ((uri: { fsPath: string }) => void)[]
+}))
+
+vi.mock('vscode', () => {
+  const uri = (p: string) => ({ fsPath: p, toString: () => `file://${p}` })
+  return {
+    Uri: { file: uri },
+    FileType: { File: 1, Directory: 2 },
+    workspace: {
+      get workspaceFolders() { return folders },
+      getWorkspaceFolder: (u: { fsPath: string }) => folders.find(f => u.fsPath.startsWith(f.uri.fsPath)),
+      fs: {
+        readDirectory: async (u: { fsPath: string }) => {
+          const names = [...files.keys()].filter(p => path.dirname(p) === u.fsPath).map(p => [path.basename(p), 1])
+          if (names.length === 0) throw new Error('ENOENT')
+          return names
+        },
+        readFile: async (u: { fsPath: string }) => new TextEncoder().encode(files.get(u.fsPath) ?? '')
+      },
+      createFileSystemWatcher: () => ({
+        onDidChange: (fn: (uri: { fsPath: string }) => void) => { listeners.push(fn) },
+        onDidCreate: (fn: (uri: { fsPath: string }) => void) => { listeners.push(fn) },
+        onDidDelete: (fn: (uri: { fsPath: string }) => void) => { listeners.push(fn) },
+        dispose: () => {}
+      }),
+      onDidChangeConfiguration: () => ({ dispose: () => {} }),
+      onDidChangeWorkspaceFolders: () => ({ dispose: () => {} })
+    }
+  }
+})
+
+vi.mock('../../src/extension/boards', () => ({
+  listBoards: (folder: { uri: { fsPath: string } }) => [{
+    name: null,
+    featuresDir: path.join(folder.uri.fsPath, 'features'),
+    columns: [{ id: 'todo', name: 'To Do', color: '#000' }],
+    filenamePattern: 'name-date',
+    keyPrefix: 'KM',
+    enforceWipLimits: false,
+    checklistCompleteStatus: ''
+  }]
+}))
+
+import { FeatureIndex } from '../../src/extension/featureIndex'
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const card = (id: string, key: string, status = 'todo') =>
+  `---\nid: "${id}"\nkey: "${key}"\nstatus: "${status}"\npriority: "high"\n---\n\n# ${id}`
+
+function addFolder(root: string): void {
+  folders.push({ uri: { fsPath: root, toString: () => `file://${root}` }, name: path.basename(root), index: folders.length })
+}
+
+beforeEach(() => {
+  files.clear()
+  folders.length = 0
+  listeners.length = 0
+  vi.useRealTimers()
+})
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('FeatureIndex', () => {
+  it('reads the cards of every board, done/ included', async () => {
+    addFolder('/repo')
+    files.set('/repo/features/add-login.md', card('add-login', 'KM-1'))
+    files.set('/repo/features/done/old-bug.md', card('old-bug', 'KM-2', 'done'))
+    files.set('/repo/features/notes.txt', 'not a card')
+
+    const index = new FeatureIndex()
+    expect((await index.getFeatures()).map(c => c.feature.id).sort()).toEqual(['add-login', 'old-bug'])
+  })
+
+  it('finds cards by key, ignoring case, or by id', async () => {
+    addFolder('/repo')
+    files.set('/repo/features/add-login.md', card('add-login', 'KM-1'))
+
+    const index = new FeatureIndex()
+    expect((await index.find('km-1'))?.feature.id).toBe('add-login')
+    expect((await index.find('add-login'))?.feature.key).toBe('KM-1')
+    expect(await index.find('KM-2')).toBeUndefined()
+  })
+
+  it("prefers the document's own workspace folder", async () => {
+    addFolder('/web')
+    addFolder('/api')
+    files.set('/web/features/a.md', card('a', 'KM-1'))
+    files.set('/api/features/b.md', card('b', 'KM-1'))
+
+    const index = new FeatureIndex()
+    expect((await index.find('KM-1', { fsPath: '/api/src/main.ts' } as never))?.feature.id).toBe('b')
+    expect((await index.find('KM-1'))?.feature.id).toBe('a')
+  })
+
+  it('reloads after a card file changes', async () => {
+    vi.useFakeTimers()
+    addFolder('/repo')
+    files.set('/repo/features/a.md', card('a', 'KM-1'))
+    const index = new FeatureIndex()
+    expect(await index.getFeatures()).toHaveLength(1)
+
+    files.set('/repo/features/b.md', card('b', 'KM-2'))
+    listeners.forEach(fn => fn({ fsPath: '/repo/src/readme.md' }))
+    await vi.runAllTimersAsync()
+    expect(await index.getFeatures()).toHaveLength(1)
+
+    listeners.forEach(fn => fn({ fsPath: '/repo/features/b.md' }))
+    await vi.runAllTimersAsync()
+    expect(await index.getFeatures()).toHaveLength(2)
+  })
+})
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import path from 'path'
+import { checkoutBranch, findCommits, getBaseBranch, getBranchState, getCommitChanges, getCommitsBetween, getCurrentBranch, getGitDir, getHeadCommit, isAncestor, runGit } from '../../src/extension/git'
+
+// ---------------------------------------------------------------------------
+// Temporary repository
+// ---------------------------------------------------------------------------
+
+let cwd: string
+
+const git = (...args: string[]) => runGit(cwd, ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args])
+
+async function commit(message: string): Promise<void> {
+  await fs.writeFile(path.join(cwd, `${message}.txt`), message)
+  await git('add', '.')
+  await git('commit', '-q', '-m', message)
+}
+
+beforeEach(async () => {
+  cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'kanban-git-'))
+  await git('init', '-q', '-b', 'main')
+  await commit('initial')
+})
+
+afterEach(async () => {
+  await fs.rm(cwd, { recursive: true, force: true })
+})
+
+describe('repository lookups', () => {
+  it('finds the git directory, the current branch and a local main', async () => {
+    expect(await getGitDir(cwd)).toBe(path.join(await fs.realpath(cwd), '.git'))
+    expect(await getCurrentBranch(cwd)).toBe('main')
+    expect(await getBaseBranch(cwd)).toBe('main')
+  })
+
+  it('finds nothing outside a repository', async () => {
+    await fs.rm(path.join(cwd, '.git'), { recursive: true })
+    expect(await getBaseBranch(cwd)).toBeUndefined()
+  })
+})
+
+describe('checkoutBranch', () => {
+  it('creates the branch the first time and checks it out again later', async () => {
+    expect(await checkoutBranch(cwd, 'fix-login')).toBe(true)
+    expect(await getCurrentBranch(cwd)).toBe('fix-login')
+    await git('checkout', '-q', 'main')
+    expect(await checkoutBranch(cwd, 'fix-login')).toBe(false)
+    expect(await getCurrentBranch(cwd)).toBe('fix-login')
+  })
+
+  it('rejects names git does not accept', async () => {
+    await expect(checkoutBranch(cwd, '-f')).rejects.toThrow()
+    await expect(checkoutBranch(cwd, 'a..b')).rejects.toThrow()
+  })
+})
+
+describe('getBranchState', () => {
+  it('tracks a branch from creation through commits to a merge', async () => {
+    await checkoutBranch(cwd, 'fix-login')
+    expect(await getBranchState(cwd, 'fix-login', 'main')).toEqual({ ahead: 0, merged: false })
+
+    await commit('fix')
+    await git('checkout', '-q', 'main')
+    expect(await getBranchState(cwd, 'fix-login', 'main')).toEqual({ ahead: 1, merged: false })
+
+    await git('merge', '-q', '--no-ff', '-m', "Merge branch 'fix-login'", 'fix-login')
+    expect(await getBranchState(cwd, 'fix-login', 'main')).toEqual({ ahead: 0, merged: true })
+
+    await git('branch', '-d', 'fix-login')
+    expect(await getBranchState(cwd, 'fix-login', 'main')).toEqual({ ahead: 0, merged: true })
+  })
+
+  it('does not take the merge of a longer branch name for a deleted branch', async () => {
+    await checkoutBranch(cwd, 'login-page')
+    await commit('page')
+    await git('checkout', '-q', 'main')
+    await git('merge', '-q', '--no-ff', '-m', "Merge branch 'login-page'", 'login-page')
+    expect(await getBranchState(cwd, 'login', 'main')).toBeUndefined()
+
+    await checkoutBranch(cwd, 'login')
+    await commit('login')
+    await git('checkout', '-q', 'main')
+    await git('merge', '-q', '--no-ff', '-m', "Merge branch 'login' into main", 'login')
+    await git('branch', '-D', 'login', 'login-page')
+    expect(await getBranchState(cwd, 'login', 'main')).toEqual({ ahead: 0, merged: true })
+    expect(await getBranchState(cwd, 'log', 'main')).toBeUndefined()
+  })
+
+  it('recognizes a pull request merge of a deleted branch', async () => {
+    await checkoutBranch(cwd, 'feature/login')
+    await commit('login')
+    await git('checkout', '-q', 'main')
+    await git('merge', '-q', '--no-ff', '-m', 'Merge pull request #3 from someone/feature/login', 'feature/login')
+    await git('branch', '-D', 'feature/login')
+    expect(await getBranchState(cwd, 'feature/login', 'main')).toMatchObject({ merged: true })
+    expect(await getBranchState(cwd, 'login', 'main')).toBeUndefined()
+  })
+
+  it('knows nothing about a branch that never existed', async () => {
+    expect(await getBranchState(cwd, 'other', 'main')).toBeUndefined()
+  })
+})
+
+describe('findCommits', () => {
+  it('finds commits on any local branch whose messages mention a text, newest first', async () => {
+    await commit('[add-login] Add the form')
+    await checkoutBranch(cwd, 'add-login')
+    await commit('Validate input for ADD-LOGIN')
+    await git('checkout', '-q', 'main')
+    await commit('Unrelated')
+
+    const commits = await findCommits(cwd, ['add-login'], 10)
+    expect(commits.map(c => c.subject)).toEqual(['Validate input for ADD-LOGIN', '[add-login] Add the form'])
+    expect(commits[0]).toMatchObject({ author: 'Test', hash: expect.stringMatching(/^[0-9a-f]{40}$/) })
+    expect(Number.isNaN(Date.parse(commits[0].date))).toBe(false)
+  })
+
+  it('keeps the whole message and honours the limit', async () => {
+    await git('commit', '-q', '--allow-empty', '-m', 'Add login', '-m', 'closes add-login')
+    await git('commit', '-q', '--allow-empty', '-m', 'Polish add-login')
+
+    expect(await findCommits(cwd, ['add-login'], 1)).toHaveLength(1)
+    const [, first] = await findCommits(cwd, ['add-login'], 10)
+    expect(first.message).toBe('Add login\n\ncloses add-login')
+    expect(await findCommits(cwd, [], 10)).toEqual([])
+  })
+})
+
+describe('commit history', () => {
+  it('lists the commits between two points and knows their ancestry', async () => {
+    const start = (await getHeadCommit(cwd))!
+    await commit('first')
+    await commit('second')
+    const head = (await getHeadCommit(cwd))!
+
+    expect((await getCommitsBetween(cwd, start, head)).map(c => c.subject)).toEqual(['second', 'first'])
+    expect(await isAncestor(cwd, start, head)).toBe(true)
+    expect(await isAncestor(cwd, head, start)).toBe(false)
+  })
+
+  it('lists the files a commit added, changed, renamed and deleted', async () => {
+    await fs.writeFile(path.join(cwd, 'notes.md'), 'a long enough line of notes\n'.repeat(5))
+    await git('add', '.')
+    await git('commit', '-q', '-m', 'notes')
+    const root = await getCommitChanges(cwd, (await runGit(cwd, ['rev-list', '--max-parents=0', 'HEAD'])))
+    expect(root).toEqual([{ status: 'A', path: 'initial.txt', oldPath: 'initial.txt' }])
+
+    await git('mv', 'notes.md', 'docs.md')
+    await git('rm', '-q', 'initial.txt')
+    await fs.writeFile(path.join(cwd, 'new.txt'), 'new')
+    await git('add', '.')
+    await git('commit', '-q', '-m', 'rework')
+
+    const changes = await getCommitChanges(cwd, (await getHeadCommit(cwd))!)
+    expect(changes).toEqual(expect.arrayContaining([
+      { status: 'R', path: 'docs.md', oldPath: 'notes.md' },
+      { status: 'D', path: 'initial.txt', oldPath: 'initial.txt' },
+      { status: 'A', path: 'new.txt', oldPath: 'new.txt' }
+    ]))
+    expect(changes).toHaveLength(3)
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('vscode', () => ({
+  Uri: {
+    file: (p: string) => ({ fsPath: p, toString: () => `file://${p}` })
+  },
+  workspace: { fs: {} }
+}))
+
+import {
+  getMcpRegistration,
+  getMcpServerCommand,
+  mergeMcpConfig,
+  writeMcpConfig,
+  type McpRegistration
+} from '../../src/extension/mcpRegistration'
+import type { AIAgent } from '../../src/shared/types'
+
+const server = getMcpServerCommand('/ext', '/repo/.devtool/features')
+const configRegistration = (agent: AIAgent) =>
+  getMcpRegistration(agent, server) as Extract<McpRegistration, { kind: 'config' }>
+
+describe('getMcpServerCommand', () => {
+  it('runs the bundled CLI in MCP mode on the features directory', () => {
+    expect(server).toEqual({ command: 'node', args: ['/ext/dist/cli.js', 'mcp', '--dir', '/repo/.devtool/features'] })
+  })
+})
+
+describe('getMcpRegistration', () => {
+  it('registers with the CLI agents through their mcp add commands', () => {
+    expect(getMcpRegistration('claude', server)).toEqual({
+      kind: 'command',
+      argv: ['claude', 'mcp', 'add', '--scope', 'local', 'kanban-markdown', '--', 'node', '/ext/dist/cli.js', 'mcp', '--dir', '/repo/.devtool/features']
+    })
+    expect(getMcpRegistration('codex', server)).toMatchObject({
+      kind: 'command',
+      argv: ['codex', 'mcp', 'add', 'kanban-markdown', '--', 'node', '/ext/dist/cli.js', 'mcp', '--dir', '/repo/.devtool/features']
+    })
+  })
+
+  it('registers with Copilot and OpenCode through their workspace config files', () => {
+    expect(getMcpRegistration('copilot', server)).toEqual({
+      kind: 'config',
+      file: '.vscode/mcp.json',
+      section: 'servers',
+      entry: { type: 'stdio', command: 'node', args: server.args }
+    })
+    expect(getMcpRegistration('opencode', server)).toEqual({
+      kind: 'config',
+      file: 'opencode.json',
+      section: 'mcp',
+      entry: { type: 'local', command: ['node', ...server.args], enabled: true }
+    })
+  })
+
+  it('leaves custom agents unregistered', () => {
+    expect(getMcpRegistration('aider', server)).toBeUndefined()
+  })
+})
+
+describe('mergeMcpConfig', () => {
+  const copilot = configRegistration('copilot')
+
+  it('creates the config when the file is empty', () => {
+    expect(JSON.parse(mergeMcpConfig('', copilot))).toEqual({
+      servers: { 'kanban-markdown': { type: 'stdio', command: 'node', args: server.args } }
+    })
+  })
+
+  it('keeps other servers and settings, replacing an older entry', () => {
+    const text = '{\n  // team servers\n  "inputs": [],\n  "servers": {\n    "github": { "type": "http" },\n    "kanban-markdown": { "command": "old" },\n  }\n}'
+    expect(JSON.parse(mergeMcpConfig(text, copilot))).toEqual({
+      inputs: [],
+      servers: {
+        github: { type: 'http' },
+        'kanban-markdown': { type: 'stdio', command: 'node', args: server.args }
+      }
+    })
+  })
+})
+
+describe('writeMcpConfig', () => {
+  it('writes the merged config into the workspace folder', async () => {
+    const files = new Map<string, string>([['/repo/opencode.json', '{ "theme": "dark" }']])
+    const fs = {
+      readFile: vi.fn(async (uri: { fsPath: string }) => {
+        const text = files.get(uri.fsPath)
+        if (text === undefined) throw new Error('ENOENT')
+        return new TextEncoder().encode(text)
+      }),
+      writeFile: vi.fn(async (uri: { fsPath: string }, content: Uint8Array) => {
+        files.set(uri.fsPath, new TextDecoder().decode(content))
+      }),
+      createDirectory: vi.fn(async () => {}),
+      rename: vi.fn(),
+      delete: vi.fn()
+    }
+
+    await writeMcpConfig('/repo', configRegistration('opencode'), fs as never)
+    expect(JSON.parse(files.get('/repo/opencode.json')!)).toEqual({
+      theme: 'dark',
+      mcp: { 'kanban-markdown': { type: 'local', command: ['node', ...server.args], enabled: true } }
+    })
+
+    await writeMcpConfig('/repo', configRegistration('copilot'), fs as never)
+    expect(fs.createDirectory).toHaveBeenLastCalledWith(expect.objectContaining({ fsPath: '/repo/.vscode' }))
+    expect(JSON.parse(files.get('/repo/.vscode/mcp.json')!).servers['kanban-markdown'].type).toBe('stdio')
+  })
+})
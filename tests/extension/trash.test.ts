@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest'
+import path from 'path'
+import type { TrashFs } from '../../src/extension/trash'
+import type { KanbanColumn } from '../../src/shared/types'
+
+// ---------------------------------------------------------------------------
+// vscode stub
+// ---------------------------------------------------------------------------
+
+vi.mock('vscode', () => ({
+  Uri: {
+    file: (p: string) => ({ fsPath: p, toString: () => `file://${p}` })
+  },
+  FileType: { File: 1, Directory: 2 },
+  workspace: {}
+}))
+
+import { listLiveFeatureIds, listTrash, moveToTrash, purgeTrash, restoreFromTrash } from '../../src/extension/trash'
+
+// ---------------------------------------------------------------------------
+// In-memory TrashFs
+// ---------------------------------------------------------------------------
+
+const FEATURES_DIR = '/workspace/.devtool/features'
+const TRASH_DIR = path.join(FEATURES_DIR, '.trash')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const COLUMNS: KanbanColumn[] = [
+  { id: 'todo', name: 'To Do', color: '#3b82f6' },
+  { id: 'done', name: 'Done', color: '#22c55e', category: 'done' }
+]
+
+function makeFs(initial: Record<string, string> = {}): TrashFs & { files: Map<string, string> } {
+  const files = new Map(Object.entries(initial))
+  const missing = () => Promise.reject(new Error('ENOENT'))
+  return {
+    files,
+    readFile: vi.fn((uri: { fsPath: string }) => {
+      const text = files.get(uri.fsPath)
+      return text === undefined ? missing() : Promise.resolve(new TextEncoder().encode(text))
+    }),
+    writeFile: vi.fn((uri: { fsPath: string }, content: Uint8Array) => {
+      files.set(uri.fsPath, new TextDecoder().decode(content))
+      return Promise.resolve()
+    }),
+    createDirectory: vi.fn(() => Promise.resolve()),
+    rename: vi.fn((source: { fsPath: string }, target: { fsPath: string }) => {
+      const text = files.get(source.fsPath)
+      if (text === undefined) return missing()
+      files.delete(source.fsPath)
+      files.set(target.fsPath, text)
+      return Promise.resolve()
+    }),
+    delete: vi.fn((uri: { fsPath: string }) => (files.delete(uri.fsPath) ? Promise.resolve() : missing())),
+    stat: vi.fn((uri: { fsPath: string }) => (files.has(uri.fsPath) ? Promise.resolve({} as never) : missing())),
+    readDirectory: vi.fn((uri: { fsPath: string }) => {
+      const names = [...files.keys()]
+        .filter(p => path.dirname(p) === uri.fsPath)
+        .map(p => [path.basename(p), 1] as [string, 1])
+      return names.length > 0 ? Promise.resolve(names) : missing()
+    })
+  } as TrashFs & { files: Map<string, string> }
+}
+
+const card = (id: string, status = 'todo') =>
+  `---\nid: "${id}"\nstatus: "${status}"\npriority: "medium"\nassignee: null\nepic: null\ndueDate: null\ncreated: "2026-01-01T00:00:00.000Z"\nmodified: "2026-01-01T00:00:00.000Z"\ncompletedAt: null\nlabels: []\norder: "a0"\n---\n# ${id} title\n`
+
+describe('moveToTrash', () => {
+  it('moves the file into .trash with the deletion time in its name', async () => {
+    const fs = makeFs({ [path.join(FEATURES_DIR, 'a.md')]: card('a') })
+    const trashed = await moveToTrash(FEATURES_DIR, path.join(FEATURES_DIR, 'a.md'), 1000, fs)
+    expect(trashed).toBe(path.join(TRASH_DIR, '1000-a.md'))
+    expect([...fs.files.keys()]).toEqual([trashed])
+  })
+
+  it('does not overwrite a file trashed at the same moment', async () => {
+    const fs = makeFs({
+      [path.join(FEATURES_DIR, 'a.md')]: card('a'),
+      [path.join(FEATURES_DIR, 'done', 'a.md')]: card('a2', 'done')
+    })
+    await moveToTrash(FEATURES_DIR, path.join(FEATURES_DIR, 'a.md'), 1000, fs)
+    const second = await moveToTrash(FEATURES_DIR, path.join(FEATURES_DIR, 'done', 'a.md'), 1000, fs)
+    expect(second).toBe(path.join(TRASH_DIR, '1000-a-1.md'))
+  })
+})
+
+describe('listTrash', () => {
+  it('lists trashed cards newest first and ignores other files', async () => {
+    const fs = makeFs({
+      [path.join(TRASH_DIR, '1000-old.md')]: card('old'),
+      [path.join(TRASH_DIR, '2000-new.md')]: card('new'),
+      [path.join(TRASH_DIR, 'notes.txt')]: 'x'
+    })
+    const entries = await listTrash(FEATURES_DIR, fs)
+    expect(entries.map(e => [e.filename, e.deletedAt, e.feature?.id])).toEqual([
+      ['new.md', 2000, 'new'],
+      ['old.md', 1000, 'old']
+    ])
+  })
+
+  it('returns nothing when there is no trash folder', async () => {
+    expect(await listTrash(FEATURES_DIR, makeFs())).toEqual([])
+  })
+})
+
+describe('restoreFromTrash', () => {
+  it('restores under the original name, into done/ for done cards', async () => {
+    const fs = makeFs({
+      [path.join(TRASH_DIR, '1000-a.md')]: card('a'),
+      [path.join(TRASH_DIR, '1000-b.md')]: card('b', 'done')
+    })
+    const [a, b] = (await listTrash(FEATURES_DIR, fs)).sort((x, y) => x.filename.localeCompare(y.filename))
+    expect(await restoreFromTrash(a, FEATURES_DIR, COLUMNS, fs)).toBe(path.join(FEATURES_DIR, 'a.md'))
+    expect(await restoreFromTrash(b, FEATURES_DIR, COLUMNS, fs)).toBe(path.join(FEATURES_DIR, 'done', 'b.md'))
+  })
+
+  it('picks a free name when the original is taken again', async () => {
+    const fs = makeFs({
+      [path.join(TRASH_DIR, '1000-a.md')]: card('a'),
+      [path.join(FEATURES_DIR, 'a.md')]: card('other')
+    })
+    const [entry] = await listTrash(FEATURES_DIR, fs)
+    expect(await restoreFromTrash(entry, FEATURES_DIR, COLUMNS, fs)).toBe(path.join(FEATURES_DIR, 'a-1.md'))
+  })
+})
+
+describe('purgeTrash', () => {
+  const now = 100 * DAY_MS
+
+  it('deletes cards older than the retention period with their activity logs', async () => {
+    const oldLog = path.join(FEATURES_DIR, '.activity', 'old.jsonl')
+    const fs = makeFs({
+      [path.join(TRASH_DIR, `${now - 31 * DAY_MS}-old.md`)]: card('old'),
+      [path.join(TRASH_DIR, `${now - 2 * DAY_MS}-recent.md`)]: card('recent'),
+      [oldLog]: '{}\n'
+    })
+    const purged = await purgeTrash(FEATURES_DIR, 30, now, fs)
+    expect(purged.map(e => e.filename)).toEqual(['old.md'])
+    expect([...fs.files.keys()]).toEqual([path.join(TRASH_DIR, `${now - 2 * DAY_MS}-recent.md`)])
+  })
+
+  it('keeps the activity log of a card on the board with the same id', async () => {
+    const log = path.join(FEATURES_DIR, '.activity', 'reused.jsonl')
+    const live = path.join(FEATURES_DIR, 'done', 'reused.md')
+    const fs = makeFs({
+      [path.join(TRASH_DIR, `${now - 31 * DAY_MS}-reused.md`)]: card('reused'),
+      [live]: card('reused', 'done'),
+      [log]: '{}\n'
+    })
+    expect(await purgeTrash(FEATURES_DIR, 30, now, fs)).toHaveLength(1)
+    expect([...fs.files.keys()].sort()).toEqual([log, live].sort())
+  })
+
+  it('keeps everything when retention is 0', async () => {
+    const fs = makeFs({ [path.join(TRASH_DIR, '1-old.md')]: card('old') })
+    expect(await purgeTrash(FEATURES_DIR, 0, now, fs)).toEqual([])
+    expect(fs.files.size).toBe(1)
+  })
+})
+
+describe('listLiveFeatureIds', () => {
+  it('collects the ids of cards on the board but not in the trash or archive', async () => {
+    const fs = makeFs({
+      [path.join(FEATURES_DIR, 'open.md')]: card('open'),
+      [path.join(FEATURES_DIR, 'done', 'shipped.md')]: card('shipped', 'done'),
+      [path.join(FEATURES_DIR, 'archived', 'old.md')]: card('old'),
+      [path.join(TRASH_DIR, '1-gone.md')]: card('gone'),
+      [path.join(FEATURES_DIR, '.activity', 'open.jsonl')]: '{}\n'
+    })
+    expect([...await listLiveFeatureIds(FEATURES_DIR, fs)].sort()).toEqual(['open', 'shipped'])
+  })
+})
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { JournalFs } from '../../src/extension/undoJournal'
+
+// ---------------------------------------------------------------------------
+// vscode stub — only Uri.file is needed by the journal
+// ---------------------------------------------------------------------------
+
+vi.mock('vscode', () => ({
+  Uri: {
+    file: (p: string) => ({ fsPath: p, toString: () => `file://${p}` })
+  },
+  workspace: {}
+}))
+
+import { UndoJournal } from '../../src/extension/undoJournal'
+
+// ---------------------------------------------------------------------------
+// In-memory JournalFs
+// ---------------------------------------------------------------------------
+
+function makeFs(initial: Record<string, string> = {}) {
+  const files = new Map(Object.entries(initial))
+  const encode = (text: string) => new TextEncoder().encode(text)
+  const missing = () => Promise.reject(new Error('ENOENT'))
+  const fs = {
+    files,
+    failWritesTo: null as string | null,
+    readFile: vi.fn((uri: { fsPath: string }) => {
+      const text = files.get(uri.fsPath)
+      return text === undefined ? missing() : Promise.resolve(encode(text))
+    }),
+    writeFile: vi.fn((uri: { fsPath: string }, content: Uint8Array) => {
+      if (uri.fsPath === fs.failWritesTo) return Promise.reject(new Error('EACCES'))
+      files.set(uri.fsPath, new TextDecoder().decode(content))
+      return Promise.resolve()
+    }),
+    createDirectory: vi.fn(() => Promise.resolve()),
+    rename: vi.fn((source: { fsPath: string }, target: { fsPath: string }) => {
+      const text = files.get(source.fsPath)
+      if (text === undefined) return missing()
+      files.delete(source.fsPath)
+      files.set(target.fsPath, text)
+      return Promise.resolve()
+    }),
+    delete: vi.fn((uri: { fsPath: string }) => (files.delete(uri.fsPath) ? Promise.resolve() : missing())),
+    stat: vi.fn((uri: { fsPath: string }) => (files.has(uri.fsPath) ? Promise.resolve({} as never) : missing()))
+  }
+  return fs as typeof fs & JournalFs
+}
+
+const uri = (p: string) => ({ fsPath: p }) as never
+const write = (fs: JournalFs, p: string, text: string) => fs.writeFile(uri(p), new TextEncoder().encode(text))
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+describe('UndoJournal — recording', () => {
+  it('records nothing for an operation that changed no files', async () => {
+    const fs = makeFs({ '/a.md': 'A' })
+    const journal = new UndoJournal(fs)
+    const tx = journal.begin()
+    await write(tx, '/a.md', 'A')
+    await journal.commit('Edit', tx)
+    expect(journal.canUndo).toBe(false)
+  })
+
+  it('undoes and redoes writes, renames and deletes across several files as one step', async () => {
+    const fs = makeFs({ '/a.md': 'A1', '/b.md': 'B1', '/c.md': 'C1' })
+    const journal = new UndoJournal(fs)
+    const tx = journal.begin()
+    await write(tx, '/a.md', 'A2')
+    await tx.rename(uri('/b.md'), uri('/done/b.md'))
+    await tx.delete(uri('/c.md'))
+    await journal.commit('Move', tx)
+
+    expect(await journal.undo()).toEqual({ status: 'applied', label: 'Move' })
+    expect(Object.fromEntries(fs.files)).toEqual({ '/a.md': 'A1', '/b.md': 'B1', '/c.md': 'C1' })
+    expect(journal.canRedo).toBe(true)
+
+    expect(await journal.redo()).toEqual({ status: 'applied', label: 'Move' })
+    expect(Object.fromEntries(fs.files)).toEqual({ '/a.md': 'A2', '/done/b.md': 'B1' })
+  })
+
+  it('undoes creating a file by deleting it', async () => {
+    const fs = makeFs()
+    const journal = new UndoJournal(fs)
+    const tx = journal.begin()
+    await write(tx, '/new.md', 'N')
+    await journal.commit('Create', tx)
+    await journal.undo()
+    expect(fs.files.has('/new.md')).toBe(false)
+  })
+
+  it('clears the redo stack when a new step is recorded', async () => {
+    const fs = makeFs({ '/a.md': 'A1' })
+    const journal = new UndoJournal(fs)
+    let tx = journal.begin()
+    await write(tx, '/a.md', 'A2')
+    await journal.commit('Edit', tx)
+    await journal.undo()
+
+    tx = journal.begin()
+    await write(tx, '/a.md', 'A3')
+    await journal.commit('Edit', tx)
+    expect(journal.canRedo).toBe(false)
+  })
+
+  it('keeps at most `limit` steps', async () => {
+    const fs = makeFs({ '/a.md': '0' })
+    const journal = new UndoJournal(fs, 2)
+    for (const value of ['1', '2', '3']) {
+      const tx = journal.begin()
+      await write(tx, '/a.md', value)
+      await journal.commit(`Edit ${value}`, tx)
+    }
+    expect(await journal.undo()).toMatchObject({ label: 'Edit 3' })
+    expect(await journal.undo()).toMatchObject({ label: 'Edit 2' })
+    expect(await journal.undo()).toEqual({ status: 'empty' })
+  })
+
+  it('merges consecutive steps with the same key inside the merge window', async () => {
+    const fs = makeFs({ '/a.md': 'A1' })
+    const journal = new UndoJournal(fs)
+    for (const [value, at] of [['A2', 1000], ['A3', 3000], ['A4', 20000]] as const) {
+      const tx = journal.begin()
+      await write(tx, '/a.md', value)
+      await journal.commit('Edit', tx, 'save:a', at)
+    }
+    await journal.undo()
+    expect(fs.files.get('/a.md')).toBe('A3')
+    await journal.undo()
+    expect(fs.files.get('/a.md')).toBe('A1')
+    expect(journal.canUndo).toBe(false)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Conflicts and failures
+// ---------------------------------------------------------------------------
+
+describe('UndoJournal — conflicts and failures', () => {
+  it('refuses to undo when a file was changed outside the journal, and drops the step', async () => {
+    const fs = makeFs({ '/a.md': 'A1' })
+    const journal = new UndoJournal(fs)
+    const tx = journal.begin()
+    await write(tx, '/a.md', 'A2')
+    await journal.commit('Edit', tx)
+    fs.files.set('/a.md', 'edited by hand')
+
+    expect(await journal.undo()).toEqual({ status: 'conflict', label: 'Edit' })
+    expect(fs.files.get('/a.md')).toBe('edited by hand')
+    expect(journal.canUndo).toBe(false)
+  })
+
+  it('still undoes and redoes a step after an amended write outside the journal', async () => {
+    const fs = makeFs({ '/a.md': 'A1' })
+    const journal = new UndoJournal(fs)
+    const tx = journal.begin()
+    await write(tx, '/a.md', 'A2')
+    await journal.commit('Edit', tx)
+    fs.files.set('/a.md', 'A2 + session')
+    journal.amend('/a.md', 'A2', 'A2 + session')
+
+    expect(await journal.undo()).toEqual({ status: 'applied', label: 'Edit' })
+    expect(fs.files.get('/a.md')).toBe('A1')
+    fs.files.set('/a.md', 'A1 + session')
+    journal.amend('/a.md', 'A1', 'A1 + session')
+    expect(await journal.redo()).toEqual({ status: 'applied', label: 'Edit' })
+    expect(fs.files.get('/a.md')).toBe('A2 + session')
+  })
+
+  it('puts back already written files when a later write fails', async () => {
+    const fs = makeFs({ '/a.md': 'A1', '/b.md': 'B1' })
+    const journal = new UndoJournal(fs)
+    const tx = journal.begin()
+    await write(tx, '/a.md', 'A2')
+    await write(tx, '/b.md', 'B2')
+    await journal.commit('Rename label', tx)
+
+    fs.failWritesTo = '/b.md'
+    await expect(journal.undo()).rejects.toThrow('EACCES')
+    expect(Object.fromEntries(fs.files)).toEqual({ '/a.md': 'A2', '/b.md': 'B2' })
+    // The step stays on the stack so it can be retried
+    expect(journal.canUndo).toBe(true)
+  })
+})
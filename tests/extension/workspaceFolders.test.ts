@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type * as vscode from 'vscode'
+
+// ---------------------------------------------------------------------------
+// vscode stub
+// ---------------------------------------------------------------------------
+
+const { workspace, window } = vi.hoisted(() => ({
+  workspace: {
+    workspaceFolders: undefined as unknown[] | undefined,
+    featuresDirectory: {} as Record<string, string>,
+    getConfiguration: (_section: string, scope?: { fsPath: string }) => ({
+      get: () => (scope ? workspace.featuresDirectory[scope.fsPath] : undefined)
+    })
+  },
+  window: { showQuickPick: vi.fn() }
+}))
+
+vi.mock('vscode', () => ({
+  Uri: {
+    file: (p: string) => ({ fsPath: p, toString: () => `file://${p}` })
+  },
+  workspace,
+  window
+}))
+
+import {
+  getBoardFolder,
+  getFeaturesDir,
+  pickWorkspaceFolder,
+  setBoardFolder
+} from '../../src/extension/workspaceFolders'
+
+const makeFolder = (fsPath: string, index: number) =>
+  ({ uri: { fsPath, toString: () => `file://${fsPath}` }, name: fsPath.split('/').pop(), index }) as unknown as vscode.WorkspaceFolder
+
+const makeState = () => {
+  const values = new Map<string, unknown>()
+  return {
+    get: (key: string) => values.get(key),
+    update: async (key: string, value: unknown) => { values.set(key, value) }
+  } as unknown as vscode.Memento
+}
+
+const api = makeFolder('/repos/api', 0)
+const web = makeFolder('/repos/web', 1)
+
+beforeEach(() => {
+  workspace.workspaceFolders = [api, web]
+  workspace.featuresDirectory = {}
+  window.showQuickPick.mockReset()
+})
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('getFeaturesDir', () => {
+  it('uses the default directory unless the folder overrides it', () => {
+    workspace.featuresDirectory['/repos/web'] = 'docs/cards'
+    expect(getFeaturesDir(api)).toBe('/repos/api/.devtool/features')
+    expect(getFeaturesDir(web)).toBe('/repos/web/docs/cards')
+  })
+})
+
+describe('getBoardFolder', () => {
+  it('defaults to the first folder and remembers the picked one', async () => {
+    const state = makeState()
+    expect(getBoardFolder(state)).toBe(api)
+    await setBoardFolder(state, web)
+    expect(getBoardFolder(state)).toBe(web)
+  })
+
+  it('falls back to the first folder when the picked one was removed', async () => {
+    const state = makeState()
+    await setBoardFolder(state, web)
+    workspace.workspaceFolders = [api]
+    expect(getBoardFolder(state)).toBe(api)
+  })
+
+  it('is undefined without an open folder', () => {
+    workspace.workspaceFolders = undefined
+    expect(getBoardFolder(makeState())).toBeUndefined()
+  })
+})
+
+describe('pickWorkspaceFolder', () => {
+  it('returns the only folder without asking', async () => {
+    workspace.workspaceFolders = [api]
+    expect(await pickWorkspaceFolder(makeState(), 'Pick')).toBe(api)
+    expect(window.showQuickPick).not.toHaveBeenCalled()
+  })
+
+  it('lists the board folder first', async () => {
+    const state = makeState()
+    await setBoardFolder(state, web)
+    window.showQuickPick.mockImplementation(async (items: { folder: vscode.WorkspaceFolder }[]) => items[1])
+    expect(await pickWorkspaceFolder(state, 'Pick')).toBe(api)
+    const items = window.showQuickPick.mock.calls[0][0] as { label: string }[]
+    expect(items.map(i => i.label)).toEqual(['web', 'api'])
+  })
+
+  it('resolves to undefined when the pick is cancelled', async () => {
+    window.showQuickPick.mockResolvedValue(undefined)
+    expect(await pickWorkspaceFolder(makeState(), 'Pick')).toBeUndefined()
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import {
+  diffFeatureActivity,
+  parseActivityLog,
+  serializeActivityEntries,
+  snapshotActivity,
+  type ActivitySnapshot
+} from '../../src/shared/activity'
+import type { ActivityEntry } from '../../src/shared/types'
+
+const AT = '2026-03-01T10:00:00.000Z'
+const BY = 'Ada'
+
+const base: ActivitySnapshot = {
+  status: 'backlog',
+  priority: 'medium',
+  assignee: null,
+  epic: null,
+  labels: ['bug'],
+  dueDate: null
+}
+
+describe('snapshotActivity', () => {
+  it('copies labels so later in-place edits do not leak into the snapshot', () => {
+    const feature = { ...base, labels: ['bug'] }
+    const snapshot = snapshotActivity(feature)
+    feature.labels.push('ui')
+    expect(snapshot.labels).toEqual(['bug'])
+  })
+})
+
+describe('diffFeatureActivity', () => {
+  it('returns nothing when no tracked field changed', () => {
+    expect(diffFeatureActivity(base, { ...base }, AT, BY)).toEqual([])
+  })
+
+  it('records value changes with old and new value', () => {
+    const entries = diffFeatureActivity(
+      base,
+      { ...base, status: 'in-progress', priority: 'high', assignee: 'grace', dueDate: '2026-04-01' },
+      AT,
+      BY
+    )
+    expect(entries).toEqual([
+      { at: AT, by: BY, field: 'status', from: 'backlog', to: 'in-progress' },
+      { at: AT, by: BY, field: 'priority', from: 'medium', to: 'high' },
+      { at: AT, by: BY, field: 'assignee', from: null, to: 'grace' },
+      { at: AT, by: BY, field: 'dueDate', from: null, to: '2026-04-01' }
+    ])
+  })
+
+  it('records clearing a field as a change to null', () => {
+    const entries = diffFeatureActivity({ ...base, epic: 'Auth' }, base, AT, BY)
+    expect(entries).toEqual([{ at: AT, by: BY, field: 'epic', from: 'Auth', to: null }])
+  })
+
+  it('treats empty strings as no value', () => {
+    expect(diffFeatureActivity({ ...base, assignee: '' }, base, AT, BY)).toEqual([])
+  })
+
+  it('records added and removed labels individually', () => {
+    const entries = diffFeatureActivity(base, { ...base, labels: ['ui', 'docs'] }, AT, BY)
+    expect(entries).toEqual([
+      { at: AT, by: BY, field: 'label', from: null, to: 'ui' },
+      { at: AT, by: BY, field: 'label', from: null, to: 'docs' },
+      { at: AT, by: BY, field: 'label', from: 'bug', to: null }
+    ])
+  })
+
+  it('ignores label reordering', () => {
+    const before = { ...base, labels: ['a', 'b'] }
+    expect(diffFeatureActivity(before, { ...base, labels: ['b', 'a'] }, AT, BY)).toEqual([])
+  })
+})
+
+describe('parseActivityLog / serializeActivityEntries', () => {
+  const entries: ActivityEntry[] = [
+    { at: AT, by: BY, field: 'created', from: null, to: 'backlog' },
+    { at: AT, by: BY, field: 'label', from: null, to: 'bug' }
+  ]
+
+  it('round-trips entries as one JSON object per line', () => {
+    const text = serializeActivityEntries(entries)
+    expect(text.split('\n')).toHaveLength(3)
+    expect(parseActivityLog(text)).toEqual(entries)
+  })
+
+  it('skips blank, malformed and incomplete lines', () => {
+    const text = [
+      JSON.stringify(entries[0]),
+      '',
+      '{not json',
+      JSON.stringify({ at: AT, field: 'status' }),
+      JSON.stringify(entries[1])
+    ].join('\n')
+    expect(parseActivityLog(text)).toEqual(entries)
+  })
+
+  it('serializes an empty list to an empty string', () => {
+    expect(serializeActivityEntries([])).toBe('')
+  })
+})
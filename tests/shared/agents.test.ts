@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import {
+  BUILT_IN_AGENTS,
+  getAgentCommandLine,
+  getAgentDefinitions,
+  getAgentExitColumn,
+  getAgentPermissionModes,
+  getAgentStartColumn,
+  sanitizeAgentDefinitions
+} from '../../src/shared/agents'
+import { DEFAULT_COLUMNS, type Feature } from '../../src/shared/types'
+
+describe('sanitizeAgentDefinitions', () => {
+  it('returns an empty list for non-array input', () => {
+    expect(sanitizeAgentDefinitions(undefined)).toEqual([])
+    expect(sanitizeAgentDefinitions({ id: 'aider', command: 'aider' })).toEqual([])
+  })
+
+  it('defaults the name to the id, the args to the prompt and the modes to default', () => {
+    expect(sanitizeAgentDefinitions([{ id: 'aider', command: ' aider ' }])).toEqual([
+      { id: 'aider', name: 'aider', command: 'aider', args: ['{{prompt}}'], permissionModes: { default: [] } }
+    ])
+  })
+
+  it('drops invalid ids, missing commands and duplicates', () => {
+    const agents = sanitizeAgentDefinitions([
+      { id: 'has space', command: 'x' },
+      { id: 'gemini' },
+      { id: 'aider', command: 'aider', name: 'Aider' },
+      { id: 'aider', command: 'other' }
+    ])
+    expect(agents.map(a => a.name)).toEqual(['Aider'])
+  })
+
+  it('keeps only known permission modes with string arguments', () => {
+    const [agent] = sanitizeAgentDefinitions([{
+      id: 'aider',
+      command: 'aider',
+      permissionModes: { default: [], bypassPermissions: ['--yes-always'], plan: '--plan', yolo: ['--yolo'] }
+    }])
+    expect(agent.permissionModes).toEqual({ default: [], bypassPermissions: ['--yes-always'] })
+    expect(getAgentPermissionModes(agent)).toEqual(['default', 'bypassPermissions'])
+  })
+})
+
+describe('getAgentDefinitions', () => {
+  it('lists the built-in agents first and lets custom agents replace them', () => {
+    const claude = { ...BUILT_IN_AGENTS.claude, command: 'npx claude' }
+    const aider = sanitizeAgentDefinitions([{ id: 'aider', command: 'aider' }])[0]
+    const agents = getAgentDefinitions([aider, claude])
+    expect(agents.map(a => a.id)).toEqual(['claude', 'codex', 'copilot', 'opencode', 'aider'])
+    expect(agents[0].command).toBe('npx claude')
+  })
+})
+
+describe('getAgentCommandLine', () => {
+  it('passes the permission mode the way each built-in agent expects it', () => {
+    expect(getAgentCommandLine(BUILT_IN_AGENTS.claude, 'default', 'go')).toEqual(['claude', 'go'])
+    expect(getAgentCommandLine(BUILT_IN_AGENTS.claude, 'plan', 'go')).toEqual(['claude', '--permission-mode', 'plan', 'go'])
+    expect(getAgentCommandLine(BUILT_IN_AGENTS.codex, 'bypassPermissions', 'go')).toEqual(['codex', '--ask-for-approval', 'full-auto', 'go'])
+    expect(getAgentCommandLine(BUILT_IN_AGENTS.codex, 'plan', 'go')).toEqual(['codex', '--ask-for-approval', 'ask', 'go'])
+    expect(getAgentCommandLine(BUILT_IN_AGENTS.opencode, 'acceptEdits', 'go')).toEqual(['opencode', 'go'])
+  })
+
+  it('fills the prompt into the args template, or appends it', () => {
+    const [gemini, aider] = sanitizeAgentDefinitions([
+      { id: 'gemini', command: 'gemini', args: ['--prompt-interactive={{prompt}}'], permissionModes: { default: [], bypassPermissions: ['--yolo'] } },
+      { id: 'aider', command: 'aider', args: ['--no-auto-commits'] }
+    ])
+    expect(getAgentCommandLine(gemini, 'bypassPermissions', 'go')).toEqual(['gemini', '--yolo', '--prompt-interactive=go'])
+    expect(getAgentCommandLine(aider, 'default', 'go')).toEqual(['aider', '--no-auto-commits', 'go'])
+  })
+})
+
+describe('agent move offers', () => {
+  const card = (status: string) => ({ status }) as Feature
+
+  it('offers the first in-progress column only for cards still to do', () => {
+    expect(getAgentStartColumn(card('backlog'), DEFAULT_COLUMNS)?.id).toBe('in-progress')
+    expect(getAgentStartColumn(card('review'), DEFAULT_COLUMNS)).toBeUndefined()
+  })
+
+  it('offers the last in-progress column after a successful run of an unfinished card', () => {
+    expect(getAgentExitColumn(card('in-progress'), DEFAULT_COLUMNS, 0)?.id).toBe('review')
+    expect(getAgentExitColumn(card('in-progress'), DEFAULT_COLUMNS, 1)).toBeUndefined()
+    expect(getAgentExitColumn(card('in-progress'), DEFAULT_COLUMNS, undefined)).toBeUndefined()
+    expect(getAgentExitColumn(card('review'), DEFAULT_COLUMNS, 0)).toBeUndefined()
+    expect(getAgentExitColumn(card('done'), DEFAULT_COLUMNS, 0)).toBeUndefined()
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { planRestore, sortArchivedFeatures } from '../../src/shared/archive'
+import type { Feature, KanbanColumn } from '../../src/shared/types'
+
+const columns: KanbanColumn[] = [
+  { id: 'todo', name: 'To Do', color: '#3b82f6' },
+  { id: 'doing', name: 'Doing', color: '#f59e0b' },
+  { id: 'done', name: 'Done', color: '#22c55e', category: 'done' }
+]
+
+function makeFeature(id: string, overrides: Partial<Feature> = {}): Feature {
+  return {
+    id,
+    status: 'todo',
+    priority: 'medium',
+    assignee: null,
+    epic: null,
+    dueDate: null,
+    created: '2026-01-01T00:00:00.000Z',
+    modified: '2026-01-01T00:00:00.000Z',
+    completedAt: null,
+    labels: [],
+    order: 'a0',
+    content: `# ${id}`,
+    filePath: `/workspace/features/archived/${id}.md`,
+    ...overrides
+  }
+}
+
+describe('planRestore', () => {
+  it('puts cards back at the end of their original column', () => {
+    const active = [makeFeature('x', { order: 'a0' }), makeFeature('y', { order: 'a5' })]
+    const [plan] = planRestore([makeFeature('old', { order: 'a1' })], active, columns, 'todo')
+    expect(plan.status).toBe('todo')
+    expect(plan.order > 'a5').toBe(true)
+  })
+
+  it('keeps the relative order of cards restored together', () => {
+    const plans = planRestore(
+      [makeFeature('b', { order: 'a2' }), makeFeature('a', { order: 'a1' })],
+      [],
+      columns,
+      'todo'
+    )
+    expect(plans.map(p => p.feature.id)).toEqual(['a', 'b'])
+    expect(plans[0].order < plans[1].order).toBe(true)
+  })
+
+  it('keeps done cards in their done column', () => {
+    const [plan] = planRestore([makeFeature('shipped', { status: 'done' })], [], columns, 'todo')
+    expect(plan.status).toBe('done')
+  })
+
+  it('falls back when the original column no longer exists', () => {
+    const [plan] = planRestore([makeFeature('gone', { status: 'review' })], [makeFeature('x')], columns, 'doing')
+    expect(plan.status).toBe('doing')
+  })
+})
+
+describe('sortArchivedFeatures', () => {
+  it('lists the most recently modified first without changing the input', () => {
+    const features = [
+      makeFeature('old', { modified: '2026-01-01T00:00:00.000Z' }),
+      makeFeature('new', { modified: '2026-03-01T00:00:00.000Z' })
+    ]
+    expect(sortArchivedFeatures(features).map(f => f.id)).toEqual(['new', 'old'])
+    expect(features[0].id).toBe('old')
+  })
+})
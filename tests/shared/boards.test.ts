@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { sanitizeBoards } from '../../src/shared/boards'
+
+describe('sanitizeBoards', () => {
+  it('returns an empty list for non-array input', () => {
+    expect(sanitizeBoards(undefined)).toEqual([])
+    expect(sanitizeBoards({ name: 'Bugs' })).toEqual([])
+  })
+
+  it('leaves columns and filename pattern to the top-level settings when omitted', () => {
+    expect(sanitizeBoards([{ name: ' Bugs ', featuresDirectory: ' .devtool/bugs ' }])).toEqual([
+      { name: 'Bugs', featuresDirectory: '.devtool/bugs', columns: undefined, filenamePattern: undefined }
+    ])
+  })
+
+  it('drops boards without a name or directory, and duplicate names', () => {
+    const boards = sanitizeBoards([
+      { name: '', featuresDirectory: 'a' },
+      { name: 'Roadmap' },
+      { name: 'Roadmap', featuresDirectory: 'roadmap' },
+      { name: 'Roadmap', featuresDirectory: 'other' },
+      'Bugs'
+    ])
+    expect(boards.map(b => b.featuresDirectory)).toEqual(['roadmap'])
+  })
+
+  it('sanitizes board columns and ignores unknown filename patterns', () => {
+    const [board] = sanitizeBoards([{
+      name: 'Tech debt',
+      featuresDirectory: 'debt',
+      columns: [{ id: 'open', name: 'Open' }, { id: 'open' }, { id: 'fixed', category: 'done' }],
+      filenamePattern: 'slug'
+    }])
+    expect(board.columns?.map(c => c.id)).toEqual(['open', 'fixed'])
+    expect(board.columns?.[1].category).toBe('done')
+    expect(board.filenamePattern).toBeUndefined()
+  })
+
+  it('keeps a valid filename pattern', () => {
+    const [board] = sanitizeBoards([{ name: 'Bugs', featuresDirectory: 'bugs', filenamePattern: 'date-name' }])
+    expect(board.filenamePattern).toBe('date-name')
+  })
+
+  it('upper-cases a valid key prefix and drops an invalid one', () => {
+    const [bugs, debt] = sanitizeBoards([
+      { name: 'Bugs', featuresDirectory: 'bugs', keyPrefix: 'bug' },
+      { name: 'Debt', featuresDirectory: 'debt', keyPrefix: '1-x' }
+    ])
+    expect(bugs.keyPrefix).toBe('BUG')
+    expect(debt.keyPrefix).toBeUndefined()
+  })
+
+  it('keeps a boolean WIP enforcement and leaves anything else to the top-level setting', () => {
+    const [strict, loose] = sanitizeBoards([
+      { name: 'Strict', featuresDirectory: 'strict', enforceWipLimits: true },
+      { name: 'Loose', featuresDirectory: 'loose', enforceWipLimits: 'yes' }
+    ])
+    expect(strict.enforceWipLimits).toBe(true)
+    expect(loose.enforceWipLimits).toBeUndefined()
+  })
+
+  it('trims a board checklist column and leaves a missing one to the top-level setting', () => {
+    const [bugs, debt] = sanitizeBoards([
+      { name: 'Bugs', featuresDirectory: 'bugs', checklistCompleteStatus: ' fixed ' },
+      { name: 'Debt', featuresDirectory: 'debt', checklistCompleteStatus: 3 }
+    ])
+    expect(bugs.checklistCompleteStatus).toBe('fixed')
+    expect(debt.checklistCompleteStatus).toBeUndefined()
+  })
+})
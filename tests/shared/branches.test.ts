@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { getBranchMoveTarget, getFeatureBranchName } from '../../src/shared/branches'
+import { DEFAULT_COLUMNS } from '../../src/shared/types'
+
+describe('getFeatureBranchName', () => {
+  it('slugs the title the way feature files are named', () => {
+    expect(getFeatureBranchName({ content: '# Fix the Login page!\n\nBody' })).toBe('fix-the-login-page')
+  })
+
+  it('keeps a recorded branch', () => {
+    expect(getFeatureBranchName({ content: '# Fix login', branch: 'feature/login' })).toBe('feature/login')
+  })
+})
+
+describe('getBranchMoveTarget', () => {
+  const state = { ahead: 0, merged: false }
+
+  it('offers review once the branch has commits ahead of the base', () => {
+    expect(getBranchMoveTarget('in-progress', { ...state, ahead: 2 }, DEFAULT_COLUMNS)?.id).toBe('review')
+    expect(getBranchMoveTarget('in-progress', state, DEFAULT_COLUMNS)).toBeUndefined()
+  })
+
+  it('offers done once the branch is merged', () => {
+    expect(getBranchMoveTarget('review', { ...state, merged: true }, DEFAULT_COLUMNS)?.id).toBe('done')
+  })
+
+  it('offers nothing for cards already there or done', () => {
+    expect(getBranchMoveTarget('review', { ...state, ahead: 1 }, DEFAULT_COLUMNS)).toBeUndefined()
+    expect(getBranchMoveTarget('done', { ...state, merged: true }, DEFAULT_COLUMNS)).toBeUndefined()
+  })
+})
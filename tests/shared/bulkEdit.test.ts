@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { getBulkFieldUpdates } from '../../src/shared/bulkEdit'
+
+const feature = {
+  priority: 'medium' as const,
+  assignee: 'ada',
+  epic: null,
+  dueDate: null,
+  labels: ['bug', 'ui']
+}
+
+describe('getBulkFieldUpdates', () => {
+  it('returns nothing for an empty update', () => {
+    expect(getBulkFieldUpdates(feature, {})).toEqual({})
+  })
+
+  it('sets and clears simple fields, trimming text', () => {
+    expect(getBulkFieldUpdates(feature, { priority: 'high', epic: '  Auth ', dueDate: '2026-05-01' })).toEqual({
+      priority: 'high',
+      epic: 'Auth',
+      dueDate: '2026-05-01'
+    })
+    expect(getBulkFieldUpdates(feature, { assignee: null })).toEqual({ assignee: null })
+    expect(getBulkFieldUpdates(feature, { assignee: '  ' })).toEqual({ assignee: null })
+  })
+
+  it('leaves out fields that already have the value', () => {
+    expect(getBulkFieldUpdates(feature, { priority: 'medium', assignee: 'ada', epic: null })).toEqual({})
+  })
+
+  it('adds labels without duplicates and removes labels', () => {
+    expect(getBulkFieldUpdates(feature, { addLabels: ['docs', 'bug'] })).toEqual({ labels: ['bug', 'ui', 'docs'] })
+    expect(getBulkFieldUpdates(feature, { removeLabels: ['bug'] })).toEqual({ labels: ['ui'] })
+  })
+
+  it('does not report labels that did not change', () => {
+    expect(getBulkFieldUpdates(feature, { addLabels: ['ui'], removeLabels: ['missing'] })).toEqual({})
+  })
+})
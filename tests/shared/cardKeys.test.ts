@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { allocateCardKeys, getKeyNumber, parseKeyCounter, planCardKeys, sanitizeKeyPrefix, type KeyCounterFileSystem } from '../../src/shared/cardKeys'
+
+const card = (filePath: string, created: string, key?: string) => ({ filePath, created, key })
+
+describe('sanitizeKeyPrefix', () => {
+  it('upper-cases letters and digits starting with a letter', () => {
+    expect(sanitizeKeyPrefix(' web2 ')).toBe('WEB2')
+    expect(sanitizeKeyPrefix('2web')).toBeUndefined()
+    expect(sanitizeKeyPrefix('WEB-')).toBeUndefined()
+    expect(sanitizeKeyPrefix(42)).toBeUndefined()
+  })
+})
+
+describe('getKeyNumber', () => {
+  it('reads the number of a key with the prefix', () => {
+    expect(getKeyNumber('KM-42', 'KM')).toBe(42)
+    expect(getKeyNumber('km-7', 'KM')).toBe(7)
+    expect(getKeyNumber('WEB-42', 'KM')).toBeUndefined()
+  })
+})
+
+describe('parseKeyCounter', () => {
+  it('takes the largest number, including both sides of a merge conflict', () => {
+    expect(parseKeyCounter('')).toBe(0)
+    expect(parseKeyCounter('12\n')).toBe(12)
+    expect(parseKeyCounter('<<<<<<< HEAD\n14\n=======\n15\n>>>>>>> branch-16\n')).toBe(15)
+  })
+})
+
+describe('planCardKeys', () => {
+  it('numbers cards without keys in created order after the counter', () => {
+    const { keys, counter } = planCardKeys([
+      card('b.md', '2026-02-01T00:00:00Z'),
+      card('a.md', '2026-01-01T00:00:00Z')
+    ], 'KM', 3)
+    expect([...keys]).toEqual([['a.md', 'KM-4'], ['b.md', 'KM-5']])
+    expect(counter).toBe(5)
+  })
+
+  it('continues after the highest key in use when the counter is behind', () => {
+    const { keys } = planCardKeys([card('a.md', '2026-01-01', 'KM-9'), card('b.md', '2026-01-02')], 'KM', 2)
+    expect(keys.get('b.md')).toBe('KM-10')
+  })
+
+  it('re-keys the newer of two cards sharing a key', () => {
+    const { keys } = planCardKeys([
+      card('theirs.md', '2026-01-03', 'KM-5'),
+      card('ours.md', '2026-01-02', 'KM-5')
+    ], 'KM', 5)
+    expect([...keys]).toEqual([['theirs.md', 'KM-6']])
+  })
+
+  it('keeps keys with another prefix', () => {
+    const { keys } = planCardKeys([card('a.md', '2026-01-01', 'OLD-3'), card('b.md', '2026-01-02')], 'KM', 0)
+    expect([...keys]).toEqual([['b.md', 'KM-1']])
+  })
+})
+
+describe('allocateCardKeys', () => {
+  function memoryFs(files: Record<string, string> = {}): KeyCounterFileSystem & { files: Record<string, string>; modified: Record<string, number> } {
+    const modified: Record<string, number> = Object.fromEntries(Object.keys(files).map(filePath => [filePath, Date.now()]))
+    return {
+      files,
+      modified,
+      readFile: async filePath => files[filePath],
+      writeFile: async (filePath, content) => {
+        files[filePath] = content
+        modified[filePath] = Date.now()
+      },
+      createExclusive: async filePath => {
+        if (filePath in files) return false
+        files[filePath] = ''
+        modified[filePath] = Date.now()
+        return true
+      },
+      getModifiedTime: async filePath => (filePath in files ? modified[filePath] : undefined),
+      delete: async filePath => { delete files[filePath] }
+    }
+  }
+
+  const LOCK = '/features/.kanban-keys.lock'
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('stores the counter and releases the lock', async () => {
+    const fs = memoryFs({ '/features/.kanban-keys': '7\n' })
+    const keys = await allocateCardKeys(fs, '/features', 'KM', [card('/features/a.md', '2026-01-01')])
+    expect(keys.get('/features/a.md')).toBe('KM-8')
+    expect(fs.files).toEqual({ '/features/.kanban-keys': '8\n' })
+  })
+
+  it('does not touch the counter when every card has a key', async () => {
+    const fs = memoryFs()
+    expect((await allocateCardKeys(fs, '/features', 'KM', [card('/features/a.md', '2026-01-01', 'KM-1')])).size).toBe(0)
+    expect(fs.files).toEqual({})
+  })
+
+  it('hands out different numbers to concurrent allocations', async () => {
+    const fs = memoryFs()
+    const [first, second] = await Promise.all([
+      allocateCardKeys(fs, '/features', 'KM', [card('/features/a.md', '2026-01-01')]),
+      allocateCardKeys(fs, '/features', 'KM', [card('/features/b.md', '2026-01-01')])
+    ])
+    expect([first.get('/features/a.md'), second.get('/features/b.md')].sort()).toEqual(['KM-1', 'KM-2'])
+  })
+
+  it('waits for a lock another writer holds and leaves it to that writer', async () => {
+    vi.useFakeTimers()
+    const fs = memoryFs({ [LOCK]: '' })
+    const allocation = allocateCardKeys(fs, '/features', 'KM', [card('/features/a.md', '2026-01-01')])
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(fs.files[LOCK]).toBe('')
+    expect(fs.files['/features/.kanban-keys']).toBeUndefined()
+
+    delete fs.files[LOCK]
+    await vi.advanceTimersByTimeAsync(100)
+    expect((await allocation).get('/features/a.md')).toBe('KM-1')
+    expect(fs.files).toEqual({ '/features/.kanban-keys': '1\n' })
+  })
+
+  it('breaks a lock left behind by a writer that stopped', async () => {
+    const fs = memoryFs({ [LOCK]: '' })
+    fs.modified[LOCK] = Date.now() - 60_000
+    const keys = await allocateCardKeys(fs, '/features', 'KM', [card('/features/a.md', '2026-01-01')])
+    expect(keys.get('/features/a.md')).toBe('KM-1')
+    expect(fs.files).toEqual({ '/features/.kanban-keys': '1\n' })
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { findCardReferences, getCardReferenceAt, getCommentStart, getCompletionStart } from '../../src/shared/cardReferences'
+
+describe('getCommentStart', () => {
+  it('searches prose and unknown languages in full', () => {
+    expect(getCommentStart('See KM-42', 'markdown')).toBe(0)
+    expect(getCommentStart('See KM-42', 'some-language')).toBe(0)
+  })
+
+  it('starts at the first comment token of the language', () => {
+    expect(getCommentStart('const a = 1 // KM-42', 'typescript')).toBe(12)
+    expect(getCommentStart('x = 1  # KM-42', 'python')).toBe(7)
+    expect(getCommentStart('SELECT 1 -- KM-42', 'sql')).toBe(9)
+    expect(getCommentStart('const a = 1', 'typescript')).toBeUndefined()
+  })
+
+  it('treats block comment continuation lines as comments', () => {
+    expect(getCommentStart(' * Implements KM-42', 'javascript')).toBe(0)
+    expect(getCommentStart(' * not a comment', 'python')).toBeUndefined()
+  })
+})
+
+describe('findCardReferences', () => {
+  it('finds keys and feature: ids with their offsets', () => {
+    expect(findCardReferences('Fixes KM-42 and feature:add-login-2025-01-02.', 'markdown')).toEqual([
+      { reference: 'KM-42', start: 6, end: 11 },
+      { reference: 'add-login-2025-01-02', start: 16, end: 44 }
+    ])
+  })
+
+  it('only looks inside comments in code', () => {
+    expect(findCardReferences('const KM = "KM-1" // see KM-2', 'typescript').map(r => r.reference)).toEqual(['KM-2'])
+  })
+
+  it('ignores lower-case and embedded lookalikes', () => {
+    expect(findCardReferences('utf-8, XKM-42a, UTF-8-x', 'markdown')).toEqual([])
+  })
+})
+
+describe('getCardReferenceAt', () => {
+  it('finds the mention under the cursor, edges included', () => {
+    expect(getCardReferenceAt('See KM-42 now', 'markdown', 4)?.reference).toBe('KM-42')
+    expect(getCardReferenceAt('See KM-42 now', 'markdown', 9)?.reference).toBe('KM-42')
+    expect(getCardReferenceAt('See KM-42 now', 'markdown', 11)).toBeUndefined()
+  })
+})
+
+describe('getCompletionStart', () => {
+  it('finds a trigger after whitespace or an opening bracket', () => {
+    expect(getCompletionStart('see #', '#')).toBe(4)
+    expect(getCompletionStart('see (#KM-4', '#')).toBe(5)
+    expect(getCompletionStart('// see card:lo', 'card:')).toBe(7)
+  })
+
+  it('ignores triggers that start the line or follow other text', () => {
+    expect(getCompletionStart('#', '#')).toBeUndefined()
+    expect(getCompletionStart('## Heading', '#')).toBeUndefined()
+    expect(getCompletionStart('issue#', '#')).toBeUndefined()
+    expect(getCompletionStart('see #', '')).toBeUndefined()
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseChecklist,
+  getChecklistProgress,
+  isChecklistComplete,
+  toggleChecklistItem
+} from '../../src/shared/checklist'
+
+const body = [
+  '# Feature',
+  '',
+  '- [x] Design',
+  '- [ ] Build',
+  '  * [X] Nested item',
+  '1. [ ] Numbered item',
+  '- not a task',
+  '```md',
+  '- [ ] inside a code block',
+  '```'
+].join('\n')
+
+describe('parseChecklist', () => {
+  it('finds task items with their line and state', () => {
+    expect(parseChecklist(body)).toEqual([
+      { line: 2, text: 'Design', checked: true },
+      { line: 3, text: 'Build', checked: false },
+      { line: 4, text: 'Nested item', checked: true },
+      { line: 5, text: 'Numbered item', checked: false }
+    ])
+  })
+
+  it('returns an empty list when there are no tasks', () => {
+    expect(parseChecklist('# Just a title')).toEqual([])
+  })
+})
+
+describe('getChecklistProgress / isChecklistComplete', () => {
+  it('counts checked items', () => {
+    expect(getChecklistProgress(body)).toEqual({ done: 2, total: 4 })
+    expect(isChecklistComplete(body)).toBe(false)
+  })
+
+  it('is complete only when there is at least one item and all are checked', () => {
+    expect(isChecklistComplete('- [x] a\n- [X] b')).toBe(true)
+    expect(isChecklistComplete('no tasks')).toBe(false)
+  })
+})
+
+describe('toggleChecklistItem', () => {
+  it('checks and unchecks the item at the given index', () => {
+    const toggled = toggleChecklistItem(body, 1)
+    expect(toggled.split('\n')[3]).toBe('- [x] Build')
+    expect(toggleChecklistItem(toggled, 1)).toBe(body)
+  })
+
+  it('keeps indentation and list markers', () => {
+    expect(toggleChecklistItem(body, 2).split('\n')[4]).toBe('  * [ ] Nested item')
+  })
+
+  it('leaves content untouched for an unknown index', () => {
+    expect(toggleChecklistItem(body, 10)).toBe(body)
+  })
+})
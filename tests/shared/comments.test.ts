@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest'
+import { appendComment } from '../../src/shared/comments'
+
+const comment = { author: 'agent', text: 'Done,\nready for review', at: '2026-01-27T09:00:00.000Z' }
+const entry = '- **agent** (2026-01-27T09:00:00.000Z): Done, ready for review'
+
+describe('appendComment', () => {
+  it('adds a comments section at the end of the body', () => {
+    expect(appendComment('# Title\n\nSpec\n', comment)).toBe(`# Title\n\nSpec\n\n## Comments\n\n${entry}`)
+  })
+
+  it('appends to an existing section before the next heading', () => {
+    const content = '# Title\n\n## Comments\n\n- **bob** (x): first\n\n## Notes\n\nMore'
+    expect(appendComment(content, comment)).toBe(
+      `# Title\n\n## Comments\n\n- **bob** (x): first\n${entry}\n\n## Notes\n\nMore`
+    )
+  })
+
+  it('fills an empty comments section', () => {
+    expect(appendComment('# Title\n\n## Comments\n', comment)).toBe(`# Title\n\n## Comments\n\n${entry}`)
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { closesFeature, getFeatureReferences, mentionsFeature, sanitizeCloseKeywords } from '../../src/shared/commits'
+
+const refs = getFeatureReferences({ id: 'add-login-2025-01-02' })
+
+describe('getFeatureReferences', () => {
+  it('puts the key before the id', () => {
+    expect(getFeatureReferences({ id: 'add-login', key: 'KM-42' })).toEqual(['KM-42', 'add-login'])
+    expect(getFeatureReferences({ id: 'add-login' })).toEqual(['add-login'])
+  })
+})
+
+describe('mentionsFeature', () => {
+  it('finds the card id anywhere in the message, ignoring case', () => {
+    expect(mentionsFeature('[add-login-2025-01-02] Add the form', refs)).toBe(true)
+    expect(mentionsFeature('Fix validation\n\nPart of ADD-LOGIN-2025-01-02.', refs)).toBe(true)
+  })
+
+  it('does not match the id inside a longer id', () => {
+    expect(mentionsFeature('[add-login-2025-01-02-2] Add the form', refs)).toBe(false)
+    expect(mentionsFeature('[re-add-login-2025-01-02] Add the form', refs)).toBe(false)
+  })
+})
+
+describe('closesFeature', () => {
+  const keywords = ['closes', 'fixes']
+
+  it('needs a keyword right before the reference', () => {
+    expect(closesFeature('Add login\n\ncloses add-login-2025-01-02', refs, keywords)).toBe(true)
+    expect(closesFeature('Fixes: [add-login-2025-01-02] for real', refs, keywords)).toBe(true)
+    expect(closesFeature('[add-login-2025-01-02] Closes the dialog', refs, keywords)).toBe(false)
+    expect(closesFeature('Discloses add-login-2025-01-02', refs, keywords)).toBe(false)
+  })
+
+  it('closes by key', () => {
+    const keyed = getFeatureReferences({ id: 'add-login-2025-01-02', key: 'KM-42' })
+    expect(closesFeature('Add login, closes [KM-42]', keyed, keywords)).toBe(true)
+    expect(closesFeature('Add login, closes KM-420', keyed, keywords)).toBe(false)
+  })
+
+  it('does nothing without keywords', () => {
+    expect(closesFeature('closes add-login-2025-01-02', refs, [])).toBe(false)
+  })
+})
+
+describe('sanitizeCloseKeywords', () => {
+  it('keeps trimmed non-empty strings', () => {
+    expect(sanitizeCloseKeywords([' closes ', '', 3, 'resolves'])).toEqual(['closes', 'resolves'])
+    expect(sanitizeCloseKeywords('closes')).toEqual([])
+  })
+})
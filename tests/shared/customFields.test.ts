@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import {
+  sanitizeCustomFieldDefinitions,
+  normalizeCustomFieldValue,
+  normalizeCustomFields,
+  mergeCustomFieldEdits
+} from '../../src/shared/customFields'
+import { parseFeatureFile, serializeFeature } from '../../src/shared/featureFrontmatter'
+import type { CustomFieldDefinition } from '../../src/shared/types'
+
+const estimate: CustomFieldDefinition = { key: 'estimate', label: 'Estimate', type: 'number', showOnCard: true }
+const size: CustomFieldDefinition = { key: 'size', label: 'Size', type: 'enum', options: ['S', 'M', 'L'], showOnCard: false }
+
+describe('sanitizeCustomFieldDefinitions', () => {
+  it('returns an empty list for non-array input', () => {
+    expect(sanitizeCustomFieldDefinitions(undefined)).toEqual([])
+    expect(sanitizeCustomFieldDefinitions({ key: 'x' })).toEqual([])
+  })
+
+  it('defaults the label to the key and showOnCard to false', () => {
+    expect(sanitizeCustomFieldDefinitions([{ key: 'team', type: 'string' }])).toEqual([
+      { key: 'team', label: 'team', type: 'string', options: undefined, showOnCard: false }
+    ])
+  })
+
+  it('drops reserved, invalid and duplicate keys', () => {
+    const defs = sanitizeCustomFieldDefinitions([
+      { key: 'status', type: 'string' },
+      { key: 'has space', type: 'string' },
+      { key: 'team', type: 'string' },
+      { key: 'team', type: 'number' }
+    ])
+    expect(defs.map(d => d.key)).toEqual(['team'])
+    expect(defs[0].type).toBe('string')
+  })
+
+  it('drops unknown types and enums without options', () => {
+    const defs = sanitizeCustomFieldDefinitions([
+      { key: 'a', type: 'boolean' },
+      { key: 'b', type: 'enum', options: [] },
+      { key: 'c', type: 'enum', options: [' S ', '', 3] }
+    ])
+    expect(defs).toEqual([{ key: 'c', label: 'c', type: 'enum', options: ['S'], showOnCard: false }])
+  })
+})
+
+describe('normalizeCustomFieldValue', () => {
+  it('parses numbers and rejects non-numeric input', () => {
+    expect(normalizeCustomFieldValue(estimate, '3.5')).toBe(3.5)
+    expect(normalizeCustomFieldValue(estimate, 'lots')).toBeNull()
+    expect(normalizeCustomFieldValue(estimate, '')).toBeNull()
+  })
+
+  it('only accepts enum values from the option list', () => {
+    expect(normalizeCustomFieldValue(size, 'M')).toBe('M')
+    expect(normalizeCustomFieldValue(size, 'XL')).toBeNull()
+  })
+
+  it('accepts YYYY-MM-DD dates only', () => {
+    const due: CustomFieldDefinition = { key: 'reviewBy', label: 'Review by', type: 'date', showOnCard: false }
+    expect(normalizeCustomFieldValue(due, '2026-03-01')).toBe('2026-03-01')
+    expect(normalizeCustomFieldValue(due, 'March 1st')).toBeNull()
+  })
+
+  it('trims strings and maps blank to null', () => {
+    const team: CustomFieldDefinition = { key: 'team', label: 'Team', type: 'string', showOnCard: false }
+    expect(normalizeCustomFieldValue(team, '  core ')).toBe('core')
+    expect(normalizeCustomFieldValue(team, '   ')).toBeNull()
+  })
+})
+
+describe('normalizeCustomFields', () => {
+  it('normalizes defined keys and passes other keys through', () => {
+    expect(normalizeCustomFields([estimate, size], { estimate: '2', size: 'XL', other: 'x' })).toEqual({
+      estimate: 2,
+      size: null,
+      other: 'x'
+    })
+  })
+})
+
+describe('mergeCustomFieldEdits', () => {
+  it('normalizes only the values the edit changed', () => {
+    expect(mergeCustomFieldEdits([estimate, size], { estimate: 'about 3', size: 'M' }, { estimate: 'about 3', size: 'XL' })).toEqual({
+      estimate: 'about 3',
+      size: null
+    })
+  })
+
+  it('keeps an invalid hand-written value in the file when saving other edits', () => {
+    const content = '---\nid: "card"\nstatus: "todo"\nestimate: about 3\nsize: XL\n---\nBody'
+    const feature = parseFeatureFile(content, '/features/card.md')!
+    feature.customFields = mergeCustomFieldEdits([estimate, size], feature.customFields, { ...feature.customFields, estimate: 'about 3' })
+    feature.content = 'Edited body'
+    const saved = serializeFeature(feature)
+    expect(saved).toContain('estimate: about 3\n')
+    expect(saved).toContain('size: XL\n')
+  })
+})
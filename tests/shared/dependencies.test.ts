@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeBlockedBy,
+  getOpenBlockers,
+  isBlocked,
+  getBlockedFeatures,
+  wouldCreateCycle,
+  validateDependencies,
+  renameDependencyReferences
+} from '../../src/shared/dependencies'
+import type { Feature } from '../../src/shared/types'
+
+function makeFeature(id: string, overrides: Partial<Feature> = {}): Feature {
+  return {
+    id,
+    status: 'todo',
+    priority: 'medium',
+    assignee: null,
+    epic: null,
+    dueDate: null,
+    created: '2026-01-01T00:00:00.000Z',
+    modified: '2026-01-01T00:00:00.000Z',
+    completedAt: null,
+    labels: [],
+    order: 'a0',
+    content: `# ${id}`,
+    filePath: `/workspace/features/${id}.md`,
+    ...overrides
+  }
+}
+
+describe('normalizeBlockedBy', () => {
+  it('trims, de-duplicates and drops self-references', () => {
+    expect(normalizeBlockedBy([' a ', 'a', '', 'b', 'self'], 'self')).toEqual(['a', 'b'])
+  })
+
+  it('handles a missing list', () => {
+    expect(normalizeBlockedBy(undefined)).toEqual([])
+  })
+})
+
+describe('getOpenBlockers / isBlocked', () => {
+  const features = [
+    makeFeature('open'),
+    makeFeature('finished', { status: 'done' }),
+    makeFeature('card', { blockedBy: ['open', 'finished', 'missing'] })
+  ]
+
+  it('returns existing blockers that are not done', () => {
+    expect(getOpenBlockers(features[2], features).map(f => f.id)).toEqual(['open'])
+    expect(isBlocked(features[2], features)).toBe(true)
+  })
+
+  it('is not blocked once every blocker is done', () => {
+    const done = features.map(f => (f.id === 'open' ? { ...f, status: 'done' } : f))
+    expect(isBlocked(done[2], done)).toBe(false)
+  })
+
+  it('respects custom done columns', () => {
+    const columns = [
+      { id: 'todo', name: 'To Do', color: '#000', category: 'todo' as const },
+      { id: 'shipped', name: 'Shipped', color: '#111', category: 'done' as const }
+    ]
+    const shipped = [makeFeature('a', { status: 'shipped' }), makeFeature('b', { blockedBy: ['a'] })]
+    expect(isBlocked(shipped[1], shipped, columns)).toBe(false)
+  })
+})
+
+describe('getBlockedFeatures', () => {
+  it('lists features that name the id as a blocker', () => {
+    const features = [makeFeature('a'), makeFeature('b', { blockedBy: ['a'] }), makeFeature('c')]
+    expect(getBlockedFeatures('a', features).map(f => f.id)).toEqual(['b'])
+  })
+})
+
+describe('wouldCreateCycle', () => {
+  const features = [
+    makeFeature('a', { blockedBy: ['b'] }),
+    makeFeature('b', { blockedBy: ['c'] }),
+    makeFeature('c')
+  ]
+
+  it('detects direct and transitive cycles', () => {
+    expect(wouldCreateCycle(features, 'c', 'a')).toBe(true)
+    expect(wouldCreateCycle(features, 'b', 'a')).toBe(true)
+    expect(wouldCreateCycle(features, 'a', 'a')).toBe(true)
+  })
+
+  it('allows edges that keep the graph acyclic', () => {
+    expect(wouldCreateCycle(features, 'a', 'c')).toBe(false)
+  })
+})
+
+describe('validateDependencies', () => {
+  it('returns no issues for a valid graph', () => {
+    const features = [makeFeature('a', { blockedBy: ['b'] }), makeFeature('b')]
+    expect(validateDependencies(features)).toEqual([])
+  })
+
+  it('flags unknown ids', () => {
+    const features = [makeFeature('a', { blockedBy: ['b', 'ghost'] }), makeFeature('b')]
+    expect(validateDependencies(features)).toEqual([{ kind: 'unknown', featureId: 'a', ids: ['ghost'] }])
+  })
+
+  it('reports each cycle once, starting from the smallest id', () => {
+    const features = [
+      makeFeature('c', { blockedBy: ['a'] }),
+      makeFeature('a', { blockedBy: ['b'] }),
+      makeFeature('b', { blockedBy: ['c'] })
+    ]
+    expect(validateDependencies(features)).toEqual([{ kind: 'cycle', featureId: 'a', cycle: ['a', 'b', 'c'] }])
+  })
+})
+
+describe('renameDependencyReferences', () => {
+  it('rewrites references and returns the changed features', () => {
+    const features = [makeFeature('new-a'), makeFeature('b', { blockedBy: ['old-a', 'c'] }), makeFeature('c')]
+    const changed = renameDependencyReferences(features, new Map([['old-a', 'new-a']]))
+    expect(changed.map(f => f.id)).toEqual(['b'])
+    expect(features[1].blockedBy).toEqual(['new-a', 'c'])
+  })
+
+  it('does nothing when no ids were renamed', () => {
+    const features = [makeFeature('b', { blockedBy: ['a'] })]
+    expect(renameDependencyReferences(features, new Map())).toEqual([])
+  })
+})
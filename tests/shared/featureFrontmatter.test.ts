@@ -247,3 +247,237 @@ describe('round-trip: serializeFeature → parseFeatureFile', () => {
     expect(recovered.completedAt).toBe('2026-02-28T18:00:00.000Z')
   })
 })
+
+// ---------------------------------------------------------------------------
+// YAML fidelity: unknown keys, comments, quoting
+// ---------------------------------------------------------------------------
+
+describe('YAML round-trip fidelity', () => {
+  const handEdited = [
+    '---',
+    '# Owned by the payments team',
+    'id: "abc-123"',
+    'status: todo # triaged on Monday',
+    'estimate: 5',
+    'reviewer: "sam"',
+    'priority: "high"',
+    'labels:',
+    '  - frontend',
+    '  - bug',
+    'notes: |',
+    '  first line',
+    '  second line',
+    'order: "a1"',
+    '---',
+    '# Body'
+  ].join('\n')
+
+  it('parses block-style label lists', () => {
+    expect(parseFeatureFile(handEdited, FIXTURE_PATH)!.labels).toEqual(['frontend', 'bug'])
+  })
+
+  it('parses unquoted scalar values', () => {
+    expect(parseFeatureFile(handEdited, FIXTURE_PATH)!.status).toBe('todo')
+  })
+
+  it('keeps unknown keys, comments and key order when serializing', () => {
+    const feature = parseFeatureFile(handEdited, FIXTURE_PATH)!
+    feature.status = 'in-progress'
+    const output = serializeFeature(feature)
+
+    expect(output).toContain('# Owned by the payments team')
+    expect(output).toContain('status: "in-progress" # triaged on Monday')
+    expect(output).toContain('estimate: 5')
+    expect(output).toContain('reviewer: "sam"')
+    expect(output).toContain('notes: |\n  first line\n  second line')
+    expect(output.indexOf('estimate:')).toBeLessThan(output.indexOf('priority:'))
+  })
+
+  it('keeps block style for an existing block label list', () => {
+    const feature = parseFeatureFile(handEdited, FIXTURE_PATH)!
+    feature.labels = ['frontend', 'api']
+    expect(serializeFeature(feature)).toContain('labels:\n  - "frontend"\n  - "api"')
+  })
+
+  it('escapes values containing quotes and colons', () => {
+    const original = makeFeature({ assignee: 'Sam "The Reviewer"', epic: 'Phase 2: rollout' })
+    const output = serializeFeature(original)
+    expect(output).toContain('assignee: "Sam \\"The Reviewer\\""')
+
+    const recovered = parseFeatureFile(output, original.filePath)!
+    expect(recovered.assignee).toBe('Sam "The Reviewer"')
+    expect(recovered.epic).toBe('Phase 2: rollout')
+  })
+
+  it('falls back to top-level lines for malformed YAML', () => {
+    const content = '---\nid: "abc-123"\nbroken: a: b\nstatus: "review"\n---\nBody'
+    const feature = parseFeatureFile(content, FIXTURE_PATH)!
+    expect(feature.id).toBe('abc-123')
+    expect(feature.status).toBe('review')
+    expect(serializeFeature(feature)).toContain('broken: "a: b"')
+  })
+})
+
+describe('custom fields', () => {
+  const withFields = [
+    '---',
+    'id: "abc-123"',
+    'status: "todo"',
+    'estimate: 5',
+    'team: payments # owning team',
+    'notes: |',
+    '  multi-line',
+    'order: "a0"',
+    '---',
+    '# Body'
+  ].join('\n')
+
+  it('collects unknown string and number scalars as custom fields', () => {
+    const feature = parseFeatureFile(withFields, FIXTURE_PATH)!
+    expect(feature.customFields).toEqual({ estimate: 5, team: 'payments', notes: 'multi-line\n' })
+  })
+
+  it('writes changed custom field values', () => {
+    const feature = parseFeatureFile(withFields, FIXTURE_PATH)!
+    feature.customFields = { ...feature.customFields, estimate: 8, team: 'platform' }
+    const output = serializeFeature(feature)
+    expect(output).toContain('estimate: 8')
+    expect(output).toContain('team: "platform" # owning team')
+  })
+
+  it('leaves unchanged custom field values as written', () => {
+    const feature = parseFeatureFile(withFields, FIXTURE_PATH)!
+    const output = serializeFeature(feature)
+    expect(output).toContain('team: payments # owning team')
+    expect(output).toContain('notes: |\n  multi-line')
+  })
+
+  it('removes a custom field set to null', () => {
+    const feature = parseFeatureFile(withFields, FIXTURE_PATH)!
+    feature.customFields = { ...feature.customFields, estimate: null }
+    expect(serializeFeature(feature)).not.toContain('estimate:')
+  })
+
+  it('keeps unknown keys with empty values', () => {
+    const content = withFields.replace('order: "a0"', 'reviewer: ""\nfoo: \'\'\norder: "a0"')
+    const feature = parseFeatureFile(content, FIXTURE_PATH)!
+    feature.status = 'done'
+    const output = serializeFeature(feature)
+    expect(output).toContain('reviewer: ""\n')
+    expect(output).toContain("foo: ''\n")
+    expect(parseFeatureFile(output, FIXTURE_PATH)!.customFields).toMatchObject({ reviewer: '', foo: '' })
+  })
+
+  it('adds new custom fields to a fresh file', () => {
+    const output = serializeFeature(makeFeature({ customFields: { estimate: 3, size: 'L' } }))
+    expect(output).toContain('estimate: 3')
+    expect(output).toContain('size: "L"')
+    expect(parseFeatureFile(output, FIXTURE_PATH)!.customFields).toEqual({ estimate: 3, size: 'L' })
+  })
+})
+
+describe('blockedBy', () => {
+  it('parses blocker ids and defaults to an empty list', () => {
+    const content = makeFrontmatter({ blockedBy: '["setup-ci", "auth"]' }) + '# Body'
+    expect(parseFeatureFile(content, FIXTURE_PATH)!.blockedBy).toEqual(['setup-ci', 'auth'])
+    expect(parseFeatureFile(makeFrontmatter() + '# Body', FIXTURE_PATH)!.blockedBy).toEqual([])
+  })
+
+  it('writes blockedBy only when it has entries', () => {
+    expect(serializeFeature(makeFeature())).not.toContain('blockedBy')
+    expect(serializeFeature(makeFeature({ blockedBy: ['auth'] }))).toContain('blockedBy: ["auth"]')
+  })
+
+  it('removes the key once the last blocker is cleared', () => {
+    const feature = parseFeatureFile(makeFrontmatter({ blockedBy: '["auth"]' }) + '# Body', FIXTURE_PATH)!
+    feature.blockedBy = []
+    expect(serializeFeature(feature)).not.toContain('blockedBy')
+  })
+
+  it('is not collected as a custom field', () => {
+    const content = makeFrontmatter({ blockedBy: 'auth' }) + '# Body'
+    expect(parseFeatureFile(content, FIXTURE_PATH)!.customFields).toEqual({})
+  })
+})
+
+describe('statusHistory', () => {
+  const history = [
+    { status: 'todo', at: '2026-02-23T10:00:00.000Z' },
+    { status: 'in-progress', at: '2026-02-24T12:00:00.000Z' }
+  ]
+
+  it('round-trips as a block list and is omitted when empty', () => {
+    const output = serializeFeature(makeFeature({ statusHistory: history }))
+    expect(output).toContain('statusHistory:\n  - status: "todo"\n    at: "2026-02-23T10:00:00.000Z"\n')
+    expect(parseFeatureFile(output, FIXTURE_PATH)!.statusHistory).toEqual(history)
+    expect(serializeFeature(makeFeature({ statusHistory: [] }))).not.toContain('statusHistory')
+  })
+
+  it('drops malformed entries', () => {
+    const content = makeFrontmatter() + '# Body'
+    const withHistory = content.replace(
+      '---\n# Body',
+      'statusHistory:\n  - status: todo\n    at: 2026-02-23T10:00:00Z\n  - status: doing\n  - at: nope\n---\n# Body'
+    )
+    expect(parseFeatureFile(withHistory, FIXTURE_PATH)!.statusHistory).toEqual([
+      { status: 'todo', at: '2026-02-23T10:00:00Z' }
+    ])
+  })
+
+  it('keeps the history on disk when the writer does not track it', () => {
+    const feature = parseFeatureFile(serializeFeature(makeFeature({ statusHistory: history })), FIXTURE_PATH)!
+    const output = serializeFeature({ ...feature, statusHistory: undefined })
+    expect(parseFeatureFile(output, FIXTURE_PATH)!.statusHistory).toEqual(history)
+  })
+})
+
+describe('aiSession', () => {
+  const session = { agent: 'codex' as const, permissionMode: 'acceptEdits' as const, startedAt: '2026-02-24T12:00:00.000Z' }
+
+  it('round-trips as a block mapping', () => {
+    const output = serializeFeature(makeFeature({ aiSession: session }))
+    expect(output).toContain('aiSession:\n  agent: "codex"\n  permissionMode: "acceptEdits"\n  startedAt: "2026-02-24T12:00:00.000Z"\n')
+    expect(parseFeatureFile(output, FIXTURE_PATH)!.aiSession).toEqual(session)
+    expect(parseFeatureFile(output, FIXTURE_PATH)!.customFields).toEqual({})
+  })
+
+  it('ignores sessions with an invalid agent id or start time', () => {
+    const content = makeFrontmatter() + '# Body'
+    const withSession = (yaml: string) => parseFeatureFile(content.replace('---\n# Body', `${yaml}\n---\n# Body`), FIXTURE_PATH)!
+    expect(withSession('aiSession:\n  agent: my agent\n  startedAt: 2026-02-24T12:00:00Z').aiSession).toBeUndefined()
+    expect(withSession('aiSession:\n  agent: claude\n  startedAt: soon').aiSession).toBeUndefined()
+    expect(withSession('aiSession:\n  agent: claude\n  startedAt: 2026-02-24T12:00:00Z').aiSession)
+      .toEqual({ agent: 'claude', permissionMode: 'default', startedAt: '2026-02-24T12:00:00Z' })
+    expect(withSession('aiSession:\n  agent: aider\n  startedAt: 2026-02-24T12:00:00Z').aiSession?.agent).toBe('aider')
+  })
+
+  it('keeps the session on disk when the writer does not set it', () => {
+    const feature = parseFeatureFile(serializeFeature(makeFeature({ aiSession: session })), FIXTURE_PATH)!
+    const output = serializeFeature({ ...feature, aiSession: undefined, priority: 'low' })
+    expect(parseFeatureFile(output, FIXTURE_PATH)!.aiSession).toEqual(session)
+  })
+})
+
+describe('branch', () => {
+  it('round-trips the branch and keeps it on disk when the writer does not set it', () => {
+    const output = serializeFeature(makeFeature({ branch: 'fix-login' }))
+    expect(output).toContain('branch: "fix-login"\n')
+    const feature = parseFeatureFile(output, FIXTURE_PATH)!
+    expect(feature.branch).toBe('fix-login')
+    expect(feature.customFields).toEqual({})
+    expect(parseFeatureFile(serializeFeature({ ...feature, branch: undefined }), FIXTURE_PATH)!.branch).toBe('fix-login')
+  })
+
+  it('writes the key after the id and keeps it on disk when the writer does not set it', () => {
+    const output = serializeFeature(makeFeature({ key: 'KM-42' }))
+    expect(output).toMatch(/^---\nid: [^\n]+\nkey: "KM-42"\n/)
+    const feature = parseFeatureFile(output, FIXTURE_PATH)!
+    expect(feature.key).toBe('KM-42')
+    expect(parseFeatureFile(serializeFeature({ ...feature, key: undefined }), FIXTURE_PATH)!.key).toBe('KM-42')
+  })
+
+  it('leaves files without a branch untouched', () => {
+    expect(serializeFeature(makeFeature())).not.toContain('branch:')
+    expect(parseFeatureFile(serializeFeature(makeFeature()), FIXTURE_PATH)!.branch).toBeUndefined()
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { buildAgentPrompt, renderPromptTemplate } from '../../src/shared/prompts'
+import type { Feature } from '../../src/shared/types'
+
+const FILE_PATH = '/repo/.devtool/features/login-2026-02-23.md'
+
+function makeFeature(overrides: Partial<Feature> = {}): Feature {
+  return {
+    id: 'login-2026-02-23',
+    status: 'todo',
+    priority: 'high',
+    assignee: null,
+    epic: 'Auth',
+    dueDate: null,
+    created: '2026-02-23T10:00:00.000Z',
+    modified: '2026-02-23T10:00:00.000Z',
+    completedAt: null,
+    labels: ['frontend', 'bug'],
+    order: 'a0',
+    content: '# Fix login\n\nUsers are logged out.\n\n- [x] Reproduce\n- [ ] Fix the cookie',
+    filePath: FILE_PATH,
+    ...overrides
+  }
+}
+
+describe('renderPromptTemplate', () => {
+  it('fills the card placeholders', () => {
+    const template = '{{title}} ({{epic}}: {{labels}})\nSpec: {{filePath}}\n\n{{checklist}}'
+    expect(renderPromptTemplate(template, makeFeature(), FILE_PATH)).toBe(
+      `Fix login (Auth: frontend, bug)\nSpec: ${FILE_PATH}\n\n- [x] Reproduce\n- [ ] Fix the cookie`
+    )
+  })
+
+  it('fills missing values with empty text and leaves unknown placeholders as written', () => {
+    expect(renderPromptTemplate('{{ assignee }}|{{dueDate}}|{{branch}}', makeFeature(), FILE_PATH)).toBe('||{{branch}}')
+  })
+
+  it('passes the whole body through {{content}}', () => {
+    const feature = makeFeature()
+    expect(renderPromptTemplate('{{content}}', feature, FILE_PATH)).toBe(feature.content)
+  })
+})
+
+describe('buildAgentPrompt', () => {
+  it('uses the default prompt without a template', () => {
+    expect(buildAgentPrompt(makeFeature({ content: '# Fix login\n\nUsers are logged out.' }), FILE_PATH, '  ')).toBe(
+      `Implement this feature: "Fix login" (high priority) [frontend, bug]. # Fix login Users are logged out. See full details in: ${FILE_PATH}`
+    )
+  })
+
+  it('shortens long descriptions in the default prompt', () => {
+    const prompt = buildAgentPrompt(makeFeature({ content: 'x'.repeat(300), labels: [] }), FILE_PATH)
+    expect(prompt).toContain(`(high priority). ${'x'.repeat(200)}... See`)
+  })
+
+  it('renders the template when there is one', () => {
+    expect(buildAgentPrompt(makeFeature(), FILE_PATH, 'Work on {{id}}')).toBe('Work on login-2026-02-23')
+  })
+
+  it('puts the MCP instructions where the template asks, and nowhere else', () => {
+    expect(buildAgentPrompt(makeFeature(), FILE_PATH, '{{mcpInstructions}}\nWork on {{id}}', 'Use the tools.')).toBe(
+      'Use the tools.\nWork on login-2026-02-23'
+    )
+    expect(buildAgentPrompt(makeFeature(), FILE_PATH, 'Work on {{id}}', 'Use the tools.')).toBe('Work on login-2026-02-23')
+    expect(buildAgentPrompt(makeFeature(), FILE_PATH, 'Work on {{id}} {{mcpInstructions}}')).toBe('Work on login-2026-02-23')
+  })
+
+  it('ends the default prompt with the MCP instructions', () => {
+    expect(buildAgentPrompt(makeFeature(), FILE_PATH, undefined, 'Use the tools.')).toMatch(/See full details in: \S+ Use the tools\.$/)
+  })
+})
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getColumnCategory,
+  getStatusCategory,
+  isDoneStatus,
+  sanitizeColumns,
+  getCompletedAtAfterMove,
+  getStatusHistoryAfterMove,
+  exceedsWipLimit,
+  getStartColumn,
+  getHandoffColumn,
+  getDoneColumn
+} from '../../src/shared/statuses'
+import { DEFAULT_COLUMNS } from '../../src/shared/types'
+import type { KanbanColumn } from '../../src/shared/types'
+
+const customColumns: KanbanColumn[] = [
+  { id: 'ideas', name: 'Ideas', color: '#000', category: 'todo' },
+  { id: 'qa', name: 'QA', color: '#111', category: 'active' },
+  { id: 'shipped', name: 'Shipped', color: '#222', category: 'done' },
+  { id: 'archived', name: 'Archived', color: '#333', category: 'done' }
+]
+
+describe('getColumnCategory', () => {
+  it('uses the explicit category', () => {
+    expect(getColumnCategory({ id: 'done', category: 'active' })).toBe('active')
+  })
+
+  it('infers categories for the built-in ids', () => {
+    expect(getColumnCategory({ id: 'backlog' })).toBe('todo')
+    expect(getColumnCategory({ id: 'in-progress' })).toBe('active')
+    expect(getColumnCategory({ id: 'review' })).toBe('active')
+    expect(getColumnCategory({ id: 'done' })).toBe('done')
+  })
+
+  it('defaults unknown ids to todo', () => {
+    expect(getColumnCategory({ id: 'blocked' })).toBe('todo')
+  })
+})
+
+describe('sanitizeColumns', () => {
+  it('falls back to the default columns', () => {
+    expect(sanitizeColumns(undefined)).toBe(DEFAULT_COLUMNS)
+    expect(sanitizeColumns([])).toBe(DEFAULT_COLUMNS)
+    expect(sanitizeColumns([{ name: 'No id' }])).toBe(DEFAULT_COLUMNS)
+  })
+
+  it('fills in categories for legacy column settings', () => {
+    const columns = sanitizeColumns([
+      { id: 'todo', name: 'To Do', color: '#3b82f6' },
+      { id: 'done', name: 'Done', color: '#22c55e' }
+    ])
+    expect(columns.map(c => c.category)).toEqual(['todo', 'done'])
+  })
+
+  it('drops duplicate ids and defaults missing names and colors', () => {
+    const columns = sanitizeColumns([{ id: 'qa' }, { id: 'qa', name: 'Again' }])
+    expect(columns).toEqual([{ id: 'qa', name: 'qa', color: '#6b7280', category: 'todo' }])
+  })
+
+  it('keeps only positive integer WIP limits', () => {
+    const columns = sanitizeColumns([
+      { id: 'a', wipLimit: 3 },
+      { id: 'b', wipLimit: 0 },
+      { id: 'c', wipLimit: 2.5 },
+      { id: 'd', wipLimit: '4' }
+    ])
+    expect(columns.map(c => c.wipLimit)).toEqual([3, undefined, undefined, undefined])
+  })
+})
+
+describe('getStatusCategory / isDoneStatus', () => {
+  it('resolves categories for custom columns', () => {
+    expect(getStatusCategory('qa', customColumns)).toBe('active')
+    expect(isDoneStatus('shipped', customColumns)).toBe(true)
+    expect(isDoneStatus('archived', customColumns)).toBe(true)
+    expect(isDoneStatus('ideas', customColumns)).toBe(false)
+  })
+
+  it('treats "done" as done when no column matches', () => {
+    expect(isDoneStatus('done', customColumns)).toBe(true)
+    expect(isDoneStatus('unknown', customColumns)).toBe(false)
+  })
+})
+
+describe('getCompletedAtAfterMove', () => {
+  const now = '2026-03-01T00:00:00.000Z'
+
+  it('stamps completedAt when entering a done column', () => {
+    expect(getCompletedAtAfterMove(null, 'qa', 'shipped', customColumns, now)).toBe(now)
+  })
+
+  it('keeps completedAt when moving between done columns', () => {
+    const earlier = '2026-02-01T00:00:00.000Z'
+    expect(getCompletedAtAfterMove(earlier, 'shipped', 'archived', customColumns, now)).toBe(earlier)
+  })
+
+  it('clears completedAt when leaving the done category', () => {
+    expect(getCompletedAtAfterMove(now, 'shipped', 'qa', customColumns)).toBeNull()
+  })
+})
+
+describe('getStatusHistoryAfterMove', () => {
+  const now = '2026-03-01T00:00:00.000Z'
+  const created = '2026-02-01T00:00:00.000Z'
+
+  it('appends a transition when the status changes', () => {
+    const history = [{ status: 'todo', at: created }]
+    expect(getStatusHistoryAfterMove({ statusHistory: history, created }, 'todo', 'qa', now)).toEqual([
+      { status: 'todo', at: created },
+      { status: 'qa', at: now }
+    ])
+  })
+
+  it('leaves the history alone when the status is unchanged', () => {
+    const history = [{ status: 'todo', at: created }]
+    expect(getStatusHistoryAfterMove({ statusHistory: history, created }, 'todo', 'todo', now)).toBe(history)
+  })
+
+  it('seeds a missing history with the old status at creation', () => {
+    expect(getStatusHistoryAfterMove({ created }, 'todo', 'qa', now)).toEqual([
+      { status: 'todo', at: created },
+      { status: 'qa', at: now }
+    ])
+  })
+})
+
+describe('exceedsWipLimit', () => {
+  const column: KanbanColumn = { id: 'qa', name: 'QA', color: '#111', wipLimit: 2 }
+
+  it('allows cards up to the limit', () => {
+    expect(exceedsWipLimit(column, 1)).toBe(false)
+    expect(exceedsWipLimit(column, 0, 2)).toBe(false)
+  })
+
+  it('flags moves that go over the limit', () => {
+    expect(exceedsWipLimit(column, 2)).toBe(true)
+    expect(exceedsWipLimit(column, 1, 2)).toBe(true)
+  })
+
+  it('never flags columns without a limit', () => {
+    expect(exceedsWipLimit({ ...column, wipLimit: undefined }, 50)).toBe(false)
+    expect(exceedsWipLimit(undefined, 50)).toBe(false)
+  })
+})
+
+describe('getStartColumn / getHandoffColumn / getDoneColumn', () => {
+  it('picks the first and last in-progress columns of the default board', () => {
+    expect(getStartColumn(DEFAULT_COLUMNS)?.id).toBe('in-progress')
+    expect(getHandoffColumn(DEFAULT_COLUMNS)?.id).toBe('review')
+  })
+
+  it('picks the first done column', () => {
+    expect(getDoneColumn(DEFAULT_COLUMNS)?.id).toBe('done')
+    expect(getDoneColumn(customColumns)?.id).toBe('shipped')
+  })
+
+  it('hands off to the first done column when nothing is in progress', () => {
+    const columns = customColumns.filter(c => c.category !== 'active')
+    expect(getStartColumn(columns)).toBeUndefined()
+    expect(getHandoffColumn(columns)?.id).toBe('shipped')
+  })
+})
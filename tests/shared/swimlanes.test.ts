@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import type { CustomFieldDefinition, Feature } from '../../src/shared/types'
+import {
+  featureMatchesLane,
+  getLaneUpdates,
+  getLaneValue,
+  getSwimlaneValues,
+  swimlaneKey
+} from '../../src/shared/swimlanes'
+
+function f(overrides: Partial<Feature>): Feature {
+  return {
+    id: 'x',
+    status: 'todo',
+    priority: 'medium',
+    assignee: null,
+    epic: null,
+    dueDate: null,
+    created: '',
+    modified: '',
+    completedAt: null,
+    labels: [],
+    order: 'a0',
+    content: '# T',
+    filePath: '/f.md',
+    ...overrides
+  }
+}
+
+const SIZE: CustomFieldDefinition = { key: 'size', label: 'Size', type: 'enum', options: ['S', 'M', 'L'], showOnCard: false }
+const POINTS: CustomFieldDefinition = { key: 'points', label: 'Points', type: 'number', showOnCard: false }
+
+describe('featureMatchesLane', () => {
+  it('matches all when lane is undefined', () => {
+    expect(featureMatchesLane(f({ epic: 'A' }), undefined)).toBe(true)
+    expect(featureMatchesLane(f({ epic: null }), undefined)).toBe(true)
+  })
+
+  it('null epic lane matches only tickets with no epic', () => {
+    expect(featureMatchesLane(f({ epic: null }), { groupBy: 'epic', value: null })).toBe(true)
+    expect(featureMatchesLane(f({ epic: '  ' }), { groupBy: 'epic', value: null })).toBe(true)
+    expect(featureMatchesLane(f({ epic: 'X' }), { groupBy: 'epic', value: null })).toBe(false)
+  })
+
+  it('named epic lane matches that epic only', () => {
+    expect(featureMatchesLane(f({ epic: 'Foo' }), { groupBy: 'epic', value: 'Foo' })).toBe(true)
+    expect(featureMatchesLane(f({ epic: 'Bar' }), { groupBy: 'epic', value: 'Foo' })).toBe(false)
+  })
+
+  it('matches assignee, priority, label and custom field lanes', () => {
+    const feature = f({ assignee: 'ana', priority: 'high', labels: ['ui'], customFields: { points: 3 } })
+    expect(featureMatchesLane(feature, { groupBy: 'assignee', value: 'ana' })).toBe(true)
+    expect(featureMatchesLane(feature, { groupBy: 'priority', value: 'high' })).toBe(true)
+    expect(featureMatchesLane(feature, { groupBy: 'label:ui', value: 'ui' })).toBe(true)
+    expect(featureMatchesLane(feature, { groupBy: 'label:bug', value: null })).toBe(true)
+    expect(featureMatchesLane(feature, { groupBy: 'field:points', value: '3' })).toBe(true)
+    expect(featureMatchesLane(feature, { groupBy: 'field:size', value: null })).toBe(true)
+  })
+})
+
+describe('getLaneValue', () => {
+  it('trims epics and assignees', () => {
+    expect(getLaneValue(f({ epic: ' Payments ' }), 'epic')).toBe('Payments')
+    expect(getLaneValue(f({ assignee: '' }), 'assignee')).toBeNull()
+  })
+})
+
+describe('getSwimlaneValues', () => {
+  it('lists values in use with the none lane last', () => {
+    const features = [f({ epic: 'Beta' }), f({ epic: 'Alpha' }), f({ epic: null })]
+    expect(getSwimlaneValues(features, 'epic')).toEqual(['Alpha', 'Beta', null])
+    expect(getSwimlaneValues([f({ epic: 'A' })], 'epic')).toEqual(['A'])
+    expect(getSwimlaneValues([], 'assignee')).toEqual([])
+  })
+
+  it('always lists every priority and both label lanes', () => {
+    expect(getSwimlaneValues([], 'priority')).toEqual(['critical', 'high', 'medium', 'low'])
+    expect(getSwimlaneValues([], 'label:ui')).toEqual(['ui', null])
+  })
+
+  it('lists enum options in their defined order', () => {
+    const features = [f({ customFields: { size: 'L' } }), f({})]
+    expect(getSwimlaneValues(features, 'field:size', [SIZE])).toEqual(['S', 'M', 'L', null])
+  })
+})
+
+describe('getLaneUpdates', () => {
+  it('is empty when the feature is already in the lane', () => {
+    expect(getLaneUpdates(f({ epic: 'A' }), { groupBy: 'epic', value: 'A' })).toEqual({})
+  })
+
+  it('sets or clears the grouped field', () => {
+    expect(getLaneUpdates(f({ epic: 'A' }), { groupBy: 'epic', value: null })).toEqual({ epic: null })
+    expect(getLaneUpdates(f({}), { groupBy: 'assignee', value: 'ana' })).toEqual({ assignee: 'ana' })
+    expect(getLaneUpdates(f({}), { groupBy: 'priority', value: 'low' })).toEqual({ priority: 'low' })
+  })
+
+  it('adds or removes the grouped label', () => {
+    expect(getLaneUpdates(f({ labels: ['bug'] }), { groupBy: 'label:ui', value: 'ui' })).toEqual({ labels: ['bug', 'ui'] })
+    expect(getLaneUpdates(f({ labels: ['bug', 'ui'] }), { groupBy: 'label:ui', value: null })).toEqual({ labels: ['bug'] })
+  })
+
+  it('coerces custom field values to the field type', () => {
+    const feature = f({ customFields: { size: 'S' } })
+    expect(getLaneUpdates(feature, { groupBy: 'field:points', value: '5' }, [POINTS])).toEqual({
+      customFields: { size: 'S', points: 5 }
+    })
+    expect(getLaneUpdates(feature, { groupBy: 'field:size', value: null }, [SIZE])).toEqual({
+      customFields: { size: null }
+    })
+  })
+})
+
+describe('swimlaneKey', () => {
+  it('scopes keys to the grouping', () => {
+    expect(swimlaneKey({ groupBy: 'epic', value: 'A' })).toBe('epic::A')
+    expect(swimlaneKey({ groupBy: 'assignee', value: null })).toBe('assignee::__none__')
+  })
+})
@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { ActivityTimeline } from '../../../src/webview/components/ActivityTimeline'
+import { useStore } from '../../../src/webview/store'
+import type { ActivityEntry, KanbanColumn } from '../../../src/shared/types'
+
+const initialState = useStore.getState()
+
+const COLUMNS: KanbanColumn[] = [
+  { id: 'todo', name: 'To Do', color: '#3b82f6', category: 'todo' },
+  { id: 'doing', name: 'Doing', color: '#f59e0b', category: 'active' }
+]
+
+beforeEach(() => {
+  useStore.setState(initialState, true)
+  useStore.setState({ columns: COLUMNS })
+})
+
+const entry = (overrides: Partial<ActivityEntry>): ActivityEntry => ({
+  at: '2026-03-01T10:00:00.000Z',
+  by: 'Ada',
+  field: 'status',
+  from: null,
+  to: null,
+  ...overrides
+})
+
+describe('ActivityTimeline', () => {
+  it('shows an empty state without entries', () => {
+    render(<ActivityTimeline activity={[]} />)
+    expect(screen.getByText('No activity recorded yet')).toBeTruthy()
+  })
+
+  it('describes entries newest first with column names and translated values', () => {
+    render(
+      <ActivityTimeline
+        activity={[
+          entry({ field: 'created', to: 'todo' }),
+          entry({ field: 'status', from: 'todo', to: 'doing' }),
+          entry({ field: 'priority', from: 'medium', to: 'high' }),
+          entry({ field: 'assignee', to: 'grace' }),
+          entry({ field: 'epic', from: 'Auth' }),
+          entry({ field: 'label', to: 'bug' }),
+          entry({ field: 'label', from: 'ui' })
+        ]}
+      />
+    )
+
+    const items = screen.getAllByRole('listitem').map(li => li.querySelector('div > div')?.textContent)
+    expect(items).toEqual([
+      'Ada removed label ui',
+      'Ada added label bug',
+      'Ada cleared Epic (was Auth)',
+      'Ada set Assignee to grace',
+      'Ada changed Priority from Medium to High',
+      'Ada moved this from To Do to Doing',
+      'Ada created this card in To Do'
+    ])
+  })
+})
@@ -0,0 +1,102 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ArchiveView } from '../../../src/webview/components/ArchiveView'
+import { useStore } from '../../../src/webview/store'
+import type { Feature, KanbanColumn } from '../../../src/shared/types'
+
+// ---------------------------------------------------------------------------
+// Mock vscode API
+// ---------------------------------------------------------------------------
+
+const { mockPostMessage } = vi.hoisted(() => ({ mockPostMessage: vi.fn() }))
+
+vi.mock('../../../src/webview/vscodeApi', () => ({
+  vscode: { postMessage: mockPostMessage }
+}))
+
+// ---------------------------------------------------------------------------
+// Store reset
+// ---------------------------------------------------------------------------
+
+const initialState = useStore.getState()
+
+const COLUMNS: KanbanColumn[] = [
+  { id: 'todo', name: 'To Do', color: '#3b82f6' },
+  { id: 'done', name: 'Done', color: '#22c55e' }
+]
+
+function makeFeature(overrides: Partial<Feature> = {}): Feature {
+  return {
+    id: 'feat-1',
+    status: 'todo',
+    priority: 'medium',
+    assignee: null,
+    epic: null,
+    dueDate: null,
+    created: '2026-01-01T00:00:00.000Z',
+    modified: '2026-01-01T00:00:00.000Z',
+    completedAt: null,
+    labels: [],
+    order: 'a0',
+    content: '# Feature',
+    filePath: '/workspace/features/archived/feat.md',
+    ...overrides
+  }
+}
+
+beforeEach(() => {
+  useStore.setState(initialState, true)
+  mockPostMessage.mockClear()
+  useStore.setState({
+    columns: COLUMNS,
+    archivedFeatures: [
+      makeFeature({ id: 'login', content: '# Login page', filePath: '/a/login.md', modified: '2026-02-01T00:00:00.000Z' }),
+      makeFeature({ id: 'export', content: '# CSV export', status: 'done', filePath: '/a/export.md', modified: '2026-03-01T00:00:00.000Z' })
+    ]
+  })
+})
+
+describe('ArchiveView', () => {
+  it('asks the extension for the archive when it opens', () => {
+    render(<ArchiveView />)
+    expect(mockPostMessage).toHaveBeenCalledWith({ type: 'requestArchivedFeatures' })
+  })
+
+  it('lists archived cards newest first with their column', () => {
+    render(<ArchiveView />)
+    const rows = screen.getAllByRole('row').slice(1)
+    expect(rows[0].textContent).toContain('CSV export')
+    expect(rows[0].textContent).toContain('Done')
+    expect(rows[1].textContent).toContain('Login page')
+  })
+
+  it('filters with the toolbar search', () => {
+    useStore.setState({ searchQuery: 'login' })
+    render(<ArchiveView />)
+    expect(screen.getByText('Login page')).toBeTruthy()
+    expect(screen.queryByText('CSV export')).toBeNull()
+  })
+
+  it('restores and purges single cards', () => {
+    render(<ArchiveView />)
+    fireEvent.click(screen.getAllByLabelText('Restore')[0])
+    expect(mockPostMessage).toHaveBeenCalledWith({ type: 'restoreArchivedFeatures', featureIds: ['export'] })
+    fireEvent.click(screen.getAllByLabelText('Delete permanently')[1])
+    expect(mockPostMessage).toHaveBeenCalledWith({ type: 'purgeArchivedFeatures', featureIds: ['login'] })
+  })
+
+  it('restores the selected cards', () => {
+    render(<ArchiveView />)
+    fireEvent.click(screen.getByLabelText('Select all'))
+    // The toolbar button comes before the per-row ones
+    fireEvent.click(screen.getAllByRole('button', { name: 'Restore' })[0])
+    expect(mockPostMessage).toHaveBeenCalledWith({ type: 'restoreArchivedFeatures', featureIds: ['export', 'login'] })
+  })
+
+  it('shows an empty state', () => {
+    useStore.setState({ archivedFeatures: [] })
+    render(<ArchiveView />)
+    expect(screen.getByText('No archived cards')).toBeTruthy()
+  })
+})
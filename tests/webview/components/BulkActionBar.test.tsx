@@ -0,0 +1,125 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { BulkActionBar } from '../../../src/webview/components/BulkActionBar'
+import { useStore } from '../../../src/webview/store'
+import type { Feature, KanbanColumn } from '../../../src/shared/types'
+
+// ---------------------------------------------------------------------------
+// Mock vscode API
+// ---------------------------------------------------------------------------
+
+const { mockPostMessage } = vi.hoisted(() => ({ mockPostMessage: vi.fn() }))
+
+vi.mock('../../../src/webview/vscodeApi', () => ({
+  vscode: { postMessage: mockPostMessage }
+}))
+
+// ---------------------------------------------------------------------------
+// Store reset
+// ---------------------------------------------------------------------------
+
+const initialState = useStore.getState()
+
+const COLUMNS: KanbanColumn[] = [
+  { id: 'todo', name: 'To Do', color: '#3b82f6' },
+  { id: 'done', name: 'Done', color: '#22c55e' }
+]
+
+function makeFeature(overrides: Partial<Feature> = {}): Feature {
+  return {
+    id: 'feat-1',
+    status: 'todo',
+    priority: 'medium',
+    assignee: null,
+    epic: null,
+    dueDate: null,
+    created: '2026-01-01T00:00:00.000Z',
+    modified: '2026-01-01T00:00:00.000Z',
+    completedAt: null,
+    labels: [],
+    order: 'a0',
+    content: '# Feature',
+    filePath: '/workspace/features/feat.md',
+    ...overrides
+  }
+}
+
+beforeEach(() => {
+  useStore.setState(initialState, true)
+  mockPostMessage.mockClear()
+  useStore.setState({
+    columns: COLUMNS,
+    features: [
+      makeFeature({ id: 'a', labels: ['bug'] }),
+      makeFeature({ id: 'b', labels: ['ui'] }),
+      makeFeature({ id: 'c' })
+    ],
+    selectedFeatureIds: new Set(['a', 'b'])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('BulkActionBar', () => {
+  it('renders nothing without a selection', () => {
+    useStore.setState({ selectedFeatureIds: new Set() })
+    const { container } = render(<BulkActionBar />)
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('shows the number of selected cards', () => {
+    render(<BulkActionBar />)
+    expect(screen.getByText('2 selected')).toBeInTheDocument()
+  })
+
+  it('moves every selected card with one message and updates them optimistically', () => {
+    render(<BulkActionBar />)
+    fireEvent.change(screen.getByLabelText('Move to…'), { target: { value: 'done' } })
+    expect(mockPostMessage).toHaveBeenCalledOnce()
+    expect(mockPostMessage).toHaveBeenCalledWith({
+      type: 'bulkUpdateFeatures',
+      featureIds: ['a', 'b'],
+      updates: { status: 'done' }
+    })
+    expect(useStore.getState().features.map((f) => f.status)).toEqual(['done', 'done', 'todo'])
+  })
+
+  it('sets the assignee from the inline input on Enter', () => {
+    render(<BulkActionBar />)
+    fireEvent.click(screen.getByRole('button', { name: 'Assignee' }))
+    const input = screen.getByLabelText('Assignee')
+    fireEvent.change(input, { target: { value: 'grace' } })
+    fireEvent.keyDown(input, { key: 'Enter' })
+    expect(mockPostMessage).toHaveBeenCalledWith({
+      type: 'bulkUpdateFeatures',
+      featureIds: ['a', 'b'],
+      updates: { assignee: 'grace' }
+    })
+    expect(useStore.getState().features.find((f) => f.id === 'a')?.assignee).toBe('grace')
+  })
+
+  it('offers only labels on the selected cards for removal', () => {
+    render(<BulkActionBar />)
+    const select = screen.getByLabelText('Remove label…')
+    expect(Array.from((select as HTMLSelectElement).options).map((o) => o.value)).toEqual(['', 'bug', 'ui'])
+    fireEvent.change(select, { target: { value: 'bug' } })
+    expect(useStore.getState().features.find((f) => f.id === 'a')?.labels).toEqual([])
+  })
+
+  it('sends archive and delete for the selection to the extension', () => {
+    render(<BulkActionBar />)
+    fireEvent.click(screen.getByRole('button', { name: /Archive/ }))
+    fireEvent.click(screen.getByRole('button', { name: /Delete/ }))
+    expect(mockPostMessage).toHaveBeenCalledWith({ type: 'bulkArchiveFeatures', featureIds: ['a', 'b'] })
+    expect(mockPostMessage).toHaveBeenCalledWith({ type: 'bulkDeleteFeatures', featureIds: ['a', 'b'] })
+  })
+
+  it('clears the selection on Escape', () => {
+    render(<BulkActionBar />)
+    fireEvent.keyDown(window, { key: 'Escape' })
+    expect(useStore.getState().selectedFeatureIds.size).toBe(0)
+  })
+})
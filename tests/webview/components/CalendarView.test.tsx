@@ -0,0 +1,121 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, within, fireEvent } from '@testing-library/react'
+import { CalendarView } from '../../../src/webview/components/CalendarView'
+import { useStore } from '../../../src/webview/store'
+import type { Feature, KanbanColumn } from '../../../src/shared/types'
+
+// ---------------------------------------------------------------------------
+// Store reset and a fixed "today"
+// ---------------------------------------------------------------------------
+
+const initialState = useStore.getState()
+
+beforeEach(() => {
+  useStore.setState(initialState, true)
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(new Date(2026, 2, 10, 12))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const COLUMNS: KanbanColumn[] = [
+  { id: 'todo', name: 'To Do', color: '#3b82f6', category: 'todo' },
+  { id: 'done', name: 'Done', color: '#22c55e', category: 'done' }
+]
+
+function makeFeature(overrides: Partial<Feature> = {}): Feature {
+  return {
+    id: 'feat-1',
+    status: 'todo',
+    priority: 'medium',
+    assignee: null,
+    epic: null,
+    dueDate: null,
+    created: '2026-01-01T00:00:00.000Z',
+    modified: '2026-01-01T00:00:00.000Z',
+    completedAt: null,
+    labels: [],
+    order: 'a0',
+    content: '# My Feature',
+    filePath: '/workspace/features/feat.md',
+    ...overrides
+  }
+}
+
+function setup(features: Feature[]) {
+  useStore.setState({ columns: COLUMNS, features })
+  const onFeatureClick = vi.fn()
+  const onRescheduleFeature = vi.fn()
+  render(<CalendarView onFeatureClick={onFeatureClick} onRescheduleFeature={onRescheduleFeature} />)
+  return { onFeatureClick, onRescheduleFeature }
+}
+
+function drag(card: HTMLElement, target: HTMLElement) {
+  const dataTransfer = { setData: vi.fn(), effectAllowed: '', dropEffect: '' }
+  fireEvent.dragStart(card, { dataTransfer })
+  fireEvent.dragOver(target, { dataTransfer })
+  fireEvent.drop(target, { dataTransfer })
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('CalendarView', () => {
+  it('places dated cards on their day and undated cards in the tray', () => {
+    setup([
+      makeFeature({ id: 'a', content: '# Launch', dueDate: '2026-03-12' }),
+      makeFeature({ id: 'b', content: '# Someday' })
+    ])
+    expect(screen.getByText('March 2026')).toBeInTheDocument()
+    expect(within(screen.getByTestId('calendar-day-2026-03-12')).getByText('Launch')).toBeInTheDocument()
+    expect(within(screen.getByTestId('calendar-undated')).getByText('Someday')).toBeInTheDocument()
+  })
+
+  it('reschedules a card dropped on another day', () => {
+    const { onRescheduleFeature } = setup([makeFeature({ id: 'a', content: '# Launch', dueDate: '2026-03-12' })])
+    drag(screen.getByText('Launch'), screen.getByTestId('calendar-day-2026-03-20'))
+    expect(onRescheduleFeature).toHaveBeenCalledWith('a', '2026-03-20')
+  })
+
+  it('schedules a card dragged out of the tray', () => {
+    const { onRescheduleFeature } = setup([makeFeature({ id: 'b', content: '# Someday' })])
+    drag(screen.getByText('Someday'), screen.getByTestId('calendar-day-2026-03-11'))
+    expect(onRescheduleFeature).toHaveBeenCalledWith('b', '2026-03-11')
+  })
+
+  it('clears the due date when a card is dropped on the tray', () => {
+    const { onRescheduleFeature } = setup([makeFeature({ id: 'a', content: '# Launch', dueDate: '2026-03-12' })])
+    drag(screen.getByText('Launch'), screen.getByTestId('calendar-undated'))
+    expect(onRescheduleFeature).toHaveBeenCalledWith('a', null)
+  })
+
+  it('ignores drops on the same day', () => {
+    const { onRescheduleFeature } = setup([makeFeature({ id: 'a', content: '# Launch', dueDate: '2026-03-12' })])
+    drag(screen.getByText('Launch'), screen.getByTestId('calendar-day-2026-03-12'))
+    expect(onRescheduleFeature).not.toHaveBeenCalled()
+  })
+
+  it('navigates between months and switches to the week view', () => {
+    setup([])
+    fireEvent.click(screen.getByTitle('Next'))
+    expect(screen.getByText('April 2026')).toBeInTheDocument()
+    fireEvent.click(screen.getByText('Today'))
+    fireEvent.click(screen.getByText('Week'))
+    expect(screen.getByTestId('calendar-day-2026-03-09')).toBeInTheDocument()
+    expect(screen.queryByTestId('calendar-day-2026-03-16')).not.toBeInTheDocument()
+  })
+
+  it('opens a card when clicked', () => {
+    const { onFeatureClick } = setup([makeFeature({ id: 'a', content: '# Launch', dueDate: '2026-03-12' })])
+    fireEvent.click(screen.getByText('Launch'))
+    expect(onFeatureClick).toHaveBeenCalledWith(expect.objectContaining({ id: 'a' }))
+  })
+})
@@ -0,0 +1,37 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { fireEvent, render, screen } from '@testing-library/react'
+import { CommitList } from '../../../src/webview/components/CommitList'
+import { useStore } from '../../../src/webview/store'
+import type { CommitInfo } from '../../../src/shared/types'
+
+const initialState = useStore.getState()
+
+beforeEach(() => {
+  useStore.setState(initialState, true)
+})
+
+const COMMITS: CommitInfo[] = [
+  { hash: '0123456789abcdef0123456789abcdef01234567', author: 'Ada', date: '2026-03-01T10:00:00+01:00', subject: '[add-login] Add the form' },
+  { hash: 'fedcba9876543210fedcba9876543210fedcba98', author: 'Grace', date: '2026-02-28T09:00:00Z', subject: 'Validate add-login input' }
+]
+
+describe('CommitList', () => {
+  it('renders nothing without commits', () => {
+    const { container } = render(<CommitList commits={[]} onOpenCommit={() => {}} />)
+    expect(container.innerHTML).toBe('')
+  })
+
+  it('lists short hashes, subjects and authors, and opens a commit on click', () => {
+    const onOpenCommit = vi.fn()
+    render(<CommitList commits={COMMITS} onOpenCommit={onOpenCommit} />)
+
+    expect(screen.getByText('Commits')).toBeTruthy()
+    expect(screen.getByText('0123456')).toBeTruthy()
+    expect(screen.getByText('Validate add-login input')).toBeTruthy()
+    expect(screen.getByText(/Grace/)).toBeTruthy()
+
+    fireEvent.click(screen.getByText('[add-login] Add the form'))
+    expect(onOpenCommit).toHaveBeenCalledWith(COMMITS[0].hash)
+  })
+})
@@ -1,10 +1,20 @@
 // @vitest-environment jsdom
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, fireEvent } from '@testing-library/react'
 import { FeatureCard } from '../../../src/webview/components/FeatureCard'
 import { useStore } from '../../../src/webview/store'
 import type { Feature, CardDisplaySettings } from '../../../src/shared/types'
 
+// ---------------------------------------------------------------------------
+// Mock vscode API
+// ---------------------------------------------------------------------------
+
+const { mockPostMessage } = vi.hoisted(() => ({ mockPostMessage: vi.fn() }))
+
+vi.mock('../../../src/webview/vscodeApi', () => ({
+  vscode: { postMessage: mockPostMessage }
+}))
+
 // ---------------------------------------------------------------------------
 // Store reset
 // ---------------------------------------------------------------------------
@@ -13,6 +23,7 @@ const initialState = useStore.getState()
 
 beforeEach(() => {
   useStore.setState(initialState, true)
+  mockPostMessage.mockClear()
 })
 
 // ---------------------------------------------------------------------------
@@ -72,6 +83,12 @@ describe('FeatureCard — title', () => {
     render(<FeatureCard feature={makeFeature({ content: 'Plain title line' })} onClick={() => {}} />)
     expect(screen.getByRole('heading', { level: 3 })).toHaveTextContent('Plain title line')
   })
+
+  it('shows the card key next to the title', () => {
+    setSettings()
+    render(<FeatureCard feature={makeFeature({ key: 'KM-42' })} onClick={() => {}} />)
+    expect(screen.getByText('KM-42')).toBeInTheDocument()
+  })
 })
 
 // ---------------------------------------------------------------------------
@@ -186,6 +203,132 @@ describe('FeatureCard — assignee', () => {
   })
 })
 
+// ---------------------------------------------------------------------------
+// Custom fields
+// ---------------------------------------------------------------------------
+
+describe('FeatureCard — custom fields', () => {
+  it('shows chips only for fields marked showOnCard', () => {
+    setSettings()
+    useStore.setState({
+      customFieldDefs: [
+        { key: 'estimate', label: 'Estimate', type: 'number', showOnCard: true },
+        { key: 'team', label: 'Team', type: 'string', showOnCard: false }
+      ]
+    })
+    render(<FeatureCard feature={makeFeature({ customFields: { estimate: 5, team: 'core' } })} onClick={() => {}} />)
+    expect(screen.getByTitle('Estimate')).toHaveTextContent('Estimate: 5')
+    expect(screen.queryByTitle('Team')).not.toBeInTheDocument()
+  })
+
+  it('omits chips for empty values', () => {
+    setSettings()
+    useStore.setState({
+      customFieldDefs: [{ key: 'estimate', label: 'Estimate', type: 'number', showOnCard: true }]
+    })
+    render(<FeatureCard feature={makeFeature()} onClick={() => {}} />)
+    expect(screen.queryByTitle('Estimate')).not.toBeInTheDocument()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Dependencies
+// ---------------------------------------------------------------------------
+
+describe('FeatureCard — blocked badge', () => {
+  it('shows a blocked badge while a blocker is not done', () => {
+    setSettings()
+    const blocker = makeFeature({ id: 'api', status: 'todo', content: '# Build API' })
+    const card = makeFeature({ id: 'ui', blockedBy: ['api'] })
+    useStore.setState({ features: [blocker, card] })
+    render(<FeatureCard feature={card} onClick={() => {}} />)
+    expect(screen.getByTitle('Blocked by: Build API')).toHaveTextContent('Blocked')
+  })
+
+  it('hides the badge once every blocker is done', () => {
+    setSettings()
+    const blocker = makeFeature({ id: 'api', status: 'done', content: '# Build API' })
+    const card = makeFeature({ id: 'ui', blockedBy: ['api'] })
+    useStore.setState({ features: [blocker, card] })
+    render(<FeatureCard feature={card} onClick={() => {}} />)
+    expect(screen.queryByText('Blocked')).not.toBeInTheDocument()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Checklist
+// ---------------------------------------------------------------------------
+
+describe('FeatureCard — checklist', () => {
+  const content = '# Task\n\n- [x] Design\n- [ ] Build\n- [ ] Ship'
+
+  it('shows checklist progress', () => {
+    setSettings()
+    render(<FeatureCard feature={makeFeature({ content })} onClick={() => {}} />)
+    expect(screen.getByText('1/3')).toBeInTheDocument()
+  })
+
+  it('omits the progress bar without task items', () => {
+    setSettings()
+    render(<FeatureCard feature={makeFeature()} onClick={() => {}} />)
+    expect(screen.queryByRole('button', { name: /tasks done/ })).not.toBeInTheDocument()
+  })
+
+  it('toggles an item from the expanded list and saves the new content', () => {
+    setSettings()
+    let clicked = false
+    const feature = makeFeature({ content })
+    useStore.setState({ features: [feature] })
+    render(<FeatureCard feature={feature} onClick={() => { clicked = true }} />)
+
+    fireEvent.click(screen.getByRole('button', { name: '1/3 tasks done' }))
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Build' }))
+
+    const expected = '# Task\n\n- [x] Design\n- [x] Build\n- [ ] Ship'
+    expect(clicked).toBe(false)
+    expect(useStore.getState().features[0].content).toBe(expected)
+    expect(mockPostMessage).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'saveFeatureContent',
+      featureId: feature.id,
+      content: expected
+    }))
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Agent sessions
+// ---------------------------------------------------------------------------
+
+describe('FeatureCard — agent badge', () => {
+  it('shows a running agent and focuses its terminal without opening the card', () => {
+    setSettings()
+    useStore.setState({ agentSessions: { 'card-1': 'codex' } })
+    let clicked = false
+    render(<FeatureCard feature={makeFeature()} onClick={() => { clicked = true }} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Agent running' }))
+    expect(clicked).toBe(false)
+    expect(mockPostMessage).toHaveBeenCalledWith({ type: 'focusAgentTerminal', featureId: 'card-1' })
+  })
+
+  it('has no badge when no agent is running for the card', () => {
+    setSettings()
+    useStore.setState({ agentSessions: { 'other-card': 'claude' } })
+    render(<FeatureCard feature={makeFeature()} onClick={() => {}} />)
+    expect(screen.queryByRole('button', { name: 'Agent running' })).toBeNull()
+  })
+
+  it('names a custom agent by its configured name', () => {
+    setSettings()
+    useStore.setState({
+      agents: [{ id: 'gemini', name: 'Gemini CLI', command: 'gemini', args: ['{{prompt}}'], permissionModes: { default: [] } }],
+      agentSessions: { 'card-1': 'gemini' }
+    })
+    render(<FeatureCard feature={makeFeature()} onClick={() => {}} />)
+    expect(screen.getByRole('button', { name: 'Agent running' }).getAttribute('title')).toContain('Gemini CLI')
+  })
+})
+
 // ---------------------------------------------------------------------------
 // onClick
 // ---------------------------------------------------------------------------
@@ -4,7 +4,7 @@ import { render, screen, within, fireEvent } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { KanbanBoard } from '../../../src/webview/components/KanbanBoard'
 import { useStore } from '../../../src/webview/store'
-import type { Feature, KanbanColumn } from '../../../src/shared/types'
+import type { Feature, KanbanColumn, SwimlaneLane } from '../../../src/shared/types'
 
 // ---------------------------------------------------------------------------
 // Mock vscode API
@@ -59,19 +59,19 @@ function makeFeature(overrides: Partial<Feature> = {}): Feature {
 function setup(overrides: {
   onFeatureClick?: (feature: Feature) => void
   onAddFeature?: (status: string) => void
-  onMoveFeature?: (featureId: string, newStatus: string, newOrder: number) => void
-  epicFilter?: string | null
+  onMoveFeature?: (featureId: string, newStatus: string, newOrder: number, lane?: SwimlaneLane) => void
+  lane?: SwimlaneLane
 } = {}) {
   const onFeatureClick: (feature: Feature) => void = overrides.onFeatureClick ?? vi.fn()
   const onAddFeature: (status: string) => void     = overrides.onAddFeature   ?? vi.fn()
-  const onMoveFeature: (featureId: string, newStatus: string, newOrder: number) => void = overrides.onMoveFeature ?? vi.fn()
+  const onMoveFeature: (featureId: string, newStatus: string, newOrder: number, lane?: SwimlaneLane) => void = overrides.onMoveFeature ?? vi.fn()
   const user = userEvent.setup()
   render(
     <KanbanBoard
       onFeatureClick={onFeatureClick}
       onAddFeature={onAddFeature}
       onMoveFeature={onMoveFeature}
-      {...(overrides.epicFilter !== undefined ? { epicFilter: overrides.epicFilter } : {})}
+      {...(overrides.lane !== undefined ? { lane: overrides.lane } : {})}
     />
   )
   return { user, onFeatureClick, onAddFeature, onMoveFeature }
@@ -163,6 +163,19 @@ describe('KanbanBoard — feature count badge', () => {
     expect(badgeValues).toContain('1')
     expect(badgeValues).toContain('0')
   })
+
+  it('shows count against the WIP limit when one is set', () => {
+    useStore.setState({
+      columns: [{ ...DEFAULT_COLUMNS[0], wipLimit: 2 }, ...DEFAULT_COLUMNS.slice(1)],
+      features: [
+        makeFeature({ id: '1', status: 'backlog' }),
+        makeFeature({ id: '2', status: 'backlog' }),
+        makeFeature({ id: '3', status: 'backlog' }),
+      ]
+    })
+    setup()
+    expect(screen.getByText('3/2')).toBeInTheDocument()
+  })
 })
 
 // ---------------------------------------------------------------------------
@@ -180,6 +193,45 @@ describe('KanbanBoard — onFeatureClick', () => {
   })
 })
 
+describe('KanbanBoard — card selection', () => {
+  function setupCards() {
+    useStore.setState({
+      columns: DEFAULT_COLUMNS,
+      features: [
+        makeFeature({ id: 'a', status: 'backlog', order: 'a0', content: '# Card A' }),
+        makeFeature({ id: 'b', status: 'backlog', order: 'a1', content: '# Card B' }),
+        makeFeature({ id: 'c', status: 'todo', order: 'a0', content: '# Card C' }),
+        makeFeature({ id: 'd', status: 'done', order: 'a0', content: '# Card D' })
+      ]
+    })
+    return setup()
+  }
+  const card = (name: string) => screen.getByRole('heading', { level: 3, name })
+
+  it('toggles cards with ctrl/cmd-click instead of opening them', () => {
+    const { onFeatureClick } = setupCards()
+    fireEvent.click(card('Card A'), { ctrlKey: true })
+    fireEvent.click(card('Card C'), { metaKey: true })
+    expect(onFeatureClick).not.toHaveBeenCalled()
+    expect([...useStore.getState().selectedFeatureIds]).toEqual(['a', 'c'])
+  })
+
+  it('shift-click selects the visible cards between the anchor and the clicked card across columns', () => {
+    setupCards()
+    fireEvent.click(card('Card B'), { ctrlKey: true })
+    fireEvent.click(card('Card D'), { shiftKey: true })
+    expect([...useStore.getState().selectedFeatureIds].sort()).toEqual(['b', 'c', 'd'])
+  })
+
+  it('a plain click clears the selection and opens the card', () => {
+    const { onFeatureClick } = setupCards()
+    fireEvent.click(card('Card A'), { ctrlKey: true })
+    fireEvent.click(card('Card B'))
+    expect(useStore.getState().selectedFeatureIds.size).toBe(0)
+    expect(onFeatureClick).toHaveBeenCalledWith(expect.objectContaining({ id: 'b' }))
+  })
+})
+
 // ---------------------------------------------------------------------------
 // onAddFeature callback
 // ---------------------------------------------------------------------------
@@ -258,12 +310,12 @@ describe('KanbanBoard — moveAllCards', () => {
     })
   })
 
-  it('includes epicLane when the board is scoped to an epic swim lane', async () => {
+  it('includes the lane when the board is scoped to a swim lane', async () => {
     useStore.setState({
       columns: DEFAULT_COLUMNS,
       features: [makeFeature({ status: 'backlog', epic: 'Payments' })]
     })
-    const { user } = setup({ epicFilter: 'Payments' })
+    const { user } = setup({ lane: { groupBy: 'epic', value: 'Payments' } })
 
     const backlogSection = screen.getByTitle('Collapse Backlog').closest('[class*="rounded-lg"]') as HTMLElement
     const menuBtn = within(backlogSection).getByTitle('Column options')
@@ -278,11 +330,47 @@ describe('KanbanBoard — moveAllCards', () => {
       type: 'moveAllCards',
       sourceColumnId: 'backlog',
       targetColumnId: 'todo',
-      epicLane: 'Payments'
+      lane: { groupBy: 'epic', value: 'Payments' }
     })
   })
 })
 
+// ---------------------------------------------------------------------------
+// Swim lanes
+// ---------------------------------------------------------------------------
+
+describe('KanbanBoard — swim lanes', () => {
+  it('only shows cards in its lane', () => {
+    useStore.setState({
+      columns: DEFAULT_COLUMNS,
+      features: [
+        makeFeature({ id: 'a', content: '# Ana task', assignee: 'ana' }),
+        makeFeature({ id: 'b', content: '# Bo task', assignee: 'bo' })
+      ]
+    })
+    setup({ lane: { groupBy: 'assignee', value: 'bo' } })
+    expect(screen.getByText('Bo task')).toBeInTheDocument()
+    expect(screen.queryByText('Ana task')).not.toBeInTheDocument()
+  })
+
+  it('accepts a card dragged from another lane and passes the lane on', () => {
+    useStore.setState({
+      columns: DEFAULT_COLUMNS,
+      features: [
+        makeFeature({ id: 'a', content: '# Ana task', assignee: 'ana' }),
+        makeFeature({ id: 'b', content: '# Bo task', assignee: 'bo', status: 'todo' })
+      ]
+    })
+    const lane: SwimlaneLane = { groupBy: 'assignee', value: 'bo' }
+    const { onMoveFeature } = setup({ lane })
+
+    const todoColumn = screen.getByTitle('Collapse To Do').closest('[class*="rounded-lg"]') as HTMLElement
+    fireEvent.drop(todoColumn, { dataTransfer: { getData: () => 'a' } })
+
+    expect(onMoveFeature).toHaveBeenCalledWith('a', 'todo', 1, lane)
+  })
+})
+
 // ---------------------------------------------------------------------------
 // Archive all cards (done column only)
 // ---------------------------------------------------------------------------
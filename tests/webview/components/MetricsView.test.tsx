@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { MetricsView } from '../../../src/webview/components/MetricsView'
+import { useStore } from '../../../src/webview/store'
+import type { Feature, KanbanColumn } from '../../../src/shared/types'
+
+// ---------------------------------------------------------------------------
+// Store reset
+// ---------------------------------------------------------------------------
+
+const initialState = useStore.getState()
+
+beforeEach(() => {
+  useStore.setState(initialState, true)
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(new Date(2026, 2, 12, 12))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const COLUMNS: KanbanColumn[] = [
+  { id: 'todo', name: 'To Do', color: '#3b82f6', category: 'todo' },
+  { id: 'doing', name: 'Doing', color: '#f59e0b', category: 'active' },
+  { id: 'done', name: 'Done', color: '#22c55e', category: 'done' }
+]
+
+function makeFeature(overrides: Partial<Feature> = {}): Feature {
+  return {
+    id: 'feat-1',
+    status: 'todo',
+    priority: 'medium',
+    assignee: null,
+    epic: null,
+    dueDate: null,
+    created: new Date(2026, 2, 1).toISOString(),
+    modified: new Date(2026, 2, 1).toISOString(),
+    completedAt: null,
+    labels: [],
+    order: 'a0',
+    content: '# My Feature',
+    filePath: '/workspace/features/feat.md',
+    ...overrides
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('MetricsView', () => {
+  it('lists aging work in progress and opens a card from it', () => {
+    useStore.setState({
+      columns: COLUMNS,
+      features: [makeFeature({ id: 'a', status: 'doing', content: '# Started' }), makeFeature({ id: 'b' })]
+    })
+    const onFeatureClick = vi.fn()
+    render(<MetricsView onFeatureClick={onFeatureClick} />)
+
+    expect(screen.getByRole('img', { name: 'Cumulative flow (30 days)' })).toBeInTheDocument()
+    fireEvent.click(screen.getByText('Started'))
+    expect(onFeatureClick).toHaveBeenCalledWith(expect.objectContaining({ id: 'a' }))
+  })
+
+  it('summarizes lead times of finished cards', () => {
+    useStore.setState({
+      columns: COLUMNS,
+      features: [makeFeature({ status: 'done', completedAt: new Date(2026, 2, 3).toISOString() })]
+    })
+    render(<MetricsView onFeatureClick={vi.fn()} />)
+    expect(screen.getByText('Median 2.0d · 85th percentile 2.0d · 1 cards')).toBeInTheDocument()
+  })
+
+  it('filters every chart by epic', () => {
+    useStore.setState({
+      columns: COLUMNS,
+      features: [
+        makeFeature({ id: 'a', status: 'doing', epic: 'Pay', content: '# Pay work' }),
+        makeFeature({ id: 'b', status: 'doing', epic: 'Auth', content: '# Auth work' })
+      ]
+    })
+    render(<MetricsView onFeatureClick={vi.fn()} />)
+    fireEvent.change(screen.getByLabelText('Epic'), { target: { value: 'Pay' } })
+    expect(screen.getByText('Pay work')).toBeInTheDocument()
+    expect(screen.queryByText('Auth work')).not.toBeInTheDocument()
+    expect(screen.getByText('1 cards')).toBeInTheDocument()
+  })
+})
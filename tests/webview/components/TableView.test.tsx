@@ -0,0 +1,154 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, within, fireEvent } from '@testing-library/react'
+import { TableView } from '../../../src/webview/components/TableView'
+import { useStore } from '../../../src/webview/store'
+import type { Feature, KanbanColumn } from '../../../src/shared/types'
+
+// ---------------------------------------------------------------------------
+// Mock vscode API
+// ---------------------------------------------------------------------------
+
+const { mockPostMessage } = vi.hoisted(() => ({ mockPostMessage: vi.fn() }))
+
+vi.mock('../../../src/webview/vscodeApi', () => ({
+  vscode: { postMessage: mockPostMessage }
+}))
+
+// ---------------------------------------------------------------------------
+// Store reset
+// ---------------------------------------------------------------------------
+
+const initialState = useStore.getState()
+
+beforeEach(() => {
+  useStore.setState(initialState, true)
+  mockPostMessage.mockClear()
+})
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const COLUMNS: KanbanColumn[] = [
+  { id: 'todo', name: 'To Do', color: '#3b82f6' },
+  { id: 'done', name: 'Done', color: '#22c55e' }
+]
+
+function makeFeature(overrides: Partial<Feature> = {}): Feature {
+  return {
+    id: 'feat-1',
+    status: 'todo',
+    priority: 'medium',
+    assignee: null,
+    epic: null,
+    dueDate: null,
+    created: '2026-01-01T00:00:00.000Z',
+    modified: '2026-01-01T00:00:00.000Z',
+    completedAt: null,
+    labels: [],
+    order: 'a0',
+    content: '# My Feature',
+    filePath: '/workspace/features/feat.md',
+    ...overrides
+  }
+}
+
+function setup(features: Feature[]) {
+  useStore.setState({ columns: COLUMNS, features })
+  const onFeatureClick = vi.fn()
+  const onUpdateFeature = vi.fn()
+  render(<TableView onFeatureClick={onFeatureClick} onUpdateFeature={onUpdateFeature} />)
+  return { onFeatureClick, onUpdateFeature }
+}
+
+const rowTitles = () =>
+  screen.getAllByRole('row').slice(1).map((row) => within(row).getAllByRole('button')[0].textContent)
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('TableView — rows', () => {
+  it('renders one row per filtered feature', () => {
+    setup([
+      makeFeature({ id: 'a', content: '# Alpha', priority: 'high', order: 'a0' }),
+      makeFeature({ id: 'b', content: '# Beta', priority: 'low', order: 'a1' })
+    ])
+    expect(rowTitles()).toEqual(['Alpha', 'Beta'])
+
+    useStore.getState().setPriorityFilter('low')
+    expect(useStore.getState().getFilteredFeatures()).toHaveLength(1)
+  })
+
+  it('opens a feature from its title', () => {
+    const { onFeatureClick } = setup([makeFeature({ id: 'a', content: '# Alpha' })])
+    fireEvent.click(screen.getByText('Alpha'))
+    expect(onFeatureClick).toHaveBeenCalledWith(expect.objectContaining({ id: 'a' }))
+  })
+})
+
+describe('TableView — sorting', () => {
+  it('cycles ascending, descending and board order on header clicks', () => {
+    setup([
+      makeFeature({ id: 'b', content: '# Beta', order: 'a0' }),
+      makeFeature({ id: 'a', content: '# Alpha', order: 'a1' })
+    ])
+    const header = screen.getByRole('button', { name: 'Title' })
+    fireEvent.click(header)
+    expect(rowTitles()).toEqual(['Alpha', 'Beta'])
+    fireEvent.click(header)
+    expect(rowTitles()).toEqual(['Beta', 'Alpha'])
+    fireEvent.click(header)
+    expect(rowTitles()).toEqual(['Beta', 'Alpha'])
+  })
+})
+
+describe('TableView — inline editing', () => {
+  it('dispatches status and priority changes', () => {
+    const { onUpdateFeature } = setup([makeFeature({ id: 'a' })])
+    fireEvent.change(screen.getByLabelText('Status'), { target: { value: 'done' } })
+    expect(onUpdateFeature).toHaveBeenCalledWith('a', { status: 'done' })
+    fireEvent.change(screen.getByLabelText('Priority'), { target: { value: 'critical' } })
+    expect(onUpdateFeature).toHaveBeenCalledWith('a', { priority: 'critical' })
+  })
+
+  it('commits text cells on Enter', () => {
+    const { onUpdateFeature } = setup([makeFeature({ id: 'a', labels: ['ui'] })])
+    fireEvent.click(screen.getByText('ui'))
+    const input = screen.getByDisplayValue('ui')
+    fireEvent.change(input, { target: { value: 'ui, bug' } })
+    fireEvent.keyDown(input, { key: 'Enter' })
+    expect(onUpdateFeature).toHaveBeenCalledWith('a', { labels: ['ui', 'bug'] })
+  })
+
+  it('clears the due date', () => {
+    const { onUpdateFeature } = setup([makeFeature({ id: 'a', dueDate: '2026-03-01' })])
+    fireEvent.change(screen.getByLabelText('Due date'), { target: { value: '' } })
+    expect(onUpdateFeature).toHaveBeenCalledWith('a', { dueDate: null })
+  })
+})
+
+describe('TableView — columns and selection', () => {
+  it('hides a column and persists the choice', () => {
+    setup([makeFeature()])
+    fireEvent.click(screen.getByText('Columns'))
+    fireEvent.click(screen.getByLabelText('Epic'))
+    expect(screen.queryByRole('button', { name: 'Epic' })).not.toBeInTheDocument()
+    expect(mockPostMessage).toHaveBeenCalledWith({ type: 'setHiddenTableColumns', columns: ['epic'] })
+  })
+
+  it('selects rows individually, by shift-click range and all at once', () => {
+    setup([
+      makeFeature({ id: 'a', content: '# Alpha', order: 'a0' }),
+      makeFeature({ id: 'b', content: '# Beta', order: 'a1' }),
+      makeFeature({ id: 'c', content: '# Gamma', order: 'a2' })
+    ])
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Alpha' }))
+    expect(screen.getByText('1 selected')).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Gamma' }), { shiftKey: true })
+    expect(screen.getByText('3 selected')).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Select all' }))
+    expect(screen.getByText('3 cards')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getCalendarDays,
+  getDueDateKey,
+  shiftAnchor,
+  startOfWeek,
+  toDateKey
+} from '../../../src/webview/lib/calendar'
+
+describe('toDateKey / getDueDateKey', () => {
+  it('formats local dates as YYYY-MM-DD', () => {
+    expect(toDateKey(new Date(2026, 0, 5))).toBe('2026-01-05')
+  })
+
+  it('reads the day from plain and timestamped due dates', () => {
+    expect(getDueDateKey('2026-03-01')).toBe('2026-03-01')
+    expect(getDueDateKey('2026-03-01T09:00:00.000Z')).toBe('2026-03-01')
+    expect(getDueDateKey(null)).toBeNull()
+    expect(getDueDateKey('soon')).toBeNull()
+  })
+})
+
+describe('startOfWeek', () => {
+  it('returns the Monday of the week', () => {
+    // 2026-03-01 is a Sunday
+    expect(toDateKey(startOfWeek(new Date(2026, 2, 1)))).toBe('2026-02-23')
+    expect(toDateKey(startOfWeek(new Date(2026, 2, 2)))).toBe('2026-03-02')
+  })
+})
+
+describe('getCalendarDays', () => {
+  it('covers whole weeks around the month', () => {
+    const days = getCalendarDays(new Date(2026, 2, 15), 'month')
+    expect(days.length % 7).toBe(0)
+    expect(toDateKey(days[0])).toBe('2026-02-23')
+    expect(toDateKey(days[days.length - 1])).toBe('2026-04-05')
+  })
+
+  it('returns seven days for the week view', () => {
+    const days = getCalendarDays(new Date(2026, 2, 4), 'week')
+    expect(days.map(toDateKey)).toEqual([
+      '2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06', '2026-03-07', '2026-03-08'
+    ])
+  })
+})
+
+describe('shiftAnchor', () => {
+  it('moves by months without overflowing short months', () => {
+    expect(toDateKey(shiftAnchor(new Date(2026, 0, 31), 'month', 1))).toBe('2026-02-01')
+    expect(toDateKey(shiftAnchor(new Date(2026, 0, 31), 'month', -1))).toBe('2025-12-01')
+  })
+
+  it('moves by weeks', () => {
+    expect(toDateKey(shiftAnchor(new Date(2026, 2, 4), 'week', 1))).toBe('2026-03-11')
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import {
+  filterMetricsFeatures,
+  getAgingWip,
+  getCumulativeFlow,
+  getCycleTimeDays,
+  getDurationHistogram,
+  getLeadTimeDays,
+  getStatusAt,
+  getWeeklyThroughput,
+  stackCumulativeFlow,
+  summarizeDurations
+} from '../../../src/webview/lib/metrics'
+import type { Feature, KanbanColumn } from '../../../src/shared/types'
+
+const COLUMNS: KanbanColumn[] = [
+  { id: 'todo', name: 'To Do', color: '#000', category: 'todo' },
+  { id: 'doing', name: 'Doing', color: '#111', category: 'active' },
+  { id: 'done', name: 'Done', color: '#222', category: 'done' }
+]
+
+// Local-time ISO timestamp for a day in March 2026
+const at = (day: number, hour = 12) => new Date(2026, 2, day, hour).toISOString()
+
+function makeFeature(overrides: Partial<Feature> = {}): Feature {
+  return {
+    id: 'f',
+    status: 'todo',
+    priority: 'medium',
+    assignee: null,
+    epic: null,
+    dueDate: null,
+    created: at(1),
+    modified: at(1),
+    completedAt: null,
+    labels: [],
+    order: 'a0',
+    content: '# F',
+    filePath: '/f.md',
+    ...overrides
+  }
+}
+
+const finished = makeFeature({
+  id: 'finished',
+  status: 'done',
+  created: at(1),
+  completedAt: at(11),
+  statusHistory: [
+    { status: 'todo', at: at(1) },
+    { status: 'doing', at: at(5) },
+    { status: 'done', at: at(11) }
+  ]
+})
+
+describe('filterMetricsFeatures', () => {
+  it('filters by epic, assignee and label together', () => {
+    const features = [
+      makeFeature({ id: 'a', epic: 'Pay', assignee: 'ana', labels: ['ui'] }),
+      makeFeature({ id: 'b', epic: 'Pay', assignee: 'bo' }),
+      makeFeature({ id: 'c', epic: 'Auth', assignee: 'ana', labels: ['ui'] })
+    ]
+    expect(filterMetricsFeatures(features, { epic: 'Pay', assignee: 'all', label: 'all' }).map(f => f.id)).toEqual(['a', 'b'])
+    expect(filterMetricsFeatures(features, { epic: 'all', assignee: 'ana', label: 'ui' }).map(f => f.id)).toEqual(['a', 'c'])
+  })
+})
+
+describe('lead and cycle time', () => {
+  it('measures from creation and from first active status to completion', () => {
+    expect(getLeadTimeDays(finished, COLUMNS)).toBe(10)
+    expect(getCycleTimeDays(finished, COLUMNS)).toBe(6)
+  })
+
+  it('is null for unfinished work or work that was never started', () => {
+    expect(getLeadTimeDays(makeFeature(), COLUMNS)).toBeNull()
+    const skipped = makeFeature({ status: 'done', completedAt: at(3), statusHistory: [{ status: 'todo', at: at(1) }, { status: 'done', at: at(3) }] })
+    expect(getCycleTimeDays(skipped, COLUMNS)).toBeNull()
+  })
+})
+
+describe('summarizeDurations / getDurationHistogram', () => {
+  it('reports the median and nearest-rank 85th percentile', () => {
+    expect(summarizeDurations([5, 1, 3, 2, 4])).toEqual({ count: 5, median: 3, p85: 5 })
+    expect(summarizeDurations([])).toEqual({ count: 0, median: null, p85: null })
+  })
+
+  it('buckets durations by day ranges', () => {
+    expect(getDurationHistogram([0.5, 2, 2.5, 10, 40])).toEqual([1, 2, 0, 1, 0, 1])
+  })
+})
+
+describe('getStatusAt / getCumulativeFlow', () => {
+  it('replays the status history', () => {
+    expect(getStatusAt(finished, Date.parse(at(1)) - 1)).toBeNull()
+    expect(getStatusAt(finished, Date.parse(at(6)))).toBe('doing')
+  })
+
+  it('counts cards per column at the end of each day', () => {
+    const flow = getCumulativeFlow([finished, makeFeature({ id: 'new', created: at(10) })], COLUMNS, 3, new Date(2026, 2, 11, 18))
+    expect(flow.map(p => p.date)).toEqual(['2026-03-09', '2026-03-10', '2026-03-11'])
+    expect(flow[0].counts).toEqual({ todo: 0, doing: 1, done: 0 })
+    expect(flow[1].counts).toEqual({ todo: 1, doing: 1, done: 0 })
+    expect(flow[2].counts).toEqual({ todo: 1, doing: 0, done: 1 })
+  })
+
+  it('stacks bands on top of each other', () => {
+    const points = [{ date: '2026-03-01', counts: { todo: 2, done: 1 } }]
+    expect(stackCumulativeFlow(points, ['done', 'todo'])).toEqual([
+      { columnId: 'done', lower: [0], upper: [1] },
+      { columnId: 'todo', lower: [1], upper: [3] }
+    ])
+  })
+})
+
+describe('getWeeklyThroughput', () => {
+  it('counts completions per Monday-based week', () => {
+    const another = makeFeature({ id: 'x', status: 'done', completedAt: at(3) })
+    const weeks = getWeeklyThroughput([finished, another], COLUMNS, 2, new Date(2026, 2, 12))
+    expect(weeks).toEqual([
+      { weekStart: '2026-03-02', count: 1 },
+      { weekStart: '2026-03-09', count: 1 }
+    ])
+  })
+})
+
+describe('getAgingWip', () => {
+  it('lists active cards by days in their current column, oldest first', () => {
+    const recent = makeFeature({ id: 'recent', status: 'doing', statusHistory: [{ status: 'todo', at: at(1) }, { status: 'doing', at: at(9) }] })
+    const old = makeFeature({ id: 'old', status: 'doing', created: at(2) })
+    const aging = getAgingWip([recent, old, makeFeature()], COLUMNS, new Date(2026, 2, 10, 12))
+    expect(aging.map(a => [a.feature.id, a.days])).toEqual([['old', 8], ['recent', 1]])
+  })
+})
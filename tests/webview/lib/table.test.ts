@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { parseLabelsInput, sortFeatures } from '../../../src/webview/lib/table'
+import type { Feature, KanbanColumn } from '../../../src/shared/types'
+
+const COLUMNS: KanbanColumn[] = [
+  { id: 'todo', name: 'To Do', color: '#000' },
+  { id: 'doing', name: 'Doing', color: '#111' },
+  { id: 'done', name: 'Done', color: '#222' }
+]
+
+function makeFeature(id: string, overrides: Partial<Feature> = {}): Feature {
+  return {
+    id,
+    status: 'todo',
+    priority: 'medium',
+    assignee: null,
+    epic: null,
+    dueDate: null,
+    created: '2026-01-01T00:00:00.000Z',
+    modified: '2026-01-01T00:00:00.000Z',
+    completedAt: null,
+    labels: [],
+    order: 'a0',
+    content: `# ${id}`,
+    filePath: `/workspace/features/${id}.md`,
+    ...overrides
+  }
+}
+
+const ids = (features: Feature[]) => features.map(f => f.id)
+
+describe('sortFeatures', () => {
+  it('sorts titles case-insensitively in both directions', () => {
+    const features = [makeFeature('beta'), makeFeature('Alpha'), makeFeature('gamma')]
+    expect(ids(sortFeatures(features, { column: 'title', direction: 'asc' }, COLUMNS))).toEqual(['Alpha', 'beta', 'gamma'])
+    expect(ids(sortFeatures(features, { column: 'title', direction: 'desc' }, COLUMNS))).toEqual(['gamma', 'beta', 'Alpha'])
+  })
+
+  it('sorts statuses in column order and priorities by severity', () => {
+    const features = [
+      makeFeature('a', { status: 'done', priority: 'low' }),
+      makeFeature('b', { status: 'todo', priority: 'critical' }),
+      makeFeature('c', { status: 'doing', priority: 'high' })
+    ]
+    expect(ids(sortFeatures(features, { column: 'status', direction: 'asc' }, COLUMNS))).toEqual(['b', 'c', 'a'])
+    expect(ids(sortFeatures(features, { column: 'priority', direction: 'asc' }, COLUMNS))).toEqual(['b', 'c', 'a'])
+  })
+
+  it('keeps empty values last in either direction', () => {
+    const features = [
+      makeFeature('none'),
+      makeFeature('early', { dueDate: '2026-01-01' }),
+      makeFeature('late', { dueDate: '2026-06-01' })
+    ]
+    expect(ids(sortFeatures(features, { column: 'dueDate', direction: 'asc' }, COLUMNS))).toEqual(['early', 'late', 'none'])
+    expect(ids(sortFeatures(features, { column: 'dueDate', direction: 'desc' }, COLUMNS))).toEqual(['late', 'early', 'none'])
+  })
+
+  it('does not mutate the input', () => {
+    const features = [makeFeature('b'), makeFeature('a')]
+    sortFeatures(features, { column: 'title', direction: 'asc' }, COLUMNS)
+    expect(ids(features)).toEqual(['b', 'a'])
+  })
+})
+
+describe('parseLabelsInput', () => {
+  it('splits, trims and de-duplicates labels', () => {
+    expect(parseLabelsInput(' ui, bug ,, ui ')).toEqual(['ui', 'bug'])
+    expect(parseLabelsInput('')).toEqual([])
+  })
+})
@@ -153,6 +153,13 @@ describe('getFilteredFeaturesByStatus', () => {
     expect(results[0].id).toBe('searchable')
   })
 
+  it('filters by search query against the card key', () => {
+    useStore.getState().addFeature(makeFeature({ id: 'keyed', status: 'todo', key: 'KM-42', order: 'a4' }))
+    useStore.setState({ searchQuery: 'km-42' })
+    const results = useStore.getState().getFilteredFeaturesByStatus('todo')
+    expect(results.map(f => f.id)).toEqual(['keyed'])
+  })
+
   it('filters by search query against assignee', () => {
     useStore.setState({ searchQuery: 'alice' })
     const results = useStore.getState().getFilteredFeaturesByStatus('todo')
@@ -176,6 +183,25 @@ describe('getFilteredFeaturesByStatus', () => {
     expect(ids).toContain('overdue')
     expect(ids).not.toContain('future')
   })
+
+  it('never treats features in a done-category column as overdue', () => {
+    useStore.setState({
+      columns: [{ id: 'shipped', name: 'Shipped', color: '#000', category: 'done' }],
+      dueDateFilter: 'overdue'
+    })
+    useStore.getState().addFeature(makeFeature({ id: 'late-but-shipped', status: 'shipped', dueDate: '2020-01-01' }))
+    expect(useStore.getState().getFilteredFeaturesByStatus('shipped')).toEqual([])
+  })
+})
+
+describe('getFilteredFeatures', () => {
+  it('returns matching features from every status, sorted by order', () => {
+    useStore.getState().addFeature(makeFeature({ id: 'b', status: 'done', priority: 'high', order: 'a2' }))
+    useStore.getState().addFeature(makeFeature({ id: 'a', status: 'todo', priority: 'high', order: 'a1' }))
+    useStore.getState().addFeature(makeFeature({ id: 'c', status: 'todo', priority: 'low', order: 'a0' }))
+    useStore.getState().setPriorityFilter('high')
+    expect(useStore.getState().getFilteredFeatures().map((f) => f.id)).toEqual(['a', 'b'])
+  })
 })
 
 // ---------------------------------------------------------------------------
@@ -264,18 +290,147 @@ describe('getUniqueEpics', () => {
   })
 })
 
-describe('epic lane filtering', () => {
+describe('swimlane filtering', () => {
   it('getFilteredFeaturesByStatus respects named epic lane', () => {
     useStore.getState().addFeature(makeFeature({ id: 'a', status: 'todo', epic: 'One' }))
     useStore.getState().addFeature(makeFeature({ id: 'b', status: 'todo', epic: 'Two' }))
-    const lane = useStore.getState().getFilteredFeaturesByStatus('todo', 'One')
+    const lane = useStore.getState().getFilteredFeaturesByStatus('todo', { groupBy: 'epic', value: 'One' })
     expect(lane.map(f => f.id)).toEqual(['a'])
   })
 
   it('getFilteredFeaturesByStatus with null lane matches tickets without epic', () => {
     useStore.getState().addFeature(makeFeature({ id: 'a', status: 'todo', epic: 'One' }))
     useStore.getState().addFeature(makeFeature({ id: 'b', status: 'todo', epic: null }))
-    const lane = useStore.getState().getFilteredFeaturesByStatus('todo', null)
+    const lane = useStore.getState().getFilteredFeaturesByStatus('todo', { groupBy: 'epic', value: null })
     expect(lane.map(f => f.id)).toEqual(['b'])
   })
+
+  it('getFeaturesByStatus respects assignee lanes', () => {
+    useStore.getState().addFeature(makeFeature({ id: 'a', status: 'todo', assignee: 'ana' }))
+    useStore.getState().addFeature(makeFeature({ id: 'b', status: 'todo', assignee: 'bo' }))
+    const lane = useStore.getState().getFeaturesByStatus('todo', { groupBy: 'assignee', value: 'bo' })
+    expect(lane.map(f => f.id)).toEqual(['b'])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Custom fields
+// ---------------------------------------------------------------------------
+
+describe('custom field filters', () => {
+  beforeEach(() => {
+    useStore.setState({
+      customFieldDefs: [{ key: 'size', label: 'Size', type: 'enum', options: ['S', 'L'], showOnCard: true }],
+      features: [
+        makeFeature({ id: 'small', customFields: { size: 'S' } }),
+        makeFeature({ id: 'large', customFields: { size: 'L' } }),
+        makeFeature({ id: 'unsized' })
+      ]
+    })
+  })
+
+  it('filters by a custom field value', () => {
+    useStore.getState().setCustomFieldFilter('size', 'L')
+    expect(useStore.getState().getFilteredFeaturesByStatus('todo').map(f => f.id)).toEqual(['large'])
+    expect(useStore.getState().hasActiveFilters()).toBe(true)
+  })
+
+  it('filters features without a value', () => {
+    useStore.getState().setCustomFieldFilter('size', '__none__')
+    expect(useStore.getState().getFilteredFeaturesByStatus('todo').map(f => f.id)).toEqual(['unsized'])
+  })
+
+  it('matches custom field values in search', () => {
+    useStore.setState({ searchQuery: 's' })
+    expect(useStore.getState().getFilteredFeaturesByStatus('todo').map(f => f.id)).toContain('small')
+  })
+
+  it('is reset by clearAllFilters and when the field is removed', () => {
+    useStore.getState().setCustomFieldFilter('size', 'S')
+    useStore.getState().clearAllFilters()
+    expect(useStore.getState().customFieldFilters).toEqual({})
+
+    useStore.getState().setCustomFieldFilter('size', 'S')
+    useStore.getState().setCustomFieldDefs([])
+    expect(useStore.getState().customFieldFilters).toEqual({})
+  })
+
+  it('returns sorted unique values for a field', () => {
+    expect(useStore.getState().getUniqueCustomFieldValues('size')).toEqual(['L', 'S'])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Table columns
+// ---------------------------------------------------------------------------
+
+describe('table columns', () => {
+  it('toggles a column in and out of the hidden list', () => {
+    useStore.getState().toggleTableColumn('epic')
+    expect(useStore.getState().hiddenTableColumns).toEqual(['epic'])
+    useStore.getState().toggleTableColumn('epic')
+    expect(useStore.getState().hiddenTableColumns).toEqual([])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Card selection
+// ---------------------------------------------------------------------------
+
+describe('card selection', () => {
+  const ids = ['a', 'b', 'c', 'd']
+
+  it('toggles cards in and out of the selection', () => {
+    useStore.getState().toggleFeatureSelected('a')
+    useStore.getState().toggleFeatureSelected('b')
+    useStore.getState().toggleFeatureSelected('a')
+    expect([...useStore.getState().selectedFeatureIds]).toEqual(['b'])
+    expect(useStore.getState().selectionAnchorId).toBe('a')
+  })
+
+  it('selects the range from the anchor in either direction', () => {
+    useStore.getState().toggleFeatureSelected('c')
+    useStore.getState().selectFeatureRange(ids, 'a')
+    expect([...useStore.getState().selectedFeatureIds].sort()).toEqual(['a', 'b', 'c'])
+  })
+
+  it('toggles the card when there is no anchor in the list', () => {
+    useStore.getState().selectFeatureRange(ids, 'b')
+    expect([...useStore.getState().selectedFeatureIds]).toEqual(['b'])
+    useStore.getState().toggleFeatureSelected('x')
+    useStore.getState().selectFeatureRange(ids, 'd')
+    expect([...useStore.getState().selectedFeatureIds].sort()).toEqual(['b', 'd', 'x'])
+  })
+
+  it('clears the selection and anchor', () => {
+    useStore.getState().toggleFeatureSelected('a')
+    useStore.getState().clearFeatureSelection()
+    expect(useStore.getState().selectedFeatureIds.size).toBe(0)
+    expect(useStore.getState().selectionAnchorId).toBeNull()
+  })
+
+  it('drops selected cards that disappear from the board', () => {
+    useStore.getState().toggleFeatureSelected('f1')
+    useStore.getState().toggleFeatureSelected('gone')
+    useStore.getState().setFeatures([makeFeature({ id: 'f1' })])
+    expect([...useStore.getState().selectedFeatureIds]).toEqual(['f1'])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Archived cards
+// ---------------------------------------------------------------------------
+
+describe('archived cards', () => {
+  it('applies the toolbar filters to a given list of cards', () => {
+    useStore.getState().setFeatures([makeFeature({ id: 'active', priority: 'high' })])
+    useStore.getState().setArchivedFeatures([
+      makeFeature({ id: 'old-high', priority: 'high' }),
+      makeFeature({ id: 'old-low', priority: 'low' })
+    ])
+    useStore.getState().setPriorityFilter('high')
+    const { archivedFeatures, getFilteredFeatures } = useStore.getState()
+    expect(getFilteredFeatures(archivedFeatures).map(f => f.id)).toEqual(['old-high'])
+    expect(getFilteredFeatures().map(f => f.id)).toEqual(['active'])
+  })
 })
@@ -15,7 +15,8 @@ export default defineConfig({
     environmentMatchGlobs: [
       ['tests/webview/**', 'jsdom'],
       ['tests/shared/**', 'node'],
-      ['tests/extension/**', 'node']
+      ['tests/extension/**', 'node'],
+      ['tests/cli/**', 'node']
     ],
     // Default environment for any test not matched above
     environment: 'node',